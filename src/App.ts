@@ -19,6 +19,30 @@ import { LoadingScreen } from './ui/LoadingScreen.js';
 import { FirestoreService } from './data/FirestoreService.js';
 import { NotificationManager } from './ui/NotificationManager.js';
 import { StatsLandingPage } from './ui/StatsLandingPage.js';
+import { EditorPanel } from './ui/EditorPanel.js';
+import { LevelEditor } from './editor/LevelEditor.js';
+import { createDailyChallenge, getChallengeDate } from './game/DailyChallenge.js';
+import { ReplayViewer } from './ui/ReplayViewer.js';
+import { PauseMenu } from './ui/PauseMenu.js';
+import { ResumePrompt } from './ui/ResumePrompt.js';
+import { KeyboardHelp } from './ui/KeyboardHelp.js';
+import { KeyAction, KeyBindings } from './input/KeyBindings.js';
+import { KeyboardController } from './input/KeyboardController.js';
+import { ITheme, ThemeId, THEMES } from './theme/Theme.js';
+import { ThemeManager } from './theme/ThemeManager.js';
+import {
+    AccessibilitySettings,
+    COLOR_PALETTES,
+    IAccessibilityOptions,
+} from './accessibility/AccessibilitySettings.js';
+import { AccessibilityPanel } from './ui/AccessibilityPanel.js';
+import { PlayerIdentity } from './game/PlayerIdentity.js';
+import { I18n, LOCALES, t } from './i18n/I18n.js';
+import { Locale, MessageKey } from './i18n/catalog.js';
+
+// Screen pixels per second the held arrow keys pan the camera and steer the keyboard cursor
+const KEYBOARD_PAN_SPEED = 500;
+const KEYBOARD_CURSOR_SPEED = 350;
 
 /**
  * Request landscape orientation using the Screen Orientation API
@@ -61,7 +85,7 @@ function isIOSDevice(): boolean {
 function toggleFullscreen() {
     // iOS doesn't support fullscreen API
     if (isIOSDevice()) {
-        alert('Fullscreen mode is not supported on iOS devices.\n\nFor a fullscreen experience, add this page to your home screen:\n1. Tap the Share button\n2. Select "Add to Home Screen"');
+        alert(t('page.fullscreenIos'));
         return;
     }
 
@@ -83,8 +107,7 @@ function toggleFullscreen() {
             // IE/Edge
             docEl.msRequestFullscreen();
         } else {
-            console.log('Fullscreen API not supported on this device');
-            alert('Fullscreen mode is not supported on this device.');
+            alert(t('page.fullscreenUnsupported'));
         }
     } else {
         // Exit fullscreen
@@ -116,11 +139,13 @@ function updateFullscreenButton() {
         if (isFullscreen) {
             fullscreenBtn.classList.add('active');
             fullscreenBtn.textContent = '⛶'; // Exit fullscreen icon
-            fullscreenBtn.title = 'Exit Fullscreen';
+            fullscreenBtn.dataset.i18nTitle = 'page.exitFullscreen';
+            fullscreenBtn.title = t('page.exitFullscreen');
         } else {
             fullscreenBtn.classList.remove('active');
             fullscreenBtn.textContent = '⛶'; // Enter fullscreen icon
-            fullscreenBtn.title = 'Enter Fullscreen';
+            fullscreenBtn.dataset.i18nTitle = 'page.enterFullscreen';
+            fullscreenBtn.title = t('page.enterFullscreen');
         }
     }
 }
@@ -139,29 +164,42 @@ const sketch = (p: p5) => {
     let levelsPanel: LevelsPanel;
     let firestoreService: FirestoreService;
     let statsLandingPage: StatsLandingPage;
+    let levelEditor: LevelEditor;
+    let editorPanel: EditorPanel;
+    let replayViewer: ReplayViewer;
+    let pauseMenu: PauseMenu;
+    let keyboard: KeyboardController;
+    let keyboardHelp: KeyboardHelp;
+    // Whether opening the keyboard help paused the game, to continue it on closing
+    let pausedForHelp = false;
     let isGameInitialized = false;
-    let backgroundImage: p5.Image | null = null;
+    // Theme background images by file name, once loaded
+    const backgroundImages = new Map<string, p5.Image>();
+    const requestedBackgrounds = new Set<string>();
 
     /**
-     * Load background image with fallback paths
+     * Load a background image from assets/ with fallback paths, once
      */
-    const loadBackgroundImage = () => {
+    const loadBackgroundImage = (file: string) => {
+        if (requestedBackgrounds.has(file)) return;
+        requestedBackgrounds.add(file);
+
         // Try loading from both possible paths
         // First try relative path (for local development)
         p.loadImage(
-            '../assets/background.png',
+            `../assets/${file}`,
             (img) => {
-                console.log('Background loaded from ../assets/background.png');
-                backgroundImage = img;
+                console.log(`Background loaded from ../assets/${file}`);
+                backgroundImages.set(file, img);
             },
             () => {
                 // If that fails, try the deployment path
-                console.log('Trying alternative path: ./assets/background.png');
+                console.log(`Trying alternative path: ./assets/${file}`);
                 p.loadImage(
-                    './assets/background.png',
+                    `./assets/${file}`,
                     (img) => {
-                        console.log('Background loaded from ./assets/background.png');
-                        backgroundImage = img;
+                        console.log(`Background loaded from ./assets/${file}`);
+                        backgroundImages.set(file, img);
                     },
                     (err) => {
                         console.error('Failed to load background image from both paths', err);
@@ -172,44 +210,38 @@ const sketch = (p: p5) => {
     };
 
     /**
-     * Check if any panel/overlay is currently visible
+     * Load the background image of the current theme, and of each theme switched to
      */
-    const isAnyPanelVisible = (): boolean => {
-        // Check if login panel is visible
-        const loginPanel = document.getElementById('login-panel');
-        if (loginPanel && loginPanel.style.display !== 'none') {
-            return true;
-        }
-
-        // Check if stats landing page is visible
-        const statsPanel = document.getElementById('stats-landing-panel');
-        if (statsPanel && statsPanel.style.display !== 'none') {
-            return true;
-        }
-
-        // Check if levels panel is visible
-        if (levelsPanel && levelsPanel.isVisible()) {
-            return true;
-        }
-
-        // Check if result panel is visible
-        const resultPanel = document.getElementById('result-panel');
-        if (resultPanel && resultPanel.style.display !== 'none') {
-            return true;
-        }
+    const loadThemeBackgrounds = () => {
+        const themeManager = ThemeManager.getInstance();
+        const load = (theme: ITheme) => {
+            if (theme.background.image) {
+                loadBackgroundImage(theme.background.image);
+            }
+        };
+        load(themeManager.getTheme());
+        themeManager.onChange(load);
+    };
 
-        return false;
+    /**
+     * Check if a pointer event started on the canvas rather than on a panel or button
+     */
+    const isCanvasEvent = (event?: object): boolean => {
+        return !event || (event as Event).target instanceof HTMLCanvasElement;
     };
 
     p.setup = () => {
         p.createCanvas(p.windowWidth, p.windowHeight);
 
         // Load background image with fallback
-        loadBackgroundImage();
+        loadThemeBackgrounds();
 
         // Request landscape orientation on mobile devices
         requestLandscapeOrientation();
 
+        // Translate the page and fill the language picker
+        setupLanguageControls();
+
         // Initialize Firestore service
         firestoreService = new FirestoreService();
 
@@ -233,7 +265,7 @@ const sketch = (p: p5) => {
         loginScreen.hide();
 
         // Show loading screen
-        loadingScreen.show('Loading your game data...');
+        loadingScreen.show(t('loading.gameData'));
 
         // Small delay for UI update
         await new Promise(resolve => setTimeout(resolve, 100));
@@ -267,7 +299,16 @@ const sketch = (p: p5) => {
                 levelsPanel.show();
                 updateLevelsMenuButton();
             });
-            statsLandingPage.show();
+            statsLandingPage.setOnDailyChallengeCallback((practice) =>
+                startDailyChallenge(practice),
+            );
+            statsLandingPage.setOnEndlessCallback(() => {
+                statsLandingPage.hide();
+                gameState.startEndlessRun();
+                updateLevelsMenuButton();
+            });
+            showStatsLandingPage();
+            offerSavedGame();
             await statsLandingPage.loadAndDisplayStats();
         } catch (error) {
             console.error('Error loading game data:', error);
@@ -276,6 +317,49 @@ const sketch = (p: p5) => {
         }
     };
 
+    /**
+     * Show the landing page, with today's daily challenge attempt marked as used if it is
+     */
+    const showStatsLandingPage = () => {
+        const gameDataManager = gameState.statsCollector.getGameDataManager();
+        statsLandingPage.setDailyChallengePlayed(
+            gameDataManager.hasPlayedChallenge(getChallengeDate()),
+        );
+        statsLandingPage.show();
+    };
+
+    /**
+     * Offer to continue the game left in progress when the page was last closed
+     */
+    const offerSavedGame = () => {
+        const saved = gameState.getSavedGame();
+        if (!saved) return;
+
+        const resumePrompt = new ResumePrompt();
+        resumePrompt.setOnResumeCallback((game) => {
+            statsLandingPage.hide();
+            gameState.resumeGame(game);
+            updateLevelsMenuButton();
+        });
+        resumePrompt.setOnDiscardCallback(() => gameState.discardSavedGame());
+        resumePrompt.show(saved);
+    };
+
+    /**
+     * Start today's daily challenge. Once the scored attempt is used, only practice is left.
+     */
+    const startDailyChallenge = (practice: boolean) => {
+        const date = getChallengeDate();
+        const gameDataManager = gameState.statsCollector.getGameDataManager();
+        if (!practice && gameDataManager.hasPlayedChallenge(date)) {
+            NotificationManager.getInstance().show(t('notify.dailyPlayed'), 'info');
+            practice = true;
+        }
+        statsLandingPage.hide();
+        gameState.loadMap(createDailyChallenge(date, practice));
+        updateLevelsMenuButton();
+    };
+
     const initializeGame = async () => {
         if (isGameInitialized) return;
 
@@ -298,12 +382,41 @@ const sketch = (p: p5) => {
         // Setup levels panel
         //setupLevelsPanel();
 
+        // Setup level editor
+        setupLevelEditor();
+
+        // Setup replay viewer, returning to the result panel when closed
+        replayViewer = new ReplayViewer(p, camera, soundManager);
+        replayViewer.setOnCloseCallback(() => gameState.endReview());
+        gameState.phase.onTransition(({ from, to }) => {
+            if (to === 'reviewing' && gameState.lastMatch) {
+                replayViewer.open(gameState.lastMatch);
+            } else if (from === 'reviewing') {
+                replayViewer.close();
+            }
+        });
+
+        // Setup pause menu
+        setupPauseMenu();
+
         // Setup UI controls
         setupUIControls();
 
+        // Setup keyboard controls
+        setupKeyboardControls();
+
+        // Setup gamepad controls
+        setupGamepadControls();
+
         // Setup camera controls
         setupCameraControls();
 
+        // Setup theme switcher
+        setupThemeControls();
+
+        // Setup accessibility settings
+        setupAccessibilityControls();
+
         // Setup input listeners
         setupInputListeners();
 
@@ -322,16 +435,19 @@ const sketch = (p: p5) => {
 
         // Set up callback for when panel closes with active game
         levelsPanel.setOnCloseCallback(() => {
-            // Just hide the panel, don't restart the game
-            // This allows players to continue their current game
+            // Don't restart the game, continue it where it was paused
+            gameState.resume();
         });
 
+        // Set up callback for opening the level editor
+        levelsPanel.setOnEditCallback((level) => openLevelEditor(level));
+
         // Set up callback for when Home button is clicked
         levelsPanel.setOnHomeCallback(() => {
             // Clear the game state
             //gameState.restart();
             // Show the landing page
-            statsLandingPage.show();
+            showStatsLandingPage();
             statsLandingPage.loadAndDisplayStats();
         });
 
@@ -349,10 +465,55 @@ const sketch = (p: p5) => {
         });
     };
 
+    const setupLevelEditor = () => {
+        levelEditor = new LevelEditor(p, camera);
+        editorPanel = new EditorPanel(levelEditor);
+
+        // Playtest the edited board through the normal game
+        editorPanel.setOnPlaytestCallback((boardData) => {
+            levelEditor.close();
+            gameState.loadMap(boardData.shapes);
+            updateLevelsMenuButton();
+        });
+
+        editorPanel.setOnBackToEditorCallback(() => {
+            gameState.stop();
+            levelsPanel.hide();
+            levelEditor.resume();
+            updateLevelsMenuButton();
+        });
+
+        editorPanel.setOnExitCallback(() => {
+            gameState.stop();
+            levelEditor.close();
+            levelsPanel.setHasActiveGame(false);
+            levelsPanel.show();
+            updateLevelsMenuButton();
+        });
+    };
+
+    /**
+     * Open the level editor on a level, or on an empty board for a new level
+     */
+    const openLevelEditor = (level: Level | null) => {
+        gameState.stop();
+        levelEditor.open(level ? level.boardData : []);
+        editorPanel.show(
+            level
+                ? {
+                      id: level.source?.id ?? level.id,
+                      name: level.name,
+                      author: level.source?.author,
+                  }
+                : { id: 'custom-level', name: 'Custom Level' },
+        );
+        updateLevelsMenuButton();
+    };
+
     const updateLevelsMenuButton = () => {
         const levelsMenuBtn = document.getElementById('levels-menu-btn');
         if (levelsMenuBtn) {
-            if (levelsPanel.isVisible()) {
+            if (levelsPanel.isVisible() || levelEditor.isActive()) {
                 levelsMenuBtn.classList.add('hidden');
             } else {
                 levelsMenuBtn.classList.remove('hidden');
@@ -360,24 +521,50 @@ const sketch = (p: p5) => {
         }
     };
 
+    /**
+     * The pause menu covers a paused game, unless the levels panel already does.
+     * Leaving the page pauses the game too.
+     */
+    const setupPauseMenu = () => {
+        pauseMenu = new PauseMenu();
+        pauseMenu.setOnResumeCallback(() => gameState.resume());
+        pauseMenu.setOnRestartCallback(() => gameState.restart());
+        pauseMenu.setOnQuitCallback(() => {
+            gameState.stop();
+            levelsPanel.setHasActiveGame(false);
+            levelsPanel.show();
+            updateLevelsMenuButton();
+        });
+
+        gameState.phase.onTransition(({ to }) => {
+            if (to === 'paused' && !levelsPanel.isVisible()) {
+                pauseMenu.show();
+            } else if (to !== 'paused') {
+                pauseMenu.hide();
+            }
+        });
+
+        window.addEventListener('blur', () => {
+            gameState.pause();
+            // Keys released while the window is in the background are never seen
+            keyboard.releaseAll();
+        });
+        document.addEventListener('visibilitychange', () => {
+            if (document.hidden) {
+                gameState.pause();
+            }
+        });
+    };
+
     const setupUIControls = () => {
         const restartBtn = document.getElementById('restart-btn');
         const levelBtn = document.getElementById('level-btn');
         const nextLevelBtn = document.getElementById('next-level-btn');
         const levelsMenuBtn = document.getElementById('levels-menu-btn');
+        const replayBtn = document.getElementById('replay-btn');
 
         // Levels menu button - toggle panel
-        levelsMenuBtn?.addEventListener('click', () => {
-            if (levelsPanel.isVisible()) {
-                levelsPanel.setHasActiveGame(gameState.isPlaying);
-                levelsPanel.hide();
-            } else {
-                UIManager.hidePanel('result-panel');
-                levelsPanel.setHasActiveGame(gameState.isPlaying);
-                levelsPanel.show();
-            }
-            updateLevelsMenuButton();
-        });
+        levelsMenuBtn?.addEventListener('click', () => toggleLevelsPanel());
 
         restartBtn?.addEventListener('click', () => {
             gameState.restart();
@@ -390,20 +577,174 @@ const sketch = (p: p5) => {
             updateLevelsMenuButton();
         });
 
-        nextLevelBtn?.addEventListener('click', () => {
-            const hasNextLevel = gameState.loadNextLevel();
-            if (hasNextLevel) {
-                UIManager.hidePanel('result-panel');
-            } else {
-                // No next level available, show levels panel
-                UIManager.hidePanel('result-panel');
-                levelsPanel.setHasActiveGame(false);
-                levelsPanel.show();
-                updateLevelsMenuButton();
+        replayBtn?.addEventListener('click', () => {
+            if (!gameState.lastMatch) {
+                NotificationManager.getInstance().show(t('notify.noRecording'), 'info');
+                return;
+            }
+            gameState.review();
+        });
+
+        nextLevelBtn?.addEventListener('click', () => goToNextLevel());
+    };
+
+    /**
+     * Open the levels panel over the game, pausing it, or close it and continue
+     */
+    const toggleLevelsPanel = () => {
+        if (levelsPanel.isVisible()) {
+            levelsPanel.hide();
+            gameState.resume();
+        } else {
+            UIManager.hidePanel('result-panel');
+            levelsPanel.setHasActiveGame(gameState.phase.is('playing', 'paused'));
+            // The panel covers the paused game instead of the pause menu
+            levelsPanel.show();
+            pauseMenu.hide();
+            gameState.pause();
+        }
+        updateLevelsMenuButton();
+    };
+
+    const goToNextLevel = () => {
+        const hasNextLevel = gameState.loadNextLevel();
+        if (hasNextLevel) {
+            UIManager.hidePanel('result-panel');
+        } else {
+            // No next level available, show levels panel
+            UIManager.hidePanel('result-panel');
+            levelsPanel.setHasActiveGame(false);
+            levelsPanel.show();
+            updateLevelsMenuButton();
+        }
+    };
+
+    /**
+     * Keyboard shortcuts with rebindable keys, and their help overlay. Opening the
+     * help pauses the game and closing it continues.
+     */
+    const setupKeyboardControls = () => {
+        const bindings = new KeyBindings();
+        keyboard = new KeyboardController(bindings);
+        keyboard.setOnActionCallback((action) => handleKeyAction(action));
+
+        keyboardHelp = new KeyboardHelp(bindings);
+        keyboardHelp.setOnCloseCallback(() => {
+            if (pausedForHelp) {
+                gameState.resume();
             }
+            pausedForHelp = false;
+        });
+        document
+            .getElementById('keyboard-help-btn')
+            ?.addEventListener('click', () => openKeyboardHelp());
+    };
+
+    /**
+     * Gamepad buttons run the same actions as their keys; its sticks, triggers and
+     * shoulder buttons are read by the input handler every frame
+     */
+    const setupGamepadControls = () => {
+        inputHandler.gamepad.setOnActionCallback((action) => {
+            // Game shortcuts stay off on the landing page
+            if (statsLandingPage?.isVisible()) return;
+            handleKeyAction(action);
+        });
+        window.addEventListener('gamepadconnected', () => {
+            NotificationManager.getInstance().show(t('notify.gamepadConnected'), 'info', 3000);
         });
     };
 
+    const openKeyboardHelp = () => {
+        pausedForHelp = gameState.phase.is('playing');
+        gameState.pause();
+        keyboardHelp.show();
+    };
+
+    /**
+     * Runs the action of a key press. Panning and steering the keyboard cursor
+     * happen in the draw loop, for as long as their keys are held.
+     */
+    const handleKeyAction = (action: KeyAction) => {
+        // The help covers the game; only its own key closes it
+        if (keyboardHelp.isVisible() && action !== 'help') return;
+
+        switch (action) {
+            case 'zoomIn':
+                camera.zoomIn();
+                break;
+            case 'zoomOut':
+                camera.zoomOut();
+                break;
+            case 'zoomReset':
+                camera.zoomToFit();
+                break;
+            case 'hint':
+                gameState.handleHintPress();
+                break;
+            case 'restart':
+                if (gameState.phase.is('playing', 'paused', 'won', 'lost')) {
+                    gameState.restart();
+                }
+                break;
+            case 'nextLevel':
+                if (gameState.phase.is('won', 'lost')) {
+                    goToNextLevel();
+                }
+                break;
+            case 'levels':
+                toggleLevelsPanel();
+                break;
+            case 'pause':
+                if (gameState.phase.is('playing')) {
+                    gameState.pause();
+                } else if (pauseMenu.isVisible()) {
+                    gameState.resume();
+                }
+                break;
+            case 'help':
+                if (keyboardHelp.isVisible()) {
+                    keyboardHelp.hide();
+                } else {
+                    openKeyboardHelp();
+                }
+                break;
+            case 'keyboardCutting': {
+                const enabled = !inputHandler.isKeyboardCutting();
+                inputHandler.setKeyboardCutting(enabled);
+                NotificationManager.getInstance().show(
+                    t(enabled ? 'notify.keyboardCuttingOn' : 'notify.keyboardCuttingOff'),
+                    'info',
+                    2500,
+                );
+                break;
+            }
+            case 'blade':
+                inputHandler.toggleKeyboardBlade();
+                break;
+        }
+    };
+
+    /**
+     * Pans the camera and steers the keyboard cursor by the keys held down
+     */
+    const applyHeldKeys = () => {
+        const seconds = p.deltaTime / 1000;
+        const axis = (negative: KeyAction, positive: KeyAction) =>
+            (keyboard.isHeld(positive) ? 1 : 0) - (keyboard.isHeld(negative) ? 1 : 0);
+
+        // The view moves the way the arrow points, so the board moves the other way
+        camera.panBy(
+            -axis('panLeft', 'panRight') * KEYBOARD_PAN_SPEED * seconds,
+            -axis('panUp', 'panDown') * KEYBOARD_PAN_SPEED * seconds,
+        );
+
+        inputHandler.moveKeyboardCursor(
+            axis('cursorLeft', 'cursorRight') * KEYBOARD_CURSOR_SPEED * seconds,
+            axis('cursorUp', 'cursorDown') * KEYBOARD_CURSOR_SPEED * seconds,
+        );
+    };
+
     const setupCameraControls = () => {
         const zoomInBtn = document.getElementById('zoom-in-btn');
         const zoomOutBtn = document.getElementById('zoom-out-btn');
@@ -411,7 +752,7 @@ const sketch = (p: p5) => {
 
         zoomInBtn?.addEventListener('click', () => camera.zoomIn());
         zoomOutBtn?.addEventListener('click', () => camera.zoomOut());
-        zoomResetBtn?.addEventListener('click', () => camera.reset());
+        zoomResetBtn?.addEventListener('click', () => camera.zoomToFit());
 
         // Setup fullscreen toggle
         const fullscreenBtn = document.getElementById('fullscreen-btn');
@@ -458,6 +799,63 @@ const sketch = (p: p5) => {
         });
     };
 
+    /**
+     * Switches to the player's theme and fills the theme picker
+     */
+    const setupThemeControls = () => {
+        const themeManager = ThemeManager.getInstance();
+        themeManager.loadForPlayer(PlayerIdentity.getPlayerName());
+
+        const themeSelect = document.getElementById('theme-select') as HTMLSelectElement | null;
+        if (!themeSelect) return;
+        const fillThemeSelect = () => {
+            themeSelect.innerHTML = Object.values(THEMES)
+                .map(
+                    (theme) =>
+                        `<option value="${theme.id}">${t(`theme.${theme.id}` as MessageKey)}</option>`,
+                )
+                .join('');
+            themeSelect.value = themeManager.getTheme().id;
+        };
+        fillThemeSelect();
+        I18n.getInstance().onChange(fillThemeSelect);
+        themeSelect.addEventListener('change', () =>
+            themeManager.setTheme(themeSelect.value as ThemeId),
+        );
+    };
+
+    /**
+     * Translates the page into the stored or browser language, and fills the language picker
+     */
+    const setupLanguageControls = () => {
+        const i18n = I18n.getInstance();
+        i18n.translate();
+
+        const localeSelect = document.getElementById('locale-select') as HTMLSelectElement | null;
+        if (!localeSelect) return;
+        localeSelect.innerHTML = (Object.keys(LOCALES) as Locale[])
+            .map((locale) => `<option value="${locale}">${LOCALES[locale].name}</option>`)
+            .join('');
+        localeSelect.value = i18n.getLocale();
+        localeSelect.addEventListener('change', () => i18n.setLocale(localeSelect.value as Locale));
+    };
+
+    /**
+     * Applies the accessibility options' palette over the theme, and opens their panel
+     */
+    const setupAccessibilityControls = () => {
+        const settings = AccessibilitySettings.getInstance();
+        const applyPalette = (options: IAccessibilityOptions) =>
+            ThemeManager.getInstance().setOverrides(COLOR_PALETTES[options.palette]);
+        applyPalette(settings.getOptions());
+        settings.onChange(applyPalette);
+
+        const accessibilityPanel = new AccessibilityPanel(settings);
+        document
+            .getElementById('accessibility-btn')
+            ?.addEventListener('click', () => accessibilityPanel.toggle());
+    };
+
     const setupInputListeners = () => {
         // Disable right-click context menu
         document.addEventListener('contextmenu', event => event.preventDefault());
@@ -470,30 +868,50 @@ const sketch = (p: p5) => {
     };
 
     p.draw = () => {
-        // Clear background - use image if loaded, otherwise use gray
+        // Clear background - use the theme's image if loaded, otherwise its color
+        const background = ThemeManager.getInstance().getTheme().background;
+        const backgroundImage = background.image && backgroundImages.get(background.image);
         if (backgroundImage) {
             p.background(backgroundImage);
         } else {
-            p.background(200);
+            p.background(...background.color);
         }
 
         // Only run game loop if game is initialized (after login)
         if (!isGameInitialized) return;
 
-        // Don't allow interactions during countdown or when panels are visible
-        const panelVisible = isAnyPanelVisible();
-        if (!gameState.isCountingDown && !panelVisible) {
-            if (gameState.isPlaying) {
-                // Handle cutting logic FIRST (before camera panning changes transform)
-                inputHandler.handleCutting();
-            }
+        // A replay being watched replaces the game loop
+        if (gameState.phase.is('reviewing')) {
+            replayViewer.update(p.deltaTime);
+            replayViewer.draw();
+            return;
+        }
 
-            // Handle camera panning (both right-click and left-click)
+        // The level editor replaces the game loop while editing
+        if (levelEditor.isActive()) {
+            levelEditor.handleDragging();
+            camera.update(p.deltaTime);
             camera.handleMousePanning();
+            camera.applyTransform();
+            levelEditor.draw();
+            return;
         }
+        applyHeldKeys();
+        inputHandler.update(p.deltaTime);
+
+        // The camera moves before the blade is read, so cuts land on the board as drawn
+        camera.update(p.deltaTime);
 
-        // Draw the cutting line (in screen space, before transform)
-        if (!panelVisible) {
+        // Handle cutting logic FIRST (before camera panning changes transform);
+        // the blade follows its device every frame but only cuts during play
+        inputHandler.handleCutting();
+
+        // Only a game in play takes input
+        if (gameState.phase.is('playing')) {
+            // Handle camera panning (both right-click and left-click)
+            camera.handleMousePanning();
+
+            // Draw the cutting line (in screen space, before transform)
             inputHandler.drawCuttingLine();
         }
 
@@ -502,42 +920,105 @@ const sketch = (p: p5) => {
 
         // Update and draw game
         gameState.update();
-        gameState.activeBoard.draw();
+        gameState.draw();
 
-        // Check victory condition (only when not counting down)
-        if (!gameState.isCountingDown) {
-            gameState.checkVictory();
-        }
+        gameState.checkVictory();
     };
 
-    p.mousePressed = () => {
-        if (isGameInitialized && !gameState.isCountingDown && !isAnyPanelVisible()) {
+    p.mousePressed = (event?: object) => {
+        if (isGameInitialized && levelEditor.isActive()) {
+            if (isCanvasEvent(event)) {
+                levelEditor.onMousePressed();
+            }
+            return;
+        }
+        if (isGameInitialized) {
             inputHandler.onMousePressed();
         }
     };
 
-    p.touchStarted = () => {
+    p.touchStarted = (event?: object) => {
+        if (isGameInitialized && levelEditor.isActive()) {
+            if (p.touches.length > 1) {
+                levelEditor.onMouseReleased();
+            } else if (isCanvasEvent(event)) {
+                levelEditor.onMousePressed();
+            }
+            return;
+        }
         if (p.touches.length > 1) {
             inputHandler.onMouseReleased();
             return;
         }
-        if (isGameInitialized && !gameState.isCountingDown && !isAnyPanelVisible()) {
+        if (isGameInitialized) {
             inputHandler.onMousePressed();
         }
     };
 
     p.touchEnded = () => {
-        if (isGameInitialized && !gameState.isCountingDown && !isAnyPanelVisible()) {
+        if (isGameInitialized && levelEditor.isActive()) {
+            levelEditor.onMouseReleased();
+            return;
+        }
+        if (isGameInitialized) {
             inputHandler.onMouseReleased();
         }
     };
 
     p.mouseReleased = () => {
-        if (isGameInitialized && !gameState.isCountingDown && !isAnyPanelVisible()) {
+        if (isGameInitialized && levelEditor.isActive()) {
+            levelEditor.onMouseReleased();
+            return;
+        }
+        if (isGameInitialized) {
             inputHandler.onMouseReleased();
         }
     };
 
+    p.keyPressed = () => {
+        // Leave keys typed into form fields alone
+        const target = document.activeElement;
+        if (target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement) return;
+
+        if (!isGameInitialized) return;
+
+        // A key being rebound is taken by the help, whatever it is bound to
+        if (keyboardHelp.isRebinding()) {
+            keyboardHelp.onKeyPressed(p.key);
+            return false;
+        }
+
+        if (levelEditor.isActive()) {
+            levelEditor.onKeyPressed(p.key);
+            return;
+        }
+
+        // Escape closes the help, pauses the game, and resumes it from the pause menu
+        if (p.key === 'Escape') {
+            if (keyboardHelp.isVisible()) {
+                keyboardHelp.hide();
+            } else if (gameState.phase.is('playing')) {
+                gameState.pause();
+            } else if (pauseMenu.isVisible()) {
+                gameState.resume();
+            }
+            return;
+        }
+
+        // Game shortcuts stay off on the landing page
+        if (statsLandingPage?.isVisible()) return;
+        if (keyboard.onKeyPressed(p.key)) {
+            // Keep bound keys like Space and the arrows from scrolling the page
+            return false;
+        }
+    };
+
+    p.keyReleased = () => {
+        if (isGameInitialized) {
+            keyboard.onKeyReleased(p.key);
+        }
+    };
+
     p.windowResized = () => {
         p.resizeCanvas(p.windowWidth, p.windowHeight);
     };
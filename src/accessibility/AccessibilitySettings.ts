@@ -0,0 +1,160 @@
+import { ThemeOverrides } from '../theme/Theme.js';
+
+const STORAGE_KEY = 'accessibility-settings';
+
+export type ColorPalette = 'standard' | 'redGreen' | 'blueYellow';
+
+// How hinted arcs are drawn, so they stand out without relying on color
+export type HintStyle = 'solid' | 'dashed' | 'dotted';
+
+export interface IAccessibilityOptions {
+    palette: ColorPalette;
+    hintStyle: HintStyle;
+    arcWidth: number; // Screen pixels, whatever the zoom
+    reducedMotion: boolean; // No particle explosions or countdown animation
+}
+
+export const MIN_ARC_WIDTH = 1;
+export const MAX_ARC_WIDTH = 8;
+
+/**
+ * Colorblind-safe colors, from the Okabe-Ito palette, replacing the theme's.
+ * The arcs keep the theme's color, which contrasts with its background.
+ */
+export const COLOR_PALETTES: Record<ColorPalette, ThemeOverrides> = {
+    standard: {},
+    // Deuteranopia and protanopia: blue and orange instead of cyan and gold
+    redGreen: {
+        hint: [0, 114, 178],
+        blade: [230, 159, 0],
+        ghost: [86, 180, 233],
+        particles: [
+            [230, 159, 0],
+            [0, 114, 178],
+            [86, 180, 233],
+            [240, 228, 66],
+        ],
+    },
+    // Tritanopia: vermillion and reddish purple instead of cyan and gold
+    blueYellow: {
+        hint: [213, 94, 0],
+        blade: [204, 121, 167],
+        ghost: [0, 158, 115],
+        particles: [
+            [213, 94, 0],
+            [204, 121, 167],
+            [0, 158, 115],
+            [255, 255, 255],
+        ],
+    },
+};
+
+/**
+ * Dash pattern of hinted arcs, in multiples of the arc width
+ */
+export const HINT_DASHES: Record<HintStyle, number[]> = {
+    solid: [],
+    dashed: [6, 4],
+    dotted: [1, 3],
+};
+
+/**
+ * AccessibilitySettings - The player's accessibility options, persisted in
+ * localStorage. Reduced motion starts from the system preference until it is set.
+ * The document root gets the reduced-motion class for the CSS to follow.
+ */
+export class AccessibilitySettings {
+    private static instance: AccessibilitySettings;
+    private options: IAccessibilityOptions;
+    private listeners: ((options: IAccessibilityOptions) => void)[] = [];
+
+    private constructor() {
+        this.options = { ...this.getDefaults(), ...this.load() };
+        this.applyReducedMotion();
+    }
+
+    /**
+     * Gets the singleton instance
+     */
+    static getInstance(): AccessibilitySettings {
+        if (!AccessibilitySettings.instance) {
+            AccessibilitySettings.instance = new AccessibilitySettings();
+        }
+        return AccessibilitySettings.instance;
+    }
+
+    getOptions(): IAccessibilityOptions {
+        return this.options;
+    }
+
+    /**
+     * Changes some options, saves them and notifies the listeners
+     */
+    update(changes: Partial<IAccessibilityOptions>): void {
+        this.options = { ...this.options, ...changes };
+        this.options.arcWidth = Math.max(
+            MIN_ARC_WIDTH,
+            Math.min(MAX_ARC_WIDTH, this.options.arcWidth),
+        );
+        this.applyReducedMotion();
+        this.save();
+        this.listeners.forEach((listener) => listener(this.options));
+    }
+
+    resetToDefaults(): void {
+        this.update(this.getDefaults());
+    }
+
+    /**
+     * Subscribes to option changes
+     * @returns A function that unsubscribes the listener
+     */
+    onChange(listener: (options: IAccessibilityOptions) => void): () => void {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter((l) => l !== listener);
+        };
+    }
+
+    private getDefaults(): IAccessibilityOptions {
+        return {
+            palette: 'standard',
+            hintStyle: 'solid',
+            arcWidth: 2,
+            reducedMotion: window.matchMedia?.('(prefers-reduced-motion: reduce)').matches ?? false,
+        };
+    }
+
+    private applyReducedMotion(): void {
+        document.documentElement.classList.toggle('reduced-motion', this.options.reducedMotion);
+    }
+
+    /**
+     * Stored options of known kinds; anything else in storage is ignored
+     */
+    private load(): Partial<IAccessibilityOptions> {
+        try {
+            const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+            const options: Partial<IAccessibilityOptions> = {};
+            if (Object.keys(COLOR_PALETTES).includes(stored.palette))
+                options.palette = stored.palette;
+            if (Object.keys(HINT_DASHES).includes(stored.hintStyle))
+                options.hintStyle = stored.hintStyle;
+            if (typeof stored.arcWidth === 'number') options.arcWidth = stored.arcWidth;
+            if (typeof stored.reducedMotion === 'boolean')
+                options.reducedMotion = stored.reducedMotion;
+            return options;
+        } catch (error) {
+            console.warn('Ignoring stored accessibility settings:', error);
+            return {};
+        }
+    }
+
+    private save(): void {
+        try {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(this.options));
+        } catch (error) {
+            console.warn('Could not store accessibility settings:', error);
+        }
+    }
+}
@@ -1,8 +1,15 @@
-import type { IGameData } from "../game/game-data/GameData.js";
-import admin from "firebase-admin";
-import { readFileSync } from "fs";
-import { fileURLToPath } from "url";
-import { dirname, join } from "path";
+import type { IEndlessRunData, IGameData } from '../game/game-data/GameData.js';
+import type { IShapeData } from '../game/types.js';
+import { isGameWon, isScoredChallenge } from '../game/game-data/gameRecords.js';
+import { IMatchDocument, parseMatchDocument } from '../data/matchDocument.js';
+import { MatchReplay } from '../game/replay/MatchReplay.js';
+import { BoardData, createRngFromSeed, levelDocuments } from '../game/BoardData.js';
+import { createDailyChallenge } from '../game/DailyChallenge.js';
+import { BoardModel, DEFAULT_MAX_LIVES } from '../game/core/BoardModel.js';
+import admin from 'firebase-admin';
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
 
 // Get current directory in ES modules
 const __filename = fileURLToPath(import.meta.url);
@@ -40,10 +47,18 @@ async function readAllGameData(): Promise<IGameData[]> {
                 playerName: data.playerName,
                 startTime: data.startTime,
                 endTime: data.endTime,
+                ...(data.pausedTime !== undefined && { pausedTime: data.pausedTime }),
                 hintsUsed: data.hintsUsed,
                 successfulIntersections: data.successfulIntersections,
                 gameDifficulty: data.gameDifficulty,
                 boardName: data.boardName,
+                // Older records have no totalCuts; Firestore rejects undefined fields on write-back
+                ...(data.totalCuts !== undefined && { totalCuts: data.totalCuts }),
+                ...(data.challengeDate !== undefined && {
+                    challengeDate: data.challengeDate,
+                    practice: data.practice ?? false,
+                }),
+                ...(data.matchId !== undefined && { matchId: data.matchId }),
             });
         });
 
@@ -55,6 +70,67 @@ async function readAllGameData(): Promise<IGameData[]> {
     }
 }
 
+/**
+ * Reads all endless run documents from Firestore
+ * @returns Promise with array of all endless runs
+ */
+async function readAllEndlessRuns(): Promise<IEndlessRunData[]> {
+    try {
+        console.log('Reading all endless runs from Firestore...');
+
+        const snapshot = await db.collection('endless-runs').get();
+        const allRuns: IEndlessRunData[] = [];
+
+        snapshot.forEach((doc: admin.firestore.QueryDocumentSnapshot) => {
+            const data = doc.data() as IEndlessRunData;
+            allRuns.push({
+                playerName: data.playerName,
+                seed: data.seed,
+                startTime: data.startTime,
+                endTime: data.endTime,
+                boardsCleared: data.boardsCleared,
+                totalTime: data.totalTime,
+                successfulIntersections: data.successfulIntersections,
+                livesLost: data.livesLost,
+            });
+        });
+
+        console.log(`Successfully read ${allRuns.length} endless runs`);
+        return allRuns;
+    } catch (error) {
+        console.error('Error reading endless runs:', error);
+        throw error;
+    }
+}
+
+/**
+ * Reads all game recordings from Firestore
+ * @returns Promise with the recordings by document id. Recordings this version
+ * can't replay are left out, so their games count as unverified.
+ */
+async function readAllMatches(): Promise<Map<string, IMatchDocument>> {
+    try {
+        console.log('Reading all match recordings from Firestore...');
+
+        const snapshot = await db.collection('matches').get();
+        const matches = new Map<string, IMatchDocument>();
+
+        snapshot.forEach((doc: admin.firestore.QueryDocumentSnapshot) => {
+            try {
+                matches.set(doc.id, parseMatchDocument(doc.data()));
+            } catch (error) {
+                console.warn(`Skipping match ${doc.id}:`, error);
+            }
+        });
+
+        console.log(`Successfully read ${matches.size} match recordings`);
+        return matches;
+    } catch (error) {
+        console.error('Error reading match recordings:', error);
+        throw error;
+    }
+}
+
 /**
  * Writes a document to the 'summary' collection with a custom document ID
  * @param documentId - The custom document ID
@@ -75,8 +151,191 @@ async function writeToSummary(documentId: string, data: any): Promise<void> {
     }
 }
 
+/**
+ * How long a finished game was played, without the time it spent paused
+ * @returns Milliseconds, or null if the game has no end time
+ */
+function getGameDuration(game: IGameData): number | null {
+    return game.endTime ? game.endTime - game.startTime - (game.pausedTime ?? 0) : null;
+}
+
+/**
+ * The estimated board difficulty (0-1) of a game, or undefined for older records
+ * that only stored the cut count
+ */
+function getDifficultyScore(game: IGameData): number | undefined {
+    return game.totalCuts !== undefined ? game.gameDifficulty : undefined;
+}
+
+// How far a game's claimed duration may be from its replay: frame timing and the
+// victory check lag a little behind the winning cut
+const DURATION_TOLERANCE_MS = 1000;
+const DURATION_TOLERANCE_RATIO = 0.05;
+
+// Built-in levels by board name, to replay games against
+const levelsByName = new Map(
+    levelDocuments.map((document) => {
+        const level = new BoardData(document);
+        return [level.name, level.shapes];
+    }),
+);
+
+/**
+ * The level data a game was played on, or null for boards this script doesn't
+ * know, like custom levels. Throws on a daily challenge date that isn't one.
+ */
+function findLevel(game: IGameData): { shapes: IShapeData[]; lives: number } | null {
+    const boardData =
+        game.challengeDate !== undefined
+            ? createDailyChallenge(game.challengeDate)
+            : levelsByName.get(game.boardName);
+    if (!boardData) return null;
+    return { shapes: Array.from(boardData), lives: boardData.lives ?? DEFAULT_MAX_LIVES };
+}
+
+/**
+ * Replays a recording against the level data and lists where the game record
+ * disagrees with it
+ * @returns The mismatches; empty if the record is what the replay gives
+ */
+function verifyGame(
+    game: IGameData,
+    match: IMatchDocument,
+    level: { shapes: IShapeData[]; lives: number },
+): string[] {
+    const reasons: string[] = [];
+    if (match.playerName !== game.playerName) reasons.push(`recorded by ${match.playerName}`);
+    if (match.boardName !== game.boardName) reasons.push(`recorded on ${match.boardName}`);
+    if (match.lives !== level.lives)
+        reasons.push(`played with ${match.lives} lives instead of ${level.lives}`);
+
+    // The level's own shapes and lives, so a recording can't bring an easier board
+    const board = new BoardModel(level.shapes, {
+        maxLives: level.lives,
+        rng: createRngFromSeed(match.hintSeed),
+    });
+    let time = 0;
+    let endTime: number | null = null;
+    const replay = new MatchReplay(match, {
+        setTime: (seconds) => {
+            time = Math.round(seconds * 1000);
+            board.setTime(seconds);
+        },
+        processStroke: (line) => {
+            const result = board.processStroke(line);
+            if (endTime === null && board.getStatus() !== 'playing') endTime = time;
+            return result;
+        },
+        recordHintUsed: () => {
+            const gameOver = board.recordHintUsed();
+            if (endTime === null && gameOver) endTime = time;
+            return gameOver;
+        },
+    });
+    replay.advanceTo(match.duration);
+
+    const won = board.getStatus() === 'won';
+    const cuts = board.totalCuts - board.getRemainingCuts();
+    if (isGameWon(game) !== won)
+        reasons.push(`claims ${isGameWon(game) ? 'a win' : 'no win'}, replay ${board.getStatus()}`);
+    if (game.successfulIntersections !== cuts)
+        reasons.push(`claims ${game.successfulIntersections} cuts, replay ${cuts}`);
+    if (game.totalCuts !== undefined && game.totalCuts !== board.totalCuts) {
+        reasons.push(`claims ${game.totalCuts} total cuts, board has ${board.totalCuts}`);
+    }
+    if (game.hintsUsed !== board.hintsUsed)
+        reasons.push(`claims ${game.hintsUsed} hints, replay ${board.hintsUsed}`);
+
+    const claimed = getGameDuration(game);
+    if (claimed !== null) {
+        const replayed = endTime ?? match.duration;
+        if (
+            Math.abs(claimed - replayed) >
+            Math.max(DURATION_TOLERANCE_MS, replayed * DURATION_TOLERANCE_RATIO)
+        ) {
+            reasons.push(`claims ${claimed} ms, replay ${replayed} ms`);
+        }
+    }
+    return reasons;
+}
+
+export interface SuspiciousGame {
+    playerName: string;
+    boardName: string;
+    startTime: number;
+    matchId: string;
+    reasons: string[];
+}
+
+export interface SuspiciousRun {
+    playerName: string;
+    startTime: number;
+    reasons: string[];
+}
+
+export interface SuspiciousReport {
+    verifiedGames: number;
+    unverifiedGames: number; // No replay, or one for a board this script doesn't know
+    games: SuspiciousGame[];
+    endlessRuns: SuspiciousRun[];
+}
+
+/**
+ * Sorts games by whether their replays back them up
+ * @returns The verified games and a report of the others
+ */
+function verifyGames(allGames: IGameData[], matches: Map<string, IMatchDocument>) {
+    const verified: IGameData[] = [];
+    const report: SuspiciousReport = {
+        verifiedGames: 0,
+        unverifiedGames: 0,
+        games: [],
+        endlessRuns: [],
+    };
+
+    for (const game of allGames) {
+        const match = game.matchId !== undefined ? matches.get(game.matchId) : undefined;
+        if (!match) {
+            report.unverifiedGames += 1;
+            continue;
+        }
+
+        // Records are written by clients: one that can't be checked is suspicious,
+        // and must not stop the others from being checked
+        let reasons: string[];
+        try {
+            const level = findLevel(game);
+            if (!level) {
+                report.unverifiedGames += 1;
+                continue;
+            }
+            reasons = verifyGame(game, match, level);
+        } catch (error) {
+            reasons = [`could not be replayed: ${error instanceof Error ? error.message : error}`];
+        }
+        if (reasons.length > 0) {
+            report.games.push({
+                playerName: game.playerName,
+                boardName: game.boardName,
+                startTime: game.startTime,
+                matchId: game.matchId!,
+                reasons,
+            });
+            continue;
+        }
+        report.verifiedGames += 1;
+        verified.push(game);
+    }
+
+    console.log(
+        `Verified ${report.verifiedGames} games, ${report.games.length} suspicious, ${report.unverifiedGames} without a replay to check`,
+    );
+    return { verified, report };
+}
+
 export interface GameStats {
     gameName: string;
+    difficulty: number | null; // Estimated board difficulty, 0-1, when known
     totalPlays: number;
     averageDuration: number; // in milliseconds
     averageHints: number; // in milliseconds
@@ -89,7 +348,7 @@ export interface LeaderboardEntry {
     totalGamesPlayed: number; // in milliseconds
     totalIntersections: number;
     totalGamesWon: number;
-    averageDifficulty: number;
+    averageDifficulty: number; // Over won games with a difficulty score, 0-1
     topPerformances: IGameData[]; // If he is in the top of some game
 }
 
@@ -97,18 +356,63 @@ export interface LeaderboardData {
     [playerName: string]: LeaderboardEntry;
 }
 
+// Days of daily challenge leaderboards kept in the summary, and players shown per day
+const DAILY_LEADERBOARD_DAYS = 30;
+const DAILY_LEADERBOARD_SIZE = 20;
+
+export interface DailyLeaderboardEntry {
+    playerName: string;
+    won: boolean;
+    duration: number | null; // in milliseconds, when the game ended
+    hintsUsed: number;
+    successfulIntersections: number;
+}
+
+export interface DailyLeaderboardData {
+    [challengeDate: string]: DailyLeaderboardEntry[]; // Best first
+}
+
+export interface EndlessLeaderboardEntry {
+    playerName: string;
+    runsPlayed: number;
+    bestBoardsCleared: number; // Of the best run: most boards, then fastest
+    bestTotalTime: number; // in milliseconds
+    totalBoardsCleared: number;
+}
+
+export interface EndlessLeaderboardData {
+    [playerName: string]: EndlessLeaderboardEntry;
+}
+
 async function writeLeaderboard(leaderboardData: LeaderboardData): Promise<void> {
     await writeToSummary('leaderboard', leaderboardData);
 }
 
+async function writeDailyLeaderboards(dailyData: DailyLeaderboardData): Promise<void> {
+    await writeToSummary('daily-challenge', dailyData);
+}
+
+async function writeEndlessLeaderboard(endlessData: EndlessLeaderboardData): Promise<void> {
+    await writeToSummary('endless-leaderboard', endlessData);
+}
+
+async function writeSuspiciousReport(report: SuspiciousReport): Promise<void> {
+    await writeToSummary('suspicious', report);
+}
+
 async function writeGameStats(stats: { [gameName: string]: GameStats }): Promise<void> {
     await writeToSummary('game-stats', stats);
 }
 
-function computeGameStats(allGames: IGameData[]) {
+/**
+ * Per-board statistics over all games. Only verified games can be best scores.
+ */
+function computeGameStats(allGames: IGameData[], verified: Set<IGameData>) {
     const gameStatsMap: { [gameName: string]: GameStats } = {};
 
     for (const game of allGames) {
+        // Daily challenges have their own leaderboard and would add a board every day
+        if (game.challengeDate !== undefined) continue;
         if (!gameStatsMap[game.boardName]) {
             gameStatsMap[game.boardName] = {
                 gameName: game.boardName,
@@ -117,33 +421,36 @@ function computeGameStats(allGames: IGameData[]) {
                 averageHints: 0,
                 numberWins: 0,
                 bestScores: [],
+                difficulty: null,
             };
         }
 
         const stats = gameStatsMap[game.boardName];
         stats.totalPlays += 1;
+        stats.difficulty = getDifficultyScore(game) ?? stats.difficulty;
 
-        if (game.gameDifficulty <= game.successfulIntersections) {
+        if (isGameWon(game)) {
             stats.numberWins += 1;
         }
         else continue; // was a loss
 
         // Game is better than others in the array of best
-        if (game.endTime && game.startTime) {
-            const duration = game.endTime - game.startTime;
+        const duration = getGameDuration(game);
+        if (duration !== null && game.startTime) {
             stats.averageDuration += duration;
             stats.averageHints += game.hintsUsed;
+            if (!verified.has(game)) continue;
             let best: any = {startTime: 0, endTime: 1000000000000}; // Dummy high value
             for (const others of stats.bestScores) {
-                if (others.endTime && others.startTime) {
-                    const otherDuration = others.endTime - others.startTime;
-                    const bestDuration = best.endTime - best.startTime;
+                const otherDuration = getGameDuration(others);
+                if (otherDuration !== null && others.startTime) {
+                    const bestDuration = getGameDuration(best)!;
                     if (otherDuration < bestDuration ) {
                         best = others;
                     }
                 }
             }
-            if (best.endTime - best.startTime > duration) {
+            if (getGameDuration(best)! > duration) {
                 // Replace best
                 if (stats.bestScores.length < 5) {
                     stats.bestScores.push(game);
@@ -166,6 +473,7 @@ function computeGameStats(allGames: IGameData[]) {
 
 function computeLeaderboard(allGames: IGameData[], gameStatsMap: { [gameName: string]: GameStats }) {
     const leaderboardMap: LeaderboardData = {};
+    const scoredWins: { [playerName: string]: number } = {};
 
     for (const game of allGames) {
         if (!leaderboardMap[game.playerName]) {
@@ -183,9 +491,13 @@ function computeLeaderboard(allGames: IGameData[], gameStatsMap: { [gameName: st
         entry.totalGamesPlayed += 1;
         entry.totalIntersections += game.successfulIntersections;
 
-        if (game.gameDifficulty <= game.successfulIntersections) {
+        if (isGameWon(game)) {
             entry.totalGamesWon += 1;
-            entry.averageDifficulty += game.gameDifficulty;
+            const difficulty = getDifficultyScore(game);
+            if (difficulty !== undefined) {
+                entry.averageDifficulty += difficulty;
+                scoredWins[game.playerName] = (scoredWins[game.playerName] || 0) + 1;
+            }
         }
 
         if (gameStatsMap[game.boardName]) {
@@ -197,17 +509,166 @@ function computeLeaderboard(allGames: IGameData[], gameStatsMap: { [gameName: st
 
     for (const playerName of Object.keys(leaderboardMap)) {
         const entry = leaderboardMap[playerName];
-        entry.averageDifficulty = entry.totalGamesWon > 0 ? Math.floor(entry.averageDifficulty / entry.totalGamesWon) : 0;
+        const wins = scoredWins[playerName] || 0;
+        entry.averageDifficulty =
+            wins > 0 ? Number((entry.averageDifficulty / wins).toFixed(3)) : 0;
     }
 
     return leaderboardMap;
 }
 
-function computeStats(allGames: IGameData[]) {
-    const gameStatsMap: { [gameName: string]: GameStats } = computeGameStats(allGames);
-    const leaderboardMap: LeaderboardData = computeLeaderboard(allGames, gameStatsMap);
+/**
+ * Ranks the scored daily challenge attempts of each day: wins first, then the fastest,
+ * then the fewest hints. Only a player's first scored attempt of a day counts.
+ */
+function computeDailyLeaderboards(allGames: IGameData[]): DailyLeaderboardData {
+    const firstAttempts: { [challengeDate: string]: { [playerName: string]: IGameData } } = {};
 
-    return {gameStatsMap, leaderboardMap};
+    for (const game of allGames) {
+        if (!isScoredChallenge(game)) continue;
+        const day = (firstAttempts[game.challengeDate!] ??= {});
+        const previous = day[game.playerName];
+        if (!previous || game.startTime < previous.startTime) {
+            day[game.playerName] = game;
+        }
+    }
+
+    const dailyData: DailyLeaderboardData = {};
+    const dates = Object.keys(firstAttempts).sort().slice(-DAILY_LEADERBOARD_DAYS);
+    for (const date of dates) {
+        dailyData[date] = Object.values(firstAttempts[date])
+            .map(
+                (game): DailyLeaderboardEntry => ({
+                    playerName: game.playerName,
+                    won: isGameWon(game),
+                    duration: getGameDuration(game),
+                    hintsUsed: game.hintsUsed,
+                    successfulIntersections: game.successfulIntersections,
+                }),
+            )
+            .sort((a, b) => {
+                if (a.won !== b.won) return a.won ? -1 : 1;
+                if (!a.won) return b.successfulIntersections - a.successfulIntersections;
+                const durationOrder = (a.duration ?? Infinity) - (b.duration ?? Infinity);
+                return durationOrder !== 0 ? durationOrder : a.hintsUsed - b.hintsUsed;
+            })
+            .slice(0, DAILY_LEADERBOARD_SIZE);
+    }
+    return dailyData;
+}
+
+/**
+ * Lists what makes an endless run record impossible. Runs are not recorded, so unlike
+ * single games they can't be replayed: only the record's own consistency is checked.
+ * @returns The problems; empty if the run is plausible
+ */
+function checkEndlessRun(run: IEndlessRunData): string[] {
+    const reasons: string[] = [];
+    if (typeof run.playerName !== 'string') reasons.push('has no player name');
+    const counts = {
+        boardsCleared: run.boardsCleared,
+        successfulIntersections: run.successfulIntersections,
+        livesLost: run.livesLost,
+    };
+    for (const [name, count] of Object.entries(counts)) {
+        if (!Number.isSafeInteger(count) || count < 0)
+            reasons.push(`${name} ${count} is not a count`);
+    }
+    const times = { startTime: run.startTime, endTime: run.endTime, totalTime: run.totalTime };
+    for (const [name, time] of Object.entries(times)) {
+        if (typeof time !== 'number' || !Number.isFinite(time) || time < 0)
+            reasons.push(`${name} ${time} is not a time`);
+    }
+    if (reasons.length > 0) return reasons;
+
+    // Each cleared board takes at least one cut, and the run's play fits between its start and end
+    if (run.successfulIntersections < run.boardsCleared) {
+        reasons.push(`claims ${run.boardsCleared} boards with ${run.successfulIntersections} cuts`);
+    }
+    if (run.totalTime > run.endTime - run.startTime + DURATION_TOLERANCE_MS) {
+        reasons.push(`claims ${run.totalTime} ms of play in ${run.endTime - run.startTime} ms`);
+    }
+    return reasons;
+}
+
+/**
+ * Splits endless runs into plausible ones and a report of the others
+ */
+function checkEndlessRuns(allRuns: IEndlessRunData[], report: SuspiciousReport): IEndlessRunData[] {
+    const plausible: IEndlessRunData[] = [];
+    for (const run of allRuns) {
+        const reasons = checkEndlessRun(run);
+        if (reasons.length > 0) {
+            report.endlessRuns.push({
+                playerName: String(run.playerName),
+                startTime: run.startTime,
+                reasons,
+            });
+            continue;
+        }
+        plausible.push(run);
+    }
+    console.log(`Checked ${allRuns.length} endless runs, ${report.endlessRuns.length} suspicious`);
+    return plausible;
+}
+
+/**
+ * Keeps the best endless run of every player: the most boards cleared, then the fastest
+ */
+function computeEndlessLeaderboard(allRuns: IEndlessRunData[]): EndlessLeaderboardData {
+    const endlessMap: EndlessLeaderboardData = {};
+
+    for (const run of allRuns) {
+        const entry = (endlessMap[run.playerName] ??= {
+            playerName: run.playerName,
+            runsPlayed: 0,
+            bestBoardsCleared: -1,
+            bestTotalTime: 0,
+            totalBoardsCleared: 0,
+        });
+        entry.runsPlayed += 1;
+        entry.totalBoardsCleared += run.boardsCleared;
+
+        if (
+            run.boardsCleared > entry.bestBoardsCleared ||
+            (run.boardsCleared === entry.bestBoardsCleared && run.totalTime < entry.bestTotalTime)
+        ) {
+            entry.bestBoardsCleared = run.boardsCleared;
+            entry.bestTotalTime = run.totalTime;
+        }
+    }
+
+    return endlessMap;
+}
+
+/**
+ * Computes every summary. Board statistics count all games, but only games verified
+ * by their replays rank: best scores, the leaderboard and the daily leaderboards.
+ * Endless runs have no replays; the ones whose records don't add up are left out.
+ */
+function computeStats(
+    allGames: IGameData[],
+    matches: Map<string, IMatchDocument>,
+    allRuns: IEndlessRunData[],
+) {
+    // Daily challenge practice runs are not part of any statistic
+    const scoredGames = allGames.filter((game) => !game.practice);
+    const { verified, report } = verifyGames(scoredGames, matches);
+    const gameStatsMap: { [gameName: string]: GameStats } = computeGameStats(
+        scoredGames,
+        new Set(verified),
+    );
+    const leaderboardMap: LeaderboardData = computeLeaderboard(verified, gameStatsMap);
+    const dailyLeaderboards: DailyLeaderboardData = computeDailyLeaderboards(verified);
+    const endlessLeaderboard = computeEndlessLeaderboard(checkEndlessRuns(allRuns, report));
+
+    return {
+        gameStatsMap,
+        leaderboardMap,
+        dailyLeaderboards,
+        endlessLeaderboard,
+        suspiciousReport: report,
+    };
 }
 
 /**
@@ -218,10 +679,23 @@ async function main() {
         // Read all game data
         const allGames = await readAllGameData();
 
-        const {gameStatsMap, leaderboardMap} = computeStats(allGames);
+        const matches = await readAllMatches();
+
+        const allRuns = await readAllEndlessRuns();
+
+        const {
+            gameStatsMap,
+            leaderboardMap,
+            dailyLeaderboards,
+            endlessLeaderboard,
+            suspiciousReport,
+        } = computeStats(allGames, matches, allRuns);
 
         await writeGameStats(gameStatsMap);
         await writeLeaderboard(leaderboardMap);
+        await writeDailyLeaderboards(dailyLeaderboards);
+        await writeEndlessLeaderboard(endlessLeaderboard);
+        await writeSuspiciousReport(suspiciousReport);
 
         // Example: Write statistics to summary collection
         // await writeToSummary('game-stats', stats);
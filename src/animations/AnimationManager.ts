@@ -2,6 +2,7 @@ import type p5 from 'p5';
 import { Animation } from './Animation.js';
 import { AnimationFactory } from './AnimationFactory.js';
 import { ParticleExplosionConfig } from './particle-explosion/ParticleExplosion.js';
+import { AccessibilitySettings } from '../accessibility/AccessibilitySettings.js';
 
 export type AnimationType = 'explosion' | 'none';
 
@@ -67,10 +68,13 @@ export class AnimationManager {
     /**
      * Create and add an animation using the active animation type
      * @param config - Optional configuration for the animation (type-specific)
-     * @returns The created animation, or null if type is 'none'
+     * @returns The created animation, or null if type is 'none' or reduced motion is on
      */
     createActiveAnimation(config: AnimationConfig): Animation | undefined {
-        if (this.activeAnimationType === 'none') {
+        if (
+            this.activeAnimationType === 'none' ||
+            AccessibilitySettings.getInstance().getOptions().reducedMotion
+        ) {
             return undefined;
         }
         const animation = AnimationFactory.createFromConfig(this.activeAnimationType, config);
@@ -1,5 +1,7 @@
 import type p5 from 'p5';
 import { IPoint } from '../../game/types.js';
+import { ThemeColor } from '../../theme/Theme.js';
+import { ThemeManager } from '../../theme/ThemeManager.js';
 
 export class Particle {
     private p: p5;
@@ -8,7 +10,7 @@ export class Particle {
     private lifespan: number;
     private maxLifespan: number;
     private size: number;
-    private color: number[];
+    private color: ThemeColor;
 
     constructor(p: p5, x: number, y: number) {
         this.p = p;
@@ -26,14 +28,8 @@ export class Particle {
         this.lifespan = this.maxLifespan;
         this.size = 2 + Math.random() * 4;
 
-        // Random bright colors for particles
-        const colors = [
-            [255, 204, 0],   // Gold
-            [255, 100, 100], // Red
-            [100, 200, 255], // Blue
-            [255, 150, 255], // Pink
-            [150, 255, 150], // Green
-        ];
+        // Random bright colors for particles, from the theme's palette
+        const colors = ThemeManager.getInstance().getTheme().particles;
         this.color = colors[Math.floor(Math.random() * colors.length)];
     }
 
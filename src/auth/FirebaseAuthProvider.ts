@@ -1,5 +1,6 @@
 import { AuthProvider, AuthResult } from './AuthProvider.js';
 import { auth } from '../firebase.js';
+import { t } from '../i18n/I18n.js';
 import {
     signInWithEmailAndPassword,
     createUserWithEmailAndPassword,
@@ -35,7 +36,7 @@ export class FirebaseAuthProvider extends AuthProvider {
                 success: false,
                 userId: '',
                 isGuest: false,
-                error: 'Username and password are required',
+                error: t('login.credentialsRequired'),
             };
         }
 
@@ -65,7 +66,7 @@ export class FirebaseAuthProvider extends AuthProvider {
                             success: false,
                             userId: '',
                             isGuest: false,
-                            error: 'Username already taken',
+                            error: t('login.usernameTaken'),
                         };
                     }
                     throw registerError;
@@ -168,25 +169,26 @@ export class FirebaseAuthProvider extends AuthProvider {
     private formatFirebaseError(error: any): string {
         switch (error.code) {
             case 'auth/invalid-email':
-                return 'Invalid username format';
+                return t('login.invalidUsernameFormat');
             case 'auth/user-disabled':
-                return 'This account has been disabled';
+                return t('login.accountDisabled');
             case 'auth/user-not-found':
-                return 'Username not found';
+                return t('login.usernameNotFound');
             case 'auth/wrong-password':
-                return 'Incorrect password';
+                return t('login.wrongPassword');
             case 'auth/invalid-credential':
-                return 'Invalid username or password';
+                return t('login.invalidCredentials');
             case 'auth/email-already-in-use':
-                return 'Username already taken';
+                return t('login.usernameTaken');
             case 'auth/weak-password':
-                return 'Password should be at least 6 characters';
+                return t('login.passwordTooShort');
             case 'auth/network-request-failed':
-                return 'Network error. Please check your connection';
+                return t('login.networkError');
             case 'auth/too-many-requests':
-                return 'Too many attempts. Please try again later';
+                return t('login.tooManyAttempts');
             default:
-                return error.message || 'Authentication failed';
+                // Firebase's own message is in English; it was logged by the caller
+                return t('login.authFailed');
         }
     }
 
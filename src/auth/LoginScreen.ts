@@ -1,4 +1,5 @@
 import { AuthManager } from './AuthManager.js';
+import { I18n, t } from '../i18n/I18n.js';
 
 /**
  * LoginScreen - Manages the login UI and user interactions
@@ -45,7 +46,7 @@ export class LoginScreen {
             panel.innerHTML = `
                 <div class="login-container">
                     <h1 class="login-title">Bubble Trim</h1>
-                    <p class="login-subtitle">Cut the overlapping circles!</p>
+                    <p class="login-subtitle" data-i18n="common.tagline"></p>
 
                     <!-- Login Form -->
                     <div class="login-form" id="login-form">
@@ -53,33 +54,29 @@ export class LoginScreen {
                             type="text"
                             id="login-username-input"
                             class="username-input"
-                            placeholder="Enter your username"
+                            data-i18n-placeholder="login.usernamePlaceholder"
                             autocomplete="username"
                         />
                         <input
                             type="password"
                             id="login-password-input"
                             class="username-input"
-                            placeholder="Enter your password"
+                            data-i18n-placeholder="login.passwordPlaceholder"
                             autocomplete="current-password"
                         />
                         <div class="error-message" id="login-error"></div>
 
-                        <button id="login-button" class="btn btn-primary">
-                            Login
-                        </button>
+                        <button id="login-button" class="btn btn-primary" data-i18n="login.login"></button>
 
                         <div class="login-switch">
-                            Don't have an account? <a href="#" id="show-register">Register</a>
+                            <span data-i18n="login.noAccount"></span> <a href="#" id="show-register" data-i18n="login.register"></a>
                         </div>
 
                         <div class="divider">
-                            <span>OR</span>
+                            <span data-i18n="login.or"></span>
                         </div>
 
-                        <button id="guest-button" class="btn btn-secondary">
-                            Continue as Guest
-                        </button>
+                        <button id="guest-button" class="btn btn-secondary" data-i18n="login.guest"></button>
                     </div>
 
                     <!-- Register Form -->
@@ -88,48 +85,44 @@ export class LoginScreen {
                             type="text"
                             id="register-username-input"
                             class="username-input"
-                            placeholder="Choose a username"
+                            data-i18n-placeholder="login.chooseUsername"
                             autocomplete="off"
                         />
                         <input
                             type="password"
                             id="register-password-input"
                             class="username-input"
-                            placeholder="Choose a password (min 6 characters)"
+                            data-i18n-placeholder="login.choosePassword"
                             autocomplete="new-password"
                         />
                         <input
                             type="password"
                             id="register-confirm-password-input"
                             class="username-input"
-                            placeholder="Confirm password"
+                            data-i18n-placeholder="login.confirmPassword"
                             autocomplete="new-password"
                         />
                         <div class="error-message" id="register-error"></div>
 
-                        <button id="register-button" class="btn btn-primary">
-                            Register
-                        </button>
+                        <button id="register-button" class="btn btn-primary" data-i18n="login.register"></button>
 
                         <div class="login-switch">
-                            Already have an account? <a href="#" id="show-login">Login</a>
+                            <span data-i18n="login.haveAccount"></span> <a href="#" id="show-login" data-i18n="login.login"></a>
                         </div>
 
                         <div class="divider">
-                            <span>OR</span>
+                            <span data-i18n="login.or"></span>
                         </div>
 
-                        <button id="guest-button-register" class="btn btn-secondary">
-                            Continue as Guest
-                        </button>
+                        <button id="guest-button-register" class="btn btn-secondary" data-i18n="login.guest"></button>
                     </div>
 
-                    <div class="login-info">
-                        Your progress will be tracked for statistics
-                    </div>
+                    <div class="login-info" data-i18n="login.info"></div>
                 </div>
             `;
 
+            I18n.getInstance().translate(panel);
+
             document.body.appendChild(panel);
         }
 
@@ -277,7 +270,7 @@ export class LoginScreen {
         } else {
             // Show error message
             if (errorElement) {
-                errorElement.textContent = result.error || 'Login failed';
+                errorElement.textContent = result.error || t('login.failed');
                 errorElement.style.display = 'block';
             }
         }
@@ -291,7 +284,7 @@ export class LoginScreen {
         const usernameRegex = /^[a-zA-Z0-9._-]{3,20}$/;
         if (!username || !usernameRegex.test(username.trim())) {
             if (errorElement) {
-                errorElement.textContent = 'Username must be 3-20 characters and contain only letters, numbers, dots, underscores, or hyphens';
+                errorElement.textContent = t('login.invalidUsername');
                 errorElement.style.display = 'block';
             }
             return;
@@ -300,7 +293,7 @@ export class LoginScreen {
         // Validate passwords match
         if (password !== confirmPassword) {
             if (errorElement) {
-                errorElement.textContent = 'Passwords do not match';
+                errorElement.textContent = t('login.passwordMismatch');
                 errorElement.style.display = 'block';
             }
             return;
@@ -309,7 +302,7 @@ export class LoginScreen {
         // Validate password length
         if (password.length < 6) {
             if (errorElement) {
-                errorElement.textContent = 'Password must be at least 6 characters';
+                errorElement.textContent = t('login.passwordTooShort');
                 errorElement.style.display = 'block';
             }
             return;
@@ -324,7 +317,7 @@ export class LoginScreen {
         } else {
             // Show error message
             if (errorElement) {
-                errorElement.textContent = result.error || 'Registration failed';
+                errorElement.textContent = result.error || t('login.registerFailed');
                 errorElement.style.display = 'block';
             }
         }
@@ -1,4 +1,5 @@
 import { AuthProvider, AuthResult } from './AuthProvider.js';
+import { t } from '../i18n/I18n.js';
 
 /**
  * SimpleAuthProvider - Basic authentication using just a username
@@ -25,7 +26,10 @@ export class SimpleAuthProvider extends AuthProvider {
                 success: false,
                 userId: '',
                 isGuest: false,
-                error: `Username must be between ${this.minUsernameLength} and ${this.maxUsernameLength} characters`,
+                error: t('login.usernameLength', {
+                    min: this.minUsernameLength,
+                    max: this.maxUsernameLength,
+                }),
             };
         }
 
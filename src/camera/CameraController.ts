@@ -1,7 +1,44 @@
 import type p5 from 'p5';
+import { getShapesBounds } from '../game/core/shapeFactory.js';
+import { IBounds, IShapeData } from '../game/types.js';
+import { AccessibilitySettings } from '../accessibility/AccessibilitySettings.js';
+
+const MIN_ZOOM = 0.2;
+const MAX_ZOOM = 5;
+
+// Milliseconds an eased zoom or pan takes
+const TRANSITION_DURATION = 400;
+
+// Inertia after a drag: its speed falls by e every 1/FRICTION seconds (faster past
+// the soft bounds) and it stops below MIN_SPEED screen pixels per second
+const FRICTION = 4;
+const OVERSCROLL_FRICTION = 20;
+const MIN_SPEED = 10;
+// A drag held still this many milliseconds before its release doesn't glide
+const RELEASE_WINDOW = 100;
+
+// Soft bounds: a quarter of the board's box (or of the screen, when the box is larger)
+// stays on screen. Past that a drag moves the view by only RUBBER_BAND of itself,
+// and once let go the view springs back by 1 - e^(-SPRING_RATE * seconds)
+const VISIBLE_FRACTION = 0.25;
+const RUBBER_BAND = 0.3;
+const SPRING_RATE = 12;
+
+/**
+ * What the camera shows: its zoom and how far the board is moved, in screen pixels
+ */
+export interface ICameraView {
+    zoom: number;
+    panX: number;
+    panY: number;
+}
 
 /**
  * CameraController - Handles zoom, pan, and view transformations
+ *
+ * zoomLevel and panX/panY always hold the view being drawn and screenToWorld reads
+ * them, so a cut made during a transition hits what is on screen. Transitions,
+ * inertia and the spring back into the soft bounds advance in update().
  */
 export class CameraController {
     private p: p5;
@@ -9,6 +46,25 @@ export class CameraController {
     public panX: number = 0;
     public panY: number = 0;
 
+    // Bounding box of the board in world space, for zoom-to-fit and the soft bounds
+    private boardBounds: IBounds | null = null;
+
+    // Eased transition in progress
+    private transition: {
+        from: ICameraView;
+        to: ICameraView;
+        elapsed: number;
+        duration: number;
+    } | null = null;
+
+    // Inertia state: the drag in progress, its velocity in screen pixels per second
+    // and the time of its last move
+    private dragging: 'mouse' | 'touch' | null = null;
+    private isGliding: boolean = false;
+    private velocityX: number = 0;
+    private velocityY: number = 0;
+    private lastDragTime: number = 0;
+
     // Panning state
     private isPanning: boolean = false;
     private lastMouseX: number = 0;
@@ -30,75 +86,157 @@ export class CameraController {
     }
 
     /**
-     * Resets the camera to default position and zoom
+     * Resets the camera to default position and zoom, at once
      */
     reset(): void {
-        this.zoomLevel = 1.0;
-        this.panX = 0;
-        this.panY = 0;
+        this.jumpTo({ zoom: 1.0, panX: 0, panY: 0 });
+    }
+
+    getView(): ICameraView {
+        return { zoom: this.zoomLevel, panX: this.panX, panY: this.panY };
     }
 
     /**
-     * Calculates the optimal zoom level to fit all circles on screen
-     * @param circles - Array of circles with center and radius properties
-     * @returns The calculated zoom scale
+     * Shows a view at once, stopping any transition or inertia
      */
-    calculateZoomScale(circles: any[]): number {
-        if (circles.length === 0) return 1.0;
-
-        // Find bounding box of all circles
-        let minX = Infinity, maxX = -Infinity;
-        let minY = Infinity, maxY = -Infinity;
-
-        circles.forEach(circle => {
-            const left = circle.center.x - circle.radius;
-            const right = circle.center.x + circle.radius;
-            const top = circle.center.y - circle.radius;
-            const bottom = circle.center.y + circle.radius;
-
-            minX = Math.min(minX, left);
-            maxX = Math.max(maxX, right);
-            minY = Math.min(minY, top);
-            maxY = Math.max(maxY, bottom);
-        });
+    jumpTo(view: ICameraView): void {
+        this.stopMotion();
+        this.zoomLevel = view.zoom;
+        this.panX = view.panX;
+        this.panY = view.panY;
+    }
 
-        const circlesBoundWidth = maxX - minX;
-        const circlesBoundHeight = maxY - minY;
+    /**
+     * Eases to a view, or jumps to it when reduced motion is on
+     * @param view - The view to end on
+     * @param duration - Length of the transition in milliseconds
+     */
+    animateTo(view: ICameraView, duration: number = TRANSITION_DURATION): void {
+        if (duration <= 0 || AccessibilitySettings.getInstance().getOptions().reducedMotion) {
+            this.jumpTo(view);
+            return;
+        }
+        this.stopMotion();
+        this.transition = { from: this.getView(), to: { ...view }, elapsed: 0, duration };
+    }
 
-        // Calculate available screen space (leave some padding)
-        const padding = 0.9; // Use 90% of screen space
-        const availableWidth = this.p.width * padding;
-        const availableHeight = this.p.height * padding;
+    /**
+     * Sets the board the camera frames
+     * @param shapes - The level shapes, or null for no soft bounds (e.g. in the level editor)
+     */
+    setBoard(shapes: IShapeData[] | null): void {
+        this.boardBounds = shapes && shapes.length > 0 ? getShapesBounds(shapes) : null;
+    }
 
-        // Calculate scale needed to fit both dimensions
-        const scaleX = availableWidth / circlesBoundWidth;
-        const scaleY = availableHeight / circlesBoundHeight;
+    /**
+     * Eases to the view that fits the whole board, or to the default view without one
+     */
+    zoomToFit(): void {
+        this.animateTo(this.getFitView());
+    }
 
-        // Use the smaller scale to ensure everything fits
-        const calculatedZoom = Math.min(scaleX, scaleY);
+    /**
+     * Eases to center part of the board, zooming out if it doesn't fit.
+     * Nothing moves when it is fully on screen already.
+     * @param bounds - The part to show, in world space
+     */
+    focusOn(bounds: IBounds): void {
+        const topLeft = this.worldToScreen(bounds.minX, bounds.minY);
+        const bottomRight = this.worldToScreen(bounds.maxX, bounds.maxY);
+        if (
+            topLeft.x >= 0 &&
+            topLeft.y >= 0 &&
+            bottomRight.x <= this.p.width &&
+            bottomRight.y <= this.p.height
+        ) {
+            return;
+        }
 
-        // Clamp between min (0.2) and max (5.0) zoom limits to match zoomTowardsPoint
-        return Math.max(0.2, Math.min(calculatedZoom, 5.0));
+        const zoom = Math.min(this.getTargetView().zoom, this.fitZoom(bounds));
+        const centerX = (bounds.minX + bounds.maxX) / 2;
+        const centerY = (bounds.minY + bounds.maxY) / 2;
+        this.animateTo({ zoom, panX: -centerX * zoom, panY: -centerY * zoom });
     }
 
     /**
-     * Zooms in by a factor
+     * Advances the transition, the inertia and the spring back into the soft bounds
+     * Should be called in the draw loop, before the view is read for cutting or drawing
+     * @param deltaTime - Milliseconds since the last frame
+     */
+    update(deltaTime: number): void {
+        if (this.transition) {
+            const transition = this.transition;
+            transition.elapsed += deltaTime;
+            const t = Math.min(1, transition.elapsed / transition.duration);
+            const eased = easeInOutCubic(t);
+            const { from, to } = transition;
+            // Zoom is eased in log space so zooming in and out feel alike
+            this.zoomLevel = from.zoom * Math.pow(to.zoom / from.zoom, eased);
+            this.panX = from.panX + (to.panX - from.panX) * eased;
+            this.panY = from.panY + (to.panY - from.panY) * eased;
+            if (t >= 1) {
+                this.transition = null;
+            }
+            return;
+        }
+
+        if (this.dragging) return;
+
+        const seconds = deltaTime / 1000;
+        const limits = this.getPanLimits();
+
+        if (this.isGliding) {
+            this.panX += this.velocityX * seconds;
+            this.panY += this.velocityY * seconds;
+            const outside =
+                limits !== null &&
+                (this.panX < limits.minX ||
+                    this.panX > limits.maxX ||
+                    this.panY < limits.minY ||
+                    this.panY > limits.maxY);
+            const decay = Math.exp(-(outside ? OVERSCROLL_FRICTION : FRICTION) * seconds);
+            this.velocityX *= decay;
+            this.velocityY *= decay;
+            if (Math.hypot(this.velocityX, this.velocityY) < MIN_SPEED) {
+                this.isGliding = false;
+            }
+        }
+
+        if (limits) {
+            const pull = 1 - Math.exp(-SPRING_RATE * seconds);
+            this.panX += (clamp(this.panX, limits.minX, limits.maxX) - this.panX) * pull;
+            this.panY += (clamp(this.panY, limits.minY, limits.maxY) - this.panY) * pull;
+        }
+    }
+
+    /**
+     * Calculates the optimal zoom level to fit all shapes on screen
+     * @param shapes - The level shapes
+     * @returns The calculated zoom scale
+     */
+    calculateZoomScale(shapes: IShapeData[]): number {
+        if (shapes.length === 0) return 1.0;
+        return this.fitZoom(getShapesBounds(shapes));
+    }
+
+    /**
+     * Zooms in by a factor, easing; repeated presses build on the zoom in progress
      * @param factor - The zoom factor (default: 1.2)
      * @param maxZoom - Maximum zoom level (default: 5)
      */
-    zoomIn(factor: number = 1.2, maxZoom: number = 5): void {
-        this.zoomLevel *= factor;
-        if (this.zoomLevel > maxZoom) this.zoomLevel = maxZoom;
+    zoomIn(factor: number = 1.2, maxZoom: number = MAX_ZOOM): void {
+        const target = this.getTargetView();
+        this.animateTo({ ...target, zoom: Math.min(target.zoom * factor, maxZoom) });
     }
 
     /**
-     * Zooms out by a factor
+     * Zooms out by a factor, easing; repeated presses build on the zoom in progress
      * @param factor - The zoom factor (default: 1.2)
      * @param minZoom - Minimum zoom level (default: 0.2)
      */
-    zoomOut(factor: number = 1.2, minZoom: number = 0.2): void {
-        this.zoomLevel /= factor;
-        if (this.zoomLevel < minZoom) this.zoomLevel = minZoom;
+    zoomOut(factor: number = 1.2, minZoom: number = MIN_ZOOM): void {
+        const target = this.getTargetView();
+        this.animateTo({ ...target, zoom: Math.max(target.zoom / factor, minZoom) });
     }
 
     /**
@@ -109,7 +247,17 @@ export class CameraController {
      * @param minZoom - Minimum zoom level (default: 0.2)
      * @param maxZoom - Maximum zoom level (default: 5)
      */
-    zoomTowardsPoint(targetX: number, targetY: number, zoomFactor: number, minZoom: number = 0.2, maxZoom: number = 5): void {
+    zoomTowardsPoint(
+        targetX: number,
+        targetY: number,
+        zoomFactor: number,
+        minZoom: number = MIN_ZOOM,
+        maxZoom: number = MAX_ZOOM,
+    ): void {
+        // The player takes over from any transition or glide where it is
+        this.transition = null;
+        this.isGliding = false;
+
         // Get world position before zoom
         const worldPosBefore = this.screenToWorld(targetX, targetY);
 
@@ -134,6 +282,18 @@ export class CameraController {
         this.panY += worldDeltaY * this.zoomLevel;
     }
 
+    /**
+     * Moves the view, e.g. from the keyboard or a gamepad stick
+     * @param dx - Horizontal move of the board in screen pixels
+     * @param dy - Vertical move of the board in screen pixels
+     */
+    panBy(dx: number, dy: number): void {
+        if (dx === 0 && dy === 0) return;
+        this.transition = null;
+        this.isGliding = false;
+        this.moveWithResistance(dx, dy);
+    }
+
     /**
      * Sets up mouse wheel zoom event handler
      * Should be called once during setup
@@ -188,13 +348,13 @@ export class CameraController {
         if (this.p.mouseIsPressed && this.p.mouseButton === this.p.RIGHT) {
             if (!this.isPanning) {
                 this.isPanning = true;
+                this.startDrag('mouse');
                 this.lastMouseX = this.p.mouseX;
                 this.lastMouseY = this.p.mouseY;
             } else {
                 const dx = this.p.mouseX - this.lastMouseX;
                 const dy = this.p.mouseY - this.lastMouseY;
-                this.panX += dx;
-                this.panY += dy;
+                this.dragBy(dx, dy);
                 this.lastMouseX = this.p.mouseX;
                 this.lastMouseY = this.p.mouseY;
             }
@@ -219,8 +379,7 @@ export class CameraController {
                 const dy = this.lastMouseY - this.p.mouseY;
 
                 // Apply slight movement based on pan factor (reversed direction)
-                this.panX += dx * this.leftMousePanFactor;
-                this.panY += dy * this.leftMousePanFactor;
+                this.moveWithResistance(dx * this.leftMousePanFactor, dy * this.leftMousePanFactor);
 
                 this.lastMouseX = this.p.mouseX;
                 this.lastMouseY = this.p.mouseY;
@@ -230,10 +389,14 @@ export class CameraController {
 
     /**
      * Stops panning (should be called on mouse release)
+     * A right-click drag glides on from its release
      */
     stopPanning(): void {
         this.isPanning = false;
         this.isLeftMousePanning = false;
+        if (this.dragging === 'mouse') {
+            this.releaseDrag();
+        }
     }
 
     /**
@@ -258,6 +421,118 @@ export class CameraController {
         };
     }
 
+    /**
+     * Converts world coordinates to screen coordinates
+     * @param worldX - X coordinate in world space
+     * @param worldY - Y coordinate in world space
+     * @returns Object with screen x and y coordinates
+     */
+    worldToScreen(worldX: number, worldY: number): { x: number; y: number } {
+        return {
+            x: worldX * this.zoomLevel + this.p.width / 2 + this.panX,
+            y: worldY * this.zoomLevel + this.p.height / 2 + this.panY,
+        };
+    }
+
+    /**
+     * The view the camera is headed to: the end of the transition in progress, or the current view
+     */
+    private getTargetView(): ICameraView {
+        return this.transition ? { ...this.transition.to } : this.getView();
+    }
+
+    private getFitView(): ICameraView {
+        if (!this.boardBounds) {
+            return { zoom: 1.0, panX: 0, panY: 0 };
+        }
+        const { minX, minY, maxX, maxY } = this.boardBounds;
+        const zoom = this.fitZoom(this.boardBounds);
+        return { zoom, panX: -((minX + maxX) / 2) * zoom, panY: -((minY + maxY) / 2) * zoom };
+    }
+
+    /**
+     * The zoom that fits a box in 90% of the screen, within the zoom limits
+     */
+    private fitZoom({ minX, minY, maxX, maxY }: IBounds): number {
+        const padding = 0.9;
+        const scaleX = (this.p.width * padding) / (maxX - minX);
+        const scaleY = (this.p.height * padding) / (maxY - minY);
+        return clamp(Math.min(scaleX, scaleY), MIN_ZOOM, MAX_ZOOM);
+    }
+
+    /**
+     * The pans that keep enough of the board on screen at the current zoom, or null without a board
+     */
+    private getPanLimits(): { minX: number; maxX: number; minY: number; maxY: number } | null {
+        if (!this.boardBounds) return null;
+        const { minX, minY, maxX, maxY } = this.boardBounds;
+        const zoom = this.zoomLevel;
+        const { width, height } = this.p;
+        const keepX = Math.min((maxX - minX) * zoom, width) * VISIBLE_FRACTION;
+        const keepY = Math.min((maxY - minY) * zoom, height) * VISIBLE_FRACTION;
+
+        // The box's right edge stays keepX right of the screen's left edge, and so on
+        return {
+            minX: keepX - width / 2 - maxX * zoom,
+            maxX: width / 2 - keepX - minX * zoom,
+            minY: keepY - height / 2 - maxY * zoom,
+            maxY: height / 2 - keepY - minY * zoom,
+        };
+    }
+
+    /**
+     * Pans, moving only part of the way further past the soft bounds
+     */
+    private moveWithResistance(dx: number, dy: number): void {
+        const limits = this.getPanLimits();
+        if (!limits) {
+            this.panX += dx;
+            this.panY += dy;
+            return;
+        }
+        this.panX += resist(this.panX, dx, limits.minX, limits.maxX);
+        this.panY += resist(this.panY, dy, limits.minY, limits.maxY);
+    }
+
+    private startDrag(source: 'mouse' | 'touch'): void {
+        this.stopMotion();
+        this.dragging = source;
+        this.lastDragTime = performance.now();
+    }
+
+    /**
+     * Pans with a drag, tracking its velocity for the glide after release
+     */
+    private dragBy(dx: number, dy: number): void {
+        const now = performance.now();
+        const seconds = (now - this.lastDragTime) / 1000;
+        if (seconds > 0) {
+            // Weighted towards the latest moves, which set the direction of the glide
+            this.velocityX = this.velocityX * 0.2 + (dx / seconds) * 0.8;
+            this.velocityY = this.velocityY * 0.2 + (dy / seconds) * 0.8;
+        }
+        this.lastDragTime = now;
+        this.moveWithResistance(dx, dy);
+    }
+
+    /**
+     * Ends a drag, gliding on unless it was held still or reduced motion is on
+     */
+    private releaseDrag(): void {
+        this.dragging = null;
+        const heldStill = performance.now() - this.lastDragTime > RELEASE_WINDOW;
+        const reducedMotion = AccessibilitySettings.getInstance().getOptions().reducedMotion;
+        this.isGliding =
+            !heldStill && !reducedMotion && Math.hypot(this.velocityX, this.velocityY) >= MIN_SPEED;
+    }
+
+    private stopMotion(): void {
+        this.transition = null;
+        this.isGliding = false;
+        this.velocityX = 0;
+        this.velocityY = 0;
+    }
+
     /**
      * Calculates the distance between two touch points
      */
@@ -272,17 +547,22 @@ export class CameraController {
      * Should be called once during setup
      */
     setupTouchControls(): void {
-        document.addEventListener('touchstart', (e) => {
-            if (e.touches.length === 2) {
-                e.preventDefault();
-                this.isTouchPanning = true;
-                const centerX = (e.touches[0].clientX + e.touches[1].clientX) / 2;
-                const centerY = (e.touches[0].clientY + e.touches[1].clientY) / 2;
-                this.lastTouchX = centerX;
-                this.lastTouchY = centerY;
-                this.lastTouchDistance = this.getTouchDistance(e.touches[0], e.touches[1]);
-            }
-        }, { passive: false });
+        document.addEventListener(
+            'touchstart',
+            (e) => {
+                if (e.touches.length === 2) {
+                    e.preventDefault();
+                    this.isTouchPanning = true;
+                    this.startDrag('touch');
+                    const centerX = (e.touches[0].clientX + e.touches[1].clientX) / 2;
+                    const centerY = (e.touches[0].clientY + e.touches[1].clientY) / 2;
+                    this.lastTouchX = centerX;
+                    this.lastTouchY = centerY;
+                    this.lastTouchDistance = this.getTouchDistance(e.touches[0], e.touches[1]);
+                }
+            },
+            { passive: false },
+        );
 
         document.addEventListener('touchmove', (e) => {
             if (e.touches.length === 2 && this.isTouchPanning) {
@@ -292,13 +572,12 @@ export class CameraController {
                 const centerX = (e.touches[0].clientX + e.touches[1].clientX) / 2;
                 const centerY = (e.touches[0].clientY + e.touches[1].clientY) / 2;
 
-                // Handle panning
-                const dx = centerX - this.lastTouchX;
-                const dy = centerY - this.lastTouchY;
-                this.panX += dx;
-                this.panY += dy;
-                this.lastTouchX = centerX;
-                this.lastTouchY = centerY;
+                    // Handle panning
+                    const dx = centerX - this.lastTouchX;
+                    const dy = centerY - this.lastTouchY;
+                    this.dragBy(dx, dy);
+                    this.lastTouchX = centerX;
+                    this.lastTouchY = centerY;
 
                 // Handle pinch-to-zoom
                 const currentDistance = this.getTouchDistance(e.touches[0], e.touches[1]);
@@ -325,7 +604,30 @@ export class CameraController {
             if (e.touches.length < 2) {
                 this.isTouchPanning = false;
                 this.lastTouchDistance = 0;
+                if (this.dragging === 'touch') {
+                    this.releaseDrag();
+                }
             }
         });
     }
 }
+
+function clamp(value: number, min: number, max: number): number {
+    return Math.max(min, Math.min(max, value));
+}
+
+/**
+ * The part of a pan move that applies: all of it up to the bounds or heading back
+ * into them, RUBBER_BAND of the rest
+ */
+function resist(pan: number, delta: number, min: number, max: number): number {
+    const free =
+        delta < 0
+            ? Math.max(delta, Math.min(0, min - pan))
+            : Math.min(delta, Math.max(0, max - pan));
+    return free + (delta - free) * RUBBER_BAND;
+}
+
+function easeInOutCubic(t: number): number {
+    return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+}
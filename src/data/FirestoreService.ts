@@ -1,12 +1,24 @@
 import { db } from '../firebase.js';
-import { collection, query, where, getDocs, addDoc, Timestamp } from 'firebase/firestore';
-import { IGameData } from '../game/game-data/GameData.js';
+import {
+    collection,
+    query,
+    where,
+    getDocs,
+    getDoc,
+    doc,
+    addDoc,
+    Timestamp,
+} from 'firebase/firestore';
+import { IEndlessRunData, IGameData } from '../game/game-data/GameData.js';
+import { IMatchDocument, parseMatchDocument } from './matchDocument.js';
 
 /**
  * FirestoreService - Handles all Firestore operations
  */
 export class FirestoreService {
     private collectionName = 'games';
+    private endlessRunsCollectionName = 'endless-runs';
+    private matchesCollectionName = 'matches';
 
     /**
      * Loads all game data for a specific player from Firestore
@@ -26,10 +38,15 @@ export class FirestoreService {
                     playerName: data.playerName,
                     startTime: data.startTime,
                     endTime: data.endTime,
+                    pausedTime: data.pausedTime,
                     hintsUsed: data.hintsUsed,
                     successfulIntersections: data.successfulIntersections,
                     gameDifficulty: data.gameDifficulty,
+                    totalCuts: data.totalCuts,
                     boardName: data.boardName,
+                    challengeDate: data.challengeDate,
+                    practice: data.practice,
+                    matchId: data.matchId,
                 });
             });
 
@@ -56,7 +73,15 @@ export class FirestoreService {
                 hintsUsed: gameData.hintsUsed,
                 successfulIntersections: gameData.successfulIntersections,
                 gameDifficulty: gameData.gameDifficulty,
+                totalCuts: gameData.totalCuts,
                 boardName: gameData.boardName,
+                // Firestore rejects undefined fields
+                ...(gameData.challengeDate !== undefined && {
+                    challengeDate: gameData.challengeDate,
+                    practice: gameData.practice ?? false,
+                }),
+                ...(gameData.pausedTime !== undefined && { pausedTime: gameData.pausedTime }),
+                ...(gameData.matchId !== undefined && { matchId: gameData.matchId }),
                 timestamp: Timestamp.now(), // Add server timestamp
             });
 
@@ -67,6 +92,54 @@ export class FirestoreService {
         }
     }
 
+    /**
+     * Saves a game recording to Firestore
+     * @param match - The recording to save
+     * @returns Promise with the id of the stored recording
+     */
+    async saveMatch(match: IMatchDocument): Promise<string> {
+        try {
+            const matchesCollection = collection(db, this.matchesCollectionName);
+            const ref = await addDoc(matchesCollection, match);
+
+            console.log(`Saved match recording for ${match.playerName} - ${match.boardName}`);
+            return ref.id;
+        } catch (error) {
+            console.error('Error saving match recording to Firestore:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Loads a game recording from Firestore
+     * @param matchId - Id of the recording, as stored on its game record
+     * @returns Promise with the recording, or null if there is none
+     */
+    async loadMatch(matchId: string): Promise<IMatchDocument | null> {
+        const snapshot = await getDoc(doc(db, this.matchesCollectionName, matchId));
+        return snapshot.exists() ? parseMatchDocument(snapshot.data()) : null;
+    }
+
+    /**
+     * Saves a finished endless run to Firestore
+     * @param run - The run to save
+     * @returns Promise that resolves when save is complete
+     */
+    async saveEndlessRun(run: IEndlessRunData): Promise<void> {
+        try {
+            const runsCollection = collection(db, this.endlessRunsCollectionName);
+            await addDoc(runsCollection, {
+                ...run,
+                timestamp: Timestamp.now(), // Add server timestamp
+            });
+
+            console.log(`Saved endless run for ${run.playerName} - ${run.boardsCleared} boards`);
+        } catch (error) {
+            console.error('Error saving endless run to Firestore:', error);
+            throw error;
+        }
+    }
+
     /**
      * Checks if the user is online
      * @returns true if online, false if offline
@@ -0,0 +1,56 @@
+import { IMatchDocument, parseMatchDocument } from './matchDocument.js';
+import { IShapeData } from '../game/types.js';
+
+const KEY_PREFIX = 'ghost';
+
+/**
+ * GhostStore - Keeps each player's best run per level in localStorage, as the
+ * match document the ghost replays. Only won runs count; the fastest one is kept.
+ */
+export class GhostStore {
+    /**
+     * Loads the best run on a board
+     * @param playerName - The player whose runs to look at
+     * @param boardName - The board's name
+     * @param shapes - The board's shapes; a run recorded on different shapes under the same name is ignored
+     * @returns The best run, or null if there is none
+     */
+    load(playerName: string, boardName: string, shapes: IShapeData[]): IMatchDocument | null {
+        try {
+            const stored = localStorage.getItem(this.getKey(playerName, boardName));
+            if (!stored) return null;
+            const match = parseMatchDocument(JSON.parse(stored));
+            return JSON.stringify(match.shapes) === JSON.stringify(shapes) ? match : null;
+        } catch (error) {
+            console.warn(`Ignoring stored ghost of ${boardName}:`, error);
+            return null;
+        }
+    }
+
+    /**
+     * Stores a finished run if it is a win faster than the stored one
+     * @returns true if the run is the new best
+     */
+    saveIfBest(match: IMatchDocument): boolean {
+        if (match.result !== 'won') return false;
+
+        const best = this.load(match.playerName, match.boardName, match.shapes);
+        if (best && best.duration <= match.duration) return false;
+
+        try {
+            localStorage.setItem(
+                this.getKey(match.playerName, match.boardName),
+                JSON.stringify(match),
+            );
+            return true;
+        } catch (error) {
+            // Storage full or unavailable, e.g. in private browsing
+            console.warn(`Could not store ghost of ${match.boardName}:`, error);
+            return false;
+        }
+    }
+
+    private getKey(playerName: string, boardName: string): string {
+        return `${KEY_PREFIX}:${playerName}:${boardName}`;
+    }
+}
@@ -0,0 +1,176 @@
+import { IMatchDocument, parseMatchDocument } from './matchDocument.js';
+import { IBoardSnapshot } from '../game/core/BoardModel.js';
+import { IChallengeTag } from '../game/DailyChallenge.js';
+import { IGameStats } from '../game/StatsCollector.js';
+import { IShapeData } from '../game/types.js';
+import { validateShape } from '../game/BoardData.js';
+
+const KEY_PREFIX = 'saved-game';
+
+// Current saved game format. Saved games of another version are dropped.
+export const SAVED_GAME_VERSION = 1;
+
+/**
+ * A game in progress, saved to be resumed after the page is reloaded or closed
+ */
+export interface ISavedGame {
+    version: number;
+    playerName: string;
+    savedAt: number; // Wall clock, epoch milliseconds
+    // The level as loaded, with the settings loadMap reads from it
+    level: { name?: string; shapes: IShapeData[]; lives: number; challenge?: IChallengeTag };
+    board: IBoardSnapshot;
+    boardTime: number; // Milliseconds of play on the board
+    hintSeed: number;
+    camera: { zoom: number; panX: number; panY: number };
+    stats: IGameStats;
+    // The recording so far, to carry on recording the resumed game
+    recording: IMatchDocument | null;
+}
+
+/**
+ * SavedGameStore - Keeps the game each player has in progress in localStorage,
+ * one per player. It is overwritten as the game goes on and removed once it ends.
+ */
+export class SavedGameStore {
+    /**
+     * Loads the game a player has in progress
+     * @returns The saved game, or null if there is none or it can't be read
+     */
+    load(playerName: string): ISavedGame | null {
+        try {
+            const stored = localStorage.getItem(this.getKey(playerName));
+            if (!stored) return null;
+            return parseSavedGame(JSON.parse(stored));
+        } catch (error) {
+            console.warn(`Ignoring saved game of ${playerName}:`, error);
+            return null;
+        }
+    }
+
+    save(game: ISavedGame): void {
+        try {
+            localStorage.setItem(this.getKey(game.playerName), JSON.stringify(game));
+        } catch (error) {
+            // Storage full or unavailable, e.g. in private browsing
+            console.warn(`Could not save the game in progress on ${game.level.name}:`, error);
+        }
+    }
+
+    clear(playerName: string): void {
+        try {
+            localStorage.removeItem(this.getKey(playerName));
+        } catch (error) {
+            console.warn(`Could not remove saved game of ${playerName}:`, error);
+        }
+    }
+
+    private getKey(playerName: string): string {
+        return `${KEY_PREFIX}:${playerName}`;
+    }
+}
+
+/**
+ * Checks that a value read back from storage is a saved game this version can resume
+ * @throws If it isn't a saved game, is of another version or is malformed
+ */
+export function parseSavedGame(value: unknown): ISavedGame {
+    const game = value as ISavedGame;
+    if (typeof game !== 'object' || game === null) {
+        throw new Error('Not a saved game');
+    }
+    if (game.version !== SAVED_GAME_VERSION) {
+        throw new Error(`Unsupported saved game version ${game.version}`);
+    }
+    if (typeof game.playerName !== 'string') {
+        throw new Error('Saved game has no player name');
+    }
+    const numbers = {
+        savedAt: game.savedAt,
+        boardTime: game.boardTime,
+        hintSeed: game.hintSeed,
+        zoom: game.camera?.zoom,
+        panX: game.camera?.panX,
+        panY: game.camera?.panY,
+    };
+    for (const [name, number] of Object.entries(numbers)) {
+        if (!isFiniteNumber(number)) {
+            throw new Error(`Saved game ${name} is not a number`);
+        }
+    }
+
+    const level = game.level;
+    if (typeof level !== 'object' || level === null || !Array.isArray(level.shapes)) {
+        throw new Error('Saved game has no level shapes');
+    }
+    const problems = level.shapes.flatMap((shape, index) =>
+        validateShape(shape, `shapes[${index}]`),
+    );
+    if (problems.length > 0) {
+        throw new Error(`Saved game level is invalid: ${problems.join('; ')}`);
+    }
+    if (level.name !== undefined && typeof level.name !== 'string') {
+        throw new Error('Saved game level name is not a string');
+    }
+    if (!Number.isInteger(level.lives) || level.lives < 1) {
+        throw new Error('Saved game level lives is not a positive integer');
+    }
+    if (
+        level.challenge !== undefined &&
+        (typeof level.challenge?.date !== 'string' || typeof level.challenge.practice !== 'boolean')
+    ) {
+        throw new Error('Saved game challenge is malformed');
+    }
+
+    checkSnapshot(game.board, level.shapes.length);
+    if (
+        typeof game.stats !== 'object' ||
+        game.stats === null ||
+        typeof game.stats.playerName !== 'string'
+    ) {
+        throw new Error('Saved game has no stats');
+    }
+    if (game.recording !== null) {
+        parseMatchDocument(game.recording);
+    }
+    return game;
+}
+
+function checkSnapshot(board: IBoardSnapshot, shapeCount: number): void {
+    if (typeof board !== 'object' || board === null) {
+        throw new Error('Saved game has no board');
+    }
+    const isAngles = (arc: unknown): boolean =>
+        typeof arc === 'object' &&
+        arc !== null &&
+        isFiniteNumber((arc as { startAngle: unknown }).startAngle) &&
+        isFiniteNumber((arc as { endAngle: unknown }).endAngle);
+    if (
+        !Array.isArray(board.arcs) ||
+        board.arcs.length !== shapeCount ||
+        !board.arcs.every((arcs) => Array.isArray(arcs) && arcs.every(isAngles))
+    ) {
+        throw new Error(`Saved board arcs don't match its ${shapeCount} shapes`);
+    }
+    if (
+        !Array.isArray(board.intersections) ||
+        !board.intersections.every((piece) => isAngles(piece) && Number.isInteger(piece.shape))
+    ) {
+        throw new Error('Saved board pieces are malformed');
+    }
+    if (!Array.isArray(board.cutPairs) || !board.cutPairs.every((key) => typeof key === 'string')) {
+        throw new Error('Saved board cut pairs are malformed');
+    }
+    if (!Array.isArray(board.hintedShapes) || !board.hintedShapes.every(Number.isInteger)) {
+        throw new Error('Saved board hinted shapes are malformed');
+    }
+    for (const key of ['missedCuts', 'hintsUsed', 'hintDraws'] as const) {
+        if (!Number.isInteger(board[key]) || board[key] < 0) {
+            throw new Error(`Saved board ${key} is not a count`);
+        }
+    }
+}
+
+function isFiniteNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+}
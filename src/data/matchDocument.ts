@@ -0,0 +1,217 @@
+import { IPoint, IShapeData } from '../game/types.js';
+
+// Current replay format. Bump when the event encoding changes.
+export const MATCH_DOCUMENT_VERSION = 1;
+
+// Inputs are rounded to these steps before the game applies them, so the stored
+// values replay exactly
+const POSITION_SCALE = 100; // World units
+const ZOOM_SCALE = 10000;
+const PAN_SCALE = 10; // Screen pixels
+
+export type MatchResult = 'won' | 'lost' | 'abandoned';
+
+/**
+ * One recorded input. Times are milliseconds of board time, the clock moving
+ * boards are animated by.
+ */
+export type MatchEvent =
+    // The blade touched down: a stroke segment from start to end
+    | { type: 'blade'; time: number; start: IPoint; end: IPoint }
+    // The blade moved on: a stroke segment from the previous end to end
+    | { type: 'move'; time: number; end: IPoint }
+    | { type: 'hint'; time: number }
+    | { type: 'camera'; time: number; zoom: number; panX: number; panY: number };
+
+/**
+ * A recorded game: the level as played and every input, enough to replay it
+ * on a fresh board. Stored in the matches collection.
+ */
+export interface IMatchDocument {
+    version: number;
+    playerName: string;
+    boardName: string;
+    shapes: IShapeData[];
+    lives: number;
+    hintSeed: number; // Seed of the random source that picks hinted shapes
+    viewport: { width: number; height: number }; // Canvas size, for the camera events
+    startTime: number; // Wall clock, epoch milliseconds
+    duration: number; // Milliseconds of board time
+    result: MatchResult;
+    // Encoded events, see encodeMatchEvents. Flat because Firestore can't store nested arrays.
+    events: number[];
+}
+
+// Op codes of the encoded events
+const Op = {
+    Blade: 0,
+    Move: 1,
+    Hint: 2,
+    Camera: 3,
+} as const;
+
+// Numbers each op takes up, with its op code and time
+const OP_LENGTHS: Record<number, number> = {
+    [Op.Blade]: 6,
+    [Op.Move]: 4,
+    [Op.Hint]: 2,
+    [Op.Camera]: 5,
+};
+
+/**
+ * Rounds a world position to the precision stored in match documents
+ */
+export function quantizePoint(point: IPoint): IPoint {
+    return {
+        x: Math.round(point.x * POSITION_SCALE) / POSITION_SCALE,
+        y: Math.round(point.y * POSITION_SCALE) / POSITION_SCALE,
+    };
+}
+
+/**
+ * Rounds a camera state to the precision stored in match documents
+ */
+export function quantizeCamera(
+    zoom: number,
+    panX: number,
+    panY: number,
+): { zoom: number; panX: number; panY: number } {
+    return {
+        zoom: Math.round(zoom * ZOOM_SCALE) / ZOOM_SCALE,
+        panX: Math.round(panX * PAN_SCALE) / PAN_SCALE,
+        panY: Math.round(panY * PAN_SCALE) / PAN_SCALE,
+    };
+}
+
+/**
+ * Packs events into a flat list of integers: per event its op code, the time since
+ * the previous event and the op's arguments in fixed point
+ */
+export function encodeMatchEvents(events: MatchEvent[]): number[] {
+    const data: number[] = [];
+    const position = (value: number) => Math.round(value * POSITION_SCALE);
+    let previousTime = 0;
+
+    for (const event of events) {
+        const delta = Math.round(event.time - previousTime);
+        previousTime += delta;
+        switch (event.type) {
+            case 'blade':
+                data.push(Op.Blade, delta, position(event.start.x), position(event.start.y));
+                data.push(position(event.end.x), position(event.end.y));
+                break;
+            case 'move':
+                data.push(Op.Move, delta, position(event.end.x), position(event.end.y));
+                break;
+            case 'hint':
+                data.push(Op.Hint, delta);
+                break;
+            case 'camera':
+                data.push(Op.Camera, delta, Math.round(event.zoom * ZOOM_SCALE));
+                data.push(Math.round(event.panX * PAN_SCALE), Math.round(event.panY * PAN_SCALE));
+                break;
+        }
+    }
+    return data;
+}
+
+/**
+ * Unpacks events stored by encodeMatchEvents
+ * Throws if the data is not a list of whole events, with times that never go back
+ */
+export function decodeMatchEvents(data: number[]): MatchEvent[] {
+    const events: MatchEvent[] = [];
+    const point = (x: number, y: number): IPoint => ({
+        x: x / POSITION_SCALE,
+        y: y / POSITION_SCALE,
+    });
+    let time = 0;
+    let i = 0;
+
+    while (i < data.length) {
+        const op = data[i];
+        const length = OP_LENGTHS[op];
+        if (length === undefined) {
+            throw new Error(`Unknown match event op ${op} at ${i}`);
+        }
+        if (i + length > data.length) {
+            throw new Error(`Match event at ${i} is cut short`);
+        }
+        for (let k = i + 1; k < i + length; k++) {
+            if (!Number.isSafeInteger(data[k])) {
+                throw new Error(`Match event value ${data[k]} at ${k} is not an integer`);
+            }
+        }
+        if (data[i + 1] < 0) {
+            throw new Error(`Match event at ${i} goes back in time`);
+        }
+        time += data[i + 1];
+        switch (op) {
+            case Op.Blade:
+                events.push({
+                    type: 'blade',
+                    time,
+                    start: point(data[i + 2], data[i + 3]),
+                    end: point(data[i + 4], data[i + 5]),
+                });
+                i += 6;
+                break;
+            case Op.Move:
+                events.push({ type: 'move', time, end: point(data[i + 2], data[i + 3]) });
+                i += 4;
+                break;
+            case Op.Hint:
+                events.push({ type: 'hint', time });
+                i += 2;
+                break;
+            case Op.Camera:
+                events.push({
+                    type: 'camera',
+                    time,
+                    zoom: data[i + 2] / ZOOM_SCALE,
+                    panX: data[i + 3] / PAN_SCALE,
+                    panY: data[i + 4] / PAN_SCALE,
+                });
+                i += 5;
+                break;
+        }
+    }
+    return events;
+}
+
+/**
+ * Checks that a parsed match document is one this version can replay. Documents are
+ * written by clients, so everything a replay reads is checked, events included.
+ * @param value - The parsed JSON, e.g. from Firestore
+ * @returns The match document; throws if it is not one this version can replay
+ */
+export function parseMatchDocument(value: unknown): IMatchDocument {
+    const match = value as IMatchDocument;
+    if (
+        typeof match !== 'object' ||
+        match === null ||
+        !Array.isArray(match.events) ||
+        !Array.isArray(match.shapes)
+    ) {
+        throw new Error('Not a match document');
+    }
+    if (match.version !== MATCH_DOCUMENT_VERSION) {
+        throw new Error(
+            `Unsupported match document version ${match.version} (expected ${MATCH_DOCUMENT_VERSION})`,
+        );
+    }
+    if (typeof match.playerName !== 'string' || typeof match.boardName !== 'string') {
+        throw new Error('Match document has no player or board name');
+    }
+    const numbers = { lives: match.lives, hintSeed: match.hintSeed, duration: match.duration };
+    for (const [name, number] of Object.entries(numbers)) {
+        if (typeof number !== 'number' || !Number.isFinite(number)) {
+            throw new Error(`Match document ${name} is not a number`);
+        }
+    }
+    if (typeof match.viewport !== 'object' || match.viewport === null) {
+        throw new Error('Match document has no viewport');
+    }
+    decodeMatchEvents(match.events);
+    return match;
+}
@@ -0,0 +1,314 @@
+import type p5 from 'p5';
+import { CameraController } from '../camera/CameraController.js';
+import { Circle } from '../game/shapes/Circle.js';
+import { drawArcs } from '../game/shapes/drawArcs.js';
+import { BoardModel } from '../game/core/BoardModel.js';
+import { findLevelWarnings, ILevelWarning } from '../game/analysis/LevelWarnings.js';
+import { ICircle, IPoint, IShapeData } from '../game/types.js';
+
+// Radius of circles added by clicking empty space
+const DEFAULT_RADIUS = 60;
+const MIN_RADIUS = 5;
+// Distance from the outline, in screen pixels, that grabs a circle for resizing
+const RIM_GRAB_DISTANCE = 8;
+
+type DragMode = 'move' | 'resize';
+
+/**
+ * LevelEditor - Canvas side of the level editor: edits circles with the mouse and
+ * draws them through the Circle renderer with the live cuttable pieces and warnings.
+ *
+ * Left click on empty space adds a circle, dragging a circle moves it, dragging its
+ * outline resizes it and Delete removes the selected circle. The right mouse button
+ * pans through the CameraController as in the game.
+ */
+export class LevelEditor {
+    private p: p5;
+    private camera: CameraController;
+    private circles: ICircle[] = [];
+    private preview!: BoardModel<Circle>;
+    private warnings: ILevelWarning[] = [];
+    private selectedIndex: number | null = null;
+    private drag: { mode: DragMode; index: number; offset: IPoint } | null = null;
+    private active: boolean = false;
+    private onChangeCallback?: () => void;
+
+    constructor(p: p5, camera: CameraController) {
+        this.p = p;
+        this.camera = camera;
+        this.rebuild();
+    }
+
+    /**
+     * Start editing a copy of the circles of a level and fit them on screen.
+     * Other shapes can't be edited yet and are left out.
+     */
+    open(shapes: IShapeData[] = []): void {
+        this.circles = shapes
+            .filter(
+                (shape): shape is ICircle => shape.kind === undefined || shape.kind === 'circle',
+            )
+            .map((c) => ({ center: { x: c.center.x, y: c.center.y }, radius: c.radius }));
+        this.selectedIndex = null;
+        this.drag = null;
+        this.active = true;
+        this.fitCamera();
+        this.rebuild();
+    }
+
+    /**
+     * Stop handling input and drawing; the circles are kept for the next resume
+     */
+    close(): void {
+        this.active = false;
+        this.drag = null;
+    }
+
+    /**
+     * Continue editing after a playtest
+     */
+    resume(): void {
+        this.active = true;
+        this.fitCamera();
+    }
+
+    isActive(): boolean {
+        return this.active;
+    }
+
+    /**
+     * Set callback to be called whenever the circles change
+     */
+    setOnChangeCallback(callback: () => void): void {
+        this.onChangeCallback = callback;
+    }
+
+    /**
+     * A copy of the edited circles, rounded to whole world units
+     */
+    getCircles(): ICircle[] {
+        return this.circles.map((c) => ({
+            center: { x: Math.round(c.center.x), y: Math.round(c.center.y) },
+            radius: Math.round(c.radius),
+        }));
+    }
+
+    getWarnings(): ILevelWarning[] {
+        return this.warnings;
+    }
+
+    /**
+     * Number of cuttable pieces on the edited board
+     */
+    getPieceCount(): number {
+        return this.preview.totalCuts;
+    }
+
+    /**
+     * Handles mouse press: picks the circle or outline under the cursor, or adds a circle
+     */
+    onMousePressed(): void {
+        if (!this.active || this.p.mouseButton !== this.p.LEFT) return;
+
+        const point = this.camera.screenToWorld(this.p.mouseX, this.p.mouseY);
+        const rimIndex = this.findRimAt(point);
+        if (rimIndex !== null) {
+            this.selectedIndex = rimIndex;
+            this.drag = { mode: 'resize', index: rimIndex, offset: { x: 0, y: 0 } };
+            return;
+        }
+
+        const index = this.findCircleAt(point);
+        if (index !== null) {
+            const center = this.circles[index].center;
+            this.selectedIndex = index;
+            this.drag = {
+                mode: 'move',
+                index,
+                offset: { x: center.x - point.x, y: center.y - point.y },
+            };
+            return;
+        }
+
+        this.circles.push({
+            center: { x: point.x, y: point.y },
+            radius: DEFAULT_RADIUS / this.camera.zoomLevel,
+        });
+        this.selectedIndex = this.circles.length - 1;
+        this.changed();
+    }
+
+    /**
+     * Applies the current drag. Should be called in the draw loop.
+     */
+    handleDragging(): void {
+        if (!this.active || !this.drag || !this.p.mouseIsPressed) return;
+
+        const point = this.camera.screenToWorld(this.p.mouseX, this.p.mouseY);
+        const circle = this.circles[this.drag.index];
+        if (this.drag.mode === 'move') {
+            const x = point.x + this.drag.offset.x;
+            const y = point.y + this.drag.offset.y;
+            if (x === circle.center.x && y === circle.center.y) return;
+            circle.center = { x, y };
+        } else {
+            const radius = Math.max(
+                MIN_RADIUS,
+                Math.hypot(point.x - circle.center.x, point.y - circle.center.y),
+            );
+            if (radius === circle.radius) return;
+            circle.radius = radius;
+        }
+        this.changed();
+    }
+
+    onMouseReleased(): void {
+        this.drag = null;
+        this.camera.stopPanning();
+    }
+
+    /**
+     * Handles editing keys: Delete/Backspace removes the selected circle, Escape deselects
+     */
+    onKeyPressed(key: string): void {
+        if (!this.active) return;
+
+        if ((key === 'Delete' || key === 'Backspace') && this.selectedIndex !== null) {
+            this.circles.splice(this.selectedIndex, 1);
+            this.selectedIndex = null;
+            this.drag = null;
+            this.changed();
+        } else if (key === 'Escape') {
+            this.selectedIndex = null;
+        }
+    }
+
+    /**
+     * Draws the edited board. Should be called after the camera transform.
+     */
+    draw(): void {
+        if (!this.active) return;
+
+        const p = this.p;
+        const weight = 2 / this.camera.zoomLevel;
+        const flagged = new Map<number, ILevelWarning['kind']>();
+        for (const warning of this.warnings) {
+            for (const index of warning.shapes) {
+                if (!flagged.has(index) || warning.kind === 'dropped')
+                    flagged.set(index, warning.kind);
+            }
+        }
+
+        // Circles dropped by the board aren't in the preview: outline them from the data
+        this.circles.forEach((circle, index) => {
+            if (flagged.get(index) !== 'dropped') return;
+            p.push();
+            p.stroke(255, 80, 80, 160);
+            p.strokeWeight(weight);
+            p.noFill();
+            p.circle(circle.center.x, circle.center.y, circle.radius * 2);
+            p.pop();
+        });
+
+        for (const circle of this.preview.shapes) {
+            circle.draw(circle.arc, this.camera.zoomLevel);
+        }
+
+        // Live cuttable pieces
+        p.push();
+        p.stroke(255, 204, 0);
+        p.strokeWeight(weight * 2);
+        p.noFill();
+        drawArcs(p, this.preview.intersections);
+        p.pop();
+
+        // Warned circles and the selection
+        this.circles.forEach((circle, index) => {
+            const kind = flagged.get(index);
+            const selected = index === this.selectedIndex;
+            if ((!kind || kind === 'dropped') && !selected) return;
+
+            p.push();
+            p.noFill();
+            p.strokeWeight(weight);
+            if (kind && kind !== 'dropped') {
+                p.stroke(255, 140, 0, 200);
+                p.circle(
+                    circle.center.x,
+                    circle.center.y,
+                    circle.radius * 2 + 6 / this.camera.zoomLevel,
+                );
+            }
+            if (selected) {
+                p.stroke(0, 255, 255);
+                p.circle(circle.center.x, circle.center.y, circle.radius * 2);
+                // Resize handle on the outline
+                p.fill(0, 255, 255);
+                p.noStroke();
+                p.circle(
+                    circle.center.x + circle.radius,
+                    circle.center.y,
+                    8 / this.camera.zoomLevel,
+                );
+            }
+            p.pop();
+        });
+    }
+
+    /**
+     * Rebuilds the preview board and the warnings after an edit
+     */
+    private changed(): void {
+        this.rebuild();
+        if (this.onChangeCallback) {
+            this.onChangeCallback();
+        }
+    }
+
+    private rebuild(): void {
+        this.preview = new BoardModel(this.circles, {
+            createShape: (circleData) => new Circle(this.p, circleData as ICircle),
+        });
+        this.warnings = findLevelWarnings(this.circles);
+    }
+
+    private fitCamera(): void {
+        // Circles can be added anywhere, so the editor has no soft bounds
+        this.camera.setBoard(null);
+        this.camera.jumpTo({
+            zoom: this.camera.calculateZoomScale(this.circles),
+            panX: 0,
+            panY: 0,
+        });
+    }
+
+    /**
+     * The top-most circle whose outline is within grabbing distance of a point
+     */
+    private findRimAt(point: IPoint): number | null {
+        const grab = RIM_GRAB_DISTANCE / this.camera.zoomLevel;
+        for (let i = this.circles.length - 1; i >= 0; i--) {
+            const circle = this.circles[i];
+            const dist = Math.hypot(point.x - circle.center.x, point.y - circle.center.y);
+            if (Math.abs(dist - circle.radius) <= grab) return i;
+        }
+        return null;
+    }
+
+    /**
+     * The smallest circle containing a point, so nested circles stay reachable
+     */
+    private findCircleAt(point: IPoint): number | null {
+        let found: number | null = null;
+        this.circles.forEach((circle, index) => {
+            const dist = Math.hypot(point.x - circle.center.x, point.y - circle.center.y);
+            if (
+                dist < circle.radius &&
+                (found === null || circle.radius < this.circles[found].radius)
+            ) {
+                found = index;
+            }
+        });
+        return found;
+    }
+}
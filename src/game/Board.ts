@@ -1,79 +1,80 @@
 import type p5 from 'p5';
-import { Circle } from './shapes/Circle.js';
-import { IArc, ICircle, ILine } from './types.js';
-import { intersectTwoCircles, joinIntersections, lineIntersectsArc } from '../utils/mathUtils.js';
-import { SoundManager } from '../sound/SoundManager.js';
+import { createShapeView, ShapeView } from './shapes/createShapeView.js';
+import { IArc, ILine, IShapeData } from './types.js';
+import { getArcMidParam, subtractArc } from '../utils/mathUtils.js';
+import { BoardModel, IStrokeResult } from './core/BoardModel.js';
 import { AnimationManager } from '../animations/AnimationManager.js';
+import { GameEventBus } from './GameEvents.js';
 
+/**
+ * Board - Rendering adapter around the BoardModel rules core. It emits the cuts,
+ * penalties and hints of play on its event bus; sound, stats and UI subscribe there.
+ */
 export class Board {
     p: p5;
-    circles: Circle[] = [];
-    intersections: IArc[] = [];
-    totalCuts: number = 0;
+    model: BoardModel<ShapeView>;
     animationManager: AnimationManager;
-    soundManager: SoundManager;
-    missedCuts: number = 0;
-    // Number of lives consumed via hints. Hints count toward game-over like missed cuts.
-    hintsUsed: number = 0;
-    hintedCircles: Circle[] = [];
-
-    constructor(p: p5, circlesData: ICircle[], soundManager?: SoundManager) {
+    readonly events: GameEventBus;
+    private unsubscribeAnimations: () => void;
+
+    constructor(
+        p: p5,
+        shapesData: IShapeData[],
+        events?: GameEventBus,
+        maxLives?: number,
+        rng?: () => number,
+    ) {
         this.p = p;
-        this.circles = circlesData.map((c) => new Circle(p, c));
+        this.model = new BoardModel(shapesData, {
+            createShape: (shapeData) => createShapeView(p, shapeData),
+            maxLives,
+            rng,
+        });
+        this.events = events || new GameEventBus();
         this.animationManager = new AnimationManager(p);
-        this.soundManager = soundManager || new SoundManager(p);
-        this.calculateAllIntersections();
-        this.totalCuts = this.intersections.length;
-    }
-
-    calculateAllIntersections(): void {
-        this.intersections = [];
-        for (let i = 0; i < this.circles.length; i++) {
-            for (let j = i + 1; j < this.circles.length; j++) {
-                const intersections = intersectTwoCircles(this.circles[i], this.circles[j]);
-                if (intersections.length == 2) {
-                    intersections.forEach(intersection => this.intersections.push(intersection));
-                }
-            }
-        }
-        this.intersections = joinIntersections(this.intersections);
-        this.intersections = this.intersections.filter( (arc) => {
-            if (Math.abs(arc.startAngle - arc.endAngle) + 0.001 >= 2 * Math.PI) {
-                this.circles = this.circles.filter( c => c !== arc.circle );
-                return false;
-            }
+        // An explosion at the middle of every piece cut
+        this.unsubscribeAnimations = this.events.on('arcCut', ({ point }) => {
+            this.animationManager.createActiveAnimation({ x: point.x, y: point.y });
+        });
+    }
 
-            return true;
-        } );
+    /**
+     * Stops reacting to the events of play, once the board is replaced
+     */
+    detach(): void {
+        this.unsubscribeAnimations();
     }
 
-    getRemainingCuts(): number {
-        return this.intersections.length;
+    get shapes(): ShapeView[] {
+        return this.model.shapes;
     }
 
-    checkVictory(): boolean {
-        return this.intersections.length === 0;
+    get intersections(): IArc[] {
+        return this.model.intersections;
     }
 
-    /**
-     * Check if a wrong cut occurred. Returns:
-     * 0 = no hit
-     * 1 = life lost (not game over)
-     * 2 = game over
-     */
-    checkLoss(line: ILine): number {
-        for (const circle of this.circles) {
-            if (circle.intersect(line)) {
-                this.soundManager.playPenaltySound();
-                this.missedCuts++;
-                // Check combined misses (missedCuts + hintsUsed) for game over
-                if (this.missedCuts + this.hintsUsed >= 3) {
-                    return 2;
-                }
-                return 1;
-            }
-        }
-        return 0;
+    get totalCuts(): number {
+        return this.model.totalCuts;
+    }
+
+    get missedCuts(): number {
+        return this.model.missedCuts;
+    }
+
+    get hintsUsed(): number {
+        return this.model.hintsUsed;
+    }
+
+    get hintedShapes(): ShapeView[] {
+        return this.model.hintedShapes;
+    }
+
+    getRemainingCuts(): number {
+        return this.model.getRemainingCuts();
+    }
+
+    checkVictory(): boolean {
+        return this.model.checkVictory();
     }
 
     /**
@@ -81,74 +82,70 @@ export class Board {
      * Returns true if this causes game over.
      */
     recordHintUsed(): boolean {
-        this.hintsUsed++;
-        const intersection = this.intersections[Math.floor(Math.random() * this.intersections.length)];
-        this.hintedCircles.push(intersection.circle as Circle);
-        console.log("Hint used on circle at ", intersection.circle.center);
-        console.log(this.hintedCircles);
-        return (this.missedCuts + this.hintsUsed) >= 3;
+        const causesGameOver = this.model.recordHintUsed();
+        this.events.emit('hintUsed', {
+            livesRemaining: this.model.getLivesRemaining(),
+            gameOver: causesGameOver,
+        });
+        return causesGameOver;
     }
 
     getProgress(): string {
-        return ((1 - this.getRemainingCuts() / this.totalCuts) * 100).toFixed(2);
-    }
-
-    checkIntersection(line: ILine): number {
-        let hitCount = 0;
-        this.intersections = this.intersections.filter(intersection => {
-            if (lineIntersectsArc(line, intersection)) {
-                (intersection.circle as Circle).removePiece(intersection);
-
-                // Create explosion effect at the midpoint of the arc
-                const midAngle = (intersection.startAngle + intersection.endAngle) / 2;
-                const explosionX = intersection.circle.center.x +
-                    Math.cos(midAngle) * intersection.circle.radius;
-                const explosionY = intersection.circle.center.y +
-                    Math.sin(midAngle) * intersection.circle.radius;
-                this.animationManager.createActiveAnimation({
-                    x: explosionX,
-                    y: explosionY
-                    // using default particle count
-                });
-
-                hitCount++;
-
-                return false;
-            }
-            return true;
-        });
+        return this.model.getProgress();
+    }
 
-        // Update hintedCircles to only include circles that still have intersections
-        if (this.hintedCircles.length > 0) {
-            const circlesWithIntersections = new Set(
-                this.intersections.map(intersection => intersection.circle)
-            );
-            this.hintedCircles = this.hintedCircles.filter(circle =>
-                circlesWithIntersections.has(circle)
-            );
-            console.log("Updated hintedCircles: ", this.hintedCircles);
+    /**
+     * Processes one stroke segment through the rules core, then emits the
+     * penalty and every piece cut
+     * @param line - The stroke segment in world coordinates
+     * @returns The pieces cut, in blade order, and the penalty outcome
+     */
+    processStroke(line: ILine): IStrokeResult {
+        const result = this.model.processStroke(line);
+
+        if (result.penalty) {
+            this.events.emit('penalty', {
+                livesRemaining: this.model.getLivesRemaining(),
+                gameOver: result.gameOver,
+            });
         }
 
-        // Play sound if we hit something
-        if (hitCount > 0) {
-            console.log(`Hit ${hitCount} intersections!`);
-            this.soundManager.playPopSound();
-        }
+        const remainingCuts = this.model.getRemainingCuts();
+        result.cuts.forEach((piece, index) => {
+            const point = piece.shape.pointAt(getArcMidParam(piece));
+            this.events.emit('arcCut', { piece, point, index, remainingCuts });
+        });
 
+        return result;
+    }
 
-        return hitCount;
+    /**
+     * Moves the shapes of an animated board to where they are at a time
+     * @param time - Seconds of play since the board started
+     */
+    setTime(time: number): void {
+        this.model.setTime(time);
     }
 
     update(): void {
         this.animationManager.update();
     }
 
-    draw(): void {
-        for (const circle of this.circles) {
-            if (this.hintedCircles.includes(circle)) {
-                circle.hintedDraw();
-            } else {
-                circle.draw();
+    /**
+     * Draws the shapes and cut animations
+     * @param fadedPieces - Pieces drawn translucent, e.g. those a ghost run has cut
+     * @param zoomLevel - The camera zoom, to keep the arcs' width on screen
+     */
+    draw(fadedPieces: IArc[] = [], zoomLevel: number = 1): void {
+        for (const shape of this.shapes) {
+            const faded = fadedPieces.filter((piece) => piece.shape === shape);
+            let arcs = shape.arc;
+            for (const piece of faded) {
+                arcs = arcs.flatMap((arc) => subtractArc(arc, piece));
+            }
+            shape.draw(arcs, zoomLevel, this.hintedShapes.includes(shape) ? 'hinted' : 'plain');
+            if (faded.length > 0) {
+                shape.draw(faded, zoomLevel, 'faded');
             }
         }
         this.animationManager.draw();
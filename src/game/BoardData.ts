@@ -1,5 +1,7 @@
-import { Level } from "../ui/index.js";
-import { ICircle } from "./types.js";
+import type { Level } from '../ui/index.js';
+import { ICircle, ICircleMotion, IPoint, IShapeData } from './types.js';
+import type { IChallengeTag } from './DailyChallenge.js';
+import type { IEndlessTag } from './EndlessRun.js';
 
 // Simple seeded RNG utilities (Mulberry32)
 let globalRng: (() => number) | null = null;
@@ -19,7 +21,10 @@ function hashStringToUint32(str: string): number {
     return h >>> 0;
 }
 
-function createRngFromSeed(seed: number | string): () => number {
+/**
+ * Creates a deterministic random source in [0, 1) from a number or string seed
+ */
+export function createRngFromSeed(seed: number | string): () => number {
     let s = typeof seed === 'number' ? seedFromNumber(seed) : hashStringToUint32(seed);
     // Mulberry32
     return function () {
@@ -47,12 +52,422 @@ export function resetRandomSeed(): void {
     globalRng = null;
 }
 
-export interface IBoardData extends Array<ICircle> {
+export interface IBoardData extends Array<IShapeData> {
     name?: string;
+    lives?: number;
+    par?: number;
+    challenge?: IChallengeTag; // Set on daily challenge boards
+    endless?: IEndlessTag; // Set on endless run boards
 }
 
+// Board names of levels loaded from files start with this, so their game records
+// stay apart from those of built-in levels with the same name
+export const IMPORTED_LEVEL_PREFIX = 'Imported: ';
+
+// Current level document schema. Bump when the format changes and migrate older versions in BoardData.fromJSON.
+// Version 2 renamed circles to shapes, which may mix circles, ellipses, polygons and segments.
+export const BOARD_DATA_VERSION = 2;
+
+/**
+ * Parameters that rebuild a level's circles through generateLevel
+ */
+export interface IGeneratorParams {
+    width: number;
+    height: number;
+    minRadius: number;
+    maxRadius: number;
+    seed: number | string;
+}
+
+/**
+ * Serialized level document, as stored in .json level files
+ */
+export interface IBoardDocument {
+    version: number;
+    id: string; // Stable id, also used to track the level in the levels panel
+    name: string; // Also the board name game records are filed under
+    author?: string;
+    description?: string;
+    // Shapes of the level; may be left out when generator is given
+    shapes?: IShapeData[];
+    // Version 1 name of shapes, when levels could only hold circles
+    circles?: ICircle[];
+    generator?: IGeneratorParams;
+    par?: number; // Target number of strokes
+    lives?: number; // Lives for the level (default: 3)
+}
+
+/**
+ * BoardData - A validated, versioned level document
+ */
 export class BoardData {
-    // TODO: Implement BoardData logic
+    readonly version: number = BOARD_DATA_VERSION;
+    readonly id: string;
+    readonly name: string;
+    readonly author?: string;
+    readonly description?: string;
+    readonly generator?: IGeneratorParams;
+    readonly par?: number;
+    readonly lives?: number;
+    // Shapes with the level settings attached, ready for GameState.loadMap
+    readonly shapes: IBoardData;
+
+    /**
+     * @param document - The level document; throws if it is invalid
+     */
+    constructor(document: IBoardDocument) {
+        const problems = BoardData.validate(document);
+        if (problems.length > 0) {
+            throw new Error(`Invalid level "${document?.id ?? '?'}": ${problems.join('; ')}`);
+        }
+
+        this.id = document.id;
+        this.name = document.name;
+        this.author = document.author;
+        this.description = document.description;
+        this.generator = document.generator ? { ...document.generator } : undefined;
+        this.par = document.par;
+        this.lives = document.lives;
+
+        const shapesData = document.shapes ?? document.circles;
+        const shapes: IShapeData[] = shapesData
+            ? shapesData.map(cloneShape)
+            : generateLevel(
+                  this.generator!.width,
+                  this.generator!.height,
+                  this.generator!.minRadius,
+                  this.generator!.maxRadius,
+                  undefined,
+                  this.generator!.seed,
+              );
+        this.shapes = Object.assign(shapes, {
+            name: this.name,
+            ...(this.lives !== undefined && { lives: this.lives }),
+            ...(this.par !== undefined && { par: this.par }),
+        });
+    }
+
+    /**
+     * Lists what is wrong with a level document
+     * @param document - Parsed JSON or a document literal
+     * @returns Human-readable problems; empty when the document is valid
+     */
+    static validate(document: unknown): string[] {
+        const problems: string[] = [];
+        if (!isRecord(document)) {
+            return ['level must be an object'];
+        }
+
+        if (!Number.isInteger(document.version) || (document.version as number) < 1) {
+            problems.push('version must be a positive integer');
+        } else if ((document.version as number) > BOARD_DATA_VERSION) {
+            problems.push(
+                `version ${document.version} is newer than supported (${BOARD_DATA_VERSION})`,
+            );
+        }
+        if (typeof document.id !== 'string' || document.id.trim() === '') {
+            problems.push('id must be a non-empty string');
+        }
+        if (typeof document.name !== 'string' || document.name.trim() === '') {
+            problems.push('name must be a non-empty string');
+        }
+        for (const key of ['author', 'description'] as const) {
+            if (document[key] !== undefined && typeof document[key] !== 'string') {
+                problems.push(`${key} must be a string`);
+            }
+        }
+        for (const key of ['par', 'lives'] as const) {
+            const value = document[key];
+            if (value !== undefined && (!Number.isInteger(value) || (value as number) < 1)) {
+                problems.push(`${key} must be a positive integer`);
+            }
+        }
+
+        // Version 1 documents keep their shapes, all circles, under circles
+        const shapesKey =
+            document.shapes === undefined && document.circles !== undefined ? 'circles' : 'shapes';
+        const shapes = document[shapesKey];
+        if (shapes === undefined && document.generator === undefined) {
+            problems.push('level needs shapes or generator');
+        }
+        if (shapes !== undefined) {
+            if (!Array.isArray(shapes)) {
+                problems.push(`${shapesKey} must be an array`);
+            } else {
+                shapes.forEach((shape, index) => {
+                    problems.push(...validateShape(shape, `${shapesKey}[${index}]`));
+                });
+            }
+        }
+        if (document.generator !== undefined) {
+            const generator = document.generator;
+            if (!isRecord(generator)) {
+                problems.push('generator must be an object');
+            } else {
+                for (const key of ['width', 'height', 'minRadius', 'maxRadius'] as const) {
+                    if (!Number.isFinite(generator[key]) || (generator[key] as number) <= 0) {
+                        problems.push(`generator.${key} must be a positive number`);
+                    }
+                }
+                if ((generator.minRadius as number) > (generator.maxRadius as number)) {
+                    problems.push('generator.minRadius must not exceed generator.maxRadius');
+                }
+                if (typeof generator.seed !== 'number' && typeof generator.seed !== 'string') {
+                    problems.push('generator.seed must be a number or a string');
+                }
+            }
+        }
+
+        return problems;
+    }
+
+    /**
+     * Parses a level file
+     * @param json - JSON text of a level document
+     * @throws If the text is not JSON or not a valid level
+     */
+    static fromJSON(json: string): BoardData {
+        let document: unknown;
+        try {
+            document = JSON.parse(json);
+        } catch (error) {
+            throw new Error(`Level file is not valid JSON: ${(error as Error).message}`);
+        }
+        const problems = BoardData.validate(document);
+        if (problems.length > 0) {
+            throw new Error(`Invalid level: ${problems.join('; ')}`);
+        }
+        return new BoardData(document as IBoardDocument);
+    }
+
+    /**
+     * The level as a plain document. Generated levels keep only their generator
+     * parameters unless withShapes is set.
+     */
+    toDocument(withShapes: boolean = !this.generator): IBoardDocument {
+        return {
+            version: this.version,
+            id: this.id,
+            name: this.name,
+            ...(this.author !== undefined && { author: this.author }),
+            ...(this.description !== undefined && { description: this.description }),
+            ...(withShapes && { shapes: this.shapes.map(cloneShape) }),
+            ...(this.generator && { generator: { ...this.generator } }),
+            ...(this.par !== undefined && { par: this.par }),
+            ...(this.lives !== undefined && { lives: this.lives }),
+        };
+    }
+
+    /**
+     * Used by JSON.stringify, so a BoardData serializes to its level document
+     */
+    toJSON(): IBoardDocument {
+        return this.toDocument();
+    }
+
+    /**
+     * Builds the levels panel entry for this level
+     */
+    toLevel(): Level {
+        return {
+            id: this.id,
+            name: this.name,
+            boardData: this.shapes,
+            description: this.description,
+            boardName: this.name,
+            source: this,
+        };
+    }
+
+    /**
+     * Builds the levels panel entry for a level loaded from a file. Its id and board
+     * name are prefixed, so the file can't replace a built-in level or add to its records.
+     */
+    toImportedLevel(): Level {
+        const boardName = `${IMPORTED_LEVEL_PREFIX}${this.name}`;
+        return {
+            ...this.toLevel(),
+            id: `imported:${this.id}`,
+            boardData: Object.assign([] as IShapeData[], this.shapes, { name: boardName }),
+            boardName,
+        };
+    }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPoint(value: unknown): value is IPoint {
+    return isRecord(value) && Number.isFinite(value.x) && Number.isFinite(value.y);
+}
+
+/**
+ * Lists what is wrong with one shape of a level document
+ * @param shape - The parsed shape
+ * @param path - Where the shape is in the document, e.g. shapes[3]
+ */
+export function validateShape(shape: unknown, path: string): string[] {
+    if (!isRecord(shape)) {
+        return [`${path} must be an object`];
+    }
+
+    const kind = shape.kind ?? 'circle';
+    switch (kind) {
+        case 'circle':
+            if (!isPoint(shape.center)) return [`${path} needs a center with finite x and y`];
+            if (!Number.isFinite(shape.radius) || (shape.radius as number) <= 0) {
+                return [`${path} needs a positive radius`];
+            }
+            if (shape.motion === undefined) return [];
+            if (!Array.isArray(shape.motion)) return [`${path}.motion must be a list`];
+            return shape.motion.flatMap((motion, index) =>
+                validateMotion(motion, shape.radius as number, `${path}.motion[${index}]`),
+            );
+        case 'ellipse': {
+            const problems: string[] = [];
+            if (!isPoint(shape.center)) problems.push(`${path} needs a center with finite x and y`);
+            for (const key of ['radiusX', 'radiusY'] as const) {
+                if (!Number.isFinite(shape[key]) || (shape[key] as number) <= 0) {
+                    problems.push(`${path} needs a positive ${key}`);
+                }
+            }
+            if (shape.rotation !== undefined && !Number.isFinite(shape.rotation)) {
+                problems.push(`${path}.rotation must be a finite number`);
+            }
+            return problems;
+        }
+        case 'polygon': {
+            const vertices = shape.vertices;
+            if (!Array.isArray(vertices) || vertices.length < 3 || !vertices.every(isPoint)) {
+                return [`${path} needs at least 3 vertices with finite x and y`];
+            }
+            return isConvex(vertices)
+                ? []
+                : [`${path} must be convex, with vertices in order around it`];
+        }
+        case 'segment':
+            if (!isPoint(shape.start) || !isPoint(shape.end)) {
+                return [`${path} needs a start and an end with finite x and y`];
+            }
+            if (shape.start.x === shape.end.x && shape.start.y === shape.end.y) {
+                return [`${path} needs distinct start and end points`];
+            }
+            return [];
+        default:
+            return [`${path} has unknown kind "${kind}"`];
+    }
+}
+
+/**
+ * Lists what is wrong with one motion of a circle
+ * @param motion - The parsed motion
+ * @param radius - Radius of the circle it moves
+ * @param path - Where the motion is in the document, e.g. shapes[3].motion[0]
+ */
+function validateMotion(motion: unknown, radius: number, path: string): string[] {
+    if (!isRecord(motion)) {
+        return [`${path} must be an object`];
+    }
+
+    const isPeriod = (value: unknown) => Number.isFinite(value) && value !== 0;
+    switch (motion.type) {
+        case 'orbit': {
+            const problems: string[] = [];
+            if (!isPoint(motion.center))
+                problems.push(`${path} needs a center with finite x and y`);
+            if (!isPeriod(motion.period)) problems.push(`${path} needs a non-zero period`);
+            return problems;
+        }
+        case 'drift': {
+            const bounds = motion.bounds;
+            const problems: string[] = [];
+            if (!isPoint(motion.velocity))
+                problems.push(`${path} needs a velocity with finite x and y`);
+            if (
+                !isRecord(bounds) ||
+                !['minX', 'minY', 'maxX', 'maxY'].every((key) => Number.isFinite(bounds[key])) ||
+                (bounds.minX as number) > (bounds.maxX as number) ||
+                (bounds.minY as number) > (bounds.maxY as number)
+            ) {
+                problems.push(`${path} needs bounds with finite minX <= maxX and minY <= maxY`);
+            }
+            return problems;
+        }
+        case 'pulse': {
+            const problems: string[] = [];
+            const amplitude = motion.amplitude;
+            if (!Number.isFinite(amplitude) || Math.abs(amplitude as number) >= radius) {
+                problems.push(`${path} needs an amplitude smaller than the radius`);
+            }
+            if (!isPeriod(motion.period)) problems.push(`${path} needs a non-zero period`);
+            return problems;
+        }
+        default:
+            return [`${path} has unknown type "${String(motion.type)}"`];
+    }
+}
+
+/**
+ * Every turn goes the same way and the vertices go around once
+ */
+function isConvex(vertices: IPoint[]): boolean {
+    let sign = 0;
+    let turning = 0;
+    for (let k = 0; k < vertices.length; k++) {
+        const a = vertices[k];
+        const b = vertices[(k + 1) % vertices.length];
+        const c = vertices[(k + 2) % vertices.length];
+        const cross = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+        if (cross === 0) return false;
+        if (sign === 0) sign = Math.sign(cross);
+        else if (Math.sign(cross) !== sign) return false;
+        const turn = Math.atan2(cross, (b.x - a.x) * (c.x - b.x) + (b.y - a.y) * (c.y - b.y));
+        turning += turn;
+    }
+    return Math.abs(Math.abs(turning) - 2 * Math.PI) < 1e-6;
+}
+
+/**
+ * Copies a shape, keeping only the fields of its kind
+ */
+function cloneShape(shape: IShapeData): IShapeData {
+    const copyPoint = (point: IPoint): IPoint => ({ x: point.x, y: point.y });
+    switch (shape.kind) {
+        case 'ellipse':
+            return {
+                kind: 'ellipse',
+                center: copyPoint(shape.center),
+                radiusX: shape.radiusX,
+                radiusY: shape.radiusY,
+                ...(shape.rotation !== undefined && { rotation: shape.rotation }),
+            };
+        case 'polygon':
+            return { kind: 'polygon', vertices: shape.vertices.map(copyPoint) };
+        case 'segment':
+            return { kind: 'segment', start: copyPoint(shape.start), end: copyPoint(shape.end) };
+        default:
+            return {
+                center: copyPoint(shape.center),
+                radius: shape.radius,
+                ...(shape.motion && { motion: shape.motion.map(cloneMotion) }),
+            };
+    }
+}
+
+function cloneMotion(motion: ICircleMotion): ICircleMotion {
+    switch (motion.type) {
+        case 'orbit':
+            return { type: 'orbit', center: { ...motion.center }, period: motion.period };
+        case 'drift':
+            return {
+                type: 'drift',
+                velocity: { ...motion.velocity },
+                bounds: { ...motion.bounds },
+            };
+        case 'pulse':
+            return { type: 'pulse', amplitude: motion.amplitude, period: motion.period };
+    }
 }
 
 const classicVenData: ICircle[] = [
@@ -97,6 +512,95 @@ const bubbleClusterData: ICircle[] = [
 ];
 export const bubbleCluster = Object.assign(bubbleClusterData, { name: 'Bubble Cluster' });
 
+const shapeSamplerData: IShapeData[] = [
+    { center: { x: 0, y: 0 }, radius: 80 },
+    { kind: 'ellipse', center: { x: 90, y: 0 }, radiusX: 70, radiusY: 40, rotation: 0.3 },
+    {
+        kind: 'polygon',
+        vertices: [
+            { x: -120, y: -60 },
+            { x: -20, y: -60 },
+            { x: -20, y: 40 },
+            { x: -120, y: 40 },
+        ],
+    },
+    { kind: 'segment', start: { x: -200, y: 100 }, end: { x: 200, y: -100 } },
+];
+
+const orbitingMoonsData: ICircle[] = [
+    { center: { x: 0, y: 0 }, radius: 90 },
+    {
+        center: { x: 110, y: 0 },
+        radius: 35,
+        motion: [{ type: 'orbit', center: { x: 0, y: 0 }, period: 8 }],
+    },
+    {
+        center: { x: -100, y: 0 },
+        radius: 25,
+        motion: [{ type: 'orbit', center: { x: 0, y: 0 }, period: -5 }],
+    },
+    {
+        center: { x: 0, y: 125 },
+        radius: 40,
+        motion: [{ type: 'orbit', center: { x: 0, y: 0 }, period: 12 }],
+    },
+];
+
+const driftingBubblesData: ICircle[] = [
+    { center: { x: 0, y: 0 }, radius: 70 },
+    {
+        center: { x: -150, y: -60 },
+        radius: 45,
+        motion: [
+            {
+                type: 'drift',
+                velocity: { x: 60, y: 25 },
+                bounds: { minX: -160, minY: -90, maxX: 160, maxY: 90 },
+            },
+        ],
+    },
+    {
+        center: { x: 120, y: 70 },
+        radius: 35,
+        motion: [
+            {
+                type: 'drift',
+                velocity: { x: -45, y: -50 },
+                bounds: { minX: -160, minY: -90, maxX: 160, maxY: 90 },
+            },
+        ],
+    },
+    {
+        center: { x: 40, y: -80 },
+        radius: 30,
+        motion: [
+            {
+                type: 'drift',
+                velocity: { x: 35, y: 70 },
+                bounds: { minX: -160, minY: -90, maxX: 160, maxY: 90 },
+            },
+        ],
+    },
+];
+
+const heartbeatData: ICircle[] = [
+    { center: { x: -50, y: 0 }, radius: 50, motion: [{ type: 'pulse', amplitude: 20, period: 2 }] },
+    { center: { x: 50, y: 0 }, radius: 50, motion: [{ type: 'pulse', amplitude: 20, period: 3 }] },
+    {
+        center: { x: 0, y: 75 },
+        radius: 40,
+        motion: [{ type: 'pulse', amplitude: 15, period: 2.5 }],
+    },
+    {
+        center: { x: 0, y: -110 },
+        radius: 30,
+        motion: [
+            { type: 'pulse', amplitude: 10, period: 1.5 },
+            { type: 'orbit', center: { x: 0, y: 0 }, period: 10 },
+        ],
+    },
+];
+
 /**
  * Generates a level with circles based on board size.
  * The number of circles is calculated from the board area and circle sizes.
@@ -176,222 +680,235 @@ export const generateLevel = (
 };
 
 
-export const loadedLevels: Level[] = [
+/**
+ * Built-in levels as level documents. Generated levels keep only their generator
+ * parameters; the circles are rebuilt from the seed.
+ */
+export const levelDocuments: IBoardDocument[] = [
     /*{
+        version: BOARD_DATA_VERSION,
         id: 'classic-venn',
         name: 'Classic Venn',
-        difficulty: 0,
-        boardData: classicVen,
-        boardName: 'Classic Venn',
-        description: 'Two overlapping circles - perfect for beginners'
+        description: 'Two overlapping circles - perfect for beginners',
+        shapes: classicVenData,
     },*/
     {
+        version: BOARD_DATA_VERSION,
         id: 'three-overlap',
         name: 'Three Overlap',
-        difficulty: 0,
-        boardData: threeCircleVenn,
-        boardName: 'Three Overlap',
-        description: 'Three circles with a central intersection'
+        description: 'Three circles with a central intersection',
+        shapes: threeCircleVennData,
     },
     {
+        version: BOARD_DATA_VERSION,
         id: 'planetary-system',
         name: 'Planetary System',
-        difficulty: 0,
-        boardData: planetarySystem,
-        boardName: 'Planetary System',
-        description: 'A large circle with smaller orbiting circles'
+        description: 'A large circle with smaller orbiting circles',
+        shapes: planetarySystemData,
     },
     {
+        version: BOARD_DATA_VERSION,
         id: 'caterpillar',
         name: 'Caterpillar',
-        difficulty: 0,
-        boardData: caterpillarChain,
-        boardName: 'Caterpillar',
-        description: 'Chain of overlapping circles'
+        description: 'Chain of overlapping circles',
+        shapes: caterpillarChainData,
     },
     {
+        version: BOARD_DATA_VERSION,
         id: 'bubble-cluster',
         name: 'Bubble Cluster',
-        difficulty: 0,
-        boardData: bubbleCluster,
-        boardName: 'Bubble Cluster',
-        description: 'Multiple circles in a cluster formation'
+        description: 'Multiple circles in a cluster formation',
+        shapes: bubbleClusterData,
     },
     {
+        version: BOARD_DATA_VERSION,
         id: 'level-1',
         name: 'Level Easy - 1',
-        difficulty: 1,
-        boardData: generateLevel(700, 350, 20, 100, 'Level Easy - 1', 12345),
-        boardName: 'Level Easy - 1',
-        description: 'Randomly generated level - easy difficulty'
+        description: 'Randomly generated level - easy difficulty',
+        generator: { width: 700, height: 350, minRadius: 20, maxRadius: 100, seed: 12345 },
     },
     {
+        version: BOARD_DATA_VERSION,
         id: 'level-2',
         name: 'Level Easy - 2',
-        difficulty: 1,
-        boardData: generateLevel(700, 350, 20, 100, 'Level Easy - 2', 12445),
-        boardName: 'Level Easy - 2',
-        description: 'Randomly generated level - easy difficulty'
+        description: 'Randomly generated level - easy difficulty',
+        generator: { width: 700, height: 350, minRadius: 20, maxRadius: 100, seed: 12445 },
     },
     {
+        version: BOARD_DATA_VERSION,
         id: 'level-3',
         name: 'Level Easy - 3',
-        difficulty: 1,
-        boardData: generateLevel(700, 350, 20, 100, 'Level Easy - 3', 12545),
-        boardName: 'Level Easy - 3',
-        description: 'Randomly generated level - easy difficulty'
+        description: 'Randomly generated level - easy difficulty',
+        generator: { width: 700, height: 350, minRadius: 20, maxRadius: 100, seed: 12545 },
     },
     {
+        version: BOARD_DATA_VERSION,
         id: 'level-4',
         name: 'Level Easy - 4',
-        difficulty: 1,
-        boardData: generateLevel(700, 350, 20, 100, 'Level Easy - 4', 12645),
-        boardName: 'Level Easy - 4',
-        description: 'Randomly generated level - easy difficulty'
+        description: 'Randomly generated level - easy difficulty',
+        generator: { width: 700, height: 350, minRadius: 20, maxRadius: 100, seed: 12645 },
     },
     {
+        version: BOARD_DATA_VERSION,
         id: 'level-5',
         name: 'Level Easy - 5',
-        difficulty: 1,
-        boardData: generateLevel(700, 350, 20, 100, 'Level Easy - 5', 12745),
-        boardName: 'Level Easy - 5',
-        description: 'Randomly generated level - easy difficulty'
+        description: 'Randomly generated level - easy difficulty',
+        generator: { width: 700, height: 350, minRadius: 20, maxRadius: 100, seed: 12745 },
     },
     {
+        version: BOARD_DATA_VERSION,
         id: 'level-6',
         name: 'Level Easy - 6',
-        difficulty: 1,
-        boardData: generateLevel(700, 350, 20, 100, 'Level Easy - 6', 12845),
-        boardName: 'Level Easy - 6',
-        description: 'Randomly generated level - easy difficulty'
+        description: 'Randomly generated level - easy difficulty',
+        generator: { width: 700, height: 350, minRadius: 20, maxRadius: 100, seed: 12845 },
     },
     {
+        version: BOARD_DATA_VERSION,
         id: 'level-7',
         name: 'Level Easy - 7',
-        difficulty: 1,
-        boardData: generateLevel(700, 350, 20, 100, 'Level Easy - 7', 12945),
-        boardName: 'Level Easy - 7',
-        description: 'Randomly generated level - easy difficulty'
+        description: 'Randomly generated level - easy difficulty',
+        generator: { width: 700, height: 350, minRadius: 20, maxRadius: 100, seed: 12945 },
     },
     {
+        version: BOARD_DATA_VERSION,
         id: 'level-8',
         name: 'Level Easy - 8',
-        difficulty: 1,
-        boardData: generateLevel(700, 350, 20, 100, 'Level Easy - 8', 12145),
-        boardName: 'Level Easy - 8',
-        description: 'Randomly generated level - easy difficulty'
+        description: 'Randomly generated level - easy difficulty',
+        generator: { width: 700, height: 350, minRadius: 20, maxRadius: 100, seed: 12145 },
     },
     {
+        version: BOARD_DATA_VERSION,
         id: 'level-9',
         name: 'Level Easy - 9',
-        difficulty: 1,
-        boardData: generateLevel(700, 350, 20, 100, 'Level Easy - 9', 12245),
-        boardName: 'Level Easy - 9',
-        description: 'Randomly generated level - easy difficulty'
+        description: 'Randomly generated level - easy difficulty',
+        generator: { width: 700, height: 350, minRadius: 20, maxRadius: 100, seed: 12245 },
     },
 
     // Medium difficulty levels
     {
+        version: BOARD_DATA_VERSION,
         id: 'level-10',
         name: 'Level Medium - 1',
-        difficulty: 2,
-        boardData: generateLevel(1400, 700, 20, 100, 'Level Medium - 1', 22345),
-        boardName: 'Level Medium - 1',
-        description: 'Randomly generated level - medium difficulty'
+        description: 'Randomly generated level - medium difficulty',
+        generator: { width: 1400, height: 700, minRadius: 20, maxRadius: 100, seed: 22345 },
     },
     {
+        version: BOARD_DATA_VERSION,
         id: 'level-11',
         name: 'Level Medium - 2',
-        difficulty: 2,
-        boardData: generateLevel(1400, 700, 20, 100, 'Level Medium - 2', 23345),
-        boardName: 'Level Medium - 2',
-        description: 'Randomly generated level - medium difficulty'
+        description: 'Randomly generated level - medium difficulty',
+        generator: { width: 1400, height: 700, minRadius: 20, maxRadius: 100, seed: 23345 },
     },
     {
+        version: BOARD_DATA_VERSION,
         id: 'level-12',
         name: 'Level Medium - 3',
-        difficulty: 2,
-        boardData: generateLevel(1400, 700, 20, 100, 'Level Medium - 3', 24345),
-        boardName: 'Level Medium - 3',
-        description: 'Randomly generated level - medium difficulty'
+        description: 'Randomly generated level - medium difficulty',
+        generator: { width: 1400, height: 700, minRadius: 20, maxRadius: 100, seed: 24345 },
     },
     {
+        version: BOARD_DATA_VERSION,
         id: 'level-13',
         name: 'Level Medium - 4',
-        difficulty: 2,
-        boardData: generateLevel(1400, 700, 20, 100, 'Level Medium - 4', 25345),
-        boardName: 'Level Medium - 4',
-        description: 'Randomly generated level - medium difficulty'
+        description: 'Randomly generated level - medium difficulty',
+        generator: { width: 1400, height: 700, minRadius: 20, maxRadius: 100, seed: 25345 },
     },
     {
+        version: BOARD_DATA_VERSION,
         id: 'level-14',
         name: 'Level Medium - 5',
-        difficulty: 2,
-        boardData: generateLevel(1400, 700, 20, 100, 'Level Medium - 5', 26345),
-        boardName: 'Level Medium - 5',
-        description: 'Randomly generated level - medium difficulty'
+        description: 'Randomly generated level - medium difficulty',
+        generator: { width: 1400, height: 700, minRadius: 20, maxRadius: 100, seed: 26345 },
     },
 
     // Medium-Hard difficulty levels
     {
+        version: BOARD_DATA_VERSION,
         id: 'level-15',
         name: 'Level Medium-Hard - 1',
-        difficulty: 3,
-        boardData: generateLevel(2800, 1400, 20, 110, 'Level Medium-Hard - 1', 25680),
-        boardName: 'Level Medium-Hard - 1',
-        description: 'Randomly generated level - hard difficulty'
+        description: 'Randomly generated level - hard difficulty',
+        generator: { width: 2800, height: 1400, minRadius: 20, maxRadius: 110, seed: 25680 },
     },
     {
+        version: BOARD_DATA_VERSION,
         id: 'level-16',
         name: 'Level Medium-Hard - 2',
-        difficulty: 3,
-        boardData: generateLevel(2800, 1400, 20, 110, 'Level Medium-Hard - 2', 26680),
-        boardName: 'Level Medium-Hard - 2',
-        description: 'Randomly generated level - hard difficulty'
+        description: 'Randomly generated level - hard difficulty',
+        generator: { width: 2800, height: 1400, minRadius: 20, maxRadius: 110, seed: 26680 },
     },
     {
+        version: BOARD_DATA_VERSION,
         id: 'level-17',
         name: 'Level Medium-Hard - 3',
-        difficulty: 3,
-        boardData: generateLevel(2800, 1400, 20, 110, 'Level Medium-Hard - 3', 27680),
-        boardName: 'Level Medium-Hard - 3',
-        description: 'Randomly generated level - hard difficulty'
+        description: 'Randomly generated level - hard difficulty',
+        generator: { width: 2800, height: 1400, minRadius: 20, maxRadius: 110, seed: 27680 },
     },
 
-
     // Hard difficulty levels
     {
+        version: BOARD_DATA_VERSION,
         id: 'level-18',
         name: 'Level Hard - 1',
-        difficulty: 4,
-        boardData: generateLevel(3200, 1600, 20, 130, 'Level Hard - 1', 13579),
-        boardName: 'Level Hard - 1',
-        description: 'Randomly generated level - hard difficulty'
+        description: 'Randomly generated level - hard difficulty',
+        generator: { width: 3200, height: 1600, minRadius: 20, maxRadius: 130, seed: 13579 },
     },
     {
+        version: BOARD_DATA_VERSION,
         id: 'level-19',
         name: 'Level Hard - 2',
-        difficulty: 4,
-        boardData: generateLevel(3200, 1600, 20, 130, 'Level Hard - 2', 14579),
-        boardName: 'Level Hard - 2',
-        description: 'Randomly generated level - hard difficulty'
+        description: 'Randomly generated level - hard difficulty',
+        generator: { width: 3200, height: 1600, minRadius: 20, maxRadius: 130, seed: 14579 },
     },
     {
+        version: BOARD_DATA_VERSION,
         id: 'level-20',
         name: 'Level Hard - 3',
-        difficulty: 4,
-        boardData: generateLevel(3200, 1600, 20, 130, 'Level Hard - 3', 15579),
-        boardName: 'Level Hard - 3',
-        description: 'Randomly generated level - hard difficulty'
+        description: 'Randomly generated level - hard difficulty',
+        generator: { width: 3200, height: 1600, minRadius: 20, maxRadius: 130, seed: 15579 },
     },
 
     // Extreme difficulty levels
     {
+        version: BOARD_DATA_VERSION,
         id: 'level-21',
         name: 'Level Extreme - 1',
-        difficulty: 5,
-        boardData: generateLevel(4600, 2300, 20, 150, 'Level Extreme - 1', 98765),
-        boardName: 'Level Extreme - 1',
-        description: 'Randomly generated level - expert difficulty'
-    }
+        description: 'Randomly generated level - expert difficulty',
+        generator: { width: 4600, height: 2300, minRadius: 20, maxRadius: 150, seed: 98765 },
+    },
+
+    // Levels with ellipses, polygons and segments
+    {
+        version: BOARD_DATA_VERSION,
+        id: 'shape-sampler',
+        name: 'Shape Sampler',
+        description: 'A circle, an ellipse, a square and a line cutting through them',
+        shapes: shapeSamplerData,
+    },
+
+    // Levels with moving circles
+    {
+        version: BOARD_DATA_VERSION,
+        id: 'orbiting-moons',
+        name: 'Orbiting Moons',
+        description: 'Moons circle a planet at different speeds - wait for them to cross it',
+        shapes: orbitingMoonsData,
+    },
+    {
+        version: BOARD_DATA_VERSION,
+        id: 'drifting-bubbles',
+        name: 'Drifting Bubbles',
+        description: 'Bubbles drift around a box, bouncing off its walls',
+        shapes: driftingBubblesData,
+    },
+    {
+        version: BOARD_DATA_VERSION,
+        id: 'heartbeat',
+        name: 'Heartbeat',
+        description: 'Pulsing circles that only overlap when they swell',
+        shapes: heartbeatData,
+    },
 ];
+
+export const loadedLevels: Level[] = levelDocuments.map((document) =>
+    new BoardData(document).toLevel(),
+);
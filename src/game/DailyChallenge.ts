@@ -0,0 +1,48 @@
+import { generateLevel, IBoardData } from './BoardData.js';
+
+/**
+ * Marks a board as a daily challenge run
+ */
+export interface IChallengeTag {
+    date: string; // UTC calendar date of the challenge, YYYY-MM-DD
+    practice: boolean; // Practice runs don't count for the daily leaderboard
+}
+
+// Board name of the daily challenge, followed by its date
+export const DAILY_CHALLENGE_NAME = 'Daily Challenge';
+
+// Board size and circle sizes of every daily challenge
+const DAILY_CHALLENGE_BOARD = { width: 2400, height: 1200, minRadius: 25, maxRadius: 120 };
+
+/**
+ * The daily challenge date for a moment: its UTC calendar date, the same for every
+ * player whatever their time zone
+ * @param now - The moment (default: now)
+ * @returns The date as YYYY-MM-DD
+ */
+export function getChallengeDate(now: Date = new Date()): string {
+    return now.toISOString().slice(0, 10);
+}
+
+/**
+ * Builds the daily challenge board of a date. The circles come from a seed derived
+ * from the date, so every player gets the same board that day.
+ * @param date - UTC date as YYYY-MM-DD
+ * @param practice - Whether the run is practice rather than the scored attempt
+ */
+export function createDailyChallenge(date: string, practice: boolean = false): IBoardData {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        throw new Error(`Invalid challenge date "${date}", expected YYYY-MM-DD`);
+    }
+    const { width, height, minRadius, maxRadius } = DAILY_CHALLENGE_BOARD;
+    const board = generateLevel(
+        width,
+        height,
+        minRadius,
+        maxRadius,
+        `${DAILY_CHALLENGE_NAME} ${date}`,
+        `daily-${date}`,
+    );
+    board.challenge = { date, practice };
+    return board;
+}
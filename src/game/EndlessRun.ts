@@ -0,0 +1,95 @@
+import { generateLevel, IBoardData } from './BoardData.js';
+import { BoardModel, DEFAULT_MAX_LIVES } from './core/BoardModel.js';
+
+/**
+ * Marks a board as part of an endless run
+ */
+export interface IEndlessTag {
+    seed: string; // Seed of the run; with the board number it rebuilds the board
+    board: number; // 1-based position of the board in the run
+}
+
+// Board name of endless boards, followed by the board number
+export const ENDLESS_RUN_NAME = 'Endless Run';
+
+// The first board, and how each cleared board makes the next one harder
+const FIRST_BOARD = { width: 1000, height: 500, minRadius: 30, maxRadius: 120 };
+const AREA_GROWTH = 1.15; // Per board, for both width and height
+const MAX_WIDTH = 4800;
+const MAX_RADIUS_STEP = 5; // The largest circles shrink by this much per board...
+const SMALLEST_MAX_RADIUS = 50;
+const MIN_RADIUS_STEP = 2; // ...while the smallest grow, tightening the range
+const SMALLEST_RADIUS_RANGE = 10;
+
+/**
+ * Builds one board of an endless run. Later boards cover a larger area with a
+ * tighter range of circle sizes, so they hold many more pieces.
+ * @param seed - Seed of the run
+ * @param board - 1-based position of the board in the run
+ * @param lives - Lives carried into the board
+ */
+export function createEndlessBoard(
+    seed: string,
+    board: number,
+    lives: number = DEFAULT_MAX_LIVES,
+): IBoardData {
+    const step = board - 1;
+    const width = Math.min(MAX_WIDTH, Math.round(FIRST_BOARD.width * Math.pow(AREA_GROWTH, step)));
+    const height = Math.round((width * FIRST_BOARD.height) / FIRST_BOARD.width);
+    const maxRadius = Math.max(SMALLEST_MAX_RADIUS, FIRST_BOARD.maxRadius - MAX_RADIUS_STEP * step);
+    const minRadius = Math.min(
+        maxRadius - SMALLEST_RADIUS_RANGE,
+        FIRST_BOARD.minRadius + MIN_RADIUS_STEP * step,
+    );
+
+    const boardData = generateLevel(
+        width,
+        height,
+        minRadius,
+        maxRadius,
+        `${ENDLESS_RUN_NAME} ${board}`,
+        `${seed}#${board}`,
+    );
+    boardData.lives = lives;
+    boardData.endless = { seed, board };
+    return boardData;
+}
+
+/**
+ * EndlessRun - One endless run: boards are generated one after another, lives carry
+ * over and the run ends on game over. Scored by boards cleared, then total time.
+ */
+export class EndlessRun {
+    readonly seed: string;
+    readonly startTime: number = Date.now();
+    boardsCleared: number = 0;
+    totalTime: number = 0; // Seconds of play over every board, countdowns excluded
+    successfulIntersections: number = 0;
+    livesLost: number = 0; // Missed cuts and hints
+
+    constructor(seed: string = Date.now().toString(36)) {
+        this.seed = seed;
+    }
+
+    /**
+     * The next board of the run
+     * @param lives - Lives carried over from the previous board
+     */
+    createNextBoard(lives: number = DEFAULT_MAX_LIVES): IBoardData {
+        return createEndlessBoard(this.seed, this.boardsCleared + 1, lives);
+    }
+
+    /**
+     * Adds a finished board, cleared or lost, to the run totals
+     * @param board - The rules of the finished board
+     * @param playTime - Seconds played on it
+     */
+    recordBoard(board: BoardModel, playTime: number): void {
+        this.totalTime += playTime;
+        this.successfulIntersections += board.totalCuts - board.getRemainingCuts();
+        this.livesLost += board.missedCuts + board.hintsUsed;
+        if (board.getStatus() === 'won') {
+            this.boardsCleared++;
+        }
+    }
+}
@@ -0,0 +1,67 @@
+import { IArc, IPoint, IShapeData } from './types.js';
+import { LossReason } from './GamePhase.js';
+
+/**
+ * The events of a game and their payloads. The board emits the events of play
+ * (cuts, penalties, hints); GameState emits the events of the game's lifecycle.
+ */
+export interface IGameEvents {
+    // A board was loaded and is counting down to play
+    levelLoaded: {
+        boardName: string;
+        shapes: IShapeData[];
+        lives: number;
+        totalCuts: number;
+        endless: boolean;
+    };
+    // The countdown ended and the board takes input
+    gameStarted: { boardName: string; endless: boolean };
+    // A piece was cut, once per piece in the order the blade crossed them
+    arcCut: {
+        piece: IArc;
+        point: IPoint; // Middle of the piece, in world coordinates
+        index: number; // Position of the piece among those cut by the same stroke segment
+        remainingCuts: number;
+    };
+    // A shape was cut outside its intersections
+    penalty: { livesRemaining: number; gameOver: boolean };
+    // A hint was used, at the cost of a life
+    hintUsed: { livesRemaining: number; gameOver: boolean };
+    gameWon: { boardName: string; time: number; endless: boolean }; // time in milliseconds of play
+    gameLost: { boardName: string; time: number; endless: boolean; reason: LossReason };
+}
+
+export type GameEventType = keyof IGameEvents;
+
+export type GameEventListener<K extends GameEventType> = (payload: IGameEvents[K]) => void;
+
+/**
+ * GameEventBus - Typed publish/subscribe between the game and the systems that
+ * react to it: sound, animation, stats and UI. Emitters don't know who listens,
+ * so features like achievements or telemetry subscribe without editing the board.
+ */
+export class GameEventBus {
+    private listeners: { [K in GameEventType]?: GameEventListener<K>[] } = {};
+
+    /**
+     * Subscribes to an event
+     * @returns A function that unsubscribes the listener
+     */
+    on<K extends GameEventType>(type: K, listener: GameEventListener<K>): () => void {
+        // Narrowed to K so each entry keeps the listener type of its own event
+        const listeners: { [P in K]?: GameEventListener<P>[] } = this.listeners;
+        listeners[type] = [...(listeners[type] ?? []), listener];
+        return () => {
+            listeners[type] = (listeners[type] ?? []).filter((other) => other !== listener);
+        };
+    }
+
+    /**
+     * Notifies the listeners of an event, in the order they subscribed
+     */
+    emit<K extends GameEventType>(type: K, payload: IGameEvents[K]): void {
+        for (const listener of this.listeners[type] ?? []) {
+            listener(payload);
+        }
+    }
+}
@@ -0,0 +1,88 @@
+/**
+ * Phases of a game, from loading a board to its result:
+ * - idle: no game, e.g. on the landing page or in the level editor
+ * - countdown: a board is loaded and counting down to play
+ * - playing: the board takes strokes and hints, and its clock runs
+ * - paused: the game is on hold, e.g. under the levels panel
+ * - won / lost: the game is over and its result is shown
+ * - reviewing: the recording of the finished game is being watched
+ */
+export type GamePhase = 'idle' | 'countdown' | 'playing' | 'paused' | 'won' | 'lost' | 'reviewing';
+
+/**
+ * Why a game was lost, for the result panel
+ */
+export type LossReason = 'penalty' | 'hints';
+
+export interface IPhaseTransition {
+    from: GamePhase;
+    to: GamePhase;
+    loss?: LossReason; // Set on transitions to lost
+}
+
+export type PhaseListener = (transition: IPhaseTransition) => void;
+
+// The phases each phase can move on to. Loading a board (countdown) and stopping
+// (idle) are possible from anywhere.
+const TRANSITIONS: Record<GamePhase, GamePhase[]> = {
+    idle: ['countdown'],
+    countdown: ['playing', 'countdown', 'idle'],
+    playing: ['paused', 'won', 'lost', 'countdown', 'idle'],
+    paused: ['playing', 'countdown', 'idle'],
+    won: ['reviewing', 'countdown', 'idle'],
+    lost: ['reviewing', 'countdown', 'idle'],
+    reviewing: ['won', 'lost', 'countdown', 'idle'],
+};
+
+/**
+ * GamePhaseMachine - The phase of the current game with its allowed transitions.
+ * Systems that react to the game starting, ending or pausing subscribe to its
+ * transitions instead of checking flags, so each transition happens exactly once.
+ */
+export class GamePhaseMachine {
+    private current: GamePhase = 'idle';
+    private listeners: PhaseListener[] = [];
+
+    get phase(): GamePhase {
+        return this.current;
+    }
+
+    /**
+     * Whether the game is in one of the given phases
+     */
+    is(...phases: GamePhase[]): boolean {
+        return phases.includes(this.current);
+    }
+
+    canTransition(to: GamePhase): boolean {
+        return TRANSITIONS[this.current].includes(to);
+    }
+
+    /**
+     * Moves to another phase and notifies the listeners, in the order they subscribed.
+     * Throws on a transition the current phase doesn't allow.
+     * @param to - The next phase
+     * @param loss - Why the game was lost, on transitions to lost
+     */
+    transition(to: GamePhase, loss?: LossReason): void {
+        if (!this.canTransition(to)) {
+            throw new Error(`Invalid game phase transition: ${this.current} -> ${to}`);
+        }
+        const transition: IPhaseTransition = { from: this.current, to, ...(loss && { loss }) };
+        this.current = to;
+        for (const listener of this.listeners) {
+            listener(transition);
+        }
+    }
+
+    /**
+     * Subscribes to every transition
+     * @returns A function that unsubscribes the listener
+     */
+    onTransition(listener: PhaseListener): () => void {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter((other) => other !== listener);
+        };
+    }
+}
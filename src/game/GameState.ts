@@ -1,5 +1,6 @@
 import type p5 from 'p5';
 import { Board } from './Board.js';
+import { DEFAULT_MAX_LIVES } from './core/BoardModel.js';
 import { SoundManager } from '../sound/SoundManager.js';
 import { CameraController } from '../camera/CameraController.js';
 import { UIManager } from '../ui/UIManager.js';
@@ -7,76 +8,313 @@ import { StatsCollector } from './StatsCollector.js';
 import { ProgressCard } from '../ui/ProgressCard.js';
 import { Countdown } from '../ui/Countdown.js';
 import { FirestoreService } from '../data/FirestoreService.js';
+import { ILine } from './types.js';
+import { createDailyChallenge } from './DailyChallenge.js';
+import { EndlessRun } from './EndlessRun.js';
+import { PlayerIdentity } from './PlayerIdentity.js';
+import { createRngFromSeed, IBoardData } from './BoardData.js';
+import { MatchRecorder } from './replay/MatchRecorder.js';
+import { GhostRun } from './replay/GhostRun.js';
+import { GhostStore } from '../data/GhostStore.js';
+import {
+    IMatchDocument,
+    MatchResult,
+    quantizeCamera,
+    quantizePoint,
+} from '../data/matchDocument.js';
+import { GamePhase, GamePhaseMachine, IPhaseTransition, LossReason } from './GamePhase.js';
+import { GameEventBus } from './GameEvents.js';
+import { ISavedGame, SavedGameStore, SAVED_GAME_VERSION } from '../data/SavedGameStore.js';
+import { Announcer } from '../ui/Announcer.js';
+import { I18n } from '../i18n/I18n.js';
+
+// Milliseconds of play between saves of the game in progress, besides those on cuts,
+// penalties, hints and pauses
+const SAVE_INTERVAL = 5000;
 
 /**
- * GameState - Manages the game state including board, playing status, and hunting mode
+ * GameState - Manages the active board and the phase of the game. Timer, recording
+ * and stats follow the phase transitions; sound, stats, lives and the result panel
+ * subscribe to the game events the board and the phase transitions emit.
  */
 export class GameState {
     private p: p5;
     public activeBoard: Board;
-    public isHunting: boolean = false;
-    public isPlaying: boolean = true;
-    public lastBoard: any = null;
+    public readonly phase: GamePhaseMachine = new GamePhaseMachine();
+    // Events of the current game; every board of the game emits on it
+    public readonly events: GameEventBus = new GameEventBus();
+    public lastBoard: IBoardData;
     public soundManager: SoundManager;
     private camera: CameraController;
     public statsCollector: StatsCollector;
     private onNextLevelCallback?: () => boolean;
     public progressCard: ProgressCard;
     public countdown: Countdown;
-    public isCountingDown: boolean = false;
+    // Seconds of play on the current board; moving boards are animated from it
+    private playTime: number = 0;
+    // playTime in whole milliseconds: the board time strokes are applied and recorded at
+    private boardTime: number = 0;
+    // Seed of the hint randomness of the current board, kept for its recording
+    private hintSeed: number = 0;
+    private recorder: MatchRecorder | null = null;
+    // Recording of the last finished game, e.g. to watch it
+    public lastMatch: IMatchDocument | null = null;
+    // The result the game returns to after reviewing its recording
+    private reviewedFrom: GamePhase = 'won';
+    // Best previous run on the current board, played alongside it
+    private ghost: GhostRun | null = null;
+    private ghostStore: GhostStore = new GhostStore();
+    // The endless run of the current board; kept after game over for its result
+    private endlessRun: EndlessRun | null = null;
+    private savedGameStore: SavedGameStore = new SavedGameStore();
+    // The saved game being resumed, until its play starts
+    private resumeFrom: ISavedGame | null = null;
+    // Board time of the last save of the game in progress
+    private lastSaveTime: number = 0;
 
-    constructor(p: p5, initialBoard: any, soundManager: SoundManager, camera: CameraController, progressCard: ProgressCard, countdown: Countdown, firestoreService: FirestoreService) {
+    constructor(
+        p: p5,
+        initialBoard: IBoardData,
+        soundManager: SoundManager,
+        camera: CameraController,
+        progressCard: ProgressCard,
+        countdown: Countdown,
+        firestoreService: FirestoreService,
+    ) {
         this.p = p;
         this.soundManager = soundManager;
         this.camera = camera;
         this.progressCard = progressCard;
         this.countdown = countdown;
-        this.activeBoard = new Board(p, initialBoard, soundManager);
+        this.activeBoard = new Board(p, initialBoard, this.events);
         this.lastBoard = initialBoard;
         this.statsCollector = new StatsCollector(undefined, firestoreService);
         // Wire hint button to game-level handler so hint usage updates board and stats
         this.progressCard.setOnHintCallback(() => this.handleHintPress());
+        this.progressCard.setOnPauseCallback(() => this.pause());
+
+        // The recording is finished before stats upload it, and the game is over
+        // in stats before its result is announced
+        this.phase.onTransition((transition) => this.updateCountdown(transition));
+        this.phase.onTransition((transition) => this.updateTimer(transition));
+        this.phase.onTransition((transition) => this.updateRecording(transition));
+        this.phase.onTransition((transition) => this.updateStats(transition));
+        this.phase.onTransition((transition) => this.updateSavedGame(transition));
+        this.phase.onTransition((transition) => this.emitPhaseEvents(transition));
+        this.phase.onTransition((transition) => this.updateResultPanel(transition));
+
+        this.soundManager.subscribeTo(this.events);
+        this.statsCollector.subscribeTo(this.events);
+        Announcer.getInstance().subscribeTo(this.events);
+        // A game-ending penalty shows the result instead
+        this.events.on('penalty', ({ gameOver }) => {
+            if (!gameOver) this.progressCard.loseLife();
+        });
+        this.events.on('hintUsed', () => this.progressCard.loseLife());
+        this.events.on('hintUsed', () => this.focusOnHint());
+        this.events.on('gameWon', ({ endless }) => this.showVictory(endless));
+        this.events.on('gameLost', ({ endless, reason }) => this.showLoss(endless, reason));
+        // The game in progress is saved as it changes
+        this.events.on('arcCut', () => this.saveGame());
+        this.events.on('penalty', () => this.saveGame());
+        this.events.on('hintUsed', () => this.saveGame());
     }
 
     /**
-     * Loads a new map/level
-     * @param circles - The circle data for the new level
+     * Loads a new map/level and starts its countdown
+     * @param circles - The circle data for the new level, with its optional name and lives settings
+     * @param saved - A saved game on this level to continue where it was left
      */
-    loadMap(circles: any): void {
-        this.activeBoard = new Board(this.p, circles, this.soundManager);
-        this.camera.reset();
-        this.camera.zoomLevel = this.camera.calculateZoomScale(circles);
+    loadMap(circles: IBoardData, saved?: ISavedGame): void {
+        this.resumeFrom = saved ?? null;
+        if (!circles.endless) {
+            this.endlessRun = null;
+        }
+        const lives = circles.lives ?? DEFAULT_MAX_LIVES;
+        this.hintSeed = this.resumeFrom?.hintSeed ?? Math.floor(Math.random() * 0x100000000);
+        this.activeBoard.detach();
+        this.activeBoard = new Board(
+            this.p,
+            circles,
+            this.events,
+            lives,
+            createRngFromSeed(this.hintSeed),
+        );
+        this.ghost = this.loadGhost(circles);
+        this.camera.setBoard(circles);
+        this.camera.zoomToFit();
         this.lastBoard = circles;
-        this.isPlaying = false; // Don't allow playing until countdown finishes
-        this.isCountingDown = true;
-        UIManager.hidePanel('result-panel');
+        this.playTime = 0;
+        this.boardTime = 0;
 
-        // Show progress card but don't start timer yet
         this.progressCard.show();
-        this.progressCard.resetLives();
+        // Endless boards start with the lives carried over, out of the usual maximum
+        this.progressCard.resetLives(circles.endless ? DEFAULT_MAX_LIVES : lives, lives);
         this.progressCard.updateProgress(this.activeBoard.getProgress());
+        if (this.resumeFrom) {
+            this.restoreBoard(this.resumeFrom, lives);
+        }
+
+        this.events.emit('levelLoaded', {
+            boardName: this.getBoardName(),
+            shapes: Array.from(circles),
+            lives,
+            totalCuts: this.activeBoard.model.totalCuts,
+            endless: !!circles.endless,
+        });
+        this.phase.transition('countdown');
+    }
 
-        // Start countdown
-        this.countdown.start(() => {
-            // Countdown complete - start the game
-            this.isPlaying = true;
-            this.isCountingDown = false;
+    /**
+     * The game the player left in progress, e.g. to offer resuming it on launch
+     */
+    getSavedGame(): ISavedGame | null {
+        return this.savedGameStore.load(PlayerIdentity.getPlayerName());
+    }
 
-            this.progressCard.startTimer(0);
+    discardSavedGame(): void {
+        this.savedGameStore.clear(PlayerIdentity.getPlayerName());
+    }
 
-            // Start tracking stats for this board
-            const boardName = circles.name || 'Unknown Board';
-            this.statsCollector.startGame(boardName);
+    /**
+     * Loads a saved game in the state it was saved in and counts down to continue it
+     */
+    resumeGame(saved: ISavedGame): void {
+        const circles: IBoardData = Object.assign([...saved.level.shapes], {
+            name: saved.level.name,
+            lives: saved.level.lives,
+            ...(saved.level.challenge && { challenge: saved.level.challenge }),
         });
+        this.loadMap(circles, saved);
     }
 
     /**
-     * Restarts the current level
+     * Puts the board, clock, camera and lives display of a new board where the saved game left them
+     */
+    private restoreBoard(saved: ISavedGame, lives: number): void {
+        this.boardTime = saved.boardTime;
+        this.playTime = saved.boardTime / 1000;
+        this.lastSaveTime = saved.boardTime;
+        // Moving boards are put at the saved time before their cut pairs are restored
+        this.activeBoard.setTime(this.playTime);
+        this.activeBoard.model.restoreSnapshot(saved.board);
+        this.camera.jumpTo(saved.camera);
+        this.progressCard.resetLives(lives, this.activeBoard.model.getLivesRemaining());
+        this.progressCard.updateProgress(this.activeBoard.getProgress());
+    }
+
+    /**
+     * Saves the game in progress, so it can be resumed after the page is closed.
+     * Endless runs aren't saved.
+     */
+    private saveGame(): void {
+        if (!this.phase.is('playing', 'paused') || this.lastBoard.endless) return;
+
+        const board = this.lastBoard;
+        this.lastSaveTime = this.boardTime;
+        this.savedGameStore.save({
+            version: SAVED_GAME_VERSION,
+            playerName: PlayerIdentity.getPlayerName(),
+            savedAt: Date.now(),
+            level: {
+                ...(board.name !== undefined && { name: board.name }),
+                shapes: Array.from(board),
+                lives: this.activeBoard.model.maxLives,
+                ...(board.challenge && { challenge: board.challenge }),
+            },
+            board: this.activeBoard.model.toSnapshot(),
+            boardTime: this.boardTime,
+            hintSeed: this.hintSeed,
+            camera: { zoom: this.camera.zoomLevel, panX: this.camera.panX, panY: this.camera.panY },
+            stats: this.statsCollector.getStats(),
+            recording: this.recorder ? this.recorder.finish('abandoned', this.boardTime) : null,
+        });
+    }
+
+    /**
+     * The ghost of the player's best run on a board, if there is one. Endless boards
+     * are new every run, so they have none.
+     */
+    private loadGhost(circles: IBoardData): GhostRun | null {
+        if (circles.endless) return null;
+        const match = this.ghostStore.load(
+            PlayerIdentity.getPlayerName(),
+            circles.name || 'Unknown Board',
+            Array.from(circles),
+        );
+        return match ? new GhostRun(this.p, match) : null;
+    }
+
+    /**
+     * Starts a new endless run from its first board
+     */
+    startEndlessRun(): void {
+        const run = new EndlessRun();
+        this.loadMap(run.createNextBoard());
+        this.endlessRun = run;
+    }
+
+    /**
+     * Restarts the current level. The daily challenge only has one scored attempt,
+     * so restarting it continues as practice; an endless run starts over.
      */
     restart(): void {
-        if (this.lastBoard) {
-            UIManager.hidePanel('result-panel');
-            this.loadMap(this.lastBoard);
+        if (this.lastBoard.endless) {
+            this.startEndlessRun();
+            return;
+        }
+        const challenge = this.lastBoard.challenge;
+        this.loadMap(
+            challenge && !challenge.practice
+                ? createDailyChallenge(challenge.date, true)
+                : this.lastBoard,
+        );
+    }
+
+    /**
+     * Stops the current game without a result, e.g. when leaving for the level editor
+     */
+    stop(): void {
+        if (!this.phase.is('idle')) {
+            this.phase.transition('idle');
+        }
+    }
+
+    /**
+     * Puts the game on hold, e.g. from the pause menu or while the levels panel
+     * covers it. The clock stops and paused time doesn't count toward the game.
+     */
+    pause(): void {
+        if (this.phase.is('playing')) {
+            this.phase.transition('paused');
+        }
+    }
+
+    /**
+     * Continues a paused game
+     */
+    resume(): void {
+        if (this.phase.is('paused')) {
+            this.phase.transition('playing');
+        }
+    }
+
+    /**
+     * Starts watching the recording of the finished game
+     */
+    review(): void {
+        if (this.phase.is('won', 'lost') && this.lastMatch) {
+            this.reviewedFrom = this.phase.phase;
+            this.phase.transition('reviewing');
+        }
+    }
+
+    /**
+     * Returns from the recording to the game's result
+     */
+    endReview(): void {
+        if (this.phase.is('reviewing')) {
+            this.phase.transition(this.reviewedFrom);
         }
     }
 
@@ -84,111 +322,316 @@ export class GameState {
      * Updates the game state
      */
     update(): void {
+        if (this.phase.is('playing')) {
+            this.playTime += this.p.deltaTime / 1000;
+            this.boardTime = Math.round(this.playTime * 1000);
+            this.activeBoard.setTime(this.boardTime / 1000);
+            this.ghost?.advanceTo(this.boardTime);
+
+            const { zoom, panX, panY } = quantizeCamera(
+                this.camera.zoomLevel,
+                this.camera.panX,
+                this.camera.panY,
+            );
+            this.recorder?.recordCamera(this.boardTime, zoom, panX, panY);
+
+            if (this.boardTime - this.lastSaveTime >= SAVE_INTERVAL) {
+                this.saveGame();
+            }
+        }
         this.progressCard.updateProgress(this.activeBoard.getProgress());
         this.activeBoard.update();
     }
 
     /**
-     * Checks if the player has won
+     * Draws the board and, during play, the ghost run: its blade and the pieces it has cut.
+     * The board is hidden while paused, so pausing can't be used to study it.
+     */
+    draw(): void {
+        if (this.phase.is('paused')) return;
+        if (!this.ghost || !this.phase.is('playing')) {
+            this.activeBoard.draw([], this.camera.zoomLevel);
+            return;
+        }
+        this.activeBoard.draw(
+            this.ghost.getCutPieces(this.activeBoard.model),
+            this.camera.zoomLevel,
+        );
+        this.ghost.draw();
+    }
+
+    /**
+     * Checks if the player has won. A cleared endless board goes straight on to the
+     * next board of the run, with the lives that are left.
      * @returns true if victory condition is met
      */
     checkVictory(): boolean {
-        if (this.activeBoard.checkVictory() && this.isPlaying) {
-            this.isPlaying = false;
-            this.soundManager.playSuccessSound();
-            this.progressCard.stopTimer();
-            this.progressCard.hide();
+        if (!this.phase.is('playing') || !this.activeBoard.checkVictory()) return false;
 
-            // End stats tracking and upload
-            this.statsCollector.endGame(this.activeBoard);
-            // TODO: Enable stats upload
-            //this.statsCollector.uploadStats();
+        this.phase.transition('won');
+        if (this.endlessRun) {
+            this.loadMap(
+                this.endlessRun.createNextBoard(this.activeBoard.model.getLivesRemaining()),
+            );
+        }
+        return true;
+    }
 
-            // Show victory panel with stats
-            UIManager.showResultPanel(true, this.statsCollector.getStats());
+    /**
+     * Handles one stroke segment of the blade: records cuts and applies penalties
+     * in the order the blade crossed them
+     * @param line - The stroke segment in world coordinates
+     * @returns true if the stroke caused a game over
+     */
+    handleStroke(line: ILine): boolean {
+        if (!this.phase.is('playing')) return false;
+
+        // Strokes are applied as recorded, so replays cut exactly the same
+        const stroke = { start: quantizePoint(line.start), end: quantizePoint(line.end) };
+        this.recorder?.recordStroke(this.boardTime, stroke);
+        const result = this.activeBoard.processStroke(stroke);
+        if (this.ghost && result.cuts.length > 0) {
+            const board = this.activeBoard.model;
+            this.progressCard.updateSplit(
+                this.ghost.getSplitDelta(
+                    board.totalCuts - board.getRemainingCuts(),
+                    this.boardTime,
+                ),
+            );
+        }
+
+        if (result.gameOver) {
+            // Game over - all lives lost
+            this.phase.transition('lost', 'penalty');
             return true;
         }
+
         return false;
     }
 
     /**
-     * Checks if the player has lost
-     * @param line - The line to check for collision
-     * @returns true if loss condition is met
+     * Handle a hint request from the hint button or its key.
+     * The board emits the hint for the lives display and stats, and a hint that
+     * uses up the last life ends the game.
      */
-    checkLoss(line: any): boolean {
-        if (!this.isPlaying) return false;
+    handleHintPress(): void {
+        if (!this.phase.is('playing')) return;
 
-        const result = this.activeBoard.checkLoss(line);
+        this.recorder?.recordHint(this.boardTime);
+        const causesGameOver = this.activeBoard.recordHintUsed();
 
-        if (result === 2) {
-            // Game over - all lives lost
-            this.isPlaying = false;
-            this.soundManager.playLoseSound();
+        if (causesGameOver) {
+            this.phase.transition('lost', 'hints');
+        }
+    }
+
+    /**
+     * Brings the shape of the latest hint into view
+     */
+    private focusOnHint(): void {
+        const hinted = this.activeBoard.hintedShapes;
+        if (hinted.length > 0) {
+            this.camera.focusOn(hinted[hinted.length - 1].getBounds());
+        }
+    }
+
+    /**
+     * Runs the countdown into play, and stops it when the board is left before that
+     */
+    private updateCountdown({ from, to }: IPhaseTransition): void {
+        if (to === 'countdown') {
+            this.countdown.start(() => this.phase.transition('playing'));
+        } else if (from === 'countdown') {
+            this.countdown.stop();
+        }
+    }
+
+    /**
+     * Runs the progress card timer only while playing. The timer of an endless run
+     * counts the whole run.
+     */
+    private updateTimer({ to }: IPhaseTransition): void {
+        if (to === 'playing') {
+            this.progressCard.startTimer(
+                (this.endlessRun ? this.endlessRun.totalTime : 0) + this.playTime,
+            );
+        } else if (to === 'paused') {
+            this.progressCard.stopTimer();
+        } else if (to === 'won' || to === 'lost' || to === 'idle') {
             this.progressCard.stopTimer();
             this.progressCard.hide();
+        }
+    }
 
-            // End stats tracking (but don't upload for losses)
-            this.statsCollector.endGame(this.activeBoard);
+    /**
+     * Records the game from the end of its countdown to its result
+     */
+    private updateRecording({ from, to }: IPhaseTransition): void {
+        if (from === 'countdown' && to === 'playing' && this.resumeFrom?.recording) {
+            this.recorder = MatchRecorder.continueFrom(this.resumeFrom.recording);
+        } else if (from === 'countdown' && to === 'playing') {
+            this.recorder = new MatchRecorder({
+                playerName: PlayerIdentity.getPlayerName(),
+                boardName: this.getBoardName(),
+                shapes: Array.from(this.lastBoard),
+                lives: this.activeBoard.model.maxLives,
+                hintSeed: this.hintSeed,
+                viewport: { width: this.p.width, height: this.p.height },
+            });
+        } else if (to === 'won' || to === 'lost') {
+            if (from === 'playing') this.finishRecording(to);
+        } else if (to === 'countdown' || to === 'idle') {
+            this.recorder = null;
+        }
+    }
 
-            // Show loss panel with progress
-            const progress = this.activeBoard.getProgress();
-            UIManager.showResultPanel(false, `You popped a circle!<br>Progress: ${progress}%`);
-            return true;
-        } else if (result === 1) {
-            // Life lost — update UI and stats (counts as a hint)
-            this.progressCard.loseLife();
-            this.statsCollector.recordHintUsed();
-            return false;
+    /**
+     * Tracks stats from the end of the countdown to the result, leaving out paused
+     * time. Endless boards are recorded with their run, not as games of their own.
+     */
+    private updateStats({ from, to }: IPhaseTransition): void {
+        if (from === 'countdown' && to === 'playing') {
+            if (this.resumeFrom) {
+                this.statsCollector.restoreGame(this.resumeFrom.stats, this.resumeFrom.savedAt);
+            } else if (!this.endlessRun) {
+                this.statsCollector.startGame(this.getBoardName(), this.lastBoard.challenge);
+            }
+            return;
+        }
+        if (to === 'paused') {
+            this.statsCollector.pause();
+            return;
+        }
+        if (from === 'paused' && to === 'playing') {
+            this.statsCollector.resume();
+            return;
         }
+        if (from !== 'playing' || (to !== 'won' && to !== 'lost')) return;
 
-        return false;
+        if (!this.endlessRun) {
+            this.statsCollector.endGame(this.activeBoard.model, this.lastMatch);
+            return;
+        }
+        this.endlessRun.recordBoard(this.activeBoard.model, this.playTime);
+        if (to === 'lost') {
+            this.saveEndlessRun(this.endlessRun);
+        }
     }
 
     /**
-     * Handles line intersection check
-     * @param line - The line in world coordinates
+     * Saves the game in progress when it pauses, e.g. as the tab is hidden, and drops
+     * the save once the game ends or another one is loaded. A resumed game is saved
+     * again from its play on.
      */
-    handleIntersection(line: any): void {
-        const numIntersections = this.activeBoard.checkIntersection(line);
-        for (let index = 0; index < numIntersections; index++) {
-            this.statsCollector.recordSuccessfulIntersection();
+    private updateSavedGame({ from, to }: IPhaseTransition): void {
+        if (to === 'paused') {
+            this.saveGame();
+        } else if (from === 'countdown' && to === 'playing') {
+            this.resumeFrom = null;
+            this.lastSaveTime = this.boardTime;
+        } else if (
+            to === 'won' ||
+            to === 'lost' ||
+            to === 'idle' ||
+            (to === 'countdown' && !this.resumeFrom)
+        ) {
+            this.discardSavedGame();
         }
     }
 
     /**
-     * Records that the player used a hint
+     * Emits the start and the result of a game
      */
-    recordHintUsed(): void {
-        this.statsCollector.recordHintUsed();
+    private emitPhaseEvents({ from, to, loss }: IPhaseTransition): void {
+        const boardName = this.getBoardName();
+        const endless = !!this.endlessRun;
+        if (from === 'countdown' && to === 'playing') {
+            this.events.emit('gameStarted', { boardName, endless });
+        } else if (from === 'playing' && to === 'won') {
+            this.events.emit('gameWon', { boardName, time: this.boardTime, endless });
+        } else if (from === 'playing' && to === 'lost') {
+            this.events.emit('gameLost', {
+                boardName,
+                time: this.boardTime,
+                endless,
+                reason: loss ?? 'penalty',
+            });
+        }
     }
 
     /**
-     * Handle hint button press from the UI.
-     * Consumes a life in the UI, updates board state and stats, and triggers game over if needed.
+     * Hides the result once the game moves on, and shows it again after reviewing
+     * the recording
      */
-    private handleHintPress(): void {
-        // First, tell the board a hint was used so it can count toward game over
-        const causesGameOver = this.activeBoard.recordHintUsed();
-
-        // Update UI
-        this.progressCard.loseLife();
+    private updateResultPanel({ from, to }: IPhaseTransition): void {
+        if (to !== 'won' && to !== 'lost') {
+            UIManager.hidePanel('result-panel');
+        } else if (from === 'reviewing') {
+            UIManager.showPanel('result-panel');
+        }
+    }
 
-        // Update stats
-        this.statsCollector.recordHintUsed();
+    /**
+     * Shows the result panel of a won game. A cleared endless board goes on to
+     * the next one instead.
+     */
+    private showVictory(endless: boolean): void {
+        if (!endless) {
+            UIManager.showResultPanel(true, this.statsCollector.getStats());
+        }
+    }
 
-        if (causesGameOver && this.isPlaying) {
-            // Game over due to hints
-            this.isPlaying = false;
-            this.soundManager.playLoseSound();
-            this.progressCard.stopTimer();
-            this.progressCard.hide();
+    /**
+     * Shows the result panel of a lost game, or of the endless run it ended
+     */
+    private showLoss(endless: boolean, reason: LossReason): void {
+        const i18n = I18n.getInstance();
+        if (endless && this.endlessRun) {
+            const run = this.endlessRun;
+            UIManager.showResultPanel(false, [
+                i18n.t('result.endlessOver'),
+                i18n.t('result.boardsCleared', { count: run.boardsCleared }),
+                i18n.t('result.totalTime', { time: i18n.formatDuration(run.totalTime * 1000) }),
+            ]);
+        } else {
+            const progress = this.activeBoard.getProgress();
+            const message = i18n.t(reason === 'hints' ? 'result.noLives' : 'result.popped');
+            UIManager.showResultPanel(false, [message, i18n.t('result.progress', { progress })]);
+        }
+    }
 
-            this.statsCollector.endGame(this.activeBoard);
+    private getBoardName(): string {
+        return this.lastBoard.name || 'Unknown Board';
+    }
 
-            const progress = this.activeBoard.getProgress();
-            UIManager.showResultPanel(false, `Game over — no lives left<br>Progress: ${progress}%`);
+    /**
+     * Stops recording the current game
+     * @returns The recording, also kept as lastMatch, or null if nothing was recorded
+     */
+    private finishRecording(result: MatchResult): IMatchDocument | null {
+        if (!this.recorder) return null;
+        this.lastMatch = this.recorder.finish(result, this.boardTime);
+        this.recorder = null;
+        if (!this.lastBoard.endless) {
+            this.ghostStore.saveIfBest(this.lastMatch);
         }
+        return this.lastMatch;
+    }
+
+    /**
+     * Uploads an endless run that ended on game over
+     */
+    private saveEndlessRun(run: EndlessRun): void {
+        this.statsCollector.getGameDataManager().addEndlessRun({
+            playerName: PlayerIdentity.getPlayerName(),
+            seed: run.seed,
+            startTime: run.startTime,
+            endTime: Date.now(),
+            boardsCleared: run.boardsCleared,
+            totalTime: Math.round(run.totalTime * 1000),
+            successfulIntersections: run.successfulIntersections,
+            livesLost: run.livesLost,
+        });
     }
 
     /**
@@ -0,0 +1,316 @@
+import { createRngFromSeed, IBoardData } from './BoardData.js';
+import { BoardModel } from './core/BoardModel.js';
+import { estimateDifficulty } from './analysis/DifficultyEstimator.js';
+import { NEAR_TANGENT_TOLERANCE } from './analysis/LevelWarnings.js';
+import { getArcSpan } from '../utils/mathUtils.js';
+import { ICircle, IShapeData } from './types.js';
+
+export type LevelSymmetry = 'none' | 'mirror' | 'rotational';
+
+export interface ILevelConstraints {
+    width: number;
+    height: number;
+    minRadius?: number; // default: 20
+    maxRadius?: number; // default: 100
+    seed: number | string;
+    // Cuttable pieces to reach; without it the board is filled like generateLevel
+    targetArcs?: number;
+    // Smallest angular length of any cuttable piece, in radians (default: 0)
+    minArcAngle?: number;
+    // Smallest gap between two circle outlines, whether they cross or not, in world units (default: 0)
+    minClearance?: number;
+    // Keep outlines at least NEAR_TANGENT_TOLERANCE apart (default: true)
+    avoidNearTangency?: boolean;
+    // Mirror across the vertical axis, or repeat around the center (default: 'none')
+    symmetry?: LevelSymmetry;
+    // Copies around the center for rotational symmetry (default: 3)
+    symmetryOrder?: number;
+    // Estimated difficulty score to aim for, 0-1 (see estimateDifficulty)
+    targetDifficulty?: number;
+    // Accepted distance from targetDifficulty (default: 0.05)
+    difficultyTolerance?: number;
+    // Candidate placements tried per pass before giving up (default: 4000)
+    maxAttempts?: number;
+    // Extra passes used to approach targetDifficulty (default: 6)
+    maxPasses?: number;
+}
+
+export interface IGenerationResult {
+    circles: IBoardData;
+    // Every constraint was met
+    satisfied: boolean;
+    // What could not be met, e.g. 'reached 84 of 120 pieces'
+    unmet: string[];
+    pieces: number;
+    difficulty: number;
+    attempts: number; // Candidate placements tried, over all passes
+    passes: number;
+}
+
+interface IPassResult {
+    circles: ICircle[];
+    pieces: number;
+    attempts: number;
+    targetArcs: number | undefined;
+}
+
+/**
+ * Generates a level that meets design constraints, deterministically for a given seed.
+ * Circles (or symmetric groups of circles) are placed one at a time and a placement
+ * is only kept if the board still meets every constraint. When the constraints can't
+ * all be met the result says how far generation got instead of silently returning
+ * fewer circles.
+ *
+ * @param constraints - Board size, seed and the constraints to meet
+ * @param name - Optional name for the board
+ */
+export function generateConstrainedLevel(
+    constraints: ILevelConstraints,
+    name?: string,
+): IGenerationResult {
+    const tolerance = constraints.difficultyTolerance ?? 0.05;
+    const maxPasses = Math.max(1, constraints.maxPasses ?? 6);
+    const target = constraints.targetDifficulty;
+
+    let targetArcs = constraints.targetArcs;
+    let best: { pass: IPassResult; difficulty: number } | null = null;
+    let attempts = 0;
+    let passes = 0;
+
+    for (let pass = 0; pass < (target === undefined ? 1 : maxPasses); pass++) {
+        passes++;
+        const rng = createRngFromSeed(
+            pass === 0 ? constraints.seed : `${constraints.seed}#${pass}`,
+        );
+        const result = runPass(constraints, targetArcs, rng);
+        attempts += result.attempts;
+        const difficulty = estimateDifficulty(result.circles).score;
+
+        if (
+            !best ||
+            (target !== undefined &&
+                Math.abs(difficulty - target) < Math.abs(best.difficulty - target))
+        ) {
+            best = { pass: result, difficulty };
+        }
+        if (target === undefined || Math.abs(difficulty - target) <= tolerance) break;
+
+        // The piece count drives most of the score: scale it towards the target
+        const current = Math.max(1, result.pieces);
+        targetArcs = Math.max(1, Math.round(current * (difficulty > target ? 0.7 : 1.4)));
+    }
+
+    const { pass, difficulty } = best!;
+    const unmet: string[] = [];
+    if (pass.targetArcs !== undefined && pass.pieces < pass.targetArcs) {
+        unmet.push(`reached ${pass.pieces} of ${pass.targetArcs} pieces`);
+    }
+    if (target !== undefined && Math.abs(difficulty - target) > tolerance) {
+        unmet.push(`difficulty ${difficulty.toFixed(2)} is off the target ${target.toFixed(2)}`);
+    }
+
+    return {
+        circles: Object.assign(pass.circles, name ? { name } : {}),
+        satisfied: unmet.length === 0,
+        unmet,
+        pieces: pass.pieces,
+        difficulty,
+        attempts,
+        passes,
+    };
+}
+
+/**
+ * Places circles until the piece target (or the generateLevel circle count) is reached
+ * or the attempts run out
+ */
+function runPass(
+    constraints: ILevelConstraints,
+    targetArcs: number | undefined,
+    rng: () => number,
+): IPassResult {
+    const minRadius = constraints.minRadius ?? 20;
+    const maxRadius = constraints.maxRadius ?? 100;
+    const maxAttempts = constraints.maxAttempts ?? 4000;
+    const minGap = Math.max(
+        constraints.minClearance ?? 0,
+        constraints.avoidNearTangency === false ? 0 : NEAR_TANGENT_TOLERANCE,
+    );
+    // Pieces may overshoot the target a little, since one circle often adds several
+    const maxArcs = targetArcs === undefined ? Infinity : targetArcs + Math.ceil(targetArcs * 0.05);
+    const maxCircles =
+        targetArcs === undefined ? fillCircleCount(constraints, minRadius, maxRadius) : Infinity;
+
+    const circles: ICircle[] = [];
+    // Indices of the circles each circle crosses
+    const crossings: number[][] = [];
+    let pieces = 0;
+    let attempts = 0;
+
+    while (
+        attempts < maxAttempts &&
+        circles.length < maxCircles &&
+        (targetArcs === undefined || pieces < targetArcs)
+    ) {
+        attempts++;
+        const group = proposeGroup(constraints, minRadius, maxRadius, rng);
+        if (!group) continue;
+
+        const placement = evaluatePlacement(
+            circles,
+            crossings,
+            group,
+            minGap,
+            constraints.minArcAngle ?? 0,
+        );
+        if (!placement || pieces + placement.addedPieces > maxArcs) continue;
+
+        // Keep the placement
+        const firstIndex = circles.length;
+        group.forEach((circle, k) => {
+            circles.push(circle);
+            crossings.push([]);
+            for (const other of placement.crossed[k]) {
+                crossings[firstIndex + k].push(other);
+                if (other < firstIndex) crossings[other].push(firstIndex + k);
+            }
+        });
+        pieces += placement.addedPieces;
+    }
+
+    return { circles, pieces, attempts, targetArcs };
+}
+
+/**
+ * The circle count generateLevel would aim for on this board
+ */
+function fillCircleCount(
+    constraints: ILevelConstraints,
+    minRadius: number,
+    maxRadius: number,
+): number {
+    const avgRadius = (minRadius + maxRadius) / 2;
+    const avgCircleArea = Math.PI * avgRadius * avgRadius;
+    const overlapFactor = 0.7;
+    return Math.max(
+        2,
+        Math.floor((constraints.width * constraints.height) / 2 / (avgCircleArea * overlapFactor)),
+    );
+}
+
+/**
+ * A random circle and its symmetric copies, or null if a copy leaves the board
+ */
+function proposeGroup(
+    constraints: ILevelConstraints,
+    minRadius: number,
+    maxRadius: number,
+    rng: () => number,
+): ICircle[] | null {
+    const { width, height } = constraints;
+    const r = minRadius + rng() * (maxRadius - minRadius);
+    const x = -width / 2 + r + rng() * (width - 2 * r);
+    const y = -height / 2 + r + rng() * (height - 2 * r);
+
+    const group: ICircle[] = [{ center: { x, y }, radius: r }];
+    const symmetry = constraints.symmetry ?? 'none';
+    if (symmetry === 'mirror') {
+        group.push({ center: { x: -x, y }, radius: r });
+    } else if (symmetry === 'rotational') {
+        const order = Math.max(2, Math.floor(constraints.symmetryOrder ?? 3));
+        for (let k = 1; k < order; k++) {
+            const angle = (2 * Math.PI * k) / order;
+            const cx = x * Math.cos(angle) - y * Math.sin(angle);
+            const cy = x * Math.sin(angle) + y * Math.cos(angle);
+            if (Math.abs(cx) + r > width / 2 || Math.abs(cy) + r > height / 2) return null;
+            group.push({ center: { x: cx, y: cy }, radius: r });
+        }
+    }
+    return group;
+}
+
+/**
+ * Checks a group of new circles against the placed ones. Only the circles the group
+ * crosses can change, so the pieces are compared on a local board around them.
+ * @returns The pieces the group adds and, per new circle, the indices it crosses;
+ * or null if the group breaks a constraint
+ */
+function evaluatePlacement(
+    circles: ICircle[],
+    crossings: number[][],
+    group: ICircle[],
+    minGap: number,
+    minArcAngle: number,
+): { addedPieces: number; crossed: number[][] } | null {
+    const all = [...circles, ...group];
+    const crossed: number[][] = group.map(() => []);
+
+    for (let k = 0; k < group.length; k++) {
+        const a = group[k];
+        const index = circles.length + k;
+        for (let j = 0; j < index; j++) {
+            const b = all[j];
+            const dist = Math.hypot(b.center.x - a.center.x, b.center.y - a.center.y);
+            // No containment, as in generateLevel
+            if (dist + Math.min(a.radius, b.radius) <= Math.max(a.radius, b.radius)) return null;
+            if (Math.abs(dist - (a.radius + b.radius)) < minGap) return null;
+            if (Math.abs(dist - Math.abs(a.radius - b.radius)) < minGap) return null;
+            if (dist < a.radius + b.radius) {
+                crossed[k].push(j);
+                if (j >= circles.length) crossed[j - circles.length].push(index);
+            }
+        }
+    }
+
+    // Circles whose pieces change, and everything that crosses them
+    const affected = new Set<number>();
+    group.forEach((_, k) => {
+        affected.add(circles.length + k);
+        crossed[k].forEach((j) => affected.add(j));
+    });
+    const local = new Set<number>(affected);
+    for (const index of affected) {
+        const neighbours =
+            index < circles.length ? crossings[index] : crossed[index - circles.length];
+        neighbours.forEach((j) => local.add(j));
+    }
+
+    const localIndices = Array.from(local).sort((a, b) => a - b);
+    const after = countPieces(all, localIndices, affected, minArcAngle);
+    if (after === null) return null;
+    const before = countPieces(
+        all,
+        localIndices.filter((index) => index < circles.length),
+        affected,
+        0,
+    );
+
+    return { addedPieces: after - (before ?? 0), crossed };
+}
+
+/**
+ * Counts the pieces on the affected circles of a local board
+ * @returns null if an affected circle is dropped or has a piece shorter than minArcAngle
+ */
+function countPieces(
+    all: ICircle[],
+    indices: number[],
+    affected: Set<number>,
+    minArcAngle: number,
+): number | null {
+    const board = new BoardModel(indices.map((index) => all[index]));
+    // Model shapes keep the data they were built from
+    const indexOfData = new Map<IShapeData, number>(indices.map((index) => [all[index], index]));
+    const kept = new Set(board.shapes.map((shape) => indexOfData.get(shape.data)));
+    for (const index of indices) {
+        if (affected.has(index) && !kept.has(index)) return null;
+    }
+
+    let count = 0;
+    for (const piece of board.intersections) {
+        if (!affected.has(indexOfData.get(piece.shape.data)!)) continue;
+        if (getArcSpan(piece) < minArcAngle) return null;
+        count++;
+    }
+    return count;
+}
@@ -1,16 +1,23 @@
-import { Board } from './Board.js';
+import { BoardModel } from './core/BoardModel.js';
 import { GameDataManager } from './game-data/GameData.js';
 import { PlayerIdentity } from './PlayerIdentity.js';
 import { FirestoreService } from '../data/FirestoreService.js';
+import { IChallengeTag } from './DailyChallenge.js';
+import { IMatchDocument } from '../data/matchDocument.js';
+import { GameEventBus } from './GameEvents.js';
+import { I18n } from '../i18n/I18n.js';
 
 export interface IGameStats {
     playerName: string;
     startTime: number;
     endTime: number | undefined;
-    duration: number | undefined; // in milliseconds
+    duration: number | undefined; // in milliseconds, paused time excluded
+    pausedTime: number; // in milliseconds
     hintsUsed: number;
     successfulIntersections: number;
     boardName?: string;
+    challengeDate?: string; // Daily challenge date, YYYY-MM-DD
+    practice?: boolean; // A daily challenge practice run
 }
 
 /**
@@ -19,6 +26,8 @@ export interface IGameStats {
 export class StatsCollector {
     protected stats: IGameStats;
     protected gameDataManager: GameDataManager;
+    // When the current pause started, while the game is paused
+    private pauseStart: number | null = null;
 
     constructor(boardName?: string, firestoreService?: FirestoreService) {
         this.stats = {
@@ -26,6 +35,7 @@ export class StatsCollector {
             startTime: Date.now(),
             endTime: undefined,
             duration: undefined,
+            pausedTime: 0,
             hintsUsed: 0,
             successfulIntersections: 0,
             boardName,
@@ -43,30 +53,84 @@ export class StatsCollector {
     /**
      * Records the start of a new game
      * @param boardName - Optional name of the board/level
+     * @param challenge - Set when the board is a daily challenge; a scored attempt
+     * uses up the day's attempt as soon as it starts
      */
-    startGame(boardName?: string): void {
+    startGame(boardName?: string, challenge?: IChallengeTag): void {
         this.stats = {
             playerName: PlayerIdentity.getPlayerName(),
             startTime: Date.now(),
             endTime: undefined,
             duration: undefined,
+            pausedTime: 0,
             hintsUsed: 0,
             successfulIntersections: 0,
             boardName,
+            ...(challenge && { challengeDate: challenge.date, practice: challenge.practice }),
         };
+        if (challenge && !challenge.practice) {
+            this.gameDataManager.markChallengeAttempted(challenge.date);
+        }
+        this.pauseStart = null;
     }
 
     /**
-     * Records the end of a game and calculates duration
+     * Continues the statistics of a saved game. The time since it was saved counts as paused.
+     * @param stats - The statistics when the game was saved
+     * @param savedAt - When the game was saved, epoch milliseconds
      */
-    endGame(board: Board): void {
-        if (this.stats.endTime) {
-            return; // Prevent multiple endings
+    restoreGame(stats: IGameStats, savedAt: number): void {
+        this.stats = { ...stats, pausedTime: stats.pausedTime + Math.max(0, Date.now() - savedAt) };
+        if (stats.challengeDate !== undefined && !stats.practice) {
+            this.gameDataManager.markChallengeAttempted(stats.challengeDate);
         }
+        this.pauseStart = null;
+    }
+
+    /**
+     * Records that the game was paused; paused time doesn't count toward its duration
+     */
+    pause(): void {
+        this.pauseStart ??= Date.now();
+    }
+
+    /**
+     * Records that the game continues after a pause
+     */
+    resume(): void {
+        if (this.pauseStart === null) return;
+        this.stats.pausedTime += Date.now() - this.pauseStart;
+        this.pauseStart = null;
+    }
+
+    /**
+     * Records the end of a game and calculates duration. Called once per game, when
+     * it leaves the playing phase with a result.
+     * @param board - The finished board
+     * @param match - Recording of the game, uploaded with it (optional)
+     */
+    endGame(board: BoardModel, match?: IMatchDocument | null): void {
+        this.resume();
         this.stats.endTime = Date.now();
-        this.stats.duration = this.stats.endTime - this.stats.startTime;
+        this.stats.duration = this.stats.endTime - this.stats.startTime - this.stats.pausedTime;
+
+        this.gameDataManager.addGameData(this.stats, board, match ?? undefined);
+    }
 
-        this.gameDataManager.addGameData(this.stats, board);
+    /**
+     * Counts the cuts, penalties and hints of a game's events. A penalty that
+     * doesn't end the game costs a life and counts as a hint.
+     * @returns A function that stops listening
+     */
+    subscribeTo(events: GameEventBus): () => void {
+        const unsubscribes = [
+            events.on('arcCut', () => this.recordSuccessfulIntersection()),
+            events.on('penalty', ({ gameOver }) => {
+                if (!gameOver) this.recordHintUsed();
+            }),
+            events.on('hintUsed', () => this.recordHintUsed()),
+        ];
+        return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
     }
 
     /**
@@ -84,11 +148,12 @@ export class StatsCollector {
     }
 
     /**
-     * Gets the current statistics
+     * Gets the current statistics. A pause in progress counts up to now.
      * @returns A copy of the current stats
      */
     getStats(): IGameStats {
-        return { ...this.stats };
+        const pausing = this.pauseStart !== null ? Date.now() - this.pauseStart : 0;
+        return { ...this.stats, pausedTime: this.stats.pausedTime + pausing };
     }
 
     /**
@@ -104,21 +169,11 @@ export class StatsCollector {
     }
 
     /**
-     * Gets the formatted duration string (MM:SS)
+     * Gets the duration formatted for the player's language (see I18n.formatDuration)
      * @returns Formatted duration string
      */
     getFormattedDuration(): string {
-        const duration = this.getDuration();
-        if (duration === undefined) return '00:00';
-
-        const seconds = Math.floor(duration / 1000);
-        const minutes = Math.floor(seconds / 60);
-        const remainingSeconds = seconds % 60;
-
-        const minutesStr = minutes < 10 ? '0' + minutes : minutes.toString();
-        const secondsStr = remainingSeconds < 10 ? '0' + remainingSeconds : remainingSeconds.toString();
-
-        return `${minutesStr}:${secondsStr}`;
+        return I18n.getInstance().formatDuration(this.getDuration() ?? 0);
     }
 
     /**
@@ -130,10 +185,14 @@ export class StatsCollector {
             startTime: Date.now(),
             endTime: undefined,
             duration: undefined,
+            pausedTime: 0,
             hintsUsed: 0,
             successfulIntersections: 0,
             boardName: this.stats.boardName,
+            challengeDate: this.stats.challengeDate,
+            practice: this.stats.practice,
         };
+        this.pauseStart = null;
     }
 
     /**
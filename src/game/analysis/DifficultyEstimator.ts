@@ -0,0 +1,191 @@
+import { BoardModel } from '../core/BoardModel.js';
+import { IArc, IShapeData } from '../types.js';
+import { distanceToArc, getArcBounds, getArcSpan } from '../../utils/mathUtils.js';
+import { SpatialGrid } from '../../utils/SpatialGrid.js';
+
+/**
+ * Raw board measurements the difficulty score is built from
+ */
+export interface IDifficultyBreakdown {
+    arcCount: number; // Cuttable pieces
+    shortestArcLength: number; // World units, of the shortest piece at its longest
+    minClearance: number; // Best cutting clearance of the tightest piece, world units
+    meanClearance: number; // Average best cutting clearance over all pieces, world units
+    density: number; // Cuttable pieces per 100x100 world units of board
+    extent: number; // Diagonal of the board's bounding box, world units
+}
+
+/**
+ * Each measurement mapped to 0 (easy) .. 1 (hard)
+ */
+export interface IDifficultyComponents {
+    count: number;
+    precision: number;
+    clearance: number;
+    density: number;
+    extent: number;
+}
+
+export interface IDifficulty {
+    score: number; // Weighted blend of the components, 0 (trivial) .. 1 (hardest)
+    stars: number; // Score on the 0-5 star scale used by the levels panel
+    components: IDifficultyComponents;
+    breakdown: IDifficultyBreakdown;
+}
+
+// How much each component contributes to the score (sums to 1)
+const WEIGHTS: IDifficultyComponents = {
+    count: 0.3,
+    precision: 0.2,
+    clearance: 0.25,
+    density: 0.1,
+    extent: 0.15,
+};
+
+// Measurement at which a component reaches ~63% of its maximum
+const SCALES = {
+    count: 150, // pieces
+    precision: 12, // world units of the shortest piece (shorter is harder)
+    clearance: 6, // world units of clearance (tighter is harder)
+    density: 2, // pieces per 100x100
+    extent: 3000, // world units of board diagonal
+};
+
+// Clearance further than this is treated as fully open
+const MAX_CLEARANCE = 50;
+
+// Points sampled along each piece when looking for its best cutting spot
+const CLEARANCE_SAMPLES = 5;
+
+const cache = new WeakMap<IShapeData[], IDifficulty>();
+
+/**
+ * Estimates how hard a board is from its geometry alone.
+ * Results are cached per board data array. Moving boards are measured over their
+ * sampled motion, each piece at the moment it is easiest to cut: the player can
+ * wait for it.
+ *
+ * @param boardData - The level shapes
+ * @returns The normalized score with its components and raw measurements
+ */
+export function estimateDifficulty(boardData: IShapeData[]): IDifficulty {
+    const cached = cache.get(boardData);
+    if (cached) return cached;
+
+    const board = new BoardModel(boardData);
+    const breakdown = measureBoard(board);
+
+    const saturate = (value: number, scale: number) => 1 - Math.exp(-value / scale);
+    const components: IDifficultyComponents =
+        breakdown.arcCount === 0
+            ? { count: 0, precision: 0, clearance: 0, density: 0, extent: 0 }
+            : {
+                  count: saturate(breakdown.arcCount, SCALES.count),
+                  precision: Math.exp(-breakdown.shortestArcLength / SCALES.precision),
+                  // Blend the tightest piece with the typical one
+                  clearance:
+                      0.6 * Math.exp(-breakdown.minClearance / SCALES.clearance) +
+                      0.4 * Math.exp(-breakdown.meanClearance / SCALES.clearance),
+                  density: saturate(breakdown.density, SCALES.density),
+                  extent: saturate(breakdown.extent, SCALES.extent),
+              };
+
+    const score = (Object.keys(WEIGHTS) as (keyof IDifficultyComponents)[]).reduce(
+        (sum, key) => sum + WEIGHTS[key] * components[key],
+        0,
+    );
+
+    const difficulty: IDifficulty = {
+        score,
+        stars: Math.max(0, Math.min(5, Math.round(score * 5))),
+        components,
+        breakdown,
+    };
+    cache.set(boardData, difficulty);
+    return difficulty;
+}
+
+/**
+ * Measures the raw inputs of the difficulty score on a fresh board, at every time it
+ * is sampled at. Each piece, or pair of shapes on moving boards, keeps its longest
+ * length and best clearance; pieces no sample caught count as the tightest.
+ */
+function measureBoard(board: BoardModel): IDifficultyBreakdown {
+    const measured = new Map<IArc | string, { length: number; clearance: number }>();
+    let minX = Infinity,
+        maxX = -Infinity;
+    let minY = Infinity,
+        maxY = -Infinity;
+
+    for (const time of board.getSampleTimes()) {
+        board.setTime(time);
+        for (const shape of board.shapes) {
+            const bounds = shape.getBounds();
+            minX = Math.min(minX, bounds.minX);
+            maxX = Math.max(maxX, bounds.maxX);
+            minY = Math.min(minY, bounds.minY);
+            maxY = Math.max(maxY, bounds.maxY);
+        }
+
+        const averageRadius =
+            board.shapes.reduce((sum, shape) => sum + shape.getMeanRadius(), 0) /
+            Math.max(1, board.shapes.length);
+        const penaltyIndex = new SpatialGrid<IArc>(Math.max(16, averageRadius));
+        for (const arc of board.getPenaltyArcs()) {
+            penaltyIndex.insert(arc, getArcBounds(arc, 1e-6));
+        }
+
+        for (const piece of board.intersections) {
+            const key = board.getPieceKey(piece) ?? piece;
+            const best = measured.get(key) ?? { length: 0, clearance: 0 };
+            measured.set(key, {
+                length: Math.max(best.length, piece.shape.getArcLength(piece)),
+                clearance: Math.max(best.clearance, bestClearance(piece, penaltyIndex)),
+            });
+        }
+    }
+
+    const width = board.shapes.length > 0 ? maxX - minX : 0;
+    const height = board.shapes.length > 0 ? maxY - minY : 0;
+    const area = Math.max(1, width * height);
+
+    const pieces = [...measured.values()];
+    const count = board.totalCuts;
+    const missed = count > pieces.length;
+    const shortestArcLength = missed ? 0 : Math.min(...pieces.map((piece) => piece.length));
+    const minClearance = missed ? 0 : Math.min(...pieces.map((piece) => piece.clearance));
+    const totalClearance = pieces.reduce((sum, piece) => sum + piece.clearance, 0);
+
+    return {
+        arcCount: count,
+        shortestArcLength: count > 0 ? shortestArcLength : 0,
+        minClearance: count > 0 ? minClearance : 0,
+        meanClearance: count > 0 ? totalClearance / count : 0,
+        density: count / (area / 10000),
+        extent: Math.hypot(width, height),
+    };
+}
+
+/**
+ * The largest distance to the nearest penalty arc over points sampled along a piece:
+ * how much room the player has at the easiest place to cut it
+ */
+function bestClearance(piece: IArc, penaltyIndex: SpatialGrid<IArc>): number {
+    const span = getArcSpan(piece);
+    let best = 0;
+    for (let k = 1; k <= CLEARANCE_SAMPLES; k++) {
+        const point = piece.shape.pointAt(piece.startAngle + (span * k) / (CLEARANCE_SAMPLES + 1));
+        const nearby = penaltyIndex.query({
+            minX: point.x - MAX_CLEARANCE,
+            minY: point.y - MAX_CLEARANCE,
+            maxX: point.x + MAX_CLEARANCE,
+            maxY: point.y + MAX_CLEARANCE,
+        });
+        let nearest = MAX_CLEARANCE;
+        for (const arc of nearby) {
+            nearest = Math.min(nearest, distanceToArc(point, arc));
+        }
+        best = Math.max(best, nearest);
+    }
+    return best;
+}
@@ -0,0 +1,284 @@
+import { BoardModel } from '../core/BoardModel.js';
+import { IArc, ILine, IPoint, IShape, IShapeData } from '../types.js';
+import {
+    collideStrokeWithArcs,
+    getArcBounds,
+    getArcSpan,
+    getLineBounds,
+    SEGMENT_TOLERANCE,
+} from '../../utils/mathUtils.js';
+import { SpatialGrid } from '../../utils/SpatialGrid.js';
+
+export interface ISolverOptions {
+    // Blade tolerance in world units, as used by BoardModel (default: SEGMENT_TOLERANCE)
+    tolerance?: number;
+    // Points tried along each arc when looking for a single-arc stroke (default: 5)
+    samplesPerArc?: number;
+    // Whether to search multi-arc strokes for a minimum stroke estimate (default: true)
+    estimateStrokes?: boolean;
+    // Nearby arcs paired with each arc when searching multi-arc strokes (default: 8)
+    neighbours?: number;
+}
+
+/**
+ * A straight stroke that cuts some pieces without touching a penalty arc
+ */
+export interface ISolverStroke {
+    line: ILine;
+    // Indices of the pieces cut: into the board's initial intersections, or on moving
+    // boards into the pairs of shapes in the order the solver met them
+    cuts: number[];
+    time: number; // Seconds into the motion to play the stroke at, 0 on still boards
+}
+
+export interface ISolverResult {
+    // Every cuttable piece can be reached by a stroke that touches no penalty arc
+    solvable: boolean;
+    totalCuts: number;
+    // Pieces that no straight stroke can cut without a penalty
+    unreachable: IArc[];
+    // Greedy estimate of the strokes needed (upper bound); without estimateStrokes,
+    // simply one stroke per reachable piece
+    minStrokes: number;
+    // Witness strokes covering every reachable piece, in play order
+    strokes: ISolverStroke[];
+    // Replaying the witness strokes on a fresh board wins it without losing a life
+    verified: boolean;
+}
+
+/**
+ * Decides whether a level can be cleared without penalties and estimates the
+ * minimum number of straight strokes needed, with witness strokes.
+ *
+ * Penalty arcs never change during a game: they are the parts of each circle
+ * outside every cuttable piece. So a stroke is safe as long as it touches no
+ * penalty arc, no matter which pieces were cut before it.
+ *
+ * A piece is reachable when any point of it lies farther than the blade
+ * tolerance from every penalty arc, as a stroke touching just that point cuts
+ * it safely. Every piece is walked in steps of about the tolerance before it is
+ * reported unreachable, so only safe stretches shorter than a step can be missed.
+ *
+ * Moving boards are solved at each time they are sampled at, until every pair of
+ * shapes has a stroke: the penalty arcs move, but still never depend on what was cut.
+ *
+ * @param boardData - The level shapes
+ * @param options - Solver tuning
+ */
+export function solveLevel(boardData: IShapeData[], options: ISolverOptions = {}): ISolverResult {
+    const tolerance = options.tolerance ?? SEGMENT_TOLERANCE;
+    const samplesPerArc = Math.max(1, options.samplesPerArc ?? 5);
+    const estimateStrokes = options.estimateStrokes ?? true;
+    const neighbours = Math.max(0, options.neighbours ?? 8);
+
+    const board = new BoardModel(boardData, {
+        strokeCollision: { tolerance, includeTangents: true },
+    });
+    const collision = { tolerance, includeTangents: true };
+    // Cut numbers of the pieces, or of the pairs of shapes on moving boards, with the
+    // first piece met of each
+    const pieceNumbers = new Map<IArc | string, number>();
+    const firstPieces: IArc[] = [];
+    const reachable = new Set<number>();
+    const candidates: ISolverStroke[] = [];
+
+    for (const time of board.getSampleTimes()) {
+        if (reachable.size === board.totalCuts) break;
+        board.setTime(time);
+        const pieces = board.intersections;
+        const numbers = pieces.map((piece) => {
+            const key = board.getPieceKey(piece) ?? piece;
+            if (!pieceNumbers.has(key)) {
+                pieceNumbers.set(key, firstPieces.length);
+                firstPieces.push(piece);
+            }
+            return pieceNumbers.get(key)!;
+        });
+        const cellSize = Math.max(16, averageRadius(board.shapes));
+
+        const penaltyIndex = new SpatialGrid<IArc>(cellSize);
+        for (const arc of board.getPenaltyArcs()) {
+            penaltyIndex.insert(arc, getArcBounds(arc, 1e-6));
+        }
+        const pieceIndex = new SpatialGrid<IArc>(cellSize);
+        pieces.forEach((piece) => pieceIndex.insert(piece, getArcBounds(piece, 1e-6)));
+        const pieceNumber = new Map<IArc, number>(
+            pieces.map((piece, index) => [piece, numbers[index]]),
+        );
+
+        const evaluate = (line: ILine): ISolverStroke | null => {
+            const bounds = getLineBounds(line, 2 * tolerance);
+            if (collideStrokeWithArcs(line, penaltyIndex.query(bounds), collision).length > 0) {
+                return null;
+            }
+            const cuts = new Set<number>();
+            for (const hit of collideStrokeWithArcs(line, pieceIndex.query(bounds), collision)) {
+                cuts.add(pieceNumber.get(hit.arc)!);
+            }
+            return cuts.size > 0 ? { line, cuts: Array.from(cuts), time } : null;
+        };
+
+        // Single-arc strokes: short radial strokes across a point of each piece
+        pieces.forEach((piece, index) => {
+            if (reachable.has(numbers[index])) return;
+            const stroke =
+                findRadialStroke(piece, samplesPerArc, tolerance, evaluate) ??
+                findTouchStroke(piece, tolerance, evaluate);
+            if (stroke && stroke.cuts.includes(numbers[index])) {
+                candidates.push(stroke);
+                reachable.add(numbers[index]);
+            }
+        });
+
+        // Multi-arc strokes: straight strokes through the midpoints of nearby pieces
+        if (estimateStrokes && neighbours > 0) {
+            const midpoints = pieces.map((piece) => pointOnArc(piece, 0.5));
+            midpoints.forEach((from, i) => {
+                const nearest = midpoints
+                    .map((to, j) => ({ j, dist: Math.hypot(to.x - from.x, to.y - from.y) }))
+                    .filter(({ j }) => j > i)
+                    .sort((a, b) => a.dist - b.dist)
+                    .slice(0, neighbours);
+                for (const { j, dist } of nearest) {
+                    if (dist === 0) continue;
+                    const margin = 4 * tolerance + 1;
+                    const ux = (midpoints[j].x - from.x) / dist;
+                    const uy = (midpoints[j].y - from.y) / dist;
+                    const stroke = evaluate({
+                        start: { x: from.x - ux * margin, y: from.y - uy * margin },
+                        end: { x: midpoints[j].x + ux * margin, y: midpoints[j].y + uy * margin },
+                    });
+                    if (stroke && stroke.cuts.length > 1) {
+                        candidates.push(stroke);
+                    }
+                }
+            });
+        }
+    }
+
+    // Pairs no sample caught have no piece to show, but still leave the level unsolvable
+    const unreachable = firstPieces.filter((_, number) => !reachable.has(number));
+    const solvable = reachable.size === board.totalCuts;
+
+    const strokes = greedyCover(candidates, reachable.size).sort((a, b) => a.time - b.time);
+
+    return {
+        solvable,
+        totalCuts: board.totalCuts,
+        unreachable,
+        minStrokes: strokes.length,
+        strokes,
+        verified: solvable && replayWins(boardData, strokes, tolerance),
+    };
+}
+
+/**
+ * Checks only whether every piece of a level is reachable, skipping the stroke estimate
+ */
+export function isLevelSolvable(boardData: IShapeData[], options: ISolverOptions = {}): boolean {
+    return solveLevel(boardData, { ...options, estimateStrokes: false }).solvable;
+}
+
+/**
+ * Tries short strokes crossing the piece along its normal, from the middle outwards
+ */
+function findRadialStroke(
+    piece: IArc,
+    samples: number,
+    tolerance: number,
+    evaluate: (line: ILine) => ISolverStroke | null,
+): ISolverStroke | null {
+    const fractions: number[] = [];
+    for (let k = 0; k < samples; k++) {
+        // 0.5, then alternating either side of the middle
+        const offset = Math.ceil(k / 2) / (samples + 1);
+        fractions.push(k % 2 === 1 ? 0.5 - offset : 0.5 + offset);
+    }
+
+    const radius = piece.shape.getMeanRadius();
+    const halfLengths = [radius / 4, 5, 1, 4 * tolerance].filter((h) => h > 2 * tolerance);
+    for (const fraction of fractions) {
+        const param = piece.startAngle + getArcSpan(piece) * fraction;
+        const point = piece.shape.pointAt(param);
+        const { x: nx, y: ny } = piece.shape.normalAt(param);
+        for (const h of halfLengths) {
+            const stroke = evaluate({
+                start: { x: point.x - nx * h, y: point.y - ny * h },
+                end: { x: point.x + nx * h, y: point.y + ny * h },
+            });
+            if (stroke) return stroke;
+        }
+    }
+    return null;
+}
+
+/**
+ * Walks the whole piece, trying at each step a stroke just long enough to touch it
+ */
+function findTouchStroke(
+    piece: IArc,
+    tolerance: number,
+    evaluate: (line: ILine) => ISolverStroke | null,
+): ISolverStroke | null {
+    const steps = Math.max(2, Math.ceil(piece.shape.getArcLength(piece) / tolerance));
+    const span = getArcSpan(piece);
+    const h = tolerance / 4;
+    for (let k = 1; k < steps; k++) {
+        const param = piece.startAngle + (span * k) / steps;
+        const point = piece.shape.pointAt(param);
+        const { x: nx, y: ny } = piece.shape.normalAt(param);
+        const stroke = evaluate({
+            start: { x: point.x - nx * h, y: point.y - ny * h },
+            end: { x: point.x + nx * h, y: point.y + ny * h },
+        });
+        if (stroke) return stroke;
+    }
+    return null;
+}
+
+/**
+ * Greedy set cover: repeatedly takes the stroke that cuts the most pieces not yet cut
+ */
+function greedyCover(candidates: ISolverStroke[], coverable: number): ISolverStroke[] {
+    const covered = new Set<number>();
+    const chosen: ISolverStroke[] = [];
+    while (covered.size < coverable) {
+        let best: ISolverStroke | null = null;
+        let bestGain = 0;
+        for (const candidate of candidates) {
+            const gain = candidate.cuts.filter((cut) => !covered.has(cut)).length;
+            if (gain > bestGain) {
+                best = candidate;
+                bestGain = gain;
+            }
+        }
+        if (!best) break;
+        best.cuts.forEach((cut) => covered.add(cut));
+        chosen.push(best);
+    }
+    return chosen;
+}
+
+/**
+ * Plays the strokes on a fresh board through the real rules
+ */
+function replayWins(boardData: IShapeData[], strokes: ISolverStroke[], tolerance: number): boolean {
+    const board = new BoardModel(boardData, {
+        strokeCollision: { tolerance, includeTangents: true },
+    });
+    for (const stroke of strokes) {
+        board.setTime(stroke.time);
+        if (board.processStroke(stroke.line).penalty) return false;
+    }
+    return board.getStatus() === 'won';
+}
+
+function pointOnArc(arc: IArc, fraction: number): IPoint {
+    return arc.shape.pointAt(arc.startAngle + getArcSpan(arc) * fraction);
+}
+
+function averageRadius(shapes: IShape[]): number {
+    return (
+        shapes.reduce((sum, shape) => sum + shape.getMeanRadius(), 0) / Math.max(1, shapes.length)
+    );
+}
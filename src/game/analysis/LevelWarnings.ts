@@ -0,0 +1,126 @@
+import { BoardModel } from '../core/BoardModel.js';
+import { ShapeModel } from '../core/ShapeModel.js';
+import { createShapeModel } from '../core/shapeFactory.js';
+import { freezeShapes } from '../core/motion.js';
+import { ICircle, IShapeData } from '../types.js';
+
+export type LevelWarningKind = 'near-tangent' | 'contained' | 'dropped' | 'isolated';
+
+/**
+ * A degenerate configuration in a level. The editor words it in the player's language.
+ */
+export interface ILevelWarning {
+    kind: LevelWarningKind;
+    shapes: number[]; // Indices into the level shapes
+    gap?: number; // Between the outlines of near-tangent shapes
+}
+
+// Gap between two outlines below which they count as touching, in world units
+export const NEAR_TANGENT_TOLERANCE = 2;
+
+/**
+ * Finds configurations that make a level confusing or broken to play:
+ * - near-tangent outlines, which leave slivers too thin to cut
+ * - a shape fully inside another without crossing it
+ * - shapes dropped from the board because their pieces cover the whole outline
+ * - shapes that cross no other shape and have nothing to cut
+ *
+ * Circle pairs are checked exactly. Other pairs only count as near-tangent when their
+ * outlines come close without crossing. Moving circles are checked where they stand
+ * at time 0.
+ *
+ * @param shapes - The level shapes
+ * @param tolerance - Gap below which two outlines count as touching
+ */
+export function findLevelWarnings(
+    levelShapes: IShapeData[],
+    tolerance: number = NEAR_TANGENT_TOLERANCE,
+): ILevelWarning[] {
+    const shapes = freezeShapes(levelShapes);
+    const warnings: ILevelWarning[] = [];
+    const crossings = new Array<number>(shapes.length).fill(0);
+    const models = shapes.map((shape) => createShapeModel(shape));
+
+    for (let i = 0; i < shapes.length; i++) {
+        for (let j = i + 1; j < shapes.length; j++) {
+            const a = shapes[i];
+            const b = shapes[j];
+            if (isCircle(a) && isCircle(b)) {
+                const dist = Math.hypot(b.center.x - a.center.x, b.center.y - a.center.y);
+                const outerGap = Math.abs(dist - (a.radius + b.radius));
+                const innerGap = Math.abs(dist - Math.abs(a.radius - b.radius));
+
+                if (outerGap < tolerance || innerGap < tolerance) {
+                    warnings.push({
+                        kind: 'near-tangent',
+                        shapes: [i, j],
+                        gap: Math.min(outerGap, innerGap),
+                    });
+                } else if (dist + Math.min(a.radius, b.radius) <= Math.max(a.radius, b.radius)) {
+                    const [inner, outer] = a.radius < b.radius ? [i, j] : [j, i];
+                    warnings.push({ kind: 'contained', shapes: [inner, outer] });
+                }
+
+                if (dist < a.radius + b.radius && dist > Math.abs(a.radius - b.radius)) {
+                    crossings[i]++;
+                    crossings[j]++;
+                }
+                continue;
+            }
+
+            if (models[i].crossings(models[j]).length > 0) {
+                crossings[i]++;
+                crossings[j]++;
+                continue;
+            }
+            const gap = outlineGap(models[i], models[j]);
+            if (gap < tolerance) {
+                warnings.push({ kind: 'near-tangent', shapes: [i, j], gap });
+            } else if (models[i].closed && models[j].closed) {
+                const [inner, outer] = models[j].contains(models[i].pointAt(0))
+                    ? [i, j]
+                    : models[i].contains(models[j].pointAt(0))
+                      ? [j, i]
+                      : [-1, -1];
+                if (inner >= 0) {
+                    warnings.push({ kind: 'contained', shapes: [inner, outer] });
+                }
+            }
+        }
+    }
+
+    // The board drops shapes whose joined pieces cover the whole outline. Model shapes
+    // keep the data they were built from, which identifies them.
+    const board = new BoardModel(shapes);
+    const kept = new Set(board.shapes.map((shape) => shape.data));
+    shapes.forEach((shape, index) => {
+        if (!kept.has(shape)) {
+            warnings.push({ kind: 'dropped', shapes: [index] });
+        } else if (crossings[index] === 0) {
+            warnings.push({ kind: 'isolated', shapes: [index] });
+        }
+    });
+
+    return warnings;
+}
+
+function isCircle(shape: IShapeData): shape is ICircle {
+    return shape.kind === undefined || shape.kind === 'circle';
+}
+
+/**
+ * Smallest distance between two outlines that don't cross, measured from the
+ * polyline points of each to the other outline
+ */
+function outlineGap(a: ShapeModel, b: ShapeModel): number {
+    let gap = Infinity;
+    for (const [from, to] of [
+        [a, b],
+        [b, a],
+    ]) {
+        for (const point of from.getPolyline().points) {
+            gap = Math.min(gap, to.distanceToArc(point, to.arc[0]));
+        }
+    }
+    return gap;
+}
@@ -0,0 +1,569 @@
+import { ShapeModel } from './ShapeModel.js';
+import { CircleModel } from './CircleModel.js';
+import { createShapeModel } from './shapeFactory.js';
+import { circleAt, isMoving } from './motion.js';
+import { IArc, ILine, IShapeData, IStrokeCollisionOptions, IStrokeHit } from '../types.js';
+import {
+    joinIntersections,
+    splitArcAtSeam,
+    collideStrokeWithArcs,
+    isParamOnArc,
+    subtractArc,
+    getArcBounds,
+    getLineBounds,
+    SEGMENT_TOLERANCE,
+} from '../../utils/mathUtils.js';
+import { SpatialGrid } from '../../utils/SpatialGrid.js';
+
+// Slack added around arc bounding boxes so floating-point error never drops a candidate
+const ARC_BOUNDS_PADDING = 1e-6;
+
+export const DEFAULT_MAX_LIVES = 3;
+
+// How far ahead, and how finely, moving boards are sampled for the pieces they will ever have
+const MOTION_HORIZON = 60;
+const MOTION_SAMPLE_STEP = 1 / 20;
+
+export type BoardStatus = 'playing' | 'won' | 'lost';
+
+/**
+ * Outcome of processing one stroke segment
+ */
+export interface IStrokeResult {
+    cuts: IArc[]; // Pieces cut, in the order the blade reached them
+    penalty: boolean; // A non-cuttable arc was touched and a life was lost
+    gameOver: boolean; // The penalty used up the last life
+}
+
+/**
+ * The state of a board in play, as plain data: enough to restore it on a new board
+ * built from the same shapes. Shapes are referred to by their index in shapes.
+ */
+export interface IBoardSnapshot {
+    // Remaining arcs of every shape
+    arcs: { startAngle: number; endAngle: number }[][];
+    // Pieces still to cut, on boards that don't move
+    intersections: { shape: number; startAngle: number; endAngle: number }[];
+    // Pairs cut so far, on moving boards (see BoardModel)
+    cutPairs: string[];
+    missedCuts: number;
+    hintsUsed: number;
+    hintedShapes: number[];
+    // Numbers drawn from the hint random source, so later hints pick the same shapes
+    hintDraws: number;
+}
+
+export interface IBoardModelOptions<S extends ShapeModel> {
+    // Builds the shape objects, e.g. to attach rendering (default: createShapeModel)
+    createShape?: (shapeData: IShapeData) => S;
+    // Combined budget of missed cuts and hints before game over (default: 3)
+    maxLives?: number;
+    // Random source used to pick hinted shapes (default: Math.random)
+    rng?: () => number;
+    // Blade thickness and tangent handling used for stroke collisions
+    strokeCollision?: IStrokeCollisionOptions;
+}
+
+/**
+ * BoardModel - The game rules for one board, with no rendering, audio or DOM access.
+ * Owns the shapes, the cuttable intersections, lives, victory/loss and progress,
+ * so full games can be simulated in Node. Shapes of any kind can be mixed: pieces
+ * are found between the crossings of every pair of boundaries.
+ *
+ * Boards with moving circles (see motion.ts) are animated with setTime. Their pieces
+ * are tracked per pair of shapes instead of joined: the part of shape i inside shape j
+ * is one cut, whatever it looks like at the moment. A cut stays cut as the shapes move
+ * on, and the board is won once every pair that ever overlaps has been cut.
+ */
+export class BoardModel<S extends ShapeModel = ShapeModel> {
+    // The level shapes this board was built from
+    readonly shapesData: IShapeData[];
+    shapes: S[] = [];
+    intersections: IArc[] = [];
+    totalCuts: number = 0;
+    missedCuts: number = 0;
+    // Number of lives consumed via hints. Hints count toward game-over like missed cuts.
+    hintsUsed: number = 0;
+    hintedShapes: S[] = [];
+    maxLives: number;
+    strokeCollision: IStrokeCollisionOptions;
+    private rng: () => number;
+    private hintDraws: number = 0;
+    // Broad-phase indexes so stroke segments only run exact tests against nearby arcs
+    private intersectionIndex!: SpatialGrid<IArc>;
+    private shapeArcIndex!: SpatialGrid<IArc>;
+    // Moving boards only: the pair each current piece belongs to, as "i>j" for the part
+    // of shape i inside shape j, the pairs that overlap at some time and those cut so far
+    private readonly moving: boolean;
+    private pieceKeys = new Map<IArc, string>();
+    private cuttableKeys = new Set<string>();
+    private cutKeys = new Set<string>();
+    // Moving boards only: where the cut pairs lie on the shapes at the current time
+    private cutPieces: IArc[] = [];
+
+    constructor(shapesData: IShapeData[], options: IBoardModelOptions<S> = {}) {
+        const createShape =
+            options.createShape || ((shapeData: IShapeData) => createShapeModel(shapeData) as S);
+        this.maxLives = options.maxLives ?? DEFAULT_MAX_LIVES;
+        this.rng = options.rng || Math.random;
+        this.strokeCollision = options.strokeCollision || {
+            tolerance: SEGMENT_TOLERANCE,
+            includeTangents: true,
+        };
+        this.shapesData = shapesData;
+        this.shapes = shapesData.map((shapeData) => createShape(shapeData));
+        this.moving = shapesData.some(isMoving);
+        if (this.moving) {
+            this.cuttableKeys = this.findCuttableKeys();
+            this.totalCuts = this.cuttableKeys.size;
+            this.updatePieces();
+        } else {
+            this.calculateAllIntersections();
+            this.totalCuts = this.intersections.length;
+        }
+        this.buildSpatialIndex();
+    }
+
+    calculateAllIntersections(): void {
+        this.intersections = [];
+        for (let i = 0; i < this.shapes.length; i++) {
+            for (let j = i + 1; j < this.shapes.length; j++) {
+                const a = this.shapes[i];
+                const b = this.shapes[j];
+                this.intersections.push(...a.piecesInside(b), ...b.piecesInside(a));
+            }
+        }
+        this.intersections = joinIntersections(this.intersections);
+        this.intersections = this.intersections.filter((arc) => {
+            if (Math.abs(arc.startAngle - arc.endAngle) + 0.001 >= 2 * Math.PI) {
+                this.shapes = this.shapes.filter((s) => s !== arc.shape);
+                return false;
+            }
+
+            return true;
+        });
+    }
+
+    /**
+     * Moves the circles of a moving board to where they are at a time and recomputes
+     * the pieces there. Does nothing on boards that don't move.
+     * @param time - Seconds since the board started moving
+     */
+    setTime(time: number): void {
+        if (!this.moving) return;
+        this.moveShapes(time);
+        this.updatePieces();
+        this.buildSpatialIndex();
+    }
+
+    private moveShapes(time: number): void {
+        this.shapes.forEach((shape, index) => {
+            const data = this.shapesData[index];
+            if (shape instanceof CircleModel && isMoving(data)) {
+                const { center, radius } = circleAt(data, time);
+                shape.moveTo(center, radius);
+            }
+        });
+    }
+
+    /**
+     * The times a moving board is sampled at for the pieces it will ever have: the
+     * first MOTION_HORIZON seconds in steps of MOTION_SAMPLE_STEP, or just 0 on boards
+     * that don't move
+     */
+    getSampleTimes(): number[] {
+        if (!this.moving) return [0];
+        const times: number[] = [];
+        for (let time = 0; time <= MOTION_HORIZON; time += MOTION_SAMPLE_STEP) {
+            times.push(time);
+        }
+        return times;
+    }
+
+    /**
+     * Moving boards only: the pair of shapes a current piece belongs to, as "i>j" for
+     * the part of shape i inside shape j
+     */
+    getPieceKey(piece: IArc): string | undefined {
+        return this.pieceKeys.get(piece);
+    }
+
+    /**
+     * Pairs of shapes that overlap at some point of the sampled motion. Pairs with a
+     * still shape on both sides only need one look.
+     */
+    private findCuttableKeys(): Set<string> {
+        const keys = new Set<string>();
+        const pairs: [number, number][] = [];
+        for (let i = 0; i < this.shapes.length; i++) {
+            for (let j = i + 1; j < this.shapes.length; j++) {
+                pairs.push([i, j]);
+            }
+        }
+
+        for (const time of this.getSampleTimes()) {
+            if (pairs.length === 0) break;
+            this.moveShapes(time);
+            for (let k = pairs.length - 1; k >= 0; k--) {
+                const [i, j] = pairs[k];
+                const a = this.shapes[i];
+                const b = this.shapes[j];
+                if (a.piecesInside(b).length > 0) keys.add(`${i}>${j}`);
+                if (b.piecesInside(a).length > 0) keys.add(`${j}>${i}`);
+                const still = !isMoving(this.shapesData[i]) && !isMoving(this.shapesData[j]);
+                if (still || (keys.has(`${i}>${j}`) && keys.has(`${j}>${i}`))) {
+                    pairs.splice(k, 1);
+                }
+            }
+        }
+        this.moveShapes(0);
+        return keys;
+    }
+
+    /**
+     * Recomputes the pieces of a moving board from the current shape positions
+     */
+    private updatePieces(): void {
+        this.intersections = [];
+        this.cutPieces = [];
+        this.pieceKeys.clear();
+        for (let i = 0; i < this.shapes.length; i++) {
+            for (let j = 0; j < this.shapes.length; j++) {
+                if (i === j) continue;
+                const key = `${i}>${j}`;
+                if (!this.cuttableKeys.has(key)) continue;
+                const pieces = this.shapes[i].piecesInside(this.shapes[j]);
+                if (this.cutKeys.has(key)) {
+                    this.cutPieces.push(...pieces);
+                    continue;
+                }
+                for (const piece of pieces) {
+                    this.intersections.push(piece);
+                    this.pieceKeys.set(piece, key);
+                }
+            }
+        }
+        for (const shape of this.shapes) {
+            shape.arc = this.getRemainingArcs(shape);
+        }
+    }
+
+    /**
+     * The boundary of a shape on a moving board with its cut pieces taken out. Parts
+     * of a cut piece that overlap a piece still to cut stay on the shape.
+     */
+    private getRemainingArcs(shape: S): IArc[] {
+        let cut = this.cutPieces.filter((piece) => piece.shape === shape).flatMap(splitArcAtSeam);
+        for (const piece of this.intersections) {
+            if (piece.shape !== shape) continue;
+            cut = cut.flatMap((arc) =>
+                splitArcAtSeam(piece).flatMap((part) => subtractArc(arc, part)),
+            );
+        }
+
+        let remaining: IArc[] = [{ shape, startAngle: 0, endAngle: 2 * Math.PI }];
+        for (const piece of cut) {
+            remaining = remaining.flatMap((arc) => subtractArc(arc, piece));
+        }
+        return remaining;
+    }
+
+    /**
+     * Builds the spatial indexes over the cuttable intersections and the remaining
+     * arcs of every shape. The grid cell size follows the average shape radius.
+     */
+    private buildSpatialIndex(): void {
+        const averageRadius =
+            this.shapes.reduce((sum, shape) => sum + shape.getMeanRadius(), 0) /
+            Math.max(1, this.shapes.length);
+        const cellSize = Math.max(16, averageRadius);
+
+        this.intersectionIndex = new SpatialGrid<IArc>(cellSize);
+        for (const intersection of this.intersections) {
+            this.intersectionIndex.insert(
+                intersection,
+                getArcBounds(intersection, ARC_BOUNDS_PADDING),
+            );
+        }
+
+        this.shapeArcIndex = new SpatialGrid<IArc>(cellSize);
+        for (const shape of this.shapes) {
+            for (const arc of shape.arc) {
+                this.shapeArcIndex.insert(arc, getArcBounds(arc, ARC_BOUNDS_PADDING));
+            }
+        }
+    }
+
+    /**
+     * The remaining parts of each shape outside every cuttable piece: touching them
+     * costs a life. Cutting pieces never changes this set.
+     */
+    getPenaltyArcs(): IArc[] {
+        const penaltyArcs: IArc[] = [];
+        for (const shape of this.shapes) {
+            let remaining = shape.arc;
+            for (const piece of this.intersections) {
+                if (piece.shape !== shape) continue;
+                const next: IArc[] = [];
+                for (const arc of remaining) {
+                    next.push(...subtractArc(arc, piece));
+                }
+                remaining = next;
+            }
+            penaltyArcs.push(...remaining);
+        }
+        return penaltyArcs;
+    }
+
+    getRemainingCuts(): number {
+        if (this.moving) return this.cuttableKeys.size - this.cutKeys.size;
+        return this.intersections.length;
+    }
+
+    checkVictory(): boolean {
+        return this.getRemainingCuts() === 0;
+    }
+
+    /**
+     * Lives left from the combined budget of missed cuts and hints
+     */
+    getLivesRemaining(): number {
+        return Math.max(0, this.maxLives - this.missedCuts - this.hintsUsed);
+    }
+
+    isGameOver(): boolean {
+        return this.missedCuts + this.hintsUsed >= this.maxLives;
+    }
+
+    /**
+     * Current outcome of the board. A board that runs out of lives is lost even if
+     * its last move also cleared it.
+     */
+    getStatus(): BoardStatus {
+        if (this.isGameOver()) return 'lost';
+        if (this.checkVictory()) return 'won';
+        return 'playing';
+    }
+
+    /**
+     * Record that a hint was used. Hints count toward the same life budget as missed cuts.
+     * On moving boards the hinted shape is picked among the pairs still to cut, so a
+     * hint shows something even while no piece is on the board.
+     * Returns true if this causes game over.
+     */
+    recordHintUsed(): boolean {
+        this.hintsUsed++;
+        const candidates = this.moving
+            ? [...this.cuttableKeys]
+                  .filter((key) => !this.cutKeys.has(key))
+                  .map((key) => this.shapes[Number(key.split('>')[0])])
+            : this.intersections.map((piece) => piece.shape as S);
+        if (candidates.length > 0) {
+            this.hintDraws++;
+            this.hintedShapes.push(candidates[Math.floor(this.rng() * candidates.length)]);
+        }
+        return this.isGameOver();
+    }
+
+    /**
+     * The current state of the board as plain data
+     */
+    toSnapshot(): IBoardSnapshot {
+        return {
+            arcs: this.shapes.map((shape) =>
+                shape.arc.map(({ startAngle, endAngle }) => ({ startAngle, endAngle })),
+            ),
+            intersections: this.moving
+                ? []
+                : this.intersections.map(({ shape, startAngle, endAngle }) => ({
+                      shape: this.shapes.indexOf(shape as S),
+                      startAngle,
+                      endAngle,
+                  })),
+            cutPairs: [...this.cutKeys],
+            missedCuts: this.missedCuts,
+            hintsUsed: this.hintsUsed,
+            hintedShapes: this.hintedShapes.map((shape) => this.shapes.indexOf(shape)),
+            hintDraws: this.hintDraws,
+        };
+    }
+
+    /**
+     * Restores a snapshot taken on a board built from the same shapes, with the same
+     * random source. Moving boards must be set to the snapshot's time first.
+     * Throws if the snapshot doesn't fit this board.
+     */
+    restoreSnapshot(snapshot: IBoardSnapshot): void {
+        if (snapshot.arcs.length !== this.shapes.length) {
+            throw new Error(
+                `Snapshot of ${snapshot.arcs.length} shapes restored on a board of ${this.shapes.length}`,
+            );
+        }
+
+        if (this.moving) {
+            this.cutKeys = new Set(snapshot.cutPairs.filter((key) => this.cuttableKeys.has(key)));
+            this.updatePieces();
+        } else {
+            this.shapes.forEach((shape, index) => {
+                shape.arc = snapshot.arcs[index].map((arc) => ({ shape, ...arc }));
+            });
+            // Pieces are never split, so the remaining ones are found among the board's own
+            this.intersections = this.intersections.filter((piece) =>
+                snapshot.intersections.some(
+                    (saved) =>
+                        this.shapes[saved.shape] === piece.shape &&
+                        saved.startAngle === piece.startAngle &&
+                        saved.endAngle === piece.endAngle,
+                ),
+            );
+        }
+        this.buildSpatialIndex();
+
+        this.missedCuts = snapshot.missedCuts;
+        this.hintsUsed = snapshot.hintsUsed;
+        this.hintedShapes = snapshot.hintedShapes
+            .filter((index) => index >= 0 && index < this.shapes.length)
+            .map((index) => this.shapes[index]);
+        for (; this.hintDraws < snapshot.hintDraws; this.hintDraws++) {
+            this.rng();
+        }
+    }
+
+    getProgress(): string {
+        if (this.totalCuts === 0) return (100).toFixed(2);
+        return ((1 - this.getRemainingCuts() / this.totalCuts) * 100).toFixed(2);
+    }
+
+    /**
+     * Processes one stroke segment of the blade.
+     * Cuts and penalties are applied in the order the blade crossed them: a cuttable piece
+     * is removed when reached, touching any other remaining arc costs a life (at most one
+     * per segment), and nothing after a game-ending penalty is cut.
+     * Strokes on a board that is already won or lost have no effect.
+     * @param line - The stroke segment in world coordinates
+     * @returns The pieces cut, in blade order, and the penalty outcome
+     */
+    processStroke(line: ILine): IStrokeResult {
+        const result: IStrokeResult = { cuts: [], penalty: false, gameOver: false };
+        if (this.getStatus() !== 'playing') return result;
+
+        const bounds = getLineBounds(
+            line,
+            2 * (this.strokeCollision.tolerance ?? SEGMENT_TOLERANCE),
+        );
+        const nearbyIntersections = this.intersectionIndex.query(bounds);
+        const cuttable = new Set(nearbyIntersections);
+
+        // Cuttable pieces come first so that, at the same t, a piece is cut before the
+        // shape arc containing it is seen
+        const hits = collideStrokeWithArcs(
+            line,
+            [...nearbyIntersections, ...this.shapeArcIndex.query(bounds)],
+            this.strokeCollision,
+        );
+
+        for (let i = 0; i < hits.length; i++) {
+            const hit = hits[i];
+            if (cuttable.has(hit.arc)) {
+                if (!this.intersectionIndex.has(hit.arc)) continue; // Already cut by this stroke
+                const added = this.cutIntersection(hit.arc);
+                result.cuts.push(hit.arc);
+
+                // The arcs that replace the split shape arc can be touched further along
+                const later = collideStrokeWithArcs(line, added, this.strokeCollision).filter(
+                    (next) => next.t > hit.t,
+                );
+                if (later.length > 0) {
+                    hits.push(...[...hits.splice(i + 1), ...later].sort((a, b) => a.t - b.t));
+                }
+                continue;
+            }
+
+            // Shape arc removed or split by an earlier cut of this stroke: the arcs that
+            // replaced it were added to the hits above
+            if (!this.shapeArcIndex.has(hit.arc)) continue;
+            // Crossing through a piece that is still cuttable: its own hit handles it
+            if (this.isOnIntersection(hit)) continue;
+            if (result.penalty) continue;
+
+            result.penalty = true;
+            this.missedCuts++;
+            // Check combined misses (missedCuts + hintsUsed) for game over
+            if (this.isGameOver()) {
+                result.gameOver = true;
+                break;
+            }
+        }
+
+        // Update hintedShapes to only include shapes that still have intersections
+        if (result.cuts.length > 0 && this.hintedShapes.length > 0) {
+            const shapesWithIntersections = new Set(
+                this.intersections.map((intersection) => intersection.shape),
+            );
+            this.hintedShapes = this.hintedShapes.filter((shape) =>
+                shapesWithIntersections.has(shape),
+            );
+        }
+
+        return result;
+    }
+
+    /**
+     * Removes a cuttable piece from the board
+     * @returns The shape arcs added in place of the ones the piece was taken out of
+     */
+    private cutIntersection(intersection: IArc): IArc[] {
+        if (this.moving) {
+            return this.cutPair(intersection);
+        }
+        this.intersections = this.intersections.filter((arc) => arc !== intersection);
+        this.intersectionIndex.remove(intersection);
+
+        // Keep the shape arc index in sync with the shape's remaining arcs
+        const change = (intersection.shape as S).removePiece(intersection);
+        for (const arc of change.removed) {
+            this.shapeArcIndex.remove(arc);
+        }
+        for (const arc of change.added) {
+            this.shapeArcIndex.insert(arc, getArcBounds(arc, ARC_BOUNDS_PADDING));
+        }
+        return change.added;
+    }
+
+    /**
+     * Cuts the pair a piece of a moving board belongs to, with all of its pieces
+     * @returns The new remaining arcs of the piece's shape
+     */
+    private cutPair(intersection: IArc): IArc[] {
+        const key = this.pieceKeys.get(intersection)!;
+        this.cutKeys.add(key);
+        for (const piece of this.intersections) {
+            if (this.pieceKeys.get(piece) !== key) continue;
+            this.intersectionIndex.remove(piece);
+            this.pieceKeys.delete(piece);
+            this.cutPieces.push(piece);
+        }
+        this.intersections = this.intersections.filter((piece) => this.pieceKeys.has(piece));
+
+        const shape = intersection.shape as S;
+        for (const arc of shape.arc) {
+            this.shapeArcIndex.remove(arc);
+        }
+        shape.arc = this.getRemainingArcs(shape);
+        for (const arc of shape.arc) {
+            this.shapeArcIndex.insert(arc, getArcBounds(arc, ARC_BOUNDS_PADDING));
+        }
+        return shape.arc;
+    }
+
+    /**
+     * Checks if a hit on a shape arc lies on one of that shape's remaining cuttable pieces
+     */
+    private isOnIntersection(hit: IStrokeHit): boolean {
+        const { point } = hit;
+        const bounds = { minX: point.x, minY: point.y, maxX: point.x, maxY: point.y };
+        return this.intersectionIndex
+            .query(bounds)
+            .some((arc) => arc.shape === hit.arc.shape && isParamOnArc(hit.param, arc));
+    }
+}
@@ -0,0 +1,125 @@
+import {
+    getArcSpan,
+    getCircleArcBounds,
+    getCircleIntersections,
+    collideStrokeWithCircleArc,
+    distanceToCircleArc,
+    intersectSegmentWithCircle,
+} from '../../utils/mathUtils.js';
+import {
+    IArc,
+    IBounds,
+    ICircle,
+    ILine,
+    IPoint,
+    IStrokeCollisionOptions,
+    IStrokeHit,
+} from '../types.js';
+import { IPolyline, ShapeModel } from './ShapeModel.js';
+
+// Polyline resolution used when other shapes are intersected with a circle
+const CIRCLE_SEGMENTS = 96;
+
+/**
+ * CircleModel - Rules-side circle, parametrized by polar angle.
+ * Replaces the polyline queries of ShapeModel with exact circle math.
+ * Has no rendering; see Circle for the p5 adapter.
+ */
+export class CircleModel extends ShapeModel implements ICircle {
+    readonly kind = 'circle';
+    public center: IPoint;
+    public radius: number;
+
+    constructor(circleData: ICircle) {
+        super(circleData);
+        this.center = circleData.center;
+        this.radius = circleData.radius;
+    }
+
+    /**
+     * Moves the circle; its arcs keep their angles
+     */
+    moveTo(center: IPoint, radius: number): void {
+        this.center = center;
+        this.radius = radius;
+        this.invalidateGeometry();
+    }
+
+    pointAt(angle: number): IPoint {
+        return {
+            x: this.center.x + this.radius * Math.cos(angle),
+            y: this.center.y + this.radius * Math.sin(angle),
+        };
+    }
+
+    normalAt(angle: number): IPoint {
+        return { x: Math.cos(angle), y: Math.sin(angle) };
+    }
+
+    paramOf(point: IPoint): number {
+        return Math.atan2(point.y - this.center.y, point.x - this.center.x);
+    }
+
+    contains(point: IPoint): boolean {
+        return Math.hypot(point.x - this.center.x, point.y - this.center.y) < this.radius;
+    }
+
+    intersectSegment(a: IPoint, b: IPoint): number[] {
+        return intersectSegmentWithCircle(a, b, this);
+    }
+
+    getBounds(): IBounds {
+        return {
+            minX: this.center.x - this.radius,
+            minY: this.center.y - this.radius,
+            maxX: this.center.x + this.radius,
+            maxY: this.center.y + this.radius,
+        };
+    }
+
+    getMeanRadius(): number {
+        return this.radius;
+    }
+
+    getArcBounds(arc: IArc, padding: number): IBounds {
+        return getCircleArcBounds(this, arc, padding);
+    }
+
+    getArcLength(arc: IArc): number {
+        return this.radius * getArcSpan(arc);
+    }
+
+    distanceToArc(point: IPoint, arc: IArc): number {
+        return distanceToCircleArc(point, this, arc);
+    }
+
+    collideStroke(line: ILine, arc: IArc, options: IStrokeCollisionOptions): IStrokeHit[] {
+        return collideStrokeWithCircleArc(line, this, arc, options);
+    }
+
+    /**
+     * Two circles cross at the angles of their intersection points, as returned by atan2
+     */
+    crossings(other: ShapeModel): number[] {
+        if (!(other instanceof CircleModel)) {
+            return super.crossings(other);
+        }
+        const angles = getCircleIntersections(this, other)
+            .map((point) => this.paramOf(point))
+            .filter((angle) => Number.isFinite(angle))
+            .sort((a, b) => a - b);
+        // Tangent circles touch at a single point
+        return angles.length === 2 && angles[0] === angles[1] ? [angles[0]] : angles;
+    }
+
+    protected buildPolyline(): IPolyline {
+        const params: number[] = [];
+        const points: IPoint[] = [];
+        for (let k = 0; k <= CIRCLE_SEGMENTS; k++) {
+            const angle = (2 * Math.PI * k) / CIRCLE_SEGMENTS;
+            params.push(angle);
+            points.push(this.pointAt(angle));
+        }
+        return { params, points };
+    }
+}
@@ -0,0 +1,104 @@
+import { intersectSegmentWithCircle } from '../../utils/mathUtils.js';
+import { IBounds, IEllipse, IPoint } from '../types.js';
+import { IPolyline, ShapeModel, normalizeParam } from './ShapeModel.js';
+
+// Polyline resolution of the boundary, used for strokes, bounds and crossings
+const ELLIPSE_SEGMENTS = 128;
+
+const UNIT_CIRCLE = { center: { x: 0, y: 0 }, radius: 1 };
+
+/**
+ * EllipseModel - Rules-side ellipse, parametrized by the angle of the point on the
+ * unit circle it is stretched from. Crossings with segments are solved exactly on
+ * that unit circle; stroke queries run on the boundary polyline.
+ */
+export class EllipseModel extends ShapeModel {
+    readonly kind = 'ellipse';
+    public center: IPoint;
+    public radiusX: number;
+    public radiusY: number;
+    public rotation: number;
+
+    constructor(ellipseData: IEllipse) {
+        super(ellipseData);
+        this.center = ellipseData.center;
+        this.radiusX = ellipseData.radiusX;
+        this.radiusY = ellipseData.radiusY;
+        this.rotation = ellipseData.rotation ?? 0;
+    }
+
+    pointAt(param: number): IPoint {
+        const x = this.radiusX * Math.cos(param);
+        const y = this.radiusY * Math.sin(param);
+        const cos = Math.cos(this.rotation);
+        const sin = Math.sin(this.rotation);
+        return {
+            x: this.center.x + x * cos - y * sin,
+            y: this.center.y + x * sin + y * cos,
+        };
+    }
+
+    normalAt(param: number): IPoint {
+        const x = Math.cos(param) / this.radiusX;
+        const y = Math.sin(param) / this.radiusY;
+        const length = Math.hypot(x, y);
+        const cos = Math.cos(this.rotation);
+        const sin = Math.sin(this.rotation);
+        return { x: (x * cos - y * sin) / length, y: (x * sin + y * cos) / length };
+    }
+
+    paramOf(point: IPoint): number {
+        const local = this.toUnitCircle(point);
+        return normalizeParam(Math.atan2(local.y, local.x));
+    }
+
+    contains(point: IPoint): boolean {
+        const local = this.toUnitCircle(point);
+        return local.x * local.x + local.y * local.y < 1;
+    }
+
+    /**
+     * Affine maps keep positions along a segment, so the crossing is solved on the unit circle
+     */
+    intersectSegment(a: IPoint, b: IPoint): number[] {
+        return intersectSegmentWithCircle(this.toUnitCircle(a), this.toUnitCircle(b), UNIT_CIRCLE);
+    }
+
+    getBounds(): IBounds {
+        const cos = Math.cos(this.rotation);
+        const sin = Math.sin(this.rotation);
+        const halfWidth = Math.hypot(this.radiusX * cos, this.radiusY * sin);
+        const halfHeight = Math.hypot(this.radiusX * sin, this.radiusY * cos);
+        return {
+            minX: this.center.x - halfWidth,
+            minY: this.center.y - halfHeight,
+            maxX: this.center.x + halfWidth,
+            maxY: this.center.y + halfHeight,
+        };
+    }
+
+    protected buildPolyline(): IPolyline {
+        const params: number[] = [];
+        const points: IPoint[] = [];
+        for (let k = 0; k <= ELLIPSE_SEGMENTS; k++) {
+            const param = (2 * Math.PI * k) / ELLIPSE_SEGMENTS;
+            params.push(param);
+            points.push(this.pointAt(param));
+        }
+        return { params, points };
+    }
+
+    /**
+     * Maps a world point into the frame where this ellipse is the unit circle
+     */
+    private toUnitCircle(point: IPoint): IPoint {
+        const dx = point.x - this.center.x;
+        const dy = point.y - this.center.y;
+        const cos = Math.cos(this.rotation);
+        const sin = Math.sin(this.rotation);
+        return {
+            x: (dx * cos + dy * sin) / this.radiusX,
+            y: (-dx * sin + dy * cos) / this.radiusY,
+        };
+    }
+}
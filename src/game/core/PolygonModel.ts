@@ -0,0 +1,83 @@
+import { intersectSegments, lerpPoint, projectOntoSegment } from '../../utils/mathUtils.js';
+import { IPoint, IPolygon } from '../types.js';
+import { IPolyline, ShapeModel, normalizeParam } from './ShapeModel.js';
+
+/**
+ * PolygonModel - Rules-side convex polygon. The boundary parameter runs along the
+ * perimeter, 2π being one full turn, so every edge gets a share of it proportional
+ * to its length. The polyline is the boundary itself, so every query is exact.
+ */
+export class PolygonModel extends ShapeModel {
+    readonly kind = 'polygon';
+    public vertices: IPoint[];
+    protected readonly exactPolyline = true;
+
+    constructor(polygonData: IPolygon) {
+        super(polygonData);
+        this.vertices = polygonData.vertices;
+    }
+
+    pointAt(param: number): IPoint {
+        const { params, points } = this.getPolyline();
+        const t = normalizeParam(param);
+        let k = 0;
+        while (k < params.length - 2 && params[k + 1] <= t) k++;
+        return lerpPoint(points[k], points[k + 1], (t - params[k]) / (params[k + 1] - params[k]));
+    }
+
+    paramOf(point: IPoint): number {
+        const { params, points } = this.getPolyline();
+        let best = { dist: Infinity, param: 0 };
+        for (let k = 0; k < points.length - 1; k++) {
+            const u = projectOntoSegment(point, points[k], points[k + 1]);
+            const closest = lerpPoint(points[k], points[k + 1], u);
+            const dist = Math.hypot(point.x - closest.x, point.y - closest.y);
+            if (dist < best.dist) {
+                best = { dist, param: params[k] + (params[k + 1] - params[k]) * u };
+            }
+        }
+        return normalizeParam(best.param);
+    }
+
+    /**
+     * Inside a convex polygon, the point is on the same side of every edge
+     */
+    contains(point: IPoint): boolean {
+        let sign = 0;
+        for (let k = 0; k < this.vertices.length; k++) {
+            const a = this.vertices[k];
+            const b = this.vertices[(k + 1) % this.vertices.length];
+            const cross = (b.x - a.x) * (point.y - a.y) - (b.y - a.y) * (point.x - a.x);
+            if (cross === 0) return false;
+            if (sign === 0) sign = Math.sign(cross);
+            else if (Math.sign(cross) !== sign) return false;
+        }
+        return true;
+    }
+
+    intersectSegment(a: IPoint, b: IPoint): number[] {
+        const positions: number[] = [];
+        const { points } = this.getPolyline();
+        for (let k = 0; k < points.length - 1; k++) {
+            const crossing = intersectSegments(a, b, points[k], points[k + 1]);
+            if (crossing) positions.push(crossing.s);
+        }
+        return positions;
+    }
+
+    protected buildPolyline(): IPolyline {
+        const points = [...this.vertices, this.vertices[0]];
+        const lengths = points
+            .slice(1)
+            .map((point, k) => Math.hypot(point.x - points[k].x, point.y - points[k].y));
+        const perimeter = lengths.reduce((sum, length) => sum + length, 0);
+        const params = [0];
+        let travelled = 0;
+        for (const length of lengths) {
+            travelled += length;
+            params.push((2 * Math.PI * travelled) / perimeter);
+        }
+        params[params.length - 1] = 2 * Math.PI;
+        return { params, points };
+    }
+}
@@ -0,0 +1,44 @@
+import { intersectSegments, lerpPoint, projectOntoSegment } from '../../utils/mathUtils.js';
+import { IPoint, ISegment } from '../types.js';
+import { IPolyline, ShapeModel } from './ShapeModel.js';
+
+/**
+ * SegmentModel - Rules-side line segment. It is open and has no inside: its pieces
+ * are the stretches inside other shapes, and nothing is ever inside it. The boundary
+ * parameter runs from 0 at the start to 2π at the end.
+ */
+export class SegmentModel extends ShapeModel {
+    readonly kind = 'segment';
+    readonly closed = false;
+    public start: IPoint;
+    public end: IPoint;
+    protected readonly exactPolyline = true;
+
+    constructor(segmentData: ISegment) {
+        super(segmentData);
+        this.start = segmentData.start;
+        this.end = segmentData.end;
+    }
+
+    pointAt(param: number): IPoint {
+        const t = Math.max(0, Math.min(1, param / (2 * Math.PI)));
+        return lerpPoint(this.start, this.end, t);
+    }
+
+    paramOf(point: IPoint): number {
+        return 2 * Math.PI * projectOntoSegment(point, this.start, this.end);
+    }
+
+    contains(): boolean {
+        return false;
+    }
+
+    intersectSegment(a: IPoint, b: IPoint): number[] {
+        const crossing = intersectSegments(a, b, this.start, this.end);
+        return crossing ? [crossing.s] : [];
+    }
+
+    protected buildPolyline(): IPolyline {
+        return { params: [0, 2 * Math.PI], points: [this.start, this.end] };
+    }
+}
@@ -0,0 +1,383 @@
+import {
+    subtractArc,
+    getArcSpan,
+    getArcMidParam,
+    intersectSegments,
+    projectOntoSegment,
+    lerpPoint,
+    clamp01,
+    SEGMENT_TOLERANCE,
+} from '../../utils/mathUtils.js';
+import {
+    IArc,
+    IArcChange,
+    IBounds,
+    ILine,
+    IPoint,
+    IShape,
+    IShapeData,
+    IStrokeCollisionOptions,
+    IStrokeHit,
+    ShapeKind,
+} from '../types.js';
+
+const TWO_PI = 2 * Math.PI;
+
+// Crossings closer than this along a boundary are the same crossing
+const CROSSING_EPSILON = 1e-9;
+
+/**
+ * Points along a shape's boundary with their parameters, from 0 up to 2π.
+ * Closed shapes repeat the first point at 2π.
+ */
+export interface IPolyline {
+    params: number[];
+    points: IPoint[];
+}
+
+/**
+ * ShapeModel - Rules-side shape: boundary geometry plus the arcs that haven't been cut yet.
+ * Subclasses give the boundary parametrization and containment. The per-arc queries
+ * run on a polyline along the boundary by default, which is exact for polygons and
+ * segments; CircleModel replaces them with exact circle math.
+ * Has no rendering; see game/shapes for the p5 adapters.
+ */
+export abstract class ShapeModel implements IShape {
+    abstract readonly kind: ShapeKind;
+    readonly data: IShapeData;
+    readonly closed: boolean = true;
+    public arc: IArc[];
+    // Whether the polyline is the boundary itself rather than an approximation
+    protected readonly exactPolyline: boolean = false;
+    private polyline?: IPolyline;
+
+    constructor(data: IShapeData) {
+        this.data = data;
+        this.arc = [
+            {
+                shape: this,
+                startAngle: 0,
+                endAngle: TWO_PI,
+            },
+        ];
+    }
+
+    abstract pointAt(param: number): IPoint;
+
+    abstract paramOf(point: IPoint): number;
+
+    abstract contains(point: IPoint): boolean;
+
+    /**
+     * Finds where a segment crosses the boundary
+     * @returns Positions along the segment, 0..1
+     */
+    abstract intersectSegment(a: IPoint, b: IPoint): number[];
+
+    protected abstract buildPolyline(): IPolyline;
+
+    getPolyline(): IPolyline {
+        if (!this.polyline) {
+            this.polyline = this.buildPolyline();
+        }
+        return this.polyline;
+    }
+
+    /**
+     * Drops cached geometry after the shape moved
+     */
+    protected invalidateGeometry(): void {
+        this.polyline = undefined;
+    }
+
+    normalAt(param: number): IPoint {
+        const before = this.pointAt(param - 1e-4);
+        const after = this.pointAt(param + 1e-4);
+        const length = Math.hypot(after.x - before.x, after.y - before.y) || 1;
+        const normal = { x: (after.y - before.y) / length, y: -(after.x - before.x) / length };
+        const point = this.pointAt(param);
+        if (this.contains({ x: point.x + normal.x * 1e-3, y: point.y + normal.y * 1e-3 })) {
+            return { x: -normal.x, y: -normal.y };
+        }
+        return normal;
+    }
+
+    getBounds(): IBounds {
+        return boundsOf(this.getPolyline().points, 0);
+    }
+
+    getMeanRadius(): number {
+        const bounds = this.getBounds();
+        return (bounds.maxX - bounds.minX + bounds.maxY - bounds.minY) / 4;
+    }
+
+    /**
+     * Points along an arc, close enough together to draw it as a polyline
+     */
+    getArcPoints(arc: IArc): IPoint[] {
+        const points: IPoint[] = [];
+        this.forEachArcSegment(arc, (a, b) => {
+            if (points.length === 0) points.push(a);
+            points.push(b);
+        });
+        return points;
+    }
+
+    getArcBounds(arc: IArc, padding: number): IBounds {
+        return boundsOf(this.getArcPoints(arc), padding);
+    }
+
+    getArcLength(arc: IArc): number {
+        let length = 0;
+        this.forEachArcSegment(arc, (a, b) => {
+            length += Math.hypot(b.x - a.x, b.y - a.y);
+        });
+        return length;
+    }
+
+    distanceToArc(point: IPoint, arc: IArc): number {
+        let nearest = Infinity;
+        this.forEachArcSegment(arc, (a, b) => {
+            const closest = lerpPoint(a, b, projectOntoSegment(point, a, b));
+            nearest = Math.min(nearest, Math.hypot(point.x - closest.x, point.y - closest.y));
+        });
+        return nearest;
+    }
+
+    /**
+     * Finds the points where a stroke segment touches an arc of this shape, ordered
+     * along the stroke. Crossings within the tolerance past either end of the stroke
+     * count, and a stroke passing within the tolerance without crossing is a tangent hit.
+     */
+    collideStroke(line: ILine, arc: IArc, options: IStrokeCollisionOptions): IStrokeHit[] {
+        const tolerance = options.tolerance ?? SEGMENT_TOLERANCE;
+        const includeTangents = options.includeTangents ?? true;
+        const dx = line.end.x - line.start.x;
+        const dy = line.end.y - line.start.y;
+        const length = Math.hypot(dx, dy);
+        const hits: IStrokeHit[] = [];
+
+        this.forEachArcSegment(arc, (a, b, ta, tb) => {
+            const makeHit = (t: number, u: number, tangent: boolean): IStrokeHit => ({
+                t,
+                point: lerpPoint(a, b, u),
+                param: ta + (tb - ta) * u,
+                arc,
+                tangent,
+            });
+
+            // A stroke that hasn't moved is a single blade position
+            if (length < 1e-6) {
+                const u = projectOntoSegment(line.start, a, b);
+                const point = lerpPoint(a, b, u);
+                if (Math.hypot(point.x - line.start.x, point.y - line.start.y) <= tolerance) {
+                    hits.push(makeHit(0, u, false));
+                }
+                return;
+            }
+
+            // Crossing, with the stroke extended by the tolerance at both ends
+            const ux = (dx / length) * tolerance;
+            const uy = (dy / length) * tolerance;
+            const crossing = intersectSegments(
+                { x: line.start.x - ux, y: line.start.y - uy },
+                { x: line.end.x + ux, y: line.end.y + uy },
+                a,
+                b,
+            );
+            if (crossing) {
+                const t = (crossing.s * (length + 2 * tolerance) - tolerance) / length;
+                hits.push(makeHit(clamp01(t), crossing.u, false));
+                return;
+            }
+            if (!includeTangents) return;
+
+            // Graze: the closest approach of two segments that don't cross involves an endpoint
+            const approaches = [
+                { t: projectOntoSegment(a, line.start, line.end), u: 0 },
+                { t: projectOntoSegment(b, line.start, line.end), u: 1 },
+                { t: 0, u: projectOntoSegment(line.start, a, b) },
+                { t: 1, u: projectOntoSegment(line.end, a, b) },
+            ];
+            let best: { t: number; u: number; dist: number } | null = null;
+            for (const { t, u } of approaches) {
+                const onStroke = lerpPoint(line.start, line.end, t);
+                const onShape = lerpPoint(a, b, u);
+                const dist = Math.hypot(onShape.x - onStroke.x, onShape.y - onStroke.y);
+                if (!best || dist < best.dist) best = { t, u, dist };
+            }
+            if (best && best.dist <= tolerance) {
+                hits.push(makeHit(best.t, best.u, true));
+            }
+        });
+
+        // A crossing at a polyline vertex is found on both of its segments
+        const kept: IStrokeHit[] = [];
+        for (const hit of hits.sort((h1, h2) => h1.t - h2.t)) {
+            const duplicate = kept.some(
+                (other) =>
+                    Math.hypot(other.point.x - hit.point.x, other.point.y - hit.point.y) <=
+                    Math.max(tolerance, CROSSING_EPSILON),
+            );
+            if (!duplicate) kept.push(hit);
+        }
+        return kept;
+    }
+
+    /**
+     * Finds the boundary parameters where this shape's boundary crosses another's.
+     * Polylines that are exact are walked on this side; curved shapes are walked on
+     * the other side so the points found lie exactly on this boundary.
+     * @returns Sorted parameters, without duplicates
+     */
+    crossings(other: ShapeModel): number[] {
+        if (!overlaps(this.getBounds(), other.getBounds())) return [];
+
+        const params: number[] = [];
+        if (this.exactPolyline) {
+            const { params: ts, points } = this.getPolyline();
+            for (let k = 0; k < points.length - 1; k++) {
+                for (const u of other.intersectSegment(points[k], points[k + 1])) {
+                    params.push(ts[k] + (ts[k + 1] - ts[k]) * u);
+                }
+            }
+        } else {
+            const { points } = other.getPolyline();
+            for (let k = 0; k < points.length - 1; k++) {
+                for (const u of this.intersectSegment(points[k], points[k + 1])) {
+                    params.push(this.paramOf(lerpPoint(points[k], points[k + 1], u)));
+                }
+            }
+        }
+        return uniqueParams(params, this.closed);
+    }
+
+    /**
+     * The stretches of this shape's boundary inside another shape, between consecutive
+     * crossings of the two boundaries. Shapes that don't cross have no pieces.
+     */
+    piecesInside(other: ShapeModel): IArc[] {
+        if (!other.closed) return [];
+        const params = this.crossings(other);
+        if (params.length < (this.closed ? 2 : 1)) return [];
+
+        const intervals: [number, number][] = [];
+        if (this.closed) {
+            params.forEach((param, i) => intervals.push([param, params[(i + 1) % params.length]]));
+        } else {
+            const cuts = [0, ...params, TWO_PI];
+            for (let i = 0; i < cuts.length - 1; i++) {
+                intervals.push([cuts[i], cuts[i + 1]]);
+            }
+        }
+
+        return intervals
+            .map(([startAngle, endAngle]): IArc => ({ shape: this, startAngle, endAngle }))
+            .filter((arc) => other.contains(this.pointAt(getArcMidParam(arc))));
+    }
+
+    /**
+     * Removes a piece from the remaining arcs of this shape.
+     * Arcs that don't overlap the piece are kept as the same objects.
+     * @returns The arcs that were removed and the arcs that replaced them
+     */
+    removePiece(arc1: IArc): IArcChange {
+        const arcs: IArc[] = [];
+        const change: IArcChange = { removed: [], added: [] };
+        for (const arc of this.arc) {
+            const newArcs = subtractArc(arc, arc1);
+            if (
+                newArcs.length === 1 &&
+                newArcs[0].startAngle === arc.startAngle &&
+                newArcs[0].endAngle === arc.endAngle
+            ) {
+                arcs.push(arc);
+                continue;
+            }
+            change.removed.push(arc);
+            for (const arc2 of newArcs) {
+                arcs.push(arc2);
+                change.added.push(arc2);
+            }
+        }
+        this.arc = arcs;
+        return change;
+    }
+
+    /**
+     * Walks the polyline segments covered by an arc, cut at the arc's ends
+     */
+    protected forEachArcSegment(
+        arc: IArc,
+        visit: (a: IPoint, b: IPoint, ta: number, tb: number) => void,
+    ): void {
+        const { params } = this.getPolyline();
+        const last = params.length - 1;
+        let remaining = getArcSpan(arc);
+        let t = normalizeParam(arc.startAngle);
+        let k = 0;
+        while (k < last - 1 && params[k + 1] <= t) k++;
+
+        while (remaining > CROSSING_EPSILON) {
+            const stop = Math.min(params[k + 1], t + remaining);
+            if (stop > t) {
+                visit(this.pointAt(t), this.pointAt(stop), t, stop);
+            }
+            remaining -= stop - t;
+            t = stop;
+            if (++k >= last) {
+                if (!this.closed) break;
+                k = 0;
+                t = 0;
+            }
+        }
+    }
+}
+
+/**
+ * Maps a boundary parameter to [0, 2π)
+ */
+export function normalizeParam(param: number): number {
+    const normalized = ((param % TWO_PI) + TWO_PI) % TWO_PI;
+    return normalized >= TWO_PI ? 0 : normalized;
+}
+
+function uniqueParams(params: number[], closed: boolean): number[] {
+    const sorted = params
+        .filter((param) => Number.isFinite(param))
+        .map((param) => (closed ? normalizeParam(param) : param))
+        .sort((a, b) => a - b);
+    const unique: number[] = [];
+    for (const param of sorted) {
+        if (unique.length === 0 || param - unique[unique.length - 1] > CROSSING_EPSILON) {
+            unique.push(param);
+        }
+    }
+    if (
+        closed &&
+        unique.length > 1 &&
+        unique[0] + TWO_PI - unique[unique.length - 1] <= CROSSING_EPSILON
+    ) {
+        unique.pop();
+    }
+    return unique;
+}
+
+function boundsOf(points: IPoint[], padding: number): IBounds {
+    const bounds: IBounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+    for (const point of points) {
+        bounds.minX = Math.min(bounds.minX, point.x);
+        bounds.minY = Math.min(bounds.minY, point.y);
+        bounds.maxX = Math.max(bounds.maxX, point.x);
+        bounds.maxY = Math.max(bounds.maxY, point.y);
+    }
+    bounds.minX -= padding;
+    bounds.minY -= padding;
+    bounds.maxX += padding;
+    bounds.maxY += padding;
+    return bounds;
+}
+
+function overlaps(a: IBounds, b: IBounds): boolean {
+    return a.minX <= b.maxX && b.minX <= a.maxX && a.minY <= b.maxY && b.minY <= a.maxY;
+}
@@ -0,0 +1,20 @@
+/**
+ * Rules core exports
+ * Pure game rules with no p5 or DOM dependencies, usable from Node
+ */
+
+export { BoardModel, DEFAULT_MAX_LIVES } from './BoardModel.js';
+export { ShapeModel } from './ShapeModel.js';
+export { CircleModel } from './CircleModel.js';
+export { EllipseModel } from './EllipseModel.js';
+export { PolygonModel } from './PolygonModel.js';
+export { SegmentModel } from './SegmentModel.js';
+export { createShapeModel, getShapesBounds } from './shapeFactory.js';
+export { isMoving, circleAt, getMotionBounds, freezeShapes } from './motion.js';
+export type {
+    BoardStatus,
+    IStrokeResult,
+    IBoardModelOptions,
+    IBoardSnapshot,
+} from './BoardModel.js';
+export type { IPolyline } from './ShapeModel.js';
@@ -0,0 +1,106 @@
+import { IBounds, ICircle, IPoint, IShapeData } from '../types.js';
+
+/**
+ * Checks if level shape data moves over time. Only circles can move.
+ */
+export function isMoving(shape: IShapeData): shape is ICircle {
+    return (shape.kind === undefined || shape.kind === 'circle') && (shape.motion?.length ?? 0) > 0;
+}
+
+/**
+ * Where a circle is at a time, applying its motions in order
+ * @param circle - The level circle; its center and radius are the position at time 0
+ * @param time - Seconds since the board started moving
+ */
+export function circleAt(circle: ICircle, time: number): { center: IPoint; radius: number } {
+    let { x, y } = circle.center;
+    let radius = circle.radius;
+
+    for (const motion of circle.motion ?? []) {
+        switch (motion.type) {
+            case 'orbit': {
+                const angle = (2 * Math.PI * time) / motion.period;
+                const dx = x - motion.center.x;
+                const dy = y - motion.center.y;
+                x = motion.center.x + dx * Math.cos(angle) - dy * Math.sin(angle);
+                y = motion.center.y + dx * Math.sin(angle) + dy * Math.cos(angle);
+                break;
+            }
+            case 'drift':
+                x = bounce(x + motion.velocity.x * time, motion.bounds.minX, motion.bounds.maxX);
+                y = bounce(y + motion.velocity.y * time, motion.bounds.minY, motion.bounds.maxY);
+                break;
+            case 'pulse':
+                radius += motion.amplitude * Math.sin((2 * Math.PI * time) / motion.period);
+                break;
+        }
+    }
+
+    return { center: { x, y }, radius };
+}
+
+/**
+ * A box the circle stays inside however it moves
+ */
+export function getMotionBounds(circle: ICircle): IBounds {
+    let bounds: IBounds = {
+        minX: circle.center.x,
+        minY: circle.center.y,
+        maxX: circle.center.x,
+        maxY: circle.center.y,
+    };
+    let radius = circle.radius;
+
+    for (const motion of circle.motion ?? []) {
+        switch (motion.type) {
+            case 'orbit': {
+                // The farthest corner of the box sets the orbit reach
+                const reach = Math.max(
+                    ...[bounds.minX, bounds.maxX].flatMap((x) =>
+                        [bounds.minY, bounds.maxY].map((y) =>
+                            Math.hypot(x - motion.center.x, y - motion.center.y),
+                        ),
+                    ),
+                );
+                bounds = {
+                    minX: motion.center.x - reach,
+                    minY: motion.center.y - reach,
+                    maxX: motion.center.x + reach,
+                    maxY: motion.center.y + reach,
+                };
+                break;
+            }
+            case 'drift':
+                bounds = { ...motion.bounds };
+                break;
+            case 'pulse':
+                radius += Math.abs(motion.amplitude);
+                break;
+        }
+    }
+
+    return {
+        minX: bounds.minX - radius,
+        minY: bounds.minY - radius,
+        maxX: bounds.maxX + radius,
+        maxY: bounds.maxY + radius,
+    };
+}
+
+/**
+ * Folds a position into [min, max] as if it bounced off both ends
+ */
+function bounce(value: number, min: number, max: number): number {
+    const span = max - min;
+    if (span <= 0) return min;
+    const offset = (((value - min) % (2 * span)) + 2 * span) % (2 * span);
+    return min + (offset <= span ? offset : 2 * span - offset);
+}
+
+/**
+ * The level as it stands at a time, with every moving circle replaced by a still one.
+ * Used by the level analysis, which works on fixed geometry.
+ */
+export function freezeShapes(shapes: IShapeData[], time: number = 0): IShapeData[] {
+    return shapes.map((shape) => (isMoving(shape) ? circleAt(shape, time) : shape));
+}
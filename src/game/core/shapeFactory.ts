@@ -0,0 +1,41 @@
+import { IBounds, IShapeData } from '../types.js';
+import { ShapeModel } from './ShapeModel.js';
+import { CircleModel } from './CircleModel.js';
+import { EllipseModel } from './EllipseModel.js';
+import { PolygonModel } from './PolygonModel.js';
+import { SegmentModel } from './SegmentModel.js';
+import { getMotionBounds, isMoving } from './motion.js';
+
+/**
+ * Builds the rules-side model of a level shape
+ */
+export function createShapeModel(shapeData: IShapeData): ShapeModel {
+    switch (shapeData.kind) {
+        case 'ellipse':
+            return new EllipseModel(shapeData);
+        case 'polygon':
+            return new PolygonModel(shapeData);
+        case 'segment':
+            return new SegmentModel(shapeData);
+        default:
+            return new CircleModel(shapeData);
+    }
+}
+
+/**
+ * Bounding box around level shapes, e.g. to fit them on screen.
+ * Moving circles count with everywhere they can go.
+ */
+export function getShapesBounds(shapes: IShapeData[]): IBounds {
+    const bounds: IBounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+    for (const shape of shapes) {
+        const shapeBounds = isMoving(shape)
+            ? getMotionBounds(shape)
+            : createShapeModel(shape).getBounds();
+        bounds.minX = Math.min(bounds.minX, shapeBounds.minX);
+        bounds.minY = Math.min(bounds.minY, shapeBounds.minY);
+        bounds.maxX = Math.max(bounds.maxX, shapeBounds.maxX);
+        bounds.maxY = Math.max(bounds.maxY, shapeBounds.maxY);
+    }
+    return bounds;
+}
@@ -1,17 +1,39 @@
-import { Board } from "../Board";
-import { IGameStats } from "../StatsCollector";
-import { FirestoreService } from "../../data/FirestoreService.js";
+import { BoardModel } from '../core/BoardModel.js';
+import { estimateDifficulty } from '../analysis/DifficultyEstimator.js';
+import { IGameStats } from '../StatsCollector';
+import { FirestoreService } from '../../data/FirestoreService.js';
+import { IMatchDocument } from '../../data/matchDocument.js';
+import { isGameWon, isScoredChallenge } from './gameRecords.js';
+import { t } from '../../i18n/I18n.js';
 
 export interface IGameData {
     playerName: string;
     startTime: number;
     endTime: number | undefined;
+    pausedTime?: number; // Milliseconds spent paused between startTime and endTime
     hintsUsed: number;
     successfulIntersections: number;
-    gameDifficulty: number; // max intersections until another metric
+    gameDifficulty: number; // Estimated board difficulty, 0-1. Records without totalCuts hold the cut count instead
+    totalCuts?: number; // Cuts needed to clear the board
     boardName: string; // Before Id is created
+    challengeDate?: string; // Daily challenge date (YYYY-MM-DD) the game was played for
+    practice?: boolean; // Daily challenge practice run, left out of the daily leaderboard
+    matchId?: string; // Id of the game's recording in the matches collection
 }
 
+/**
+ * One finished endless run, stored apart from single games
+ */
+export interface IEndlessRunData {
+    playerName: string;
+    seed: string;
+    startTime: number;
+    endTime: number;
+    boardsCleared: number;
+    totalTime: number; // Milliseconds of play over every board
+    successfulIntersections: number;
+    livesLost: number; // Missed cuts and hints
+}
 
 export class GameDataManager {
     playerName: string;
@@ -20,6 +42,10 @@ export class GameDataManager {
     private firestoreService: FirestoreService;
     private onDataLoadedCallback?: () => void;
     private onUploadFailedCallback?: (message: string) => void;
+    // Challenge dates whose scored attempt was started this session, finished or not
+    private attemptedChallenges = new Set<string>();
+    // Endless runs finished this session
+    private endlessRuns: IEndlessRunData[] = [];
 
     constructor(playerName: string, firestoreService: FirestoreService) {
         this.playerName = playerName;
@@ -78,7 +104,10 @@ export class GameDataManager {
         this.onUploadFailedCallback = callback;
     }
 
-    addGameData(data: IGameStats, board: Board): void {
+    /**
+     * Records a finished game and uploads it, after its recording when there is one
+     */
+    addGameData(data: IGameStats, board: BoardModel, match?: IMatchDocument): void {
         // Queue the operation to ensure thread-safety
         this.dataLock = this.dataLock.then(async () => {
             const boardName = data.boardName || 'Unknown Board';
@@ -86,36 +115,81 @@ export class GameDataManager {
                 playerName: data.playerName,
                 startTime: data.startTime,
                 endTime: data.endTime,
+                ...(data.pausedTime > 0 && { pausedTime: data.pausedTime }),
                 hintsUsed: data.hintsUsed,
                 successfulIntersections: data.successfulIntersections,
-                gameDifficulty: board.totalCuts, // Placeholder, calculate as needed
+                gameDifficulty: estimateDifficulty(board.shapesData).score,
+                totalCuts: board.totalCuts,
                 boardName: boardName,
+                ...(data.challengeDate !== undefined && {
+                    challengeDate: data.challengeDate,
+                    practice: data.practice ?? false,
+                }),
             };
             if (!this.gameData.has(boardName)) {
                 this.gameData.set(boardName, []);
             }
             this.gameData.get(boardName)?.push(gameDataEntry);
+            if (match) {
+                await this.upload(async () => {
+                    gameDataEntry.matchId = await this.firestoreService.saveMatch(match);
+                }, 'Match recording');
+            }
             await this.saveData(gameDataEntry);
         });
     }
 
+    /**
+     * Records a finished endless run and uploads it
+     */
+    addEndlessRun(run: IEndlessRunData): void {
+        // Queue the operation to ensure thread-safety
+        this.dataLock = this.dataLock.then(async () => {
+            this.endlessRuns.push(run);
+            await this.upload(() => this.firestoreService.saveEndlessRun(run), 'Endless run');
+        });
+    }
+
+    /**
+     * The player's best endless run: the most boards cleared, then the fastest
+     */
+    getBestEndlessRun(): IEndlessRunData | null {
+        let best: IEndlessRunData | null = null;
+        for (const run of this.endlessRuns) {
+            if (
+                !best ||
+                run.boardsCleared > best.boardsCleared ||
+                (run.boardsCleared === best.boardsCleared && run.totalTime < best.totalTime)
+            ) {
+                best = run;
+            }
+        }
+        return best;
+    }
+
     private async saveData(data: IGameData): Promise<void> {
+        await this.upload(() => this.firestoreService.saveGameData(data), 'Game data');
+    }
+
+    /**
+     * Runs an upload unless offline, reporting failures through the upload failed callback
+     */
+    private async upload(save: () => Promise<void>, what: string): Promise<void> {
         try {
             // Check if online before attempting to save
             if (!this.firestoreService.isOnline()) {
                 console.warn('User is offline, skipping data upload');
                 if (this.onUploadFailedCallback) {
-                    this.onUploadFailedCallback('You are offline. Game data was not uploaded.');
+                    this.onUploadFailedCallback(t('notify.offline'));
                 }
                 return;
             }
 
-            await this.firestoreService.saveGameData(data);
-            console.log('Game data uploaded successfully');
+            await save();
         } catch (error) {
-            console.error('Failed to upload game data:', error);
+            console.error(`Failed to upload ${what.toLowerCase()}:`, error);
             if (this.onUploadFailedCallback) {
-                this.onUploadFailedCallback('Failed to upload game data. You may be offline.');
+                this.onUploadFailedCallback(t('notify.uploadFailed'));
             }
         }
     }
@@ -135,14 +209,34 @@ export class GameDataManager {
         return copy;
     }
 
+    /**
+     * Records that the scored attempt of a daily challenge has started
+     */
+    markChallengeAttempted(date: string): void {
+        this.attemptedChallenges.add(date);
+    }
+
+    /**
+     * Whether the player already used their scored attempt at a daily challenge,
+     * in this session or in a recorded game
+     * @param date - Challenge date, YYYY-MM-DD
+     */
+    hasPlayedChallenge(date: string): boolean {
+        if (this.attemptedChallenges.has(date)) return true;
+        for (const games of this.gameData.values()) {
+            if (games.some((game) => isScoredChallenge(game, date))) return true;
+        }
+        return false;
+    }
+
     getWonGamesForBoard(boardName: string): IGameData[] {
         const allData = this.getGameDataForBoard(boardName);
-        return allData.filter( (data) => data.successfulIntersections >= data.gameDifficulty );
+        return allData.filter((data) => isGameWon(data));
     }
 
     getLostGamesForBoard(boardName: string): IGameData[] {
         const allData = this.getGameDataForBoard(boardName);
-        return allData.filter( (data) => data.successfulIntersections < data.gameDifficulty );
+        return allData.filter((data) => !isGameWon(data));
     }
 
 
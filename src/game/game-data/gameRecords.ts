@@ -0,0 +1,23 @@
+import type { IGameData } from './GameData.js';
+
+// How stored game records are read, shared by the game and the stats script.
+// Kept apart from GameData.ts, whose Firestore client the script can't load.
+
+/**
+ * Whether a recorded game is a player's scored daily challenge attempt for a date
+ */
+export function isScoredChallenge(data: IGameData, date?: string): boolean {
+    return (
+        data.challengeDate !== undefined &&
+        !data.practice &&
+        (date === undefined || data.challengeDate === date)
+    );
+}
+
+/**
+ * Whether a recorded game cleared its board. Older records stored the cut count
+ * in gameDifficulty and have no totalCuts.
+ */
+export function isGameWon(data: IGameData): boolean {
+    return data.successfulIntersections >= (data.totalCuts ?? data.gameDifficulty);
+}
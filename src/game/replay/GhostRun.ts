@@ -0,0 +1,122 @@
+import type p5 from 'p5';
+import { IMatchDocument } from '../../data/matchDocument.js';
+import { BoardModel, IStrokeResult } from '../core/BoardModel.js';
+import { ShapeModel } from '../core/ShapeModel.js';
+import { IArc, ILine } from '../types.js';
+import { getArcMidParam, isParamOnArc } from '../../utils/mathUtils.js';
+import { createMatchBoard, IReplayTarget, MatchReplay } from './MatchReplay.js';
+import { ThemeManager } from '../../theme/ThemeManager.js';
+
+const TRAIL_DURATION = 250; // Milliseconds of blade path drawn behind the ghost
+
+/**
+ * GhostRun - A previous run replayed alongside live play. It cuts its own board,
+ * never the real one: the real board only shows which of its pieces the ghost has
+ * cut by now, and how far ahead or behind the player is.
+ */
+export class GhostRun implements IReplayTarget {
+    readonly match: IMatchDocument;
+    private p: p5;
+    private board: BoardModel;
+    private replay: MatchReplay;
+    // Board time in milliseconds at which the ghost had made each number of cuts
+    private splits: number[];
+    private trail: { line: ILine; time: number }[] = [];
+    // Board time of the ghost's board, in milliseconds
+    private time: number = 0;
+
+    constructor(p: p5, match: IMatchDocument) {
+        this.p = p;
+        this.match = match;
+        this.board = createMatchBoard(match);
+        this.replay = new MatchReplay(match, this);
+        this.splits = GhostRun.findSplits(match);
+    }
+
+    /**
+     * Times of every cut count of a run, from a replay of the whole run
+     */
+    private static findSplits(match: IMatchDocument): number[] {
+        const board = createMatchBoard(match);
+        const splits: number[] = [0];
+        let time = 0;
+        const replay = new MatchReplay(match, {
+            setTime: (seconds) => {
+                time = Math.round(seconds * 1000);
+                board.setTime(seconds);
+            },
+            processStroke: (line) => {
+                const result = board.processStroke(line);
+                const cuts = board.totalCuts - board.getRemainingCuts();
+                while (splits.length <= cuts) splits.push(time);
+                return result;
+            },
+            recordHintUsed: () => board.recordHintUsed(),
+        });
+        replay.advanceTo(match.duration);
+        return splits;
+    }
+
+    /**
+     * Replays the run up to a board time
+     * @param time - Board time in milliseconds
+     */
+    advanceTo(time: number): void {
+        this.replay.advanceTo(time);
+        this.trail = this.trail.filter((segment) => segment.time >= time - TRAIL_DURATION);
+    }
+
+    /**
+     * How far the player is behind the ghost on reaching a number of cuts
+     * @param cuts - Cuts made by the player
+     * @param time - Board time in milliseconds when the player made them
+     * @returns Milliseconds behind (negative when ahead), or null if the ghost never got that far
+     */
+    getSplitDelta(cuts: number, time: number): number | null {
+        return cuts < this.splits.length ? time - this.splits[cuts] : null;
+    }
+
+    /**
+     * The pieces of the real board the ghost has already cut. Both boards are built
+     * from the same shapes and kept at the same time, so a piece left on the real
+     * board is cut on the ghost's if its middle is on no piece of the same shape there.
+     * @param board - The real board, at the ghost's time
+     */
+    getCutPieces(board: BoardModel): IArc[] {
+        return board.intersections.filter((piece) => {
+            const shape = this.board.shapes[board.shapes.indexOf(piece.shape as ShapeModel)];
+            const param = getArcMidParam(piece);
+            return !this.board.intersections.some(
+                (ghostPiece) => ghostPiece.shape === shape && isParamOnArc(param, ghostPiece),
+            );
+        });
+    }
+
+    /**
+     * Draws the ghost's blade as a translucent trail, in world space
+     */
+    draw(): void {
+        this.p.push();
+        this.p.strokeCap(this.p.ROUND);
+        this.p.stroke(...ThemeManager.getInstance().getTheme().ghost, 110);
+        this.p.strokeWeight(4);
+        for (const { line } of this.trail) {
+            this.p.line(line.start.x, line.start.y, line.end.x, line.end.y);
+        }
+        this.p.pop();
+    }
+
+    setTime(time: number): void {
+        this.time = Math.round(time * 1000);
+        this.board.setTime(time);
+    }
+
+    processStroke(line: ILine): IStrokeResult {
+        this.trail.push({ line, time: this.time });
+        return this.board.processStroke(line);
+    }
+
+    recordHintUsed(): boolean {
+        return this.board.recordHintUsed();
+    }
+}
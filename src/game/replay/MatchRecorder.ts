@@ -0,0 +1,105 @@
+import {
+    decodeMatchEvents,
+    encodeMatchEvents,
+    IMatchDocument,
+    MatchEvent,
+    MatchResult,
+    MATCH_DOCUMENT_VERSION,
+} from '../../data/matchDocument.js';
+import { ILine, IPoint, IShapeData } from '../types.js';
+
+/**
+ * What a match document records about the game besides its inputs
+ */
+export interface IMatchInfo {
+    playerName: string;
+    boardName: string;
+    shapes: IShapeData[];
+    lives: number;
+    hintSeed: number;
+    viewport: { width: number; height: number };
+}
+
+/**
+ * MatchRecorder - Records the inputs of one game as they are applied. Inputs must
+ * already be quantized (see matchDocument.ts) so the recording replays exactly.
+ */
+export class MatchRecorder {
+    private info: IMatchInfo;
+    private readonly startTime: number;
+    private events: MatchEvent[];
+    // End of the last stroke segment, where a following segment continues from
+    private bladePosition: IPoint | null = null;
+    private lastCamera: { zoom: number; panX: number; panY: number } | null = null;
+
+    constructor(info: IMatchInfo, startTime: number = Date.now(), events: MatchEvent[] = []) {
+        this.info = info;
+        this.startTime = startTime;
+        this.events = events;
+    }
+
+    /**
+     * Continues recording a game from what was recorded of it so far, e.g. after
+     * it was saved and resumed
+     * @param match - The recording so far, as given by finish
+     */
+    static continueFrom(match: IMatchDocument): MatchRecorder {
+        const { playerName, boardName, shapes, lives, hintSeed, viewport } = match;
+        return new MatchRecorder(
+            { playerName, boardName, shapes, lives, hintSeed, viewport },
+            match.startTime,
+            decodeMatchEvents(match.events),
+        );
+    }
+
+    /**
+     * Records a stroke segment; segments that continue the previous one only store their end
+     * @param time - Board time in milliseconds
+     */
+    recordStroke(time: number, line: ILine): void {
+        const continues =
+            this.bladePosition !== null &&
+            this.bladePosition.x === line.start.x &&
+            this.bladePosition.y === line.start.y;
+        this.events.push(
+            continues
+                ? { type: 'move', time, end: { ...line.end } }
+                : { type: 'blade', time, start: { ...line.start }, end: { ...line.end } },
+        );
+        this.bladePosition = { ...line.end };
+    }
+
+    /**
+     * @param time - Board time in milliseconds
+     */
+    recordHint(time: number): void {
+        this.events.push({ type: 'hint', time });
+    }
+
+    /**
+     * Records the camera if it changed since the last call
+     * @param time - Board time in milliseconds
+     */
+    recordCamera(time: number, zoom: number, panX: number, panY: number): void {
+        const last = this.lastCamera;
+        if (last && last.zoom === zoom && last.panX === panX && last.panY === panY) return;
+        this.lastCamera = { zoom, panX, panY };
+        this.events.push({ type: 'camera', time, zoom, panX, panY });
+    }
+
+    /**
+     * The match document of the recorded game
+     * @param result - How the game ended
+     * @param duration - Board time in milliseconds when it ended
+     */
+    finish(result: MatchResult, duration: number): IMatchDocument {
+        return {
+            version: MATCH_DOCUMENT_VERSION,
+            ...this.info,
+            startTime: this.startTime,
+            duration,
+            result,
+            events: encodeMatchEvents(this.events),
+        };
+    }
+}
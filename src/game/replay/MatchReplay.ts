@@ -0,0 +1,94 @@
+import { decodeMatchEvents, IMatchDocument, MatchEvent } from '../../data/matchDocument.js';
+import { createRngFromSeed } from '../BoardData.js';
+import { BoardModel, IStrokeResult } from '../core/BoardModel.js';
+import { ILine, IPoint } from '../types.js';
+
+/**
+ * What a replay drives: a BoardModel, or a Board to watch it
+ */
+export interface IReplayTarget {
+    setTime(time: number): void;
+    processStroke(line: ILine): IStrokeResult;
+    recordHintUsed(): boolean;
+}
+
+/**
+ * MatchReplay - Plays the inputs of a match document into a fresh board, forward
+ * in time. Replays only go forward; to go back, start a new replay on a new board.
+ */
+export class MatchReplay {
+    readonly match: IMatchDocument;
+    readonly events: MatchEvent[];
+    // Board time reached, in milliseconds
+    time: number = 0;
+    // Camera at the current time, or null before the first camera event
+    camera: { zoom: number; panX: number; panY: number } | null = null;
+    private target: IReplayTarget;
+    private nextEvent: number = 0;
+    private bladePosition: IPoint | null = null;
+
+    constructor(match: IMatchDocument, target: IReplayTarget) {
+        this.match = match;
+        this.events = decodeMatchEvents(match.events);
+        this.target = target;
+    }
+
+    isFinished(): boolean {
+        return this.nextEvent >= this.events.length;
+    }
+
+    /**
+     * Applies every event up to a board time, each at the board time it was recorded at
+     * @param time - Board time in milliseconds
+     */
+    advanceTo(time: number): void {
+        while (this.nextEvent < this.events.length && this.events[this.nextEvent].time <= time) {
+            this.apply(this.events[this.nextEvent++]);
+        }
+        this.time = Math.max(this.time, time);
+        this.target.setTime(this.time / 1000);
+    }
+
+    private apply(event: MatchEvent): void {
+        this.target.setTime(event.time / 1000);
+        switch (event.type) {
+            case 'blade':
+                this.target.processStroke({ start: event.start, end: event.end });
+                this.bladePosition = event.end;
+                break;
+            case 'move':
+                this.target.processStroke({
+                    start: this.bladePosition ?? event.end,
+                    end: event.end,
+                });
+                this.bladePosition = event.end;
+                break;
+            case 'hint':
+                this.target.recordHintUsed();
+                break;
+            case 'camera':
+                this.camera = { zoom: event.zoom, panX: event.panX, panY: event.panY };
+                break;
+        }
+    }
+}
+
+/**
+ * Builds the board a match was played on, with the same lives and hint randomness
+ */
+export function createMatchBoard(match: IMatchDocument): BoardModel {
+    return new BoardModel(match.shapes, {
+        maxLives: match.lives,
+        rng: createRngFromSeed(match.hintSeed),
+    });
+}
+
+/**
+ * Replays a whole match on a fresh board
+ * @returns The board after the last input
+ */
+export function replayMatch(match: IMatchDocument): BoardModel {
+    const board = createMatchBoard(match);
+    new MatchReplay(match, board).advanceTo(match.duration);
+    return board;
+}
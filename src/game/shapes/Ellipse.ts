@@ -0,0 +1,21 @@
+import type p5 from 'p5';
+import { EllipseModel } from '../core/EllipseModel.js';
+import { IArc, IEllipse } from '../types.js';
+import { drawArcs } from './drawArcs.js';
+import { ArcStyle, drawStyledArcs } from './arcStroke.js';
+
+/**
+ * Ellipse - p5 rendering adapter around EllipseModel
+ */
+export class Ellipse extends EllipseModel {
+    private p: p5;
+
+    constructor(p: p5, ellipseData: IEllipse) {
+        super(ellipseData);
+        this.p = p;
+    }
+
+    public draw(arcs: IArc[] = this.arc, zoomLevel: number = 1, style: ArcStyle = 'plain'): void {
+        drawStyledArcs(this.p, style, zoomLevel, () => drawArcs(this.p, arcs));
+    }
+}
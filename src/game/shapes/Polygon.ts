@@ -0,0 +1,21 @@
+import type p5 from 'p5';
+import { PolygonModel } from '../core/PolygonModel.js';
+import { IArc, IPolygon } from '../types.js';
+import { drawArcs } from './drawArcs.js';
+import { ArcStyle, drawStyledArcs } from './arcStroke.js';
+
+/**
+ * Polygon - p5 rendering adapter around PolygonModel
+ */
+export class Polygon extends PolygonModel {
+    private p: p5;
+
+    constructor(p: p5, polygonData: IPolygon) {
+        super(polygonData);
+        this.p = p;
+    }
+
+    public draw(arcs: IArc[] = this.arc, zoomLevel: number = 1, style: ArcStyle = 'plain'): void {
+        drawStyledArcs(this.p, style, zoomLevel, () => drawArcs(this.p, arcs));
+    }
+}
@@ -0,0 +1,21 @@
+import type p5 from 'p5';
+import { SegmentModel } from '../core/SegmentModel.js';
+import { IArc, ISegment } from '../types.js';
+import { drawArcs } from './drawArcs.js';
+import { ArcStyle, drawStyledArcs } from './arcStroke.js';
+
+/**
+ * Segment - p5 rendering adapter around SegmentModel
+ */
+export class Segment extends SegmentModel {
+    private p: p5;
+
+    constructor(p: p5, segmentData: ISegment) {
+        super(segmentData);
+        this.p = p;
+    }
+
+    public draw(arcs: IArc[] = this.arc, zoomLevel: number = 1, style: ArcStyle = 'plain'): void {
+        drawStyledArcs(this.p, style, zoomLevel, () => drawArcs(this.p, arcs));
+    }
+}
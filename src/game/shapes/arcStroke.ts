@@ -0,0 +1,49 @@
+import type p5 from 'p5';
+import { AccessibilitySettings, HINT_DASHES } from '../../accessibility/AccessibilitySettings.js';
+import { ThemeManager } from '../../theme/ThemeManager.js';
+
+/**
+ * How a shape's arcs are drawn: as they are, hinted, or translucent for pieces the ghost has cut
+ */
+export type ArcStyle = 'plain' | 'hinted' | 'faded';
+
+/**
+ * Sets the stroke for arcs in a style, from the theme and the accessibility options.
+ * The width is kept the same on screen at any zoom; hinted arcs get the dash pattern
+ * picked so they stand out without relying on color.
+ * @param zoomLevel - The camera zoom the arcs are drawn at
+ */
+export function setArcStroke(p: p5, style: ArcStyle, zoomLevel: number): void {
+    const theme = ThemeManager.getInstance().getTheme();
+    const { arcWidth, hintStyle } = AccessibilitySettings.getInstance().getOptions();
+    const weight = arcWidth / zoomLevel;
+
+    if (style === 'hinted') {
+        p.stroke(...theme.hint);
+        (p.drawingContext as CanvasRenderingContext2D).setLineDash(
+            HINT_DASHES[hintStyle].map((length) => length * weight),
+        );
+    } else if (style === 'faded') {
+        p.stroke(...theme.arc, 60);
+    } else {
+        p.stroke(...theme.arc);
+    }
+    p.strokeWeight(weight);
+    p.noFill();
+}
+
+/**
+ * Draws a shape's arcs in a style, restoring the previous stroke settings afterwards
+ * @param drawGeometry - Draws the arcs' outlines with the current stroke
+ */
+export function drawStyledArcs(
+    p: p5,
+    style: ArcStyle,
+    zoomLevel: number,
+    drawGeometry: () => void,
+): void {
+    p.push();
+    setArcStroke(p, style, zoomLevel);
+    drawGeometry();
+    p.pop();
+}
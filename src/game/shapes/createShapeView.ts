@@ -0,0 +1,27 @@
+import type p5 from 'p5';
+import { Circle } from './Circle.js';
+import { Ellipse } from './Ellipse.js';
+import { Polygon } from './Polygon.js';
+import { Segment } from './Segment.js';
+import { IShapeData } from '../types.js';
+
+/**
+ * A shape with p5 drawing attached
+ */
+export type ShapeView = Circle | Ellipse | Polygon | Segment;
+
+/**
+ * Builds the drawable shape for level shape data
+ */
+export function createShapeView(p: p5, shapeData: IShapeData): ShapeView {
+    switch (shapeData.kind) {
+        case 'ellipse':
+            return new Ellipse(p, shapeData);
+        case 'polygon':
+            return new Polygon(p, shapeData);
+        case 'segment':
+            return new Segment(p, shapeData);
+        default:
+            return new Circle(p, shapeData);
+    }
+}
@@ -0,0 +1,16 @@
+import type p5 from 'p5';
+import { ShapeModel } from '../core/ShapeModel.js';
+import { IArc } from '../types.js';
+
+/**
+ * Draws arcs of any shape as polylines, with the current stroke settings
+ */
+export function drawArcs(p: p5, arcs: IArc[]): void {
+    for (const arc of arcs) {
+        p.beginShape();
+        for (const point of (arc.shape as ShapeModel).getArcPoints(arc)) {
+            p.vertex(point.x, point.y);
+        }
+        p.endShape();
+    }
+}
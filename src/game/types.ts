@@ -3,11 +3,76 @@ export interface IPoint {
     y: number;
 }
 
+export type ShapeKind = 'circle' | 'ellipse' | 'polygon' | 'segment';
+
 export interface ICircle {
+    kind?: 'circle'; // Circles may leave the kind out
     radius: number;
     center: IPoint;
+    // How the circle moves over time, applied in order (e.g. a drift, then an orbit)
+    motion?: ICircleMotion[];
+}
+
+/**
+ * The circle center turns around a point, keeping its distance to it
+ */
+export interface IOrbitMotion {
+    type: 'orbit';
+    center: IPoint;
+    period: number; // Seconds per turn; negative turns the other way
+}
+
+/**
+ * The circle center moves at a constant velocity, bouncing off the edges of a box
+ */
+export interface IDriftMotion {
+    type: 'drift';
+    velocity: IPoint; // World units per second
+    bounds: IBounds; // Box the center stays in
+}
+
+/**
+ * The radius swings around its level value
+ */
+export interface IPulseMotion {
+    type: 'pulse';
+    amplitude: number; // World units, smaller than the radius
+    period: number; // Seconds per swing
 }
 
+export type ICircleMotion = IOrbitMotion | IDriftMotion | IPulseMotion;
+
+export interface IEllipse {
+    kind: 'ellipse';
+    center: IPoint;
+    radiusX: number;
+    radiusY: number;
+    rotation?: number; // Radians, counter-clockwise from the x axis (default: 0)
+}
+
+/**
+ * A convex polygon, vertices in order around it (either direction)
+ */
+export interface IPolygon {
+    kind: 'polygon';
+    vertices: IPoint[];
+}
+
+/**
+ * A line segment: an open shape with no inside, so its pieces are the stretches
+ * inside other shapes
+ */
+export interface ISegment {
+    kind: 'segment';
+    start: IPoint;
+    end: IPoint;
+}
+
+/**
+ * A shape of a level as stored in level data
+ */
+export type IShapeData = ICircle | IEllipse | IPolygon | ISegment;
+
 export interface IBoard {
     circles: ICircle[];
 }
@@ -22,8 +87,76 @@ export interface ILine {
     end: IPoint;
 }
 
+/**
+ * A stretch of a shape's boundary, going counter-clockwise (increasing parameter)
+ * from startAngle to endAngle. Boundaries are parametrized over [0, 2π]; for circles
+ * the parameter is the polar angle.
+ */
 export interface IArc {
-    circle: ICircle;
+    shape: IShape;
     startAngle: number;
     endAngle: number;
 }
+
+export interface IBounds {
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+}
+
+/**
+ * A point where a stroke touches an arc.
+ */
+export interface IStrokeHit {
+    /** Position along the stroke, from 0 (start) to 1 (end) */
+    t: number;
+    /** Contact point on the arc's shape, in world space */
+    point: IPoint;
+    /** Boundary parameter of the contact point */
+    param: number;
+    arc: IArc;
+    /** True when the stroke grazes the shape, passing within the tolerance of a tangent */
+    tangent: boolean;
+}
+
+export interface IStrokeCollisionOptions {
+    /** World-space distance within which the stroke counts as touching an arc (default: SEGMENT_TOLERANCE) */
+    tolerance?: number;
+    /** Whether grazes that touch the shape without crossing it are reported (default: true) */
+    includeTangents?: boolean;
+}
+
+/**
+ * Geometry of a board shape: boundary parametrization, containment and the per-arc
+ * queries the rules run on its boundary. Implemented by ShapeModel and its subclasses.
+ */
+export interface IShape {
+    readonly kind: ShapeKind;
+    // The level data this shape was built from
+    readonly data: IShapeData;
+    // Closed shapes wrap around at 2π; open ones (segments) run from 0 to 2π
+    readonly closed: boolean;
+    pointAt(param: number): IPoint;
+    // Unit normal at a boundary point, pointing out of closed shapes
+    normalAt(param: number): IPoint;
+    // Boundary parameter of a point on (or nearest to) the boundary
+    paramOf(point: IPoint): number;
+    contains(point: IPoint): boolean;
+    getBounds(): IBounds;
+    // Radius of a comparable circle: the mean half-size of the bounding box
+    getMeanRadius(): number;
+    getArcBounds(arc: IArc, padding: number): IBounds;
+    getArcLength(arc: IArc): number;
+    distanceToArc(point: IPoint, arc: IArc): number;
+    collideStroke(line: ILine, arc: IArc, options: IStrokeCollisionOptions): IStrokeHit[];
+}
+
+/**
+ * Describes how a shape's remaining arcs changed after a piece was removed.
+ * Arcs that were not touched by the removal are not listed.
+ */
+export interface IArcChange {
+    removed: IArc[];
+    added: IArc[];
+}
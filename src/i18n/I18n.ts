@@ -0,0 +1,251 @@
+import { ILevelText, ILocaleCatalog, Locale, MessageKey } from './catalog.js';
+import { en } from './en.js';
+import { pt } from './pt.js';
+import { DAILY_CHALLENGE_NAME } from '../game/DailyChallenge.js';
+import { ENDLESS_RUN_NAME } from '../game/EndlessRun.js';
+import { IMPORTED_LEVEL_PREFIX } from '../game/BoardData.js';
+
+const STORAGE_KEY = 'locale';
+
+export const LOCALES: Record<Locale, ILocaleCatalog> = { en, pt };
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+/**
+ * Values for the {name} placeholders of a message. A `count` also picks the
+ * plural form of the message.
+ */
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * I18n - The language of the UI, persisted in localStorage, or else the first of the
+ * browser's languages that has a catalog. Messages missing from a catalog fall back
+ * to English. Static markup is translated through data attributes:
+ *
+ *     <h2 data-i18n="pause.title"></h2>                  sets the text
+ *     <button data-i18n-title="page.zoomIn">+</button>   sets the title attribute
+ *
+ * as are aria-label and placeholder.
+ */
+export class I18n {
+    private static instance: I18n;
+    private locale: Locale;
+    private pluralRules: Intl.PluralRules;
+    private listeners: ((locale: Locale) => void)[] = [];
+
+    private constructor() {
+        this.locale = this.load() ?? detectLocale();
+        this.pluralRules = new Intl.PluralRules(this.locale);
+        document.documentElement.lang = this.locale;
+    }
+
+    /**
+     * Gets the singleton instance
+     */
+    static getInstance(): I18n {
+        if (!I18n.instance) {
+            I18n.instance = new I18n();
+        }
+        return I18n.instance;
+    }
+
+    getLocale(): Locale {
+        return this.locale;
+    }
+
+    /**
+     * Switches the language, saves it, translates the page and notifies the listeners
+     */
+    setLocale(locale: Locale): void {
+        if (locale === this.locale) return;
+        this.locale = locale;
+        this.pluralRules = new Intl.PluralRules(locale);
+        document.documentElement.lang = locale;
+        this.save();
+        this.translate();
+        this.listeners.forEach((listener) => listener(locale));
+    }
+
+    /**
+     * Subscribes to language changes
+     * @returns A function that unsubscribes the listener
+     */
+    onChange(listener: (locale: Locale) => void): () => void {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter((l) => l !== listener);
+        };
+    }
+
+    /**
+     * A message in the current language
+     * @param key - The message key
+     * @param params - Values for its placeholders; numbers are formatted for the language
+     */
+    t(key: MessageKey, params: MessageParams = {}): string {
+        const message = LOCALES[this.locale].messages[key] ?? en.messages[key];
+        if (message === undefined) {
+            console.warn(`Missing message "${key}"`);
+            return key;
+        }
+
+        let text: string;
+        if (typeof message === 'string') {
+            text = message;
+        } else {
+            const count = Number(params.count);
+            text = message[this.pluralRules.select(count)] ?? message.other;
+        }
+
+        return text.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+            const value = params[name];
+            if (value === undefined) return placeholder;
+            return typeof value === 'number' ? this.formatNumber(value) : value;
+        });
+    }
+
+    formatNumber(value: number, options?: Intl.NumberFormatOptions): string {
+        return value.toLocaleString(this.locale, options);
+    }
+
+    /**
+     * Formats a duration as a clock: m:ss, or h:mm:ss from an hour
+     * @param milliseconds - The duration
+     * @param options.milliseconds - Whether to add the milliseconds after the seconds,
+     *   with the language's decimal separator
+     */
+    formatDuration(
+        milliseconds: number,
+        { milliseconds: withMilliseconds = false }: { milliseconds?: boolean } = {},
+    ): string {
+        const total = Math.max(0, Math.floor(milliseconds));
+        const seconds = Math.floor(total / 1000);
+        const hours = Math.floor(seconds / 3600);
+        const minutes = Math.floor(seconds / 60) % 60;
+        const twoDigits = (value: number) =>
+            this.formatNumber(value, { minimumIntegerDigits: 2, useGrouping: false });
+
+        let clock =
+            hours > 0
+                ? `${this.formatNumber(hours)}:${twoDigits(minutes)}:${twoDigits(seconds % 60)}`
+                : `${this.formatNumber(minutes)}:${twoDigits(seconds % 60)}`;
+        if (withMilliseconds) {
+            const decimalSeparator = this.formatNumber(1.5).charAt(1);
+            clock +=
+                decimalSeparator +
+                this.formatNumber(total % 1000, { minimumIntegerDigits: 3, useGrouping: false });
+        }
+        return clock;
+    }
+
+    /**
+     * Formats a duration in words, e.g. "1 minute 5 seconds", for screen readers
+     */
+    formatSpokenDuration(milliseconds: number): string {
+        const seconds = Math.floor(milliseconds / 1000);
+        const minutes = Math.floor(seconds / 60);
+        const rest = this.t('duration.seconds', { count: seconds % 60 });
+        return minutes > 0 ? `${this.t('duration.minutes', { count: minutes })} ${rest}` : rest;
+    }
+
+    formatDateTime(timestamp: number): string {
+        return new Date(timestamp).toLocaleString(this.locale);
+    }
+
+    /**
+     * The name of a board in the current language
+     * @param boardName - The board name, as in the level document and the game records
+     */
+    levelName(boardName: string): string {
+        return this.levelText({ name: boardName }).name;
+    }
+
+    /**
+     * The name and description of a level in the current language. The level
+     * document's own text is used when the catalog has none.
+     */
+    levelText(level: { name: string; description?: string; boardName?: string }): ILevelText {
+        const boardName = level.boardName ?? level.name;
+        const text = LOCALES[this.locale].levels[boardName];
+        if (text) {
+            return { name: text.name, description: text.description ?? level.description };
+        }
+
+        if (boardName.startsWith(IMPORTED_LEVEL_PREFIX)) {
+            const name = boardName.slice(IMPORTED_LEVEL_PREFIX.length);
+            return { name: this.t('levels.imported', { name }), description: level.description };
+        }
+
+        // Daily challenges and endless boards are named after their date and number
+        const [, prefix, suffix] = boardName.match(/^(.*) (\S+)$/) ?? [];
+        if (prefix === DAILY_CHALLENGE_NAME) {
+            return {
+                name: this.t('levels.daily', { date: suffix }),
+                description: level.description,
+            };
+        }
+        if (prefix === ENDLESS_RUN_NAME && /^\d+$/.test(suffix)) {
+            return {
+                name: this.t('levels.endless', { board: parseInt(suffix, 10) }),
+                description: level.description,
+            };
+        }
+        return { name: level.name, description: level.description };
+    }
+
+    /**
+     * Translates the elements marked with data-i18n attributes
+     * @param root - The element to translate within (default: the whole page)
+     */
+    translate(root: ParentNode = document): void {
+        root.querySelectorAll<HTMLElement>('[data-i18n]').forEach((element) => {
+            element.textContent = this.t(element.dataset.i18n as MessageKey);
+        });
+        for (const attribute of ['title', 'aria-label', 'placeholder']) {
+            root.querySelectorAll<HTMLElement>(`[data-i18n-${attribute}]`).forEach((element) => {
+                const key = element.getAttribute(`data-i18n-${attribute}`) as MessageKey;
+                element.setAttribute(attribute, this.t(key));
+            });
+        }
+    }
+
+    private load(): Locale | null {
+        try {
+            const stored = localStorage.getItem(STORAGE_KEY);
+            return stored && Object.keys(LOCALES).includes(stored) ? (stored as Locale) : null;
+        } catch (error) {
+            console.warn('Ignoring stored locale:', error);
+            return null;
+        }
+    }
+
+    private save(): void {
+        try {
+            localStorage.setItem(STORAGE_KEY, this.locale);
+        } catch (error) {
+            console.warn('Could not store locale:', error);
+        }
+    }
+}
+
+/**
+ * The first of the browser's preferred languages that has a catalog,
+ * e.g. pt for pt-BR
+ */
+function detectLocale(): Locale {
+    const preferred = navigator.languages?.length ? navigator.languages : [navigator.language];
+    for (const language of preferred) {
+        const base = (language || '').toLowerCase().split('-')[0];
+        if (Object.keys(LOCALES).includes(base)) {
+            return base as Locale;
+        }
+    }
+    return DEFAULT_LOCALE;
+}
+
+/**
+ * Shorthand for I18n.getInstance().t
+ */
+export function t(key: MessageKey, params?: MessageParams): string {
+    return I18n.getInstance().t(key, params);
+}
@@ -0,0 +1,42 @@
+import type { EN_MESSAGES } from './en.js';
+
+export type Locale = 'en' | 'pt';
+
+export type MessageKey = keyof typeof EN_MESSAGES;
+
+/**
+ * A message that depends on a count, one form per plural category of the
+ * locale (see Intl.PluralRules). `other` is used for any category left out.
+ */
+export interface IPluralMessage {
+    zero?: string;
+    one?: string;
+    two?: string;
+    few?: string;
+    many?: string;
+    other: string;
+}
+
+/**
+ * A message, with {name} placeholders for its parameters
+ */
+export type Message = string | IPluralMessage;
+
+/**
+ * The translated name and description of a level
+ */
+export interface ILevelText {
+    name: string;
+    description?: string;
+}
+
+/**
+ * Everything shown to the player in one language
+ */
+export interface ILocaleCatalog {
+    name: string; // The language's name, in that language, for the picker
+    messages: Record<MessageKey, Message>;
+    // Level texts by the board name of the level document, which stays in English
+    // since game records are filed under it
+    levels: Record<string, ILevelText>;
+}
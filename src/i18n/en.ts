@@ -0,0 +1,260 @@
+import { ILocaleCatalog } from './catalog.js';
+
+/**
+ * The English messages. Their keys are the keys of every catalog.
+ */
+export const EN_MESSAGES = {
+    // Shared
+    'common.close': 'Close',
+    'common.loading': 'Loading...',
+    'common.resetDefaults': 'Reset to defaults',
+    'common.resume': '▶ Resume',
+    'common.tagline': 'Cut the overlapping circles!',
+    'count.boards': { one: '{count} board', other: '{count} boards' },
+    'count.cuts': { one: '{count} cut', other: '{count} cuts' },
+    'count.games': { one: '{count} game', other: '{count} games' },
+    'count.hints': { one: '{count} hint', other: '{count} hints' },
+    'count.lives': { one: '{count} life', other: '{count} lives' },
+    'count.runs': { one: '{count} run', other: '{count} runs' },
+    'count.wins': { one: '{count} win', other: '{count} wins' },
+    'duration.minutes': { one: '{count} minute', other: '{count} minutes' },
+    'duration.seconds': { one: '{count} second', other: '{count} seconds' },
+
+    // Page controls
+    'page.rotate': 'Please rotate your device to landscape mode',
+    'page.levels': '📋 Levels',
+    'page.zoomIn': 'Zoom in',
+    'page.zoomOut': 'Zoom out',
+    'page.zoomReset': 'Reset view',
+    'page.fullscreen': 'Fullscreen',
+    'page.enterFullscreen': 'Enter Fullscreen',
+    'page.exitFullscreen': 'Exit Fullscreen',
+    'page.keyboardHelp': 'Keyboard controls',
+    'page.accessibility': 'Accessibility settings',
+    'page.leftPan': 'Left-click panning',
+    'page.panAmount': 'Drag amount:',
+    'page.theme': 'Theme',
+    'page.language': 'Language',
+    'page.fullscreenUnsupported': 'Fullscreen mode is not supported on this device.',
+    'page.fullscreenIos':
+        'Fullscreen mode is not supported on iOS devices.\n\nFor a fullscreen experience, add this page to your home screen:\n1. Tap the Share button\n2. Select "Add to Home Screen"',
+
+    // Themes
+    'theme.dark': 'Dark',
+    'theme.light': 'Light',
+    'theme.highContrast': 'High contrast',
+    'theme.neon': 'Neon',
+
+    // Notifications
+    'notify.offline': 'You are offline. Game data was not uploaded.',
+    'notify.uploadFailed': 'Failed to upload game data. You may be offline.',
+    'notify.dailyPlayed': "You already played today's challenge. Starting a practice run.",
+    'notify.noRecording': 'No recording of this game to watch.',
+    'notify.gamepadConnected':
+        'Gamepad connected: steer with the left stick and cut with a trigger.',
+    'notify.keyboardCuttingOn':
+        'Keyboard cutting on: steer the cursor and drop the blade with its keys.',
+    'notify.keyboardCuttingOff': 'Keyboard cutting off.',
+    'notify.levelImported': 'Imported level "{name}"',
+
+    // Login and loading
+    'login.usernamePlaceholder': 'Enter your username',
+    'login.passwordPlaceholder': 'Enter your password',
+    'login.login': 'Login',
+    'login.noAccount': "Don't have an account?",
+    'login.register': 'Register',
+    'login.haveAccount': 'Already have an account?',
+    'login.or': 'OR',
+    'login.guest': 'Continue as Guest',
+    'login.chooseUsername': 'Choose a username',
+    'login.choosePassword': 'Choose a password (min 6 characters)',
+    'login.confirmPassword': 'Confirm password',
+    'login.info': 'Your progress will be tracked for statistics',
+    'login.failed': 'Login failed',
+    'login.registerFailed': 'Registration failed',
+    'login.invalidUsername':
+        'Username must be 3-20 characters and contain only letters, numbers, dots, underscores, or hyphens',
+    'login.passwordMismatch': 'Passwords do not match',
+    'login.passwordTooShort': 'Password must be at least 6 characters',
+    'login.credentialsRequired': 'Username and password are required',
+    'login.usernameLength': 'Username must be between {min} and {max} characters',
+    'login.invalidUsernameFormat': 'Invalid username format',
+    'login.accountDisabled': 'This account has been disabled',
+    'login.usernameNotFound': 'Username not found',
+    'login.wrongPassword': 'Incorrect password',
+    'login.invalidCredentials': 'Invalid username or password',
+    'login.usernameTaken': 'Username already taken',
+    'login.networkError': 'Network error. Please check your connection',
+    'login.tooManyAttempts': 'Too many attempts. Please try again later',
+    'login.authFailed': 'Authentication failed',
+    'loading.gameData': 'Loading your game data...',
+
+    // Player card
+    'player.expand': 'Click to expand',
+    'player.statsTitle': 'Player Statistics',
+    'player.statsPlaceholder': 'More stats coming soon!',
+    'player.logout': 'Logout',
+
+    // Landing page
+    'landing.play': 'PLAY',
+    'landing.dailyTitle': '📅 Daily Challenge',
+    'landing.dailyPlay': "Play Today's Board",
+    'landing.dailyPlayed': 'Played Today ✓',
+    'landing.dailyPractice': 'Practice',
+    'landing.dailyDate': '{date} (UTC) • one scored attempt per day, practice as often as you like',
+    'landing.endlessTitle': '♾️ Endless Run',
+    'landing.endlessDescription':
+        'Boards keep coming, bigger every time. Lives carry over - how far can you get?',
+    'landing.endlessStart': 'Start a Run',
+    'landing.endlessResult': '{boards} in {time} • {runs}',
+    'landing.topPlayers': '🏆 Top Players',
+    'landing.playerResult': '{wins} • {games}',
+    'landing.gameStats': '🎮 Game Statistics',
+    'landing.plays': 'Plays',
+    'landing.wins': 'Wins',
+    'landing.winRate': 'Win Rate',
+    'landing.averageTime': 'Avg Time',
+    'landing.bestScores': '🏅 Top Players',
+    'landing.noScores': 'No scores yet',
+    'landing.noData': 'No data available yet',
+    'landing.loadFailed': 'Failed to load statistics',
+
+    // Levels panel
+    'levels.title': 'Select a Level',
+    'levels.editor': '✏️ Editor',
+    'levels.editorTitle': 'Design a new level',
+    'levels.import': '📂 Import',
+    'levels.importTitle': 'Load a level from a .json file',
+    'levels.home': '🏠 Home',
+    'levels.difficulty':
+        'Difficulty {score} - {pieces} pieces, shortest {shortest}, tightest clearance {clearance}',
+    'levels.shapes': 'Shapes: {count}',
+    'levels.par': { one: 'Par: {count} stroke', other: 'Par: {count} strokes' },
+    'levels.edit': '✏️ Edit',
+    'levels.editTitle': 'Open in the level editor',
+    'levels.export': '⬇ Export',
+    'levels.exportTitle': 'Download as a .json level file',
+    'levels.unsolvable': '⚠️ Costs a life to clear',
+    'levels.unsolvableTitle': 'Some pieces cannot be cut without touching an outline',
+    'levels.daily': 'Daily Challenge {date}',
+    'levels.endless': 'Endless Run {board}',
+    'levels.imported': 'Imported: {name}',
+
+    // Level editor
+    'editor.title': 'Level Editor',
+    'editor.id': 'Id',
+    'editor.name': 'Name',
+    'editor.author': 'Author',
+    'editor.help':
+        'Click to add · drag to move · drag outline to resize · Delete to remove · right-drag to pan',
+    'editor.playtest': '▶ Playtest',
+    'editor.export': '⬇ Export',
+    'editor.exit': '× Exit',
+    'editor.back': '✏️ Back to editor',
+    'editor.circles': 'Circles: {count}',
+    'editor.pieces': 'Pieces: {count}',
+    'editor.difficulty': 'Difficulty: {stars}',
+    'editor.difficultyScore': 'Difficulty {score}',
+    'editor.shape.circle': 'circle {number}',
+    'editor.shape.ellipse': 'ellipse {number}',
+    'editor.shape.polygon': 'polygon {number}',
+    'editor.shape.segment': 'segment {number}',
+    'editor.warning.nearTangent': '{first} and {second} almost touch (gap {gap})',
+    'editor.warning.contained': '{first} is inside {second} without crossing it',
+    'editor.warning.dropped': '{first} is fully covered by others and is dropped from the board',
+    'editor.warning.isolated': '{first} crosses no other shape and has nothing to cut',
+
+    // Playing
+    'progress.split': 'Split against your best run',
+    'progress.hint': '💡 Hint',
+    'progress.pause': 'Pause',
+    'progress.lives': { one: '{lives} of {count} life', other: '{lives} of {count} lives' },
+    'pause.title': 'Paused',
+    'pause.restart': '↻ Restart',
+    'pause.quit': '✕ Quit',
+    'resume.title': 'Game in progress',
+    'resume.discard': '✕ Discard',
+    'resume.details': '{name} — {time} played, saved {date}',
+    'resume.customBoard': 'Custom board',
+
+    // Result panel
+    'result.victory': '✓ Victory!',
+    'result.gameOver': '✗ Game Over',
+    'result.time': 'Time: {time}',
+    'result.intersections': 'Intersections: {count}',
+    'result.hintsUsed': 'Hints Used: {count}',
+    'result.level': 'Level: {name}',
+    'result.progress': 'Progress: {progress}%',
+    'result.noLives': 'Game over — no lives left',
+    'result.popped': 'You popped a circle!',
+    'result.endlessOver': 'Endless run over',
+    'result.boardsCleared': 'Boards cleared: {count}',
+    'result.totalTime': 'Total time: {time}',
+    'result.restart': 'Restart',
+    'result.nextLevel': 'Next Level',
+    'result.pickLevel': 'Pick Level',
+    'result.replay': 'Watch Replay',
+
+    // Screen reader announcements
+    'announce.level': 'Level {name}',
+    'announce.endless': 'Endless run',
+    'announce.loaded': '{level}. {cuts} to make, {lives}.',
+    'announce.go': 'Go!',
+    'announce.progress': '{percent}% done, {cuts} left.',
+    'announce.penalty': 'Wrong cut. {lives} left.',
+    'announce.hint': 'Hint shown. {lives} left.',
+    'announce.boardCleared': 'Board cleared.',
+    'announce.victory': 'Victory! Cleared in {time}.',
+    'announce.noLives': 'Game over. No lives left.',
+    'announce.popped': 'Game over. You popped a circle.',
+
+    // Keyboard controls
+    'keys.title': '⌨️ Keyboard controls',
+    'keys.note': 'Click a key to change it. Esc pauses and resumes the game.',
+    'keys.gamepad':
+        '🎮 Gamepad: left stick steers the blade and a trigger cuts, right stick pans, shoulder buttons zoom. A uses a hint, Y restarts and Start pauses.',
+    'keys.waiting': 'Press a key…',
+    'keys.space': 'Space',
+    'keys.group.game': 'Game',
+    'keys.group.camera': 'Camera',
+    'keys.group.keyboardCutting': 'Keyboard cutting',
+    'keys.action.hint': 'Use a hint',
+    'keys.action.pause': 'Pause / resume',
+    'keys.action.restart': 'Restart level',
+    'keys.action.nextLevel': 'Next level',
+    'keys.action.levels': 'Levels panel',
+    'keys.action.help': 'Keyboard help',
+    'keys.action.zoomIn': 'Zoom in',
+    'keys.action.zoomOut': 'Zoom out',
+    'keys.action.zoomReset': 'Reset view',
+    'keys.action.panUp': 'Pan up',
+    'keys.action.panDown': 'Pan down',
+    'keys.action.panLeft': 'Pan left',
+    'keys.action.panRight': 'Pan right',
+    'keys.action.keyboardCutting': 'Turn keyboard cutting on / off',
+    'keys.action.blade': 'Blade down / up',
+    'keys.action.cursorUp': 'Cursor up',
+    'keys.action.cursorDown': 'Cursor down',
+    'keys.action.cursorLeft': 'Cursor left',
+    'keys.action.cursorRight': 'Cursor right',
+
+    // Accessibility panel
+    'accessibility.title': 'Accessibility',
+    'accessibility.colors': 'Colors',
+    'accessibility.hintedArcs': 'Hinted arcs',
+    'accessibility.arcWidth': 'Arc width',
+    'accessibility.reducedMotion': 'Reduce motion',
+    'accessibility.palette.standard': 'Theme colors',
+    'accessibility.palette.redGreen': 'Red-green safe',
+    'accessibility.palette.blueYellow': 'Blue-yellow safe',
+    'accessibility.hintStyle.solid': 'Solid',
+    'accessibility.hintStyle.dashed': 'Dashed',
+    'accessibility.hintStyle.dotted': 'Dotted',
+};
+
+export const en: ILocaleCatalog = {
+    name: 'English',
+    messages: EN_MESSAGES,
+    // The level documents are written in English
+    levels: {},
+};
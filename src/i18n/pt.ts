@@ -0,0 +1,315 @@
+import { ILevelText, ILocaleCatalog } from './catalog.js';
+
+const easy = 'Nível gerado aleatoriamente - dificuldade fácil';
+const medium = 'Nível gerado aleatoriamente - dificuldade média';
+const hard = 'Nível gerado aleatoriamente - dificuldade difícil';
+const expert = 'Nível gerado aleatoriamente - dificuldade especialista';
+
+/**
+ * The generated levels, numbered within their difficulty
+ */
+function generatedLevels(
+    english: string,
+    portuguese: string,
+    count: number,
+    description: string,
+): Record<string, ILevelText> {
+    const levels: Record<string, ILevelText> = {};
+    for (let i = 1; i <= count; i++) {
+        levels[`Level ${english} - ${i}`] = { name: `Nível ${portuguese} - ${i}`, description };
+    }
+    return levels;
+}
+
+export const pt: ILocaleCatalog = {
+    name: 'Português',
+    messages: {
+        // Shared
+        'common.close': 'Fechar',
+        'common.loading': 'Carregando...',
+        'common.resetDefaults': 'Restaurar padrões',
+        'common.resume': '▶ Continuar',
+        'common.tagline': 'Corte os círculos sobrepostos!',
+        'count.boards': { one: '{count} tabuleiro', other: '{count} tabuleiros' },
+        'count.cuts': { one: '{count} corte', other: '{count} cortes' },
+        'count.games': { one: '{count} partida', other: '{count} partidas' },
+        'count.hints': { one: '{count} dica', other: '{count} dicas' },
+        'count.lives': { one: '{count} vida', other: '{count} vidas' },
+        'count.runs': { one: '{count} corrida', other: '{count} corridas' },
+        'count.wins': { one: '{count} vitória', other: '{count} vitórias' },
+        'duration.minutes': { one: '{count} minuto', other: '{count} minutos' },
+        'duration.seconds': { one: '{count} segundo', other: '{count} segundos' },
+
+        // Page controls
+        'page.rotate': 'Gire o aparelho para o modo paisagem',
+        'page.levels': '📋 Níveis',
+        'page.zoomIn': 'Aproximar',
+        'page.zoomOut': 'Afastar',
+        'page.zoomReset': 'Restaurar visão',
+        'page.fullscreen': 'Tela cheia',
+        'page.enterFullscreen': 'Entrar em tela cheia',
+        'page.exitFullscreen': 'Sair da tela cheia',
+        'page.keyboardHelp': 'Controles do teclado',
+        'page.accessibility': 'Configurações de acessibilidade',
+        'page.leftPan': 'Modo do Tiaguinho',
+        'page.panAmount': 'Quantidade de arrasto:',
+        'page.theme': 'Tema',
+        'page.language': 'Idioma',
+        'page.fullscreenUnsupported': 'O modo tela cheia não é suportado neste aparelho.',
+        'page.fullscreenIos':
+            'O modo tela cheia não é suportado em aparelhos iOS.\n\nPara jogar em tela cheia, adicione esta página à tela de início:\n1. Toque no botão Compartilhar\n2. Escolha "Adicionar à Tela de Início"',
+
+        // Themes
+        'theme.dark': 'Escuro',
+        'theme.light': 'Claro',
+        'theme.highContrast': 'Alto contraste',
+        'theme.neon': 'Neon',
+
+        // Notifications
+        'notify.offline': 'Você está offline. Os dados do jogo não foram enviados.',
+        'notify.uploadFailed': 'Falha ao enviar os dados do jogo. Talvez você esteja offline.',
+        'notify.dailyPlayed': 'Você já jogou o desafio de hoje. Começando um treino.',
+        'notify.noRecording': 'Não há gravação desta partida para assistir.',
+        'notify.gamepadConnected':
+            'Controle conectado: guie com o analógico esquerdo e corte com um gatilho.',
+        'notify.keyboardCuttingOn':
+            'Corte pelo teclado ligado: mova o cursor e baixe a lâmina com as teclas.',
+        'notify.keyboardCuttingOff': 'Corte pelo teclado desligado.',
+        'notify.levelImported': 'Nível "{name}" importado',
+
+        // Login and loading
+        'login.usernamePlaceholder': 'Digite seu nome de usuário',
+        'login.passwordPlaceholder': 'Digite sua senha',
+        'login.login': 'Entrar',
+        'login.noAccount': 'Não tem uma conta?',
+        'login.register': 'Cadastrar',
+        'login.haveAccount': 'Já tem uma conta?',
+        'login.or': 'OU',
+        'login.guest': 'Continuar como convidado',
+        'login.chooseUsername': 'Escolha um nome de usuário',
+        'login.choosePassword': 'Escolha uma senha (mín. 6 caracteres)',
+        'login.confirmPassword': 'Confirme a senha',
+        'login.info': 'Seu progresso será registrado nas estatísticas',
+        'login.failed': 'Falha ao entrar',
+        'login.registerFailed': 'Falha no cadastro',
+        'login.invalidUsername':
+            'O nome de usuário deve ter de 3 a 20 caracteres e conter apenas letras, números, pontos, sublinhados ou hífens',
+        'login.passwordMismatch': 'As senhas não coincidem',
+        'login.passwordTooShort': 'A senha deve ter pelo menos 6 caracteres',
+        'login.credentialsRequired': 'Nome de usuário e senha são obrigatórios',
+        'login.usernameLength': 'O nome de usuário deve ter entre {min} e {max} caracteres',
+        'login.invalidUsernameFormat': 'Formato de nome de usuário inválido',
+        'login.accountDisabled': 'Esta conta foi desativada',
+        'login.usernameNotFound': 'Nome de usuário não encontrado',
+        'login.wrongPassword': 'Senha incorreta',
+        'login.invalidCredentials': 'Nome de usuário ou senha inválidos',
+        'login.usernameTaken': 'Este nome de usuário já está em uso',
+        'login.networkError': 'Erro de rede. Verifique sua conexão',
+        'login.tooManyAttempts': 'Muitas tentativas. Tente novamente mais tarde',
+        'login.authFailed': 'Falha na autenticação',
+        'loading.gameData': 'Carregando os dados do jogo...',
+
+        // Player card
+        'player.expand': 'Clique para expandir',
+        'player.statsTitle': 'Estatísticas do jogador',
+        'player.statsPlaceholder': 'Mais estatísticas em breve!',
+        'player.logout': 'Sair',
+
+        // Landing page
+        'landing.play': 'JOGAR',
+        'landing.dailyTitle': '📅 Desafio Diário',
+        'landing.dailyPlay': 'Jogar o tabuleiro de hoje',
+        'landing.dailyPlayed': 'Jogado hoje ✓',
+        'landing.dailyPractice': 'Treinar',
+        'landing.dailyDate':
+            '{date} (UTC) • uma tentativa valendo por dia, treine quantas vezes quiser',
+        'landing.endlessTitle': '♾️ Corrida Infinita',
+        'landing.endlessDescription':
+            'Os tabuleiros não param de chegar, cada vez maiores. As vidas continuam - até onde você consegue ir?',
+        'landing.endlessStart': 'Começar uma corrida',
+        'landing.endlessResult': '{boards} em {time} • {runs}',
+        'landing.topPlayers': '🏆 Melhores Jogadores',
+        'landing.playerResult': '{wins} • {games}',
+        'landing.gameStats': '🎮 Estatísticas dos Jogos',
+        'landing.plays': 'Partidas',
+        'landing.wins': 'Vitórias',
+        'landing.winRate': 'Aproveitamento',
+        'landing.averageTime': 'Tempo médio',
+        'landing.bestScores': '🏅 Melhores Jogadores',
+        'landing.noScores': 'Nenhuma pontuação ainda',
+        'landing.noData': 'Nenhum dado disponível ainda',
+        'landing.loadFailed': 'Falha ao carregar as estatísticas',
+
+        // Levels panel
+        'levels.title': 'Escolha um Nível',
+        'levels.editor': '✏️ Editor',
+        'levels.editorTitle': 'Criar um nível novo',
+        'levels.import': '📂 Importar',
+        'levels.importTitle': 'Carregar um nível de um arquivo .json',
+        'levels.home': '🏠 Início',
+        'levels.difficulty':
+            'Dificuldade {score} - {pieces} peças, menor {shortest}, folga mínima {clearance}',
+        'levels.shapes': 'Formas: {count}',
+        'levels.par': { one: 'Par: {count} traço', other: 'Par: {count} traços' },
+        'levels.edit': '✏️ Editar',
+        'levels.editTitle': 'Abrir no editor de níveis',
+        'levels.export': '⬇ Exportar',
+        'levels.exportTitle': 'Baixar como arquivo de nível .json',
+        'levels.unsolvable': '⚠️ Custa uma vida para completar',
+        'levels.unsolvableTitle': 'Algumas peças não podem ser cortadas sem tocar um contorno',
+        'levels.daily': 'Desafio Diário {date}',
+        'levels.endless': 'Corrida Infinita {board}',
+        'levels.imported': 'Importado: {name}',
+
+        // Level editor
+        'editor.title': 'Editor de Níveis',
+        'editor.id': 'Id',
+        'editor.name': 'Nome',
+        'editor.author': 'Autor',
+        'editor.help':
+            'Clique para adicionar · arraste para mover · arraste o contorno para redimensionar · Delete para remover · arraste com o botão direito para mover a visão',
+        'editor.playtest': '▶ Testar',
+        'editor.export': '⬇ Exportar',
+        'editor.exit': '× Sair',
+        'editor.back': '✏️ Voltar ao editor',
+        'editor.circles': 'Círculos: {count}',
+        'editor.pieces': 'Peças: {count}',
+        'editor.difficulty': 'Dificuldade: {stars}',
+        'editor.difficultyScore': 'Dificuldade {score}',
+        'editor.shape.circle': 'círculo {number}',
+        'editor.shape.ellipse': 'elipse {number}',
+        'editor.shape.polygon': 'polígono {number}',
+        'editor.shape.segment': 'segmento {number}',
+        'editor.warning.nearTangent': '{first} e {second} quase se tocam (distância {gap})',
+        'editor.warning.contained': '{first} está dentro de {second} sem cruzar seu contorno',
+        'editor.warning.dropped':
+            'O contorno de {first} é todo coberto por outras formas e sai do tabuleiro',
+        'editor.warning.isolated':
+            '{first} não cruza nenhuma outra forma e não tem nada para cortar',
+
+        // Playing
+        'progress.split': 'Diferença para sua melhor corrida',
+        'progress.hint': '💡 Dica',
+        'progress.pause': 'Pausar',
+        'progress.lives': { one: '{lives} de {count} vida', other: '{lives} de {count} vidas' },
+        'pause.title': 'Pausado',
+        'pause.restart': '↻ Reiniciar',
+        'pause.quit': '✕ Sair',
+        'resume.title': 'Partida em andamento',
+        'resume.discard': '✕ Descartar',
+        'resume.details': '{name} — {time} jogados, salvo em {date}',
+        'resume.customBoard': 'Tabuleiro personalizado',
+
+        // Result panel
+        'result.victory': '✓ Vitória!',
+        'result.gameOver': '✗ Fim de Jogo',
+        'result.time': 'Tempo: {time}',
+        'result.intersections': 'Interseções: {count}',
+        'result.hintsUsed': 'Dicas usadas: {count}',
+        'result.level': 'Nível: {name}',
+        'result.progress': 'Progresso: {progress}%',
+        'result.noLives': 'Fim de jogo — sem vidas',
+        'result.popped': 'Você estourou um círculo!',
+        'result.endlessOver': 'Fim da corrida infinita',
+        'result.boardsCleared': 'Tabuleiros completos: {count}',
+        'result.totalTime': 'Tempo total: {time}',
+        'result.restart': 'Reiniciar',
+        'result.nextLevel': 'Próximo Nível',
+        'result.pickLevel': 'Escolher Nível',
+        'result.replay': 'Ver Replay',
+
+        // Screen reader announcements
+        'announce.level': 'Nível {name}',
+        'announce.endless': 'Corrida infinita',
+        'announce.loaded': '{level}. {cuts} a fazer, {lives}.',
+        'announce.go': 'Já!',
+        'announce.progress': '{percent}% feito, faltam {cuts}.',
+        'announce.penalty': 'Corte errado. Restam {lives}.',
+        'announce.hint': 'Dica mostrada. Restam {lives}.',
+        'announce.boardCleared': 'Tabuleiro completo.',
+        'announce.victory': 'Vitória! Completado em {time}.',
+        'announce.noLives': 'Fim de jogo. Sem vidas.',
+        'announce.popped': 'Fim de jogo. Você estourou um círculo.',
+
+        // Keyboard controls
+        'keys.title': '⌨️ Controles do teclado',
+        'keys.note': 'Clique numa tecla para trocá-la. Esc pausa e continua o jogo.',
+        'keys.gamepad':
+            '🎮 Controle: o analógico esquerdo guia a lâmina e um gatilho corta, o analógico direito move a visão, os botões de ombro dão zoom. A usa uma dica, Y reinicia e Start pausa.',
+        'keys.waiting': 'Pressione uma tecla…',
+        'keys.space': 'Espaço',
+        'keys.group.game': 'Jogo',
+        'keys.group.camera': 'Câmera',
+        'keys.group.keyboardCutting': 'Corte pelo teclado',
+        'keys.action.hint': 'Usar uma dica',
+        'keys.action.pause': 'Pausar / continuar',
+        'keys.action.restart': 'Reiniciar nível',
+        'keys.action.nextLevel': 'Próximo nível',
+        'keys.action.levels': 'Painel de níveis',
+        'keys.action.help': 'Ajuda do teclado',
+        'keys.action.zoomIn': 'Aproximar',
+        'keys.action.zoomOut': 'Afastar',
+        'keys.action.zoomReset': 'Restaurar visão',
+        'keys.action.panUp': 'Mover para cima',
+        'keys.action.panDown': 'Mover para baixo',
+        'keys.action.panLeft': 'Mover para a esquerda',
+        'keys.action.panRight': 'Mover para a direita',
+        'keys.action.keyboardCutting': 'Ligar / desligar o corte pelo teclado',
+        'keys.action.blade': 'Baixar / levantar a lâmina',
+        'keys.action.cursorUp': 'Cursor para cima',
+        'keys.action.cursorDown': 'Cursor para baixo',
+        'keys.action.cursorLeft': 'Cursor para a esquerda',
+        'keys.action.cursorRight': 'Cursor para a direita',
+
+        // Accessibility panel
+        'accessibility.title': 'Acessibilidade',
+        'accessibility.colors': 'Cores',
+        'accessibility.hintedArcs': 'Arcos com dica',
+        'accessibility.arcWidth': 'Espessura dos arcos',
+        'accessibility.reducedMotion': 'Reduzir movimento',
+        'accessibility.palette.standard': 'Cores do tema',
+        'accessibility.palette.redGreen': 'Seguro para vermelho-verde',
+        'accessibility.palette.blueYellow': 'Seguro para azul-amarelo',
+        'accessibility.hintStyle.solid': 'Contínuo',
+        'accessibility.hintStyle.dashed': 'Tracejado',
+        'accessibility.hintStyle.dotted': 'Pontilhado',
+    },
+    levels: {
+        'Classic Venn': {
+            name: 'Venn Clássico',
+            description: 'Dois círculos sobrepostos - perfeito para iniciantes',
+        },
+        'Three Overlap': {
+            name: 'Três Sobrepostos',
+            description: 'Três círculos com uma interseção central',
+        },
+        'Planetary System': {
+            name: 'Sistema Planetário',
+            description: 'Um círculo grande com círculos menores em órbita',
+        },
+        Caterpillar: { name: 'Lagarta', description: 'Corrente de círculos sobrepostos' },
+        'Bubble Cluster': { name: 'Cacho de Bolhas', description: 'Vários círculos agrupados' },
+        'Shape Sampler': {
+            name: 'Mostruário de Formas',
+            description: 'Um círculo, uma elipse, um quadrado e uma linha cortando todos eles',
+        },
+        'Orbiting Moons': {
+            name: 'Luas em Órbita',
+            description:
+                'Luas giram em volta de um planeta em velocidades diferentes - espere que o cruzem',
+        },
+        'Drifting Bubbles': {
+            name: 'Bolhas à Deriva',
+            description: 'Bolhas flutuam numa caixa, quicando nas paredes',
+        },
+        Heartbeat: {
+            name: 'Batimento',
+            description: 'Círculos pulsantes que só se sobrepõem quando incham',
+        },
+        ...generatedLevels('Easy', 'Fácil', 9, easy),
+        ...generatedLevels('Medium', 'Médio', 5, medium),
+        ...generatedLevels('Medium-Hard', 'Médio-Difícil', 3, hard),
+        ...generatedLevels('Hard', 'Difícil', 3, hard),
+        ...generatedLevels('Extreme', 'Extremo', 1, expert),
+    },
+};
@@ -0,0 +1,28 @@
+/**
+ * Where a blade is on screen and whether it is down, as one input device gives it
+ */
+export interface IBlade {
+    x: number; // Screen coordinates
+    y: number;
+    down: boolean;
+}
+
+/**
+ * IBladeSource - An input device that steers the blade: mouse or touch, the keyboard
+ * cursor or a gamepad. InputHandler cuts with whichever one is active, so the game
+ * never has to know which device is in use.
+ */
+export interface IBladeSource {
+    // Whether the device steers a cursor of its own, drawn by InputHandler
+    readonly hasCursor: boolean;
+
+    /**
+     * The blade this frame, or null if the device doesn't show one
+     */
+    poll(): IBlade | null;
+
+    /**
+     * Lifts the blade, e.g. when play stops
+     */
+    release(): void;
+}
@@ -0,0 +1,149 @@
+import type p5 from 'p5';
+import { CameraController } from '../camera/CameraController.js';
+import { IBlade, IBladeSource } from './BladeSource.js';
+
+/**
+ * What the face and menu buttons of a gamepad do
+ */
+export type GamepadAction = 'hint' | 'restart' | 'pause';
+
+// Buttons and axes of the Gamepad API standard mapping
+const Button = {
+    A: 0,
+    Y: 3,
+    LeftShoulder: 4,
+    RightShoulder: 5,
+    LeftTrigger: 6,
+    RightTrigger: 7,
+    Start: 9,
+} as const;
+const Axis = {
+    LeftX: 0,
+    LeftY: 1,
+    RightX: 2,
+    RightY: 3,
+} as const;
+
+const BUTTON_ACTIONS: [number, GamepadAction][] = [
+    [Button.A, 'hint'],
+    [Button.Y, 'restart'],
+    [Button.Start, 'pause'],
+];
+
+// Stick deflection below this is treated as the stick at rest
+const DEAD_ZONE = 0.2;
+// How far a trigger is pulled before the blade goes down
+const TRIGGER_THRESHOLD = 0.5;
+// Screen pixels per second at full stick deflection
+const CURSOR_SPEED = 600;
+const PAN_SPEED = 600;
+// Zoom factor per second while a shoulder button is held
+const ZOOM_RATE = 2;
+
+/**
+ * GamepadInput - A gamepad through the Gamepad API, polled every frame. The left
+ * stick steers a blade cursor and a trigger puts the blade down; the right stick
+ * pans the camera and the shoulder buttons zoom around the cursor. A, Y and Start
+ * use a hint, restart and pause.
+ */
+export class GamepadInput implements IBladeSource {
+    readonly hasCursor = true;
+    private p: p5;
+    private camera: CameraController;
+    private x: number = 0;
+    private y: number = 0;
+    private down: boolean = false;
+    // Buttons held at the last poll, so an action fires once per press
+    private heldButtons = new Set<number>();
+    // Whether the gamepad was touched at the last poll
+    private used: boolean = false;
+    private onActionCallback?: (action: GamepadAction) => void;
+
+    constructor(p: p5, camera: CameraController) {
+        this.p = p;
+        this.camera = camera;
+        this.x = p.width / 2;
+        this.y = p.height / 2;
+    }
+
+    /**
+     * Set callback to be called when a button with an action is pressed
+     */
+    setOnActionCallback(callback: (action: GamepadAction) => void): void {
+        this.onActionCallback = callback;
+    }
+
+    /**
+     * Reads the gamepad: moves the cursor and the camera and fires button actions
+     * @param deltaTime - Milliseconds since the last frame
+     */
+    update(deltaTime: number): void {
+        const gamepad = this.getGamepad();
+        this.used = false;
+        if (!gamepad) {
+            this.down = false;
+            return;
+        }
+
+        const seconds = deltaTime / 1000;
+        const axis = (index: number) => {
+            const value = gamepad.axes[index] ?? 0;
+            return Math.abs(value) < DEAD_ZONE ? 0 : value;
+        };
+        const pressed = (index: number) => gamepad.buttons[index]?.pressed ?? false;
+        const pulled = (index: number) => (gamepad.buttons[index]?.value ?? 0) >= TRIGGER_THRESHOLD;
+
+        const cursorX = axis(Axis.LeftX);
+        const cursorY = axis(Axis.LeftY);
+        this.x = Math.max(0, Math.min(this.p.width, this.x + cursorX * CURSOR_SPEED * seconds));
+        this.y = Math.max(0, Math.min(this.p.height, this.y + cursorY * CURSOR_SPEED * seconds));
+        this.down = pulled(Button.LeftTrigger) || pulled(Button.RightTrigger);
+
+        // The view moves the way the stick points, so the board moves the other way
+        const panX = axis(Axis.RightX);
+        const panY = axis(Axis.RightY);
+        this.camera.panBy(-panX * PAN_SPEED * seconds, -panY * PAN_SPEED * seconds);
+
+        const zoom =
+            (pressed(Button.RightShoulder) ? 1 : 0) - (pressed(Button.LeftShoulder) ? 1 : 0);
+        if (zoom !== 0) {
+            this.camera.zoomTowardsPoint(this.x, this.y, Math.pow(ZOOM_RATE, zoom * seconds));
+        }
+
+        const buttons = new Set<number>();
+        gamepad.buttons.forEach((button, index) => {
+            if (button.pressed) buttons.add(index);
+        });
+        for (const [button, action] of BUTTON_ACTIONS) {
+            if (buttons.has(button) && !this.heldButtons.has(button) && this.onActionCallback) {
+                this.onActionCallback(action);
+            }
+        }
+        this.heldButtons = buttons;
+
+        this.used = cursorX !== 0 || cursorY !== 0 || panX !== 0 || panY !== 0 || buttons.size > 0;
+    }
+
+    /**
+     * Whether the gamepad was touched at the last update, e.g. to make it the active input
+     */
+    wasUsed(): boolean {
+        return this.used;
+    }
+
+    poll(): IBlade | null {
+        return this.getGamepad() ? { x: this.x, y: this.y, down: this.down } : null;
+    }
+
+    release(): void {
+        this.down = false;
+    }
+
+    /**
+     * The first connected gamepad, or null if there is none or the browser has no Gamepad API
+     */
+    private getGamepad(): Gamepad | null {
+        if (!navigator.getGamepads) return null;
+        return Array.from(navigator.getGamepads()).find((gamepad) => gamepad?.connected) ?? null;
+    }
+}
@@ -1,49 +1,117 @@
 import type p5 from 'p5';
 import { GameState } from '../game/GameState.js';
 import { CameraController } from '../camera/CameraController.js';
+import { IBlade, IBladeSource } from './BladeSource.js';
+import { GamepadInput } from './GamepadInput.js';
+import { KeyboardCursor } from './KeyboardCursor.js';
+import { PointerBlade } from './PointerBlade.js';
+import { ThemeManager } from '../theme/ThemeManager.js';
+import { AccessibilitySettings } from '../accessibility/AccessibilitySettings.js';
 
 /**
- * InputHandler - Handles mouse and touch input for drawing and game interaction
+ * InputHandler - Handles cutting input for drawing and game interaction. The blade is
+ * steered by one device at a time: the mouse or touch, the keyboard cursor or a gamepad,
+ * whichever was used last. It only cuts from a press made while the game is playing,
+ * and is lifted when play stops.
+ *
+ * In keyboard cutting mode a cursor steered with the keys stands in for the mouse,
+ * and its blade is put down and lifted with a key instead of a button.
  */
 export class InputHandler {
     private p: p5;
     private gameState: GameState;
     private camera: CameraController;
+    readonly gamepad: GamepadInput;
+    private pointer: PointerBlade;
+    private keyboardCursor: KeyboardCursor;
+    private keyboardCutting: boolean = false;
+    // The device steering the blade
+    private active: IBladeSource;
+    private blade: IBlade | null = null;
+    private previousBlade: IBlade | null = null;
     private lastWorldPos: { x: number; y: number } | null = null;
+    // Whether the blade was down last frame, to tell when it is pressed
+    private wasDown: boolean = false;
+    // Whether the blade is down, from a press during play until its release
+    private isHunting: boolean = false;
 
     constructor(p: p5, gameState: GameState, camera: CameraController) {
         this.p = p;
         this.gameState = gameState;
         this.camera = camera;
+        this.pointer = new PointerBlade(p);
+        this.keyboardCursor = new KeyboardCursor(p);
+        this.gamepad = new GamepadInput(p, camera);
+        this.active = this.pointer;
+
+        gameState.phase.onTransition(({ from }) => {
+            if (from === 'playing') {
+                this.active.release();
+                this.isHunting = false;
+                this.lastWorldPos = null;
+            }
+        });
     }
 
     /**
-     * Draws the cutting line on screen
+     * Reads the gamepad, and makes it the active device once it is used
+     * Should be called in the draw loop before handleCutting
+     * @param deltaTime - Milliseconds since the last frame
+     */
+    update(deltaTime: number): void {
+        this.gamepad.update(deltaTime);
+        if (this.gamepad.wasUsed()) {
+            this.switchTo(this.gamepad);
+        }
+    }
+
+    /**
+     * Draws the cutting line on screen, and the cursor of a device that steers one
      */
     drawCuttingLine(): void {
-        // Don't draw during countdown
-        if (this.gameState.isCountingDown) return;
-
-        if (this.p.mouseIsPressed && this.p.mouseButton === this.p.LEFT && this.gameState.isHunting) {
-            this.p.push();
-            this.p.stroke(255, 204, 0);
-            this.p.strokeWeight(4);
-            this.p.line(this.p.pmouseX, this.p.pmouseY, this.p.mouseX, this.p.mouseY);
-            this.p.pop();
+        const blade = this.blade;
+        if (!blade) return;
+
+        const previous = this.previousBlade || blade;
+        const theme = ThemeManager.getInstance().getTheme();
+        this.p.push();
+        if (this.isHunting) {
+            this.p.stroke(...theme.blade);
+            this.p.strokeWeight(AccessibilitySettings.getInstance().getOptions().arcWidth * 2);
+            this.p.line(previous.x, previous.y, blade.x, blade.y);
         }
+        if (this.active.hasCursor) {
+            this.p.noFill();
+            this.p.stroke(...theme.arc);
+            this.p.strokeWeight(2);
+            this.p.circle(blade.x, blade.y, this.isHunting ? 10 : 18);
+            this.p.line(blade.x - 14, blade.y, blade.x - 8, blade.y);
+            this.p.line(blade.x + 8, blade.y, blade.x + 14, blade.y);
+            this.p.line(blade.x, blade.y - 14, blade.x, blade.y - 8);
+            this.p.line(blade.x, blade.y + 8, blade.x, blade.y + 14);
+        }
+        this.p.pop();
     }
 
     /**
-     * Handles mouse dragging for cutting
+     * Follows the active device's blade and cuts along its path while the game is playing
      * Should be called in the draw loop BEFORE camera panning
      */
     handleCutting(): void {
-        // Don't allow cutting during countdown
-        if (this.gameState.isCountingDown) return;
+        this.previousBlade = this.blade;
+        this.blade = this.active.poll();
+
+        const down = this.blade?.down ?? false;
+        if (down && !this.wasDown && this.gameState.phase.is('playing')) {
+            this.isHunting = true;
+        } else if (!down) {
+            this.isHunting = false;
+        }
+        this.wasDown = down;
 
-        if (this.p.mouseIsPressed && this.p.mouseButton === this.p.LEFT && this.gameState.isHunting) {
+        if (this.blade && this.isHunting) {
             // Get current world position
-            const worldCurr = this.camera.screenToWorld(this.p.mouseX, this.p.mouseY);
+            const worldCurr = this.camera.screenToWorld(this.blade.x, this.blade.y);
 
             // Use cached previous world position if available, otherwise use current
             const worldPrev = this.lastWorldPos || worldCurr;
@@ -53,8 +121,7 @@ export class InputHandler {
                 end: { x: worldCurr.x, y: worldCurr.y },
             };
 
-            this.gameState.handleIntersection(line);
-            this.gameState.checkLoss(line);
+            this.gameState.handleStroke(line);
 
             // Store current world position for next frame
             this.lastWorldPos = { x: worldCurr.x, y: worldCurr.y };
@@ -65,23 +132,76 @@ export class InputHandler {
     }
 
     /**
-     * Handles mouse press event
+     * Handles mouse press event: the mouse takes over the blade, unless in keyboard cutting mode
      */
     onMousePressed(): void {
-        // Don't allow hunting during countdown
-        if (this.gameState.isCountingDown) return;
-
-        if (!this.gameState.isHunting) {
-            this.gameState.isHunting = true;
-        }
+        if (this.keyboardCutting) return;
+        this.switchTo(this.pointer);
+        this.pointer.press();
     }
 
     /**
      * Handles mouse release event
      */
     onMouseReleased(): void {
-        this.gameState.isHunting = false;
-        this.lastWorldPos = null; // Clear cached position
+        this.pointer.release();
         this.camera.stopPanning();
     }
+
+    /**
+     * Turns keyboard cutting mode on, with the cursor in the middle of the screen, or off
+     */
+    setKeyboardCutting(enabled: boolean): void {
+        this.keyboardCutting = enabled;
+        if (enabled) {
+            this.keyboardCursor.center();
+            this.switchTo(this.keyboardCursor);
+        } else {
+            this.switchTo(this.pointer);
+        }
+    }
+
+    isKeyboardCutting(): boolean {
+        return this.keyboardCutting;
+    }
+
+    /**
+     * Puts the keyboard cursor's blade down if the game is playing, or lifts it
+     */
+    toggleKeyboardBlade(): void {
+        if (!this.keyboardCutting) return;
+        this.switchTo(this.keyboardCursor);
+        if (this.gameState.phase.is('playing')) {
+            this.keyboardCursor.toggleBlade();
+        } else {
+            this.keyboardCursor.release();
+        }
+    }
+
+    /**
+     * Moves the keyboard cursor, keeping it on screen
+     * @param dx - Horizontal move in screen pixels
+     * @param dy - Vertical move in screen pixels
+     */
+    moveKeyboardCursor(dx: number, dy: number): void {
+        if (!this.keyboardCutting) return;
+        if (dx !== 0 || dy !== 0) {
+            this.switchTo(this.keyboardCursor);
+        }
+        this.keyboardCursor.move(dx, dy);
+    }
+
+    /**
+     * Hands the blade to another device, lifting it from the one in use
+     */
+    private switchTo(source: IBladeSource): void {
+        if (this.active === source) return;
+        this.active.release();
+        this.active = source;
+        this.blade = null;
+        this.previousBlade = null;
+        this.lastWorldPos = null;
+        this.wasDown = false;
+        this.isHunting = false;
+    }
 }
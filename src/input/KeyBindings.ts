@@ -0,0 +1,169 @@
+import { t } from '../i18n/I18n.js';
+import { MessageKey } from '../i18n/catalog.js';
+
+const STORAGE_KEY = 'key-bindings';
+
+/**
+ * Everything the keyboard can do. Camera panning and the keyboard cutting cursor
+ * act for as long as their key is held; the rest act once per key press.
+ */
+export type KeyAction =
+    | 'zoomIn'
+    | 'zoomOut'
+    | 'zoomReset'
+    | 'panUp'
+    | 'panDown'
+    | 'panLeft'
+    | 'panRight'
+    | 'hint'
+    | 'restart'
+    | 'nextLevel'
+    | 'levels'
+    | 'pause'
+    | 'help'
+    | 'keyboardCutting'
+    | 'blade'
+    | 'cursorUp'
+    | 'cursorDown'
+    | 'cursorLeft'
+    | 'cursorRight';
+
+export const DEFAULT_KEY_BINDINGS: Record<KeyAction, string> = {
+    zoomIn: '=',
+    zoomOut: '-',
+    zoomReset: '0',
+    panUp: 'ArrowUp',
+    panDown: 'ArrowDown',
+    panLeft: 'ArrowLeft',
+    panRight: 'ArrowRight',
+    hint: 'h',
+    restart: 'r',
+    nextLevel: 'n',
+    levels: 'l',
+    pause: 'p',
+    help: '?',
+    keyboardCutting: 'k',
+    blade: ' ',
+    cursorUp: 'w',
+    cursorDown: 's',
+    cursorLeft: 'a',
+    cursorRight: 'd',
+};
+
+/**
+ * The actions in the order the help lists them, grouped, with the message keys of
+ * the group titles. Each action is described by its keys.action.* message.
+ */
+export const KEY_ACTION_GROUPS: { title: MessageKey; actions: KeyAction[] }[] = [
+    {
+        title: 'keys.group.game',
+        actions: ['hint', 'pause', 'restart', 'nextLevel', 'levels', 'help'],
+    },
+    {
+        title: 'keys.group.camera',
+        actions: ['zoomIn', 'zoomOut', 'zoomReset', 'panUp', 'panDown', 'panLeft', 'panRight'],
+    },
+    {
+        title: 'keys.group.keyboardCutting',
+        actions: [
+            'keyboardCutting',
+            'blade',
+            'cursorUp',
+            'cursorDown',
+            'cursorLeft',
+            'cursorRight',
+        ],
+    },
+];
+
+/**
+ * The key of a keyboard event as bindings store it: letters are lower case, so a
+ * binding works with and without Shift or Caps Lock
+ */
+export function normalizeKey(key: string): string {
+    return key.length === 1 ? key.toLowerCase() : key;
+}
+
+/**
+ * A key as shown to the player
+ */
+export function formatKey(key: string): string {
+    const names: Record<string, string> = {
+        ' ': t('keys.space'),
+        ArrowUp: '↑',
+        ArrowDown: '↓',
+        ArrowLeft: '←',
+        ArrowRight: '→',
+    };
+    return names[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+}
+
+/**
+ * KeyBindings - Which key does what, persisted in localStorage. Each key is bound
+ * to at most one action; binding a key that is in use swaps the two actions' keys.
+ */
+export class KeyBindings {
+    private bindings: Record<KeyAction, string>;
+
+    constructor() {
+        this.bindings = { ...DEFAULT_KEY_BINDINGS, ...this.load() };
+    }
+
+    getKey(action: KeyAction): string {
+        return this.bindings[action];
+    }
+
+    /**
+     * The action bound to a key, or null if there is none
+     */
+    getAction(key: string): KeyAction | null {
+        const normalized = normalizeKey(key);
+        const actions = Object.keys(this.bindings) as KeyAction[];
+        return actions.find((action) => this.bindings[action] === normalized) ?? null;
+    }
+
+    /**
+     * Binds a key to an action and saves the bindings
+     */
+    rebind(action: KeyAction, key: string): void {
+        const normalized = normalizeKey(key);
+        const previous = this.getAction(normalized);
+        if (previous && previous !== action) {
+            this.bindings[previous] = this.bindings[action];
+        }
+        this.bindings[action] = normalized;
+        this.save();
+    }
+
+    resetToDefaults(): void {
+        this.bindings = { ...DEFAULT_KEY_BINDINGS };
+        this.save();
+    }
+
+    /**
+     * Stored bindings of known actions; anything else in storage is ignored
+     */
+    private load(): Partial<Record<KeyAction, string>> {
+        try {
+            const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+            const bindings: Partial<Record<KeyAction, string>> = {};
+            for (const action of Object.keys(DEFAULT_KEY_BINDINGS) as KeyAction[]) {
+                if (typeof stored[action] === 'string') {
+                    bindings[action] = stored[action];
+                }
+            }
+            return bindings;
+        } catch (error) {
+            console.warn('Ignoring stored key bindings:', error);
+            return {};
+        }
+    }
+
+    private save(): void {
+        try {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(this.bindings));
+        } catch (error) {
+            console.warn('Could not store key bindings:', error);
+        }
+    }
+}
@@ -0,0 +1,64 @@
+import { KeyAction, KeyBindings } from './KeyBindings.js';
+
+/**
+ * KeyboardController - Turns key presses into the actions they are bound to.
+ * Presses are passed on to a callback; which actions are held down can be read
+ * every frame, e.g. to pan the camera for as long as its key is held.
+ */
+export class KeyboardController {
+    readonly bindings: KeyBindings;
+    private held = new Set<KeyAction>();
+    private onActionCallback?: (action: KeyAction) => void;
+
+    constructor(bindings: KeyBindings) {
+        this.bindings = bindings;
+    }
+
+    /**
+     * Set callback to be called with the action of every bound key pressed
+     */
+    setOnActionCallback(callback: (action: KeyAction) => void): void {
+        this.onActionCallback = callback;
+    }
+
+    /**
+     * Handles a key press
+     * @param key - The key, as in KeyboardEvent.key
+     * @returns true if the key is bound to an action
+     */
+    onKeyPressed(key: string): boolean {
+        const action = this.bindings.getAction(key);
+        if (!action) return false;
+
+        this.held.add(action);
+        if (this.onActionCallback) {
+            this.onActionCallback(action);
+        }
+        return true;
+    }
+
+    /**
+     * Handles a key release
+     * @param key - The key, as in KeyboardEvent.key
+     */
+    onKeyReleased(key: string): void {
+        const action = this.bindings.getAction(key);
+        if (action) {
+            this.held.delete(action);
+        }
+    }
+
+    /**
+     * Whether the key of an action is held down
+     */
+    isHeld(action: KeyAction): boolean {
+        return this.held.has(action);
+    }
+
+    /**
+     * Forgets the keys held down, e.g. when the window loses focus and their release can't be seen
+     */
+    releaseAll(): void {
+        this.held.clear();
+    }
+}
@@ -0,0 +1,49 @@
+import type p5 from 'p5';
+import { IBlade, IBladeSource } from './BladeSource.js';
+
+/**
+ * KeyboardCursor - A cursor steered with the keys, whose blade is put down and
+ * lifted with a key instead of held like a button
+ */
+export class KeyboardCursor implements IBladeSource {
+    readonly hasCursor = true;
+    private p: p5;
+    private x: number = 0;
+    private y: number = 0;
+    private down: boolean = false;
+
+    constructor(p: p5) {
+        this.p = p;
+    }
+
+    /**
+     * Puts the cursor in the middle of the screen with its blade up
+     */
+    center(): void {
+        this.x = this.p.width / 2;
+        this.y = this.p.height / 2;
+        this.down = false;
+    }
+
+    toggleBlade(): void {
+        this.down = !this.down;
+    }
+
+    /**
+     * Moves the cursor, keeping it on screen
+     * @param dx - Horizontal move in screen pixels
+     * @param dy - Vertical move in screen pixels
+     */
+    move(dx: number, dy: number): void {
+        this.x = Math.max(0, Math.min(this.p.width, this.x + dx));
+        this.y = Math.max(0, Math.min(this.p.height, this.y + dy));
+    }
+
+    poll(): IBlade {
+        return { x: this.x, y: this.y, down: this.down };
+    }
+
+    release(): void {
+        this.down = false;
+    }
+}
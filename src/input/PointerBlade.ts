@@ -0,0 +1,33 @@
+import type p5 from 'p5';
+import { IBlade, IBladeSource } from './BladeSource.js';
+
+/**
+ * PointerBlade - The blade under the mouse or a finger, down while the left button
+ * or the touch is held after a press
+ */
+export class PointerBlade implements IBladeSource {
+    readonly hasCursor = false;
+    private p: p5;
+    // From a press until its release; a second finger lifts the blade for pinch zooming
+    private pressed: boolean = false;
+
+    constructor(p: p5) {
+        this.p = p;
+    }
+
+    press(): void {
+        this.pressed = true;
+    }
+
+    poll(): IBlade {
+        return {
+            x: this.p.mouseX,
+            y: this.p.mouseY,
+            down: this.pressed && this.p.mouseIsPressed && this.p.mouseButton === this.p.LEFT,
+        };
+    }
+
+    release(): void {
+        this.pressed = false;
+    }
+}
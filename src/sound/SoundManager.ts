@@ -1,4 +1,5 @@
 import type p5 from 'p5';
+import { GameEventBus } from '../game/GameEvents.js';
 
 export class SoundManager {
     private p: p5;
@@ -220,6 +221,23 @@ export class SoundManager {
         }
     }
 
+    /**
+     * Plays the sounds of a game's events: a pop per stroke segment that cuts,
+     * the penalty buzz, and the win and lose tunes
+     * @returns A function that stops listening
+     */
+    subscribeTo(events: GameEventBus): () => void {
+        const unsubscribes = [
+            events.on('penalty', () => this.playPenaltySound()),
+            events.on('arcCut', ({ index }) => {
+                if (index === 0) this.playPopSound();
+            }),
+            events.on('gameWon', () => this.playSuccessSound()),
+            events.on('gameLost', () => this.playLoseSound()),
+        ];
+        return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+    }
+
     /**
      * Toggle sound on/off
      */
@@ -0,0 +1,137 @@
+/**
+ * An RGB color, each channel 0-255
+ */
+export type ThemeColor = [number, number, number];
+
+export type ThemeId = 'dark' | 'light' | 'highContrast' | 'neon';
+
+/**
+ * The colors of the board, the blade and the UI panels
+ */
+export interface ITheme {
+    id: ThemeId;
+    name: string;
+    arc: ThemeColor;
+    hint: ThemeColor;
+    blade: ThemeColor;
+    ghost: ThemeColor; // The ghost's blade trail
+    particles: ThemeColor[]; // Picked at random for each particle of an explosion
+    background: {
+        color: ThemeColor; // Shown while the image loads, or instead of one
+        image?: string; // File name in assets/
+    };
+    // CSS variables for the style/ panels, set on the document root
+    css: Record<string, string>;
+}
+
+/**
+ * Board colors that replace a theme's, e.g. a colorblind-safe palette
+ */
+export type ThemeOverrides = Partial<
+    Pick<ITheme, 'arc' | 'hint' | 'blade' | 'ghost' | 'particles'>
+>;
+
+const DARK_CSS: Record<string, string> = {
+    '--panel-bg': 'rgba(0, 0, 0, 0.85)',
+    '--overlay-bg': 'rgba(0, 0, 0, 0.8)',
+    '--panel-text': 'white',
+    '--button-bg': 'rgba(255, 255, 255, 0.1)',
+    '--button-hover-bg': 'rgba(255, 255, 255, 0.2)',
+    '--accent': '#667eea',
+    '--accent-alt': '#764ba2',
+    '--accent-text': 'white',
+};
+
+export const THEMES: Record<ThemeId, ITheme> = {
+    dark: {
+        id: 'dark',
+        name: 'Dark',
+        arc: [255, 255, 255],
+        hint: [0, 255, 255],
+        blade: [255, 204, 0],
+        ghost: [180, 220, 255],
+        particles: [
+            [255, 204, 0], // Gold
+            [255, 100, 100], // Red
+            [100, 200, 255], // Blue
+            [255, 150, 255], // Pink
+            [150, 255, 150], // Green
+        ],
+        background: { color: [32, 32, 40], image: 'background.png' },
+        css: DARK_CSS,
+    },
+    light: {
+        id: 'light',
+        name: 'Light',
+        arc: [40, 40, 60],
+        hint: [0, 140, 200],
+        blade: [230, 110, 0],
+        ghost: [90, 120, 200],
+        particles: [
+            [230, 110, 0],
+            [210, 50, 50],
+            [30, 120, 220],
+            [190, 60, 190],
+            [40, 160, 70],
+        ],
+        background: { color: [240, 240, 235] },
+        css: {
+            '--panel-bg': 'rgba(255, 255, 255, 0.92)',
+            '--overlay-bg': 'rgba(240, 240, 235, 0.85)',
+            '--panel-text': '#1f2937',
+            '--button-bg': 'rgba(0, 0, 0, 0.06)',
+            '--button-hover-bg': 'rgba(0, 0, 0, 0.12)',
+            '--accent': '#4f63d8',
+            '--accent-alt': '#6a3f9a',
+            '--accent-text': 'white',
+        },
+    },
+    highContrast: {
+        id: 'highContrast',
+        name: 'High contrast',
+        arc: [255, 255, 255],
+        hint: [255, 255, 0],
+        blade: [255, 0, 255],
+        ghost: [0, 255, 255],
+        particles: [
+            [255, 255, 0],
+            [255, 0, 255],
+            [0, 255, 255],
+            [255, 255, 255],
+        ],
+        background: { color: [0, 0, 0] },
+        css: {
+            '--panel-bg': 'black',
+            '--overlay-bg': 'rgba(0, 0, 0, 0.95)',
+            '--panel-text': 'white',
+            '--button-bg': 'black',
+            '--button-hover-bg': '#333',
+            '--accent': '#ffff00',
+            '--accent-alt': '#ffff00',
+            '--accent-text': 'black',
+        },
+    },
+    neon: {
+        id: 'neon',
+        name: 'Neon',
+        arc: [120, 255, 220],
+        hint: [255, 80, 200],
+        blade: [255, 240, 80],
+        ghost: [160, 120, 255],
+        particles: [
+            [255, 80, 200],
+            [120, 255, 220],
+            [255, 240, 80],
+            [160, 120, 255],
+        ],
+        background: { color: [12, 8, 28] },
+        css: {
+            ...DARK_CSS,
+            '--panel-bg': 'rgba(20, 10, 40, 0.9)',
+            '--accent': '#ff50c8',
+            '--accent-alt': '#7c4dff',
+        },
+    },
+};
+
+export const DEFAULT_THEME_ID: ThemeId = 'dark';
@@ -0,0 +1,119 @@
+import { DEFAULT_THEME_ID, ITheme, ThemeOverrides, ThemeId, THEMES } from './Theme.js';
+
+const KEY_PREFIX = 'theme';
+
+/**
+ * ThemeManager - Holds the theme the game is drawn with. Each player's choice is
+ * kept in localStorage; the UI panels follow it through CSS variables on the
+ * document root, and the canvas reads the current theme as it draws.
+ */
+export class ThemeManager {
+    private static instance: ThemeManager;
+    private base: ITheme = THEMES[DEFAULT_THEME_ID];
+    private overrides: ThemeOverrides = {};
+    // The base theme with the overrides applied
+    private theme: ITheme = this.base;
+    private playerName: string | null = null;
+    private listeners: ((theme: ITheme) => void)[] = [];
+
+    private constructor() {
+        this.applyCssVariables();
+    }
+
+    /**
+     * Gets the singleton instance
+     */
+    static getInstance(): ThemeManager {
+        if (!ThemeManager.instance) {
+            ThemeManager.instance = new ThemeManager();
+        }
+        return ThemeManager.instance;
+    }
+
+    getTheme(): ITheme {
+        return this.theme;
+    }
+
+    /**
+     * Switches to the theme a player picked last, or the default one
+     */
+    loadForPlayer(playerName: string): void {
+        this.playerName = playerName;
+        this.apply(THEMES[this.load(playerName)]);
+    }
+
+    /**
+     * Switches theme, and remembers it for the current player
+     */
+    setTheme(id: ThemeId): void {
+        this.apply(THEMES[id]);
+        if (this.playerName) {
+            this.save(this.playerName, id);
+        }
+    }
+
+    /**
+     * Replaces some board colors of every theme, e.g. with a colorblind-safe palette
+     */
+    setOverrides(overrides: ThemeOverrides): void {
+        this.overrides = overrides;
+        this.refresh();
+    }
+
+    /**
+     * Subscribes to theme changes
+     * @returns A function that unsubscribes the listener
+     */
+    onChange(listener: (theme: ITheme) => void): () => void {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter((l) => l !== listener);
+        };
+    }
+
+    private apply(theme: ITheme): void {
+        if (theme === this.base) return;
+        this.base = theme;
+        this.refresh();
+    }
+
+    private refresh(): void {
+        this.theme = { ...this.base, ...this.overrides };
+        this.applyCssVariables();
+        this.listeners.forEach((listener) => listener(this.theme));
+    }
+
+    private applyCssVariables(): void {
+        const root = document.documentElement;
+        for (const [name, value] of Object.entries(this.theme.css)) {
+            root.style.setProperty(name, value);
+        }
+    }
+
+    /**
+     * The stored theme of a player, if it is a known one
+     */
+    private load(playerName: string): ThemeId {
+        try {
+            const stored = localStorage.getItem(this.getKey(playerName));
+            return stored && Object.keys(THEMES).includes(stored)
+                ? (stored as ThemeId)
+                : DEFAULT_THEME_ID;
+        } catch (error) {
+            console.warn(`Ignoring stored theme of ${playerName}:`, error);
+            return DEFAULT_THEME_ID;
+        }
+    }
+
+    private save(playerName: string, id: ThemeId): void {
+        try {
+            localStorage.setItem(this.getKey(playerName), id);
+        } catch (error) {
+            console.warn(`Could not store theme of ${playerName}:`, error);
+        }
+    }
+
+    private getKey(playerName: string): string {
+        return `${KEY_PREFIX}:${playerName}`;
+    }
+}
@@ -0,0 +1,134 @@
+import {
+    AccessibilitySettings,
+    ColorPalette,
+    HintStyle,
+    MAX_ARC_WIDTH,
+    MIN_ARC_WIDTH,
+} from '../accessibility/AccessibilitySettings.js';
+import { I18n } from '../i18n/I18n.js';
+import { MessageKey } from '../i18n/catalog.js';
+
+const PALETTE_LABELS: Record<ColorPalette, MessageKey> = {
+    standard: 'accessibility.palette.standard',
+    redGreen: 'accessibility.palette.redGreen',
+    blueYellow: 'accessibility.palette.blueYellow',
+};
+
+const HINT_STYLE_LABELS: Record<HintStyle, MessageKey> = {
+    solid: 'accessibility.hintStyle.solid',
+    dashed: 'accessibility.hintStyle.dashed',
+    dotted: 'accessibility.hintStyle.dotted',
+};
+
+/**
+ * AccessibilityPanel - Settings group for the accessibility options. Changes apply
+ * as they are made, so their effect shows on the board behind the panel.
+ */
+export class AccessibilityPanel {
+    private container: HTMLElement;
+    private settings: AccessibilitySettings;
+
+    constructor(settings: AccessibilitySettings) {
+        this.settings = settings;
+        this.container = document.getElementById('accessibility-panel')!;
+        if (!this.container) {
+            throw new Error('accessibility-panel container not found');
+        }
+
+        I18n.getInstance().onChange(() => {
+            if (this.isVisible()) this.render();
+        });
+    }
+
+    show(): void {
+        this.render();
+        this.container.style.display = 'flex';
+    }
+
+    hide(): void {
+        this.container.style.display = 'none';
+    }
+
+    toggle(): void {
+        if (this.isVisible()) {
+            this.hide();
+        } else {
+            this.show();
+        }
+    }
+
+    isVisible(): boolean {
+        return this.container.style.display === 'flex';
+    }
+
+    private render(): void {
+        const options = this.settings.getOptions();
+        const i18n = I18n.getInstance();
+        const choices = <T extends string>(labels: Record<T, MessageKey>, selected: T) =>
+            (Object.keys(labels) as T[])
+                .map(
+                    (value) =>
+                        `<option value="${value}"${value === selected ? ' selected' : ''}>${i18n.t(labels[value])}</option>`,
+                )
+                .join('');
+
+        this.container.innerHTML = `
+            <div class="accessibility-panel-content" role="dialog" aria-labelledby="accessibility-panel-title">
+                <div class="accessibility-panel-header">
+                    <h3 id="accessibility-panel-title">${i18n.t('accessibility.title')}</h3>
+                    <button id="accessibility-close-btn" class="accessibility-close" aria-label="${i18n.t('common.close')}">×</button>
+                </div>
+                <label class="accessibility-row">
+                    <span>${i18n.t('accessibility.colors')}</span>
+                    <select id="accessibility-palette">${choices(PALETTE_LABELS, options.palette)}</select>
+                </label>
+                <label class="accessibility-row">
+                    <span>${i18n.t('accessibility.hintedArcs')}</span>
+                    <select id="accessibility-hint-style">${choices(HINT_STYLE_LABELS, options.hintStyle)}</select>
+                </label>
+                <label class="accessibility-row">
+                    <span>${i18n.t('accessibility.arcWidth')} <span id="accessibility-arc-width-value">${i18n.formatNumber(options.arcWidth)}px</span></span>
+                    <input type="range" id="accessibility-arc-width" min="${MIN_ARC_WIDTH}" max="${MAX_ARC_WIDTH}" step="0.5" value="${options.arcWidth}" />
+                </label>
+                <label class="accessibility-row">
+                    <span>${i18n.t('accessibility.reducedMotion')}</span>
+                    <input type="checkbox" id="accessibility-reduced-motion"${options.reducedMotion ? ' checked' : ''} />
+                </label>
+                <button id="accessibility-reset-btn" class="accessibility-reset">${i18n.t('common.resetDefaults')}</button>
+            </div>
+        `;
+
+        const palette = document.getElementById('accessibility-palette') as HTMLSelectElement;
+        palette.addEventListener('change', () =>
+            this.settings.update({ palette: palette.value as ColorPalette }),
+        );
+
+        const hintStyle = document.getElementById('accessibility-hint-style') as HTMLSelectElement;
+        hintStyle.addEventListener('change', () =>
+            this.settings.update({ hintStyle: hintStyle.value as HintStyle }),
+        );
+
+        const arcWidth = document.getElementById('accessibility-arc-width') as HTMLInputElement;
+        const arcWidthValue = document.getElementById('accessibility-arc-width-value');
+        arcWidth.addEventListener('input', () => {
+            this.settings.update({ arcWidth: parseFloat(arcWidth.value) });
+            if (arcWidthValue)
+                arcWidthValue.textContent = `${i18n.formatNumber(parseFloat(arcWidth.value))}px`;
+        });
+
+        const reducedMotion = document.getElementById(
+            'accessibility-reduced-motion',
+        ) as HTMLInputElement;
+        reducedMotion.addEventListener('change', () =>
+            this.settings.update({ reducedMotion: reducedMotion.checked }),
+        );
+
+        document
+            .getElementById('accessibility-close-btn')
+            ?.addEventListener('click', () => this.hide());
+        document.getElementById('accessibility-reset-btn')?.addEventListener('click', () => {
+            this.settings.resetToDefaults();
+            this.render();
+        });
+    }
+}
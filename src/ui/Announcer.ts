@@ -0,0 +1,114 @@
+import { GameEventBus } from '../game/GameEvents.js';
+import { I18n } from '../i18n/I18n.js';
+
+// Progress is announced each time another quarter of the cuts is made
+const PROGRESS_STEPS = 4;
+
+/**
+ * Announcer - Reads game updates out to screen readers through ARIA live regions:
+ * the level, progress, lives and the result
+ */
+export class Announcer {
+    private static instance: Announcer;
+    private polite: HTMLElement;
+    private assertive: HTMLElement;
+    private totalCuts: number = 0;
+    private progressStep: number = 0;
+
+    private constructor() {
+        this.polite = this.createRegion('announcer-polite', 'polite');
+        this.assertive = this.createRegion('announcer-assertive', 'assertive');
+    }
+
+    /**
+     * Gets the singleton instance
+     */
+    static getInstance(): Announcer {
+        if (!Announcer.instance) {
+            Announcer.instance = new Announcer();
+        }
+        return Announcer.instance;
+    }
+
+    /**
+     * Has screen readers read a message
+     * @param message - The message to read
+     * @param urgent - Whether to interrupt what is being read
+     */
+    announce(message: string, urgent: boolean = false): void {
+        const region = urgent ? this.assertive : this.polite;
+        // Cleared first, so the same message twice in a row is read again
+        region.textContent = '';
+        window.setTimeout(() => {
+            region.textContent = message;
+        }, 50);
+    }
+
+    /**
+     * Announces the events of a game
+     */
+    subscribeTo(events: GameEventBus): void {
+        const i18n = I18n.getInstance();
+        const lives = (count: number) => i18n.t('count.lives', { count });
+        const cuts = (count: number) => i18n.t('count.cuts', { count });
+
+        events.on('levelLoaded', ({ boardName, lives: livesLeft, totalCuts, endless }) => {
+            this.totalCuts = totalCuts;
+            this.progressStep = 0;
+            const level = endless
+                ? i18n.t('announce.endless')
+                : i18n.t('announce.level', { name: i18n.levelName(boardName) });
+            this.announce(
+                i18n.t('announce.loaded', {
+                    level,
+                    cuts: cuts(totalCuts),
+                    lives: lives(livesLeft),
+                }),
+            );
+        });
+        events.on('gameStarted', () => this.announce(i18n.t('announce.go')));
+        events.on('arcCut', ({ remainingCuts }) => {
+            if (this.totalCuts === 0 || remainingCuts === 0) return;
+            const step = Math.floor(
+                ((this.totalCuts - remainingCuts) / this.totalCuts) * PROGRESS_STEPS,
+            );
+            if (step > this.progressStep) {
+                this.progressStep = step;
+                const percent = Math.round((step / PROGRESS_STEPS) * 100);
+                this.announce(i18n.t('announce.progress', { percent, cuts: cuts(remainingCuts) }));
+            }
+        });
+        events.on('penalty', ({ livesRemaining, gameOver }) => {
+            if (!gameOver)
+                this.announce(i18n.t('announce.penalty', { lives: lives(livesRemaining) }), true);
+        });
+        events.on('hintUsed', ({ livesRemaining }) => {
+            this.announce(i18n.t('announce.hint', { lives: lives(livesRemaining) }));
+        });
+        events.on('gameWon', ({ time, endless }) => {
+            const message = endless
+                ? i18n.t('announce.boardCleared')
+                : i18n.t('announce.victory', { time: i18n.formatSpokenDuration(time) });
+            this.announce(message, true);
+        });
+        events.on('gameLost', ({ reason }) => {
+            this.announce(
+                i18n.t(reason === 'hints' ? 'announce.noLives' : 'announce.popped'),
+                true,
+            );
+        });
+    }
+
+    private createRegion(id: string, politeness: 'polite' | 'assertive'): HTMLElement {
+        let region = document.getElementById(id);
+        if (!region) {
+            region = document.createElement('div');
+            region.id = id;
+            region.className = 'visually-hidden';
+            region.setAttribute('aria-live', politeness);
+            region.setAttribute('aria-atomic', 'true');
+            document.body.appendChild(region);
+        }
+        return region;
+    }
+}
@@ -1,3 +1,5 @@
+import { I18n } from '../i18n/I18n.js';
+
 /**
  * Countdown - Displays a countdown (3, 2, 1) before game starts
  */
@@ -54,7 +56,7 @@ export class Countdown {
     private updateDisplay(count: number): void {
         const numberElement = document.getElementById('countdown-number');
         if (numberElement) {
-            numberElement.textContent = count.toString();
+            numberElement.textContent = I18n.getInstance().formatNumber(count);
 
             // Trigger animation by removing and re-adding class
             numberElement.classList.remove('countdown-animate');
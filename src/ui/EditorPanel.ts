@@ -0,0 +1,250 @@
+import { LevelEditor } from '../editor/LevelEditor.js';
+import { BoardData, BOARD_DATA_VERSION, IBoardDocument } from '../game/BoardData.js';
+import { estimateDifficulty } from '../game/analysis/DifficultyEstimator.js';
+import { NotificationManager } from './NotificationManager.js';
+import { downloadJSON } from '../utils/fileUtils.js';
+import { I18n, t } from '../i18n/I18n.js';
+import { ILevelWarning } from '../game/analysis/LevelWarnings.js';
+import { IShapeData } from '../game/types.js';
+
+/**
+ * EditorPanel - Toolbar of the level editor: level metadata, live board info and
+ * warnings, playtest, export and exit. While playtesting it shrinks to a single
+ * button that returns to the editor.
+ */
+export class EditorPanel {
+    private container: HTMLElement;
+    private editor: LevelEditor;
+    private playtesting: boolean = false;
+    private onPlaytestCallback?: (boardData: BoardData) => void;
+    private onBackToEditorCallback?: () => void;
+    private onExitCallback?: () => void;
+
+    constructor(editor: LevelEditor) {
+        this.editor = editor;
+        this.container = document.getElementById('editor-panel')!;
+
+        if (!this.container) {
+            throw new Error('editor-panel container not found');
+        }
+
+        this.initializePanel();
+        this.editor.setOnChangeCallback(() => this.updateInfo());
+    }
+
+    /**
+     * Initialize the panel structure
+     */
+    private initializePanel(): void {
+        this.container.innerHTML = `
+            <div class="editor-panel-content" id="editor-panel-content">
+                <h3 data-i18n="editor.title"></h3>
+                <label><span data-i18n="editor.id"></span> <input type="text" id="editor-level-id" value="custom-level"></label>
+                <label><span data-i18n="editor.name"></span> <input type="text" id="editor-level-name" value="Custom Level"></label>
+                <label><span data-i18n="editor.author"></span> <input type="text" id="editor-level-author"></label>
+                <div class="editor-info" id="editor-info"></div>
+                <ul class="editor-warnings" id="editor-warnings"></ul>
+                <p class="editor-help" data-i18n="editor.help"></p>
+                <div class="editor-buttons">
+                    <button id="editor-playtest-btn" data-i18n="editor.playtest"></button>
+                    <button id="editor-export-btn" data-i18n="editor.export"></button>
+                    <button id="editor-exit-btn" data-i18n="editor.exit"></button>
+                </div>
+            </div>
+            <button class="editor-back-btn" id="editor-back-btn" data-i18n="editor.back"></button>
+        `;
+        I18n.getInstance().translate(this.container);
+
+        document
+            .getElementById('editor-playtest-btn')
+            ?.addEventListener('click', () => this.handlePlaytest());
+        document
+            .getElementById('editor-export-btn')
+            ?.addEventListener('click', () => this.handleExport());
+        document.getElementById('editor-exit-btn')?.addEventListener('click', () => {
+            this.hide();
+            if (this.onExitCallback) {
+                this.onExitCallback();
+            }
+        });
+        document.getElementById('editor-back-btn')?.addEventListener('click', () => {
+            this.setPlaytesting(false);
+            if (this.onBackToEditorCallback) {
+                this.onBackToEditorCallback();
+            }
+        });
+    }
+
+    /**
+     * Set callback to be called with the edited level when Playtest is clicked
+     */
+    setOnPlaytestCallback(callback: (boardData: BoardData) => void): void {
+        this.onPlaytestCallback = callback;
+    }
+
+    /**
+     * Set callback to be called when returning from a playtest
+     */
+    setOnBackToEditorCallback(callback: () => void): void {
+        this.onBackToEditorCallback = callback;
+    }
+
+    /**
+     * Set callback to be called when the editor is closed
+     */
+    setOnExitCallback(callback: () => void): void {
+        this.onExitCallback = callback;
+    }
+
+    /**
+     * Show the panel, prefilled from a level being edited
+     */
+    show(metadata?: { id: string; name: string; author?: string }): void {
+        if (metadata) {
+            this.setInputValue('editor-level-id', metadata.id);
+            this.setInputValue('editor-level-name', metadata.name);
+            this.setInputValue('editor-level-author', metadata.author ?? '');
+        }
+        this.setPlaytesting(false);
+        this.updateInfo();
+        this.container.style.display = 'flex';
+    }
+
+    /**
+     * Hide the panel
+     */
+    hide(): void {
+        this.container.style.display = 'none';
+    }
+
+    /**
+     * Check if panel is visible
+     */
+    isVisible(): boolean {
+        return this.container.style.display === 'flex';
+    }
+
+    /**
+     * Whether the edited level is being playtested
+     */
+    isPlaytesting(): boolean {
+        return this.playtesting;
+    }
+
+    /**
+     * Builds the level document from the form and the edited circles
+     * @throws If the level is invalid, e.g. it has no circles or no id
+     */
+    buildLevel(): BoardData {
+        const author = this.getInputValue('editor-level-author').trim();
+        const levelDocument: IBoardDocument = {
+            version: BOARD_DATA_VERSION,
+            id: this.getInputValue('editor-level-id').trim(),
+            name: this.getInputValue('editor-level-name').trim(),
+            ...(author && { author }),
+            shapes: this.editor.getCircles(),
+        };
+        if (levelDocument.shapes!.length === 0) {
+            throw new Error('Add at least one circle first');
+        }
+        return new BoardData(levelDocument);
+    }
+
+    private handlePlaytest(): void {
+        try {
+            const boardData = this.buildLevel();
+            this.setPlaytesting(true);
+            if (this.onPlaytestCallback) {
+                this.onPlaytestCallback(boardData);
+            }
+        } catch (error) {
+            NotificationManager.getInstance().show((error as Error).message, 'error');
+        }
+    }
+
+    private handleExport(): void {
+        try {
+            const boardData = this.buildLevel();
+            downloadJSON(`${boardData.id}.json`, boardData);
+        } catch (error) {
+            NotificationManager.getInstance().show((error as Error).message, 'error');
+        }
+    }
+
+    private setPlaytesting(playtesting: boolean): void {
+        this.playtesting = playtesting;
+        this.container.classList.toggle('playtesting', playtesting);
+    }
+
+    /**
+     * Refresh the board info and the warning list
+     */
+    private updateInfo(): void {
+        const circles = this.editor.getCircles();
+        const difficulty = estimateDifficulty(circles);
+        const stars = '★'.repeat(difficulty.stars) + '☆'.repeat(5 - difficulty.stars);
+
+        const info = document.getElementById('editor-info');
+        if (info) {
+            const i18n = I18n.getInstance();
+            const score = i18n.formatNumber(difficulty.score, {
+                minimumFractionDigits: 2,
+                maximumFractionDigits: 2,
+            });
+            info.innerHTML = `
+                <div>${i18n.t('editor.circles', { count: circles.length })}</div>
+                <div>${i18n.t('editor.pieces', { count: this.editor.getPieceCount() })}</div>
+                <div title="${i18n.t('editor.difficultyScore', { score })}">${i18n.t('editor.difficulty', { stars })}</div>
+            `;
+        }
+
+        const list = document.getElementById('editor-warnings');
+        if (list) {
+            list.innerHTML = '';
+            for (const warning of this.editor.getWarnings()) {
+                const item = document.createElement('li');
+                item.className = `editor-warning ${warning.kind}`;
+                item.textContent = `⚠️ ${describeWarning(warning, circles)}`;
+                list.appendChild(item);
+            }
+        }
+    }
+
+    private getInputValue(id: string): string {
+        return (document.getElementById(id) as HTMLInputElement | null)?.value ?? '';
+    }
+
+    private setInputValue(id: string, value: string): void {
+        const input = document.getElementById(id) as HTMLInputElement | null;
+        if (input) input.value = value;
+    }
+}
+
+/**
+ * Words a level warning, e.g. "Circle 3 and polygon 5 almost touch (gap 1.2)"
+ */
+function describeWarning(warning: ILevelWarning, shapes: IShapeData[]): string {
+    const [first, second] = warning.shapes.map((index) =>
+        t(`editor.shape.${shapes[index].kind ?? 'circle'}`, { number: index + 1 }),
+    );
+    const gap = I18n.getInstance().formatNumber(warning.gap ?? 0, {
+        minimumFractionDigits: 1,
+        maximumFractionDigits: 1,
+    });
+    let text: string;
+    switch (warning.kind) {
+        case 'near-tangent':
+            text = t('editor.warning.nearTangent', { first, second, gap });
+            break;
+        case 'contained':
+            text = t('editor.warning.contained', { first, second });
+            break;
+        case 'dropped':
+            text = t('editor.warning.dropped', { first });
+            break;
+        case 'isolated':
+            text = t('editor.warning.isolated', { first });
+            break;
+    }
+    return text.charAt(0).toLocaleUpperCase() + text.slice(1);
+}
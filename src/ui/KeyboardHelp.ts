@@ -0,0 +1,130 @@
+import { formatKey, KeyAction, KeyBindings, KEY_ACTION_GROUPS } from '../input/KeyBindings.js';
+import { I18n } from '../i18n/I18n.js';
+import { MessageKey } from '../i18n/catalog.js';
+
+/**
+ * KeyboardHelp - Overlay listing the keyboard controls. Clicking a key waits for
+ * the next key press and binds it to that action instead.
+ */
+export class KeyboardHelp {
+    private container: HTMLElement;
+    private bindings: KeyBindings;
+    // The action waiting for its new key, if any
+    private rebinding: KeyAction | null = null;
+    private onCloseCallback?: () => void;
+
+    constructor(bindings: KeyBindings) {
+        this.bindings = bindings;
+        this.container = document.getElementById('keyboard-help')!;
+        if (!this.container) {
+            throw new Error('keyboard-help container not found');
+        }
+
+        I18n.getInstance().onChange(() => {
+            if (this.isVisible()) this.render();
+        });
+    }
+
+    /**
+     * Set callback to be called when the overlay is closed
+     */
+    setOnCloseCallback(callback: () => void): void {
+        this.onCloseCallback = callback;
+    }
+
+    show(): void {
+        this.render();
+        this.container.style.display = 'flex';
+    }
+
+    /**
+     * Close the overlay
+     */
+    hide(): void {
+        this.rebinding = null;
+        this.container.style.display = 'none';
+        if (this.onCloseCallback) {
+            this.onCloseCallback();
+        }
+    }
+
+    isVisible(): boolean {
+        return this.container.style.display === 'flex';
+    }
+
+    /**
+     * Whether a key press is awaited for an action
+     */
+    isRebinding(): boolean {
+        return this.rebinding !== null;
+    }
+
+    /**
+     * Binds the pressed key to the action waiting for one. Escape cancels.
+     * @param key - The key, as in KeyboardEvent.key
+     */
+    onKeyPressed(key: string): void {
+        if (!this.rebinding) return;
+        if (key !== 'Escape') {
+            this.bindings.rebind(this.rebinding, key);
+        }
+        this.rebinding = null;
+        this.render();
+    }
+
+    /**
+     * Renders the controls, grouped as in KEY_ACTION_GROUPS
+     */
+    private render(): void {
+        const i18n = I18n.getInstance();
+        const groups = KEY_ACTION_GROUPS.map(
+            ({ title, actions }) => `
+            <div class="keyboard-help-group">
+                <h4>${i18n.t(title)}</h4>
+                ${actions
+                    .map(
+                        (action) => `
+                    <div class="keyboard-help-row">
+                        <span>${i18n.t(`keys.action.${action}` as MessageKey)}</span>
+                        <button class="keyboard-help-key${this.rebinding === action ? ' waiting' : ''}" data-action="${action}">
+                            ${this.rebinding === action ? i18n.t('keys.waiting') : formatKey(this.bindings.getKey(action))}
+                        </button>
+                    </div>
+                `,
+                    )
+                    .join('')}
+            </div>
+        `,
+        ).join('');
+
+        this.container.innerHTML = `
+            <div class="keyboard-help-content">
+                <div class="keyboard-help-header">
+                    <h3>${i18n.t('keys.title')}</h3>
+                    <button id="keyboard-help-close-btn" class="keyboard-help-close" aria-label="${i18n.t('common.close')}">×</button>
+                </div>
+                <p class="keyboard-help-note">${i18n.t('keys.note')}</p>
+                <div class="keyboard-help-groups">${groups}</div>
+                <p class="keyboard-help-note">${i18n.t('keys.gamepad')}</p>
+                <button id="keyboard-help-reset-btn" class="keyboard-help-reset">${i18n.t('common.resetDefaults')}</button>
+            </div>
+        `;
+
+        this.container
+            .querySelectorAll<HTMLButtonElement>('.keyboard-help-key')
+            .forEach((button) => {
+                button.addEventListener('click', () => {
+                    this.rebinding = button.dataset.action as KeyAction;
+                    this.render();
+                });
+            });
+        document
+            .getElementById('keyboard-help-close-btn')
+            ?.addEventListener('click', () => this.hide());
+        document.getElementById('keyboard-help-reset-btn')?.addEventListener('click', () => {
+            this.bindings.resetToDefaults();
+            this.rebinding = null;
+            this.render();
+        });
+    }
+}
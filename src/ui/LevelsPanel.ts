@@ -1,6 +1,12 @@
-import type p5 from 'p5';
-import { ICircle } from '../game/types.js';
+import { ICircle, IShapeData } from '../game/types.js';
 import { GameDataManager } from '../game/game-data/GameData.js';
+import { isLevelSolvable } from '../game/analysis/LevelSolver.js';
+import { isMoving } from '../game/core/motion.js';
+import { estimateDifficulty } from '../game/analysis/DifficultyEstimator.js';
+import { BoardData, IBoardData } from '../game/BoardData.js';
+import { NotificationManager } from './NotificationManager.js';
+import { downloadJSON } from '../utils/fileUtils.js';
+import { I18n } from '../i18n/I18n.js';
 
 /**
  * Represents a level with metadata
@@ -8,10 +14,10 @@ import { GameDataManager } from '../game/game-data/GameData.js';
 export interface Level {
     id: string;
     name: string;
-    difficulty: number; // 1-5 scale
-    boardData: ICircle[];
+    boardData: IShapeData[];
     description?: string;
     boardName?: string; // Name used for tracking completion in GameDataManager
+    source?: BoardData; // Level document this entry was built from, used for export
 }
 
 /**
@@ -26,6 +32,8 @@ export class LevelsPanel {
     private hasActiveGame: boolean = false;
     private onCloseCallback?: () => void;
     private onHomeCallback?: () => void;
+    private onEditCallback?: (level: Level | null) => void;
+    private solvableCache: Map<string, boolean> = new Map();
 
     constructor(onLevelSelect: (level: Level) => void, gameDataManager?: GameDataManager) {
         this.onLevelSelect = onLevelSelect;
@@ -37,6 +45,7 @@ export class LevelsPanel {
         }
 
         this.initializePanel();
+        I18n.getInstance().onChange(() => this.renderLevels());
     }
 
     /**
@@ -45,14 +54,18 @@ export class LevelsPanel {
     private initializePanel(): void {
         this.container.innerHTML = `
             <div class="levels-panel-header">
-                <h2>Select a Level</h2>
+                <h2 data-i18n="levels.title"></h2>
                 <div class="header-buttons">
-                    <button class="home-btn" id="levels-home-btn">🏠 Home</button>
-                    <button class="close-btn" id="levels-close-btn">×</button>
+                    <button class="home-btn" id="levels-editor-btn" data-i18n="levels.editor" data-i18n-title="levels.editorTitle"></button>
+                    <button class="home-btn" id="levels-import-btn" data-i18n="levels.import" data-i18n-title="levels.importTitle"></button>
+                    <input type="file" id="levels-import-input" accept=".json,application/json" hidden>
+                    <button class="home-btn" id="levels-home-btn" data-i18n="levels.home"></button>
+                    <button class="close-btn" id="levels-close-btn" data-i18n-aria-label="common.close">×</button>
                 </div>
             </div>
             <div class="levels-grid" id="levels-grid"></div>
         `;
+        I18n.getInstance().translate(this.container);
 
         // Setup close button
         const closeBtn = document.getElementById('levels-close-btn');
@@ -61,6 +74,58 @@ export class LevelsPanel {
         // Setup home button
         const homeBtn = document.getElementById('levels-home-btn');
         homeBtn?.addEventListener('click', () => this.handleHome());
+
+        // Setup level editor button
+        const editorBtn = document.getElementById('levels-editor-btn');
+        editorBtn?.addEventListener('click', () => this.handleEdit(null));
+
+        // Setup level file import
+        const importInput = document.getElementById('levels-import-input') as HTMLInputElement;
+        const importBtn = document.getElementById('levels-import-btn');
+        importBtn?.addEventListener('click', () => importInput?.click());
+        importInput?.addEventListener('change', () => {
+            const file = importInput.files?.[0];
+            importInput.value = ''; // Allow importing the same file again
+            if (file) {
+                this.importLevelFile(file);
+            }
+        });
+    }
+
+    /**
+     * Read a .json level file and add it to the panel.
+     * A level imported with the same id as an earlier one replaces it.
+     */
+    private async importLevelFile(file: File): Promise<void> {
+        const notificationManager = NotificationManager.getInstance();
+        try {
+            const boardData = BoardData.fromJSON(await file.text());
+            const level = boardData.toImportedLevel();
+            const index = this.levels.findIndex((l) => l.id === level.id);
+            this.solvableCache.delete(level.id);
+            if (index !== -1) {
+                this.levels[index] = level;
+                this.renderLevels();
+            } else {
+                this.addLevel(level);
+            }
+            notificationManager.show(
+                I18n.getInstance().t('notify.levelImported', { name: level.name }),
+                'info',
+                3000,
+            );
+        } catch (error) {
+            console.error('Failed to import level:', error);
+            notificationManager.show((error as Error).message, 'error');
+        }
+    }
+
+    /**
+     * Download a level as a .json level file
+     */
+    private exportLevel(level: Level): void {
+        if (!level.source) return;
+        downloadJSON(`${level.source.id}.json`, level.source);
     }
 
     /**
@@ -117,6 +182,23 @@ export class LevelsPanel {
         return wonGames.length > 0;
     }
 
+    /**
+     * Check if every cuttable piece of a level can be reached without a penalty.
+     * The solver runs once per level id.
+     */
+    private isLevelSolvable(level: Level): boolean {
+        if (!this.solvableCache.has(level.id)) {
+            const solvable = isLevelSolvable(level.boardData);
+            if (!solvable) {
+                console.warn(
+                    `Level "${level.name}" has pieces no stroke can cut without a penalty`,
+                );
+            }
+            this.solvableCache.set(level.id, solvable);
+        }
+        return this.solvableCache.get(level.id)!;
+    }
+
     /**
      * Create a level card element
      */
@@ -125,29 +207,77 @@ export class LevelsPanel {
         card.className = 'level-card';
         card.dataset.levelId = level.id;
 
-        // Add difficulty class
-        card.classList.add(`difficulty-${level.difficulty}`);
+        // Add difficulty class, estimated from the board geometry
+        const difficulty = estimateDifficulty(level.boardData);
+        card.classList.add(`difficulty-${difficulty.stars}`);
 
         // Check if level is completed and add class
         if (this.isLevelCompleted(level)) {
             card.classList.add('completed');
         }
 
+        // Flag boards that can't be cleared without losing a life
+        const solvable = this.isLevelSolvable(level);
+        if (!solvable) {
+            card.classList.add('unsolvable');
+        }
+
         // Build difficulty stars
-        const stars = '★'.repeat(level.difficulty) + '☆'.repeat(5 - level.difficulty);
+        const stars = '★'.repeat(difficulty.stars) + '☆'.repeat(5 - difficulty.stars);
+        const { breakdown } = difficulty;
+        const i18n = I18n.getInstance();
+        const difficultyTitle = i18n.t('levels.difficulty', {
+            score: i18n.formatNumber(difficulty.score, {
+                minimumFractionDigits: 2,
+                maximumFractionDigits: 2,
+            }),
+            pieces: breakdown.arcCount,
+            shortest: i18n.formatNumber(breakdown.shortestArcLength, {
+                minimumFractionDigits: 1,
+                maximumFractionDigits: 1,
+            }),
+            clearance: i18n.formatNumber(breakdown.minClearance, {
+                minimumFractionDigits: 1,
+                maximumFractionDigits: 1,
+            }),
+        });
+
+        const par = (level.boardData as IBoardData).par;
+        const { name, description } = i18n.levelText(level);
 
         card.innerHTML = `
             <div class="level-card-header">
                 <span class="level-number">#${index + 1}</span>
-                <span class="level-difficulty">${stars}</span>
+                <span class="level-difficulty" title="${difficultyTitle}">${stars}</span>
             </div>
             <div class="level-card-body">
-                <h3 class="level-name">${level.name}</h3>
-                ${level.description ? `<p class="level-description">${level.description}</p>` : ''}
-                <div class="level-circles-count">Circles: ${level.boardData.length}</div>
+                <h3 class="level-name"></h3>
+                ${description ? '<p class="level-description"></p>' : ''}
+                <div class="level-circles-count">${i18n.t('levels.shapes', { count: level.boardData.length })}${par ? ` · ${i18n.t('levels.par', { count: par })}` : ''}</div>
+                ${isCircleLevel(level.boardData) ? `<button class="level-export-btn level-edit-btn" title="${i18n.t('levels.editTitle')}">${i18n.t('levels.edit')}</button>` : ''}
+                ${level.source ? `<button class="level-export-btn" title="${i18n.t('levels.exportTitle')}">${i18n.t('levels.export')}</button>` : ''}
+                ${solvable ? '' : `<div class="level-unsolvable" title="${i18n.t('levels.unsolvableTitle')}">${i18n.t('levels.unsolvable')}</div>`}
             </div>
         `;
 
+        // Set as text: imported level files can hold any name and description
+        card.querySelector('.level-name')!.textContent = name;
+        const descriptionElem = card.querySelector('.level-description');
+        if (descriptionElem) descriptionElem.textContent = description ?? '';
+
+        card.querySelector('.level-edit-btn')?.addEventListener('click', (event) => {
+            // Don't start the level
+            event.stopPropagation();
+            this.handleEdit(level);
+        });
+        card.querySelector('.level-export-btn:not(.level-edit-btn)')?.addEventListener(
+            'click',
+            (event) => {
+                event.stopPropagation();
+                this.exportLevel(level);
+            },
+        );
+
         card.addEventListener('click', () => {
             this.currentLevelIndex = index;
             this.hasActiveGame = true;
@@ -172,6 +302,23 @@ export class LevelsPanel {
         this.onHomeCallback = callback;
     }
 
+    /**
+     * Set callback to be called to open the level editor, with the level to edit
+     * or null for a new level
+     */
+    setOnEditCallback(callback: (level: Level | null) => void): void {
+        this.onEditCallback = callback;
+    }
+
+    /**
+     * Handle opening the level editor
+     */
+    private handleEdit(level: Level | null): void {
+        if (!this.onEditCallback) return;
+        this.hide();
+        this.onEditCallback(level);
+    }
+
     /**
      * Handle Home button click - returns to landing page
      */
@@ -277,3 +424,12 @@ export class LevelsPanel {
         return this.container.style.display !== 'none';
     }
 }
+
+/**
+ * The level editor only edits circles that stand still
+ */
+function isCircleLevel(shapes: IShapeData[]): shapes is ICircle[] {
+    return shapes.every(
+        (shape) => (shape.kind === undefined || shape.kind === 'circle') && !isMoving(shape),
+    );
+}
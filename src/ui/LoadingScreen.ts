@@ -1,3 +1,5 @@
+import { t } from '../i18n/I18n.js';
+
 /**
  * LoadingScreen - Shows a loading spinner while data is being loaded
  */
@@ -8,7 +10,7 @@ export class LoadingScreen {
      * Shows the loading screen
      * @param message - Optional custom loading message
      */
-    show(message: string = 'Loading your game data...'): void {
+    show(message: string = t('loading.gameData')): void {
         this.createLoadingPanel(message);
         this.loadingPanel!.style.display = 'flex';
     }
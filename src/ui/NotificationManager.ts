@@ -1,3 +1,5 @@
+import { t } from '../i18n/I18n.js';
+
 /**
  * NotificationManager - Displays temporary notifications to the user
  */
@@ -73,10 +75,6 @@ export class NotificationManager {
      * @param message - Custom message or default
      */
     showOfflineMessage(message?: string): void {
-        this.show(
-            message || 'You are offline. Game data was not uploaded.',
-            'warning',
-            5000
-        );
+        this.show(message || t('notify.offline'), 'warning', 5000);
     }
 }
@@ -0,0 +1,77 @@
+import { I18n } from '../i18n/I18n.js';
+
+/**
+ * PauseMenu - Overlay shown while the game is paused. It covers the board and
+ * offers to resume, restart or quit the game.
+ */
+export class PauseMenu {
+    private container: HTMLElement;
+    private onResumeCallback?: () => void;
+    private onRestartCallback?: () => void;
+    private onQuitCallback?: () => void;
+
+    constructor() {
+        this.container = document.getElementById('pause-menu')!;
+        if (!this.container) {
+            throw new Error('pause-menu container not found');
+        }
+
+        this.initializeMenu();
+    }
+
+    /**
+     * Initialize the menu structure
+     */
+    private initializeMenu(): void {
+        this.container.innerHTML = `
+            <h2 class="pause-menu-title" data-i18n="pause.title"></h2>
+            <button id="pause-resume-btn" class="pause-menu-button primary" data-i18n="common.resume"></button>
+            <button id="pause-restart-btn" class="pause-menu-button" data-i18n="pause.restart"></button>
+            <button id="pause-quit-btn" class="pause-menu-button" data-i18n="pause.quit"></button>
+        `;
+        I18n.getInstance().translate(this.container);
+
+        document
+            .getElementById('pause-resume-btn')
+            ?.addEventListener('click', () => this.onResumeCallback?.());
+        document
+            .getElementById('pause-restart-btn')
+            ?.addEventListener('click', () => this.onRestartCallback?.());
+        document
+            .getElementById('pause-quit-btn')
+            ?.addEventListener('click', () => this.onQuitCallback?.());
+    }
+
+    /**
+     * Set callback to be called when resume is pressed
+     */
+    setOnResumeCallback(callback: () => void): void {
+        this.onResumeCallback = callback;
+    }
+
+    /**
+     * Set callback to be called when restart is pressed
+     */
+    setOnRestartCallback(callback: () => void): void {
+        this.onRestartCallback = callback;
+    }
+
+    /**
+     * Set callback to be called when quit is pressed
+     */
+    setOnQuitCallback(callback: () => void): void {
+        this.onQuitCallback = callback;
+    }
+
+    show(): void {
+        this.container.style.display = 'flex';
+    }
+
+    hide(): void {
+        this.container.style.display = 'none';
+    }
+
+    isVisible(): boolean {
+        return this.container.style.display === 'flex';
+    }
+}
@@ -1,5 +1,6 @@
 import { PlayerIdentity } from '../game/PlayerIdentity.js';
 import { AuthManager } from '../auth/AuthManager.js';
+import { I18n } from '../i18n/I18n.js';
 
 /**
  * PlayerCard - Displays player information and stats in an expandable card
@@ -35,7 +36,7 @@ export class PlayerCard {
                     </div>
                     <div class="player-info">
                         <div class="player-name" id="player-name">Player</div>
-                        <div class="player-status">Click to expand</div>
+                        <div class="player-status" data-i18n="player.expand"></div>
                     </div>
                     <div class="expand-icon">
                         <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor">
@@ -45,18 +46,20 @@ export class PlayerCard {
                 </div>
                 <div class="player-card-expanded" id="player-card-expanded">
                     <div class="player-stats-container">
-                        <h3 class="stats-title">Player Statistics</h3>
+                        <h3 class="stats-title" data-i18n="player.statsTitle"></h3>
                         <div class="player-stats-content">
                             <!-- Stats will be populated here in the future -->
-                            <p class="stats-placeholder">More stats coming soon!</p>
+                            <p class="stats-placeholder" data-i18n="player.statsPlaceholder"></p>
                         </div>
                         <div class="player-actions">
-                            <button id="logout-btn" class="btn-logout">Logout</button>
+                            <button id="logout-btn" class="btn-logout" data-i18n="player.logout"></button>
                         </div>
                     </div>
                 </div>
             `;
 
+            I18n.getInstance().translate(card);
+
             document.body.appendChild(card);
         }
 
@@ -1,3 +1,5 @@
+import { I18n } from '../i18n/I18n.js';
+
 /**
  * ProgressCard - Displays game progress including lives, timer, and completion percentage
  */
@@ -6,7 +8,9 @@ export class ProgressCard {
     private livesContainer: HTMLElement;
     private timerElement: HTMLElement;
     private progressElement: HTMLElement;
+    private splitElement: HTMLElement;
     private onHintCallback?: () => void;
+    private onPauseCallback?: () => void;
     private maxLives: number = 3;
     private currentLives: number = 3;
     private startTime: number = 0;
@@ -22,6 +26,7 @@ export class ProgressCard {
         this.livesContainer = document.getElementById('lives-container')!;
         this.timerElement = document.getElementById('timer-value')!;
         this.progressElement = document.getElementById('progress-percentage')!;
+        this.splitElement = document.getElementById('split-value')!;
     }
 
     /**
@@ -32,6 +37,13 @@ export class ProgressCard {
         this.onHintCallback = callback;
     }
 
+    /**
+     * Register a callback that will be called when the pause button is pressed
+     */
+    setOnPauseCallback(callback: () => void): void {
+        this.onPauseCallback = callback;
+    }
+
     /**
      * Initialize the progress card structure
      */
@@ -39,25 +51,31 @@ export class ProgressCard {
         this.container.innerHTML = `
             <div class="progress-card-content">
                 <div class="lives-section">
-                    <div id="lives-container" class="lives-container"></div>
+                    <div id="lives-container" class="lives-container" role="img"></div>
                 </div>
                 <div class="progress-stats-section">
                     <div class="timer-display">
                         <span class="stat-icon">⏱️</span>
-                        <span id="timer-value" class="stat-value">00:00</span>
+                        <span id="timer-value" class="stat-value">0:00</span>
                     </div>
                     <div class="progress-display">
                         <span class="stat-icon">📊</span>
                         <span id="progress-percentage" class="stat-value">0%</span>
                     </div>
+                    <div id="split-value" class="split-display" data-i18n-title="progress.split"></div>
                 </div>
-                <button id="hint-button" class="hint-button">💡 Hint</button>
+                <button id="hint-button" class="hint-button" data-i18n="progress.hint"></button>
+                <button id="pause-button" class="pause-button" data-i18n-title="progress.pause">⏸</button>
             </div>
         `;
+        I18n.getInstance().translate(this.container);
 
         // Setup hint button event listener
         const hintButton = document.getElementById('hint-button')!;
         hintButton.addEventListener('click', () => this.onHintClick());
+        document
+            .getElementById('pause-button')!
+            .addEventListener('click', () => this.onPauseCallback?.());
     }
 
     /**
@@ -114,14 +132,7 @@ export class ProgressCard {
      */
     private updateTimer(): void {
         const elapsed = Date.now() - this.startTime;
-        const seconds = Math.floor(elapsed / 1000);
-        const minutes = Math.floor(seconds / 60);
-        const remainingSeconds = seconds % 60;
-
-        const minutesStr = minutes < 10 ? '0' + minutes : minutes.toString();
-        const secondsStr = remainingSeconds < 10 ? '0' + remainingSeconds : remainingSeconds.toString();
-
-        this.timerElement.textContent = `${minutesStr}:${secondsStr}`;
+        this.timerElement.textContent = I18n.getInstance().formatDuration(elapsed);
     }
 
     /**
@@ -132,11 +143,29 @@ export class ProgressCard {
         this.progressElement.textContent = `${progress}%`;
     }
 
+    /**
+     * Show the split against the ghost run
+     * @param delta - Milliseconds behind the ghost (negative when ahead), or null to hide the split
+     */
+    updateSplit(delta: number | null): void {
+        this.splitElement.classList.remove('ahead', 'behind');
+        if (delta === null) {
+            this.splitElement.textContent = '';
+            return;
+        }
+        const sign = delta > 0 ? '+' : '−';
+        this.splitElement.textContent = `${sign}${(Math.abs(delta) / 1000).toFixed(1)}s`;
+        this.splitElement.classList.add(delta > 0 ? 'behind' : 'ahead');
+    }
+
     /**
      * Reset lives to maximum
+     * @param maxLives - New maximum, e.g. from the level settings (default: keep the current one)
+     * @param currentLives - Lives to start with, e.g. carried over in an endless run (default: the maximum)
      */
-    resetLives(): void {
-        this.currentLives = this.maxLives;
+    resetLives(maxLives: number = this.maxLives, currentLives: number = maxLives): void {
+        this.maxLives = maxLives;
+        this.currentLives = Math.min(currentLives, this.maxLives);
         this.renderLives();
     }
 
@@ -165,6 +194,13 @@ export class ProgressCard {
      */
     private renderLives(): void {
         this.livesContainer.innerHTML = '';
+        this.livesContainer.setAttribute(
+            'aria-label',
+            I18n.getInstance().t('progress.lives', {
+                lives: this.currentLives,
+                count: this.maxLives,
+            }),
+        );
 
         for (let i = 0; i < this.maxLives; i++) {
             const life = document.createElement('div');
@@ -218,5 +254,6 @@ export class ProgressCard {
         this.resetLives();
         this.startTimer();
         this.updateProgress('0');
+        this.updateSplit(null);
     }
 }
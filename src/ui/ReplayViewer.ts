@@ -0,0 +1,253 @@
+import type p5 from 'p5';
+import { Board } from '../game/Board.js';
+import { createRngFromSeed } from '../game/BoardData.js';
+import { IStrokeResult } from '../game/core/BoardModel.js';
+import { IMatchDocument } from '../data/matchDocument.js';
+import { IReplayTarget, MatchReplay } from '../game/replay/MatchReplay.js';
+import { CameraController } from '../camera/CameraController.js';
+import { SoundManager } from '../sound/SoundManager.js';
+import { GameEventBus } from '../game/GameEvents.js';
+import { ILine } from '../game/types.js';
+import { ThemeManager } from '../theme/ThemeManager.js';
+import { I18n } from '../i18n/I18n.js';
+
+const SPEEDS = [0.5, 1, 2, 4];
+const TRAIL_LENGTH = 12; // Stroke segments drawn behind the blade
+
+/**
+ * ReplayViewer - Watches a recorded game: plays its inputs into a fresh board with
+ * play, pause, scrub and speed controls. Seeking back rebuilds the board and replays
+ * up to the new time without effects.
+ */
+export class ReplayViewer implements IReplayTarget {
+    private p: p5;
+    private camera: CameraController;
+    // Events of the replayed board, kept apart from the game's so replays don't count in stats
+    private events: GameEventBus = new GameEventBus();
+    private container: HTMLElement;
+    private match: IMatchDocument | null = null;
+    private board: Board | null = null;
+    private replay: MatchReplay | null = null;
+    private playing: boolean = false;
+    private speed: number = 1;
+    // Seeking applies inputs straight to the rules, without sounds and animations
+    private seeking: boolean = false;
+    private trail: ILine[] = [];
+    private onCloseCallback?: () => void;
+
+    constructor(p: p5, camera: CameraController, soundManager: SoundManager) {
+        this.p = p;
+        this.camera = camera;
+        soundManager.subscribeTo(this.events);
+        this.container = document.getElementById('replay-panel')!;
+
+        if (!this.container) {
+            throw new Error('replay-panel container not found');
+        }
+
+        this.initializePanel();
+    }
+
+    /**
+     * Initialize the panel structure
+     */
+    private initializePanel(): void {
+        this.container.innerHTML = `
+            <button id="replay-play-btn">▶</button>
+            <input type="range" id="replay-scrub" min="0" max="0" step="10" value="0">
+            <span class="replay-time" id="replay-time">0:00 / 0:00</span>
+            <select id="replay-speed">
+                ${SPEEDS.map((speed) => `<option value="${speed}"${speed === 1 ? ' selected' : ''}>${speed}×</option>`).join('')}
+            </select>
+            <button id="replay-close-btn">×</button>
+        `;
+
+        document
+            .getElementById('replay-play-btn')
+            ?.addEventListener('click', () => this.togglePlaying());
+        document.getElementById('replay-scrub')?.addEventListener('input', (event) => {
+            this.seek(parseFloat((event.target as HTMLInputElement).value));
+        });
+        document.getElementById('replay-speed')?.addEventListener('change', (event) => {
+            this.speed = parseFloat((event.target as HTMLSelectElement).value);
+        });
+        document.getElementById('replay-close-btn')?.addEventListener('click', () => {
+            this.close();
+            if (this.onCloseCallback) {
+                this.onCloseCallback();
+            }
+        });
+    }
+
+    /**
+     * Set callback to be called when the viewer is closed
+     */
+    setOnCloseCallback(callback: () => void): void {
+        this.onCloseCallback = callback;
+    }
+
+    /**
+     * Open the viewer on a recording and start playing it from the beginning
+     */
+    open(match: IMatchDocument): void {
+        this.match = match;
+        const scrub = document.getElementById('replay-scrub') as HTMLInputElement | null;
+        if (scrub) scrub.max = match.duration.toString();
+
+        this.restart();
+        this.setPlaying(true);
+        this.container.style.display = 'flex';
+    }
+
+    /**
+     * Close the viewer
+     */
+    close(): void {
+        this.setPlaying(false);
+        this.match = null;
+        this.board?.detach();
+        this.board = null;
+        this.replay = null;
+        this.container.style.display = 'none';
+    }
+
+    /**
+     * Whether a recording is being watched
+     */
+    isActive(): boolean {
+        return this.match !== null;
+    }
+
+    /**
+     * Advances playback by real time
+     * @param deltaTime - Milliseconds since the last frame
+     */
+    update(deltaTime: number): void {
+        if (!this.replay || !this.board || !this.match) return;
+
+        if (this.playing) {
+            this.replay.advanceTo(
+                Math.min(this.match.duration, this.replay.time + deltaTime * this.speed),
+            );
+            if (this.replay.time >= this.match.duration) {
+                this.setPlaying(false);
+            }
+            this.updateControls();
+        }
+        this.board.update();
+    }
+
+    /**
+     * Draws the board through the recorded camera, scaled to the current canvas
+     */
+    draw(): void {
+        if (!this.replay || !this.board || !this.match) return;
+
+        const recorded = this.replay.camera;
+        if (recorded) {
+            const { width, height } = this.match.viewport;
+            const scale = Math.min(this.p.width / width, this.p.height / height);
+            this.camera.jumpTo({
+                zoom: recorded.zoom * scale,
+                panX: recorded.panX * scale,
+                panY: recorded.panY * scale,
+            });
+        } else {
+            this.camera.jumpTo({
+                zoom: this.camera.calculateZoomScale(this.match.shapes),
+                panX: 0,
+                panY: 0,
+            });
+        }
+        this.camera.applyTransform();
+        this.board.draw([], this.camera.zoomLevel);
+
+        // The blade, fading towards its tail
+        this.p.push();
+        this.p.strokeCap(this.p.ROUND);
+        const color = ThemeManager.getInstance().getTheme().arc;
+        this.trail.forEach((line, index) => {
+            this.p.stroke(...color, (255 * (index + 1)) / this.trail.length);
+            this.p.strokeWeight(4 / this.camera.zoomLevel);
+            this.p.line(line.start.x, line.start.y, line.end.x, line.end.y);
+        });
+        this.p.pop();
+    }
+
+    setTime(time: number): void {
+        this.board?.setTime(time);
+    }
+
+    processStroke(line: ILine): IStrokeResult {
+        this.trail.push(line);
+        if (this.trail.length > TRAIL_LENGTH) this.trail.shift();
+        return this.seeking
+            ? this.board!.model.processStroke(line)
+            : this.board!.processStroke(line);
+    }
+
+    recordHintUsed(): boolean {
+        return this.board!.recordHintUsed();
+    }
+
+    /**
+     * Replays up to a time. Going back starts over on a new board.
+     * @param time - Board time in milliseconds
+     */
+    private seek(time: number): void {
+        if (!this.replay) return;
+        if (time < this.replay.time) {
+            this.restart();
+        }
+        this.seeking = true;
+        this.replay!.advanceTo(time);
+        this.seeking = false;
+        this.trail = [];
+        this.updateControls();
+    }
+
+    /**
+     * Starts the replay over on a fresh board
+     */
+    private restart(): void {
+        const match = this.match!;
+        this.board?.detach();
+        this.board = new Board(
+            this.p,
+            match.shapes,
+            this.events,
+            match.lives,
+            createRngFromSeed(match.hintSeed),
+        );
+        this.replay = new MatchReplay(match, this);
+        this.trail = [];
+        this.updateControls();
+    }
+
+    private togglePlaying(): void {
+        if (!this.playing && this.replay && this.match && this.replay.time >= this.match.duration) {
+            this.restart();
+        }
+        this.setPlaying(!this.playing);
+    }
+
+    private setPlaying(playing: boolean): void {
+        this.playing = playing;
+        const playBtn = document.getElementById('replay-play-btn');
+        if (playBtn) playBtn.textContent = playing ? '❚❚' : '▶';
+    }
+
+    /**
+     * Moves the scrub bar and time label to the replay time
+     */
+    private updateControls(): void {
+        if (!this.replay || !this.match) return;
+        const scrub = document.getElementById('replay-scrub') as HTMLInputElement | null;
+        if (scrub) scrub.value = this.replay.time.toString();
+        const timeElem = document.getElementById('replay-time');
+        if (timeElem) {
+            const i18n = I18n.getInstance();
+            timeElem.textContent = `${i18n.formatDuration(this.replay.time)} / ${i18n.formatDuration(this.match.duration)}`;
+        }
+    }
+}
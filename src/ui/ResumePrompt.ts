@@ -0,0 +1,87 @@
+import { ISavedGame } from '../data/SavedGameStore.js';
+import { I18n } from '../i18n/I18n.js';
+
+/**
+ * ResumePrompt - Offers to continue the game the player left in progress, e.g.
+ * on launch after the page was reloaded or closed mid-level
+ */
+export class ResumePrompt {
+    private container: HTMLElement;
+    private onResumeCallback?: (saved: ISavedGame) => void;
+    private onDiscardCallback?: () => void;
+    private saved: ISavedGame | null = null;
+
+    constructor() {
+        this.container = document.getElementById('resume-prompt')!;
+        if (!this.container) {
+            throw new Error('resume-prompt container not found');
+        }
+
+        this.initializePrompt();
+    }
+
+    /**
+     * Initialize the prompt structure
+     */
+    private initializePrompt(): void {
+        this.container.innerHTML = `
+            <h2 class="pause-menu-title" data-i18n="resume.title"></h2>
+            <p id="resume-prompt-details" class="resume-prompt-details"></p>
+            <button id="resume-prompt-resume-btn" class="pause-menu-button primary" data-i18n="common.resume"></button>
+            <button id="resume-prompt-discard-btn" class="pause-menu-button" data-i18n="resume.discard"></button>
+        `;
+        I18n.getInstance().translate(this.container);
+
+        document.getElementById('resume-prompt-resume-btn')?.addEventListener('click', () => {
+            const saved = this.saved;
+            this.hide();
+            if (saved && this.onResumeCallback) {
+                this.onResumeCallback(saved);
+            }
+        });
+        document.getElementById('resume-prompt-discard-btn')?.addEventListener('click', () => {
+            this.hide();
+            if (this.onDiscardCallback) {
+                this.onDiscardCallback();
+            }
+        });
+    }
+
+    /**
+     * Set callback to be called with the saved game when resume is pressed
+     */
+    setOnResumeCallback(callback: (saved: ISavedGame) => void): void {
+        this.onResumeCallback = callback;
+    }
+
+    /**
+     * Set callback to be called when the saved game is discarded
+     */
+    setOnDiscardCallback(callback: () => void): void {
+        this.onDiscardCallback = callback;
+    }
+
+    /**
+     * Show the prompt for a saved game
+     */
+    show(saved: ISavedGame): void {
+        this.saved = saved;
+        const i18n = I18n.getInstance();
+        const details = document.getElementById('resume-prompt-details');
+        if (details) {
+            details.textContent = i18n.t('resume.details', {
+                name: saved.level.name
+                    ? i18n.levelName(saved.level.name)
+                    : i18n.t('resume.customBoard'),
+                time: i18n.formatDuration(saved.boardTime),
+                date: i18n.formatDateTime(saved.savedAt),
+            });
+        }
+        this.container.style.display = 'flex';
+    }
+
+    hide(): void {
+        this.saved = null;
+        this.container.style.display = 'none';
+    }
+}
@@ -1,4 +1,6 @@
 import { FirestoreService } from '../data/FirestoreService.js';
+import { getChallengeDate } from '../game/DailyChallenge.js';
+import { I18n } from '../i18n/I18n.js';
 
 interface GameStats {
     gameName: string;
@@ -13,6 +15,7 @@ interface BestScore {
     playerName: string;
     startTime: number;
     endTime: number;
+    pausedTime?: number;
     hintsUsed: number;
     successfulIntersections: number;
     gameDifficulty: number;
@@ -27,10 +30,36 @@ interface LeaderboardEntry {
     averageDifficulty: number;
 }
 
+interface DailyLeaderboardEntry {
+    playerName: string;
+    won: boolean;
+    duration: number | null;
+    hintsUsed: number;
+    successfulIntersections: number;
+}
+
+interface EndlessLeaderboardEntry {
+    playerName: string;
+    runsPlayed: number;
+    bestBoardsCleared: number;
+    bestTotalTime: number;
+    totalBoardsCleared: number;
+}
+
 interface GeneralStats {
     mostPlayedGames: string[];
 }
 
+/**
+ * The summary documents the page shows, null where there is none
+ */
+interface SummaryDocs {
+    leaderboard: { [key: string]: LeaderboardEntry } | null;
+    gameStats: { [key: string]: GameStats } | null;
+    daily: { [date: string]: DailyLeaderboardEntry[] } | null;
+    endless: { [key: string]: EndlessLeaderboardEntry } | null;
+}
+
 /**
  * StatsLandingPage - Beautiful landing page showing statistics and leaderboards
  */
@@ -38,9 +67,20 @@ export class StatsLandingPage {
     private landingPanel: HTMLElement | null = null;
     private firestoreService: FirestoreService;
     private onPlayCallback?: () => void;
+    private onDailyChallengeCallback?: (practice: boolean) => void;
+    private onEndlessCallback?: () => void;
+    private dailyChallengePlayed: boolean = false;
+    private summary: SummaryDocs | null = null;
 
     constructor(firestoreService: FirestoreService) {
         this.firestoreService = firestoreService;
+
+        // Redraw in the new language, without loading the statistics again
+        I18n.getInstance().onChange(() => {
+            if (!this.landingPanel) return;
+            this.updateDailyChallengeButtons();
+            if (this.summary) this.displayStats(this.summary);
+        });
     }
 
     /**
@@ -51,6 +91,10 @@ export class StatsLandingPage {
         this.landingPanel!.style.display = 'flex';
     }
 
+    isVisible(): boolean {
+        return this.landingPanel?.style.display === 'flex';
+    }
+
     /**
      * Hides the landing page
      */
@@ -67,6 +111,29 @@ export class StatsLandingPage {
         this.onPlayCallback = callback;
     }
 
+    /**
+     * Sets the callback for the daily challenge buttons
+     * @param callback - Called with true for a practice run, false for the scored attempt
+     */
+    setOnDailyChallengeCallback(callback: (practice: boolean) => void): void {
+        this.onDailyChallengeCallback = callback;
+    }
+
+    /**
+     * Sets the callback for starting an endless run
+     */
+    setOnEndlessCallback(callback: () => void): void {
+        this.onEndlessCallback = callback;
+    }
+
+    /**
+     * Sets whether the player already used today's scored attempt
+     */
+    setDailyChallengePlayed(played: boolean): void {
+        this.dailyChallengePlayed = played;
+        this.updateDailyChallengeButtons();
+    }
+
     /**
      * Creates the landing panel HTML structure
      */
@@ -82,34 +149,60 @@ export class StatsLandingPage {
                 <div class="stats-landing-container">
                     <header class="stats-header">
                         <h1 class="stats-main-title">🎯 Bubble Trim</h1>
-                        <p class="stats-subtitle">Cut the overlapping circles!</p>
+                        <p class="stats-subtitle" data-i18n="common.tagline"></p>
                     </header>
 
-                    <button id="play-button" class="btn-play">PLAY</button>
+                    <button id="play-button" class="btn-play" data-i18n="landing.play"></button>
 
                     <div class="stats-content">
+                        <section class="stats-section stats-section-daily">
+                            <h2 class="section-title" data-i18n="landing.dailyTitle"></h2>
+                            <p id="daily-challenge-date" class="daily-challenge-date"></p>
+                            <div class="daily-challenge-actions">
+                                <button id="daily-play-button" class="btn-daily"></button>
+                                <button id="daily-practice-button" class="btn-daily btn-daily-practice" data-i18n="landing.dailyPractice"></button>
+                            </div>
+                            <div id="daily-leaderboard" class="leaderboard-list">
+                                <div class="loading-text" data-i18n="common.loading"></div>
+                            </div>
+                        </section>
+
+                        <section class="stats-section stats-section-endless">
+                            <h2 class="section-title" data-i18n="landing.endlessTitle"></h2>
+                            <p class="endless-description" data-i18n="landing.endlessDescription"></p>
+                            <div class="endless-actions">
+                                <button id="endless-play-button" class="btn-daily" data-i18n="landing.endlessStart"></button>
+                            </div>
+                            <div id="endless-leaderboard" class="leaderboard-list">
+                                <div class="loading-text" data-i18n="common.loading"></div>
+                            </div>
+                        </section>
+
                         <section class="stats-section stats-section-leaderboard">
-                            <h2 class="section-title">🏆 Top Players</h2>
+                            <h2 class="section-title" data-i18n="landing.topPlayers"></h2>
                             <div id="leaderboard" class="leaderboard-list">
-                                <div class="loading-text">Loading...</div>
+                                <div class="loading-text" data-i18n="common.loading"></div>
                             </div>
                         </section>
 
                         <section class="stats-section stats-section-game-stats">
-                            <h2 class="section-title">🎮 Game Statistics</h2>
+                            <h2 class="section-title" data-i18n="landing.gameStats"></h2>
                             <div id="game-stats" class="game-stats-grid">
-                                <div class="loading-text">Loading...</div>
+                                <div class="loading-text" data-i18n="common.loading"></div>
                             </div>
                         </section>
                     </div>
                 </div>
             `;
 
+            I18n.getInstance().translate(panel);
             document.body.appendChild(panel);
+            this.landingPanel = panel;
+            this.setupEventListeners();
         }
 
         this.landingPanel = panel;
-        this.setupEventListeners();
+        this.updateDailyChallengeButtons();
     }
 
     /**
@@ -122,6 +215,35 @@ export class StatsLandingPage {
                 this.onPlayCallback();
             }
         });
+
+        document.getElementById('daily-play-button')?.addEventListener('click', () => {
+            this.onDailyChallengeCallback?.(false);
+        });
+        document.getElementById('daily-practice-button')?.addEventListener('click', () => {
+            this.onDailyChallengeCallback?.(true);
+        });
+        document.getElementById('endless-play-button')?.addEventListener('click', () => {
+            this.onEndlessCallback?.();
+        });
+    }
+
+    /**
+     * Shows today's date and disables the scored attempt once it has been used
+     */
+    private updateDailyChallengeButtons(): void {
+        const i18n = I18n.getInstance();
+        const date = document.getElementById('daily-challenge-date');
+        if (date) {
+            date.textContent = i18n.t('landing.dailyDate', { date: getChallengeDate() });
+        }
+
+        const playButton = document.getElementById('daily-play-button') as HTMLButtonElement | null;
+        if (playButton) {
+            playButton.disabled = this.dailyChallengePlayed;
+            playButton.textContent = i18n.t(
+                this.dailyChallengePlayed ? 'landing.dailyPlayed' : 'landing.dailyPlay',
+            );
+        }
     }
 
     /**
@@ -130,30 +252,54 @@ export class StatsLandingPage {
     async loadAndDisplayStats(): Promise<void> {
         try {
             // Load data from Firestore summary collection
-            const [leaderboardData, gameStatsData] = await Promise.all([
+            const [leaderboard, gameStats, daily, endless] = await Promise.all([
                 this.loadSummaryDoc('leaderboard'),
-                this.loadSummaryDoc('game-stats')
+                this.loadSummaryDoc('game-stats'),
+                this.loadSummaryDoc('daily-challenge'),
+                this.loadSummaryDoc('endless-leaderboard'),
             ]);
-
-            // Display leaderboard
-            if (leaderboardData) {
-                this.displayLeaderboard(leaderboardData);
-            } else {
-                this.displayNoData('leaderboard');
-            }
-
-            // Display game stats
-            if (gameStatsData) {
-                this.displayGameStats(gameStatsData);
-            } else {
-                this.displayNoData('game-stats');
-            }
+            this.summary = { leaderboard, gameStats, daily, endless };
+            this.displayStats(this.summary);
         } catch (error) {
             console.error('Error loading statistics:', error);
             this.displayError();
         }
     }
 
+    /**
+     * Displays the loaded summary documents
+     */
+    private displayStats({ leaderboard, gameStats, daily, endless }: SummaryDocs): void {
+        // Display endless run leaderboard
+        if (endless) {
+            this.displayEndlessLeaderboard(endless);
+        } else {
+            this.displayNoData('endless-leaderboard');
+        }
+
+        // Display today's daily challenge results
+        const todayResults = daily?.[getChallengeDate()];
+        if (todayResults && todayResults.length > 0) {
+            this.displayDailyLeaderboard(todayResults);
+        } else {
+            this.displayNoData('daily-leaderboard');
+        }
+
+        // Display leaderboard
+        if (leaderboard) {
+            this.displayLeaderboard(leaderboard);
+        } else {
+            this.displayNoData('leaderboard');
+        }
+
+        // Display game stats
+        if (gameStats) {
+            this.displayGameStats(gameStats);
+        } else {
+            this.displayNoData('game-stats');
+        }
+    }
+
     /**
      * Loads a document from the summary collection
      */
@@ -194,19 +340,97 @@ export class StatsLandingPage {
             return;
         }
 
+        const i18n = I18n.getInstance();
         container.innerHTML = sortedPlayers.map((player, index) => `
             <div class="leaderboard-item">
                 <span class="rank">${index + 1}</span>
                 <div class="player-info">
                     <span class="player-name">${player.playerName}</span>
                     <span class="player-stats">
-                        ${player.totalGamesWon} wins • ${player.totalGamesPlayed} games
+                        ${i18n.t('landing.playerResult', {
+                            wins: i18n.t('count.wins', { count: player.totalGamesWon }),
+                            games: i18n.t('count.games', { count: player.totalGamesPlayed }),
+                        })}
                     </span>
                 </div>
             </div>
         `).join('');
     }
 
+    /**
+     * Displays the results of today's daily challenge, best first
+     */
+    private displayDailyLeaderboard(entries: DailyLeaderboardEntry[]): void {
+        const container = document.getElementById('daily-leaderboard');
+        if (!container) return;
+
+        const i18n = I18n.getInstance();
+        container.innerHTML = entries
+            .slice(0, 10)
+            .map((entry, index) => {
+                let result = i18n.t('count.cuts', { count: entry.successfulIntersections });
+                if (entry.won && entry.duration !== null) {
+                    const time = i18n.formatDuration(entry.duration, { milliseconds: true });
+                    result = `${time} • ${i18n.t('count.hints', { count: entry.hintsUsed })}`;
+                }
+
+                return `
+                <div class="leaderboard-item">
+                    <span class="rank">${index + 1}</span>
+                    <div class="player-info">
+                        <span class="player-name">${entry.playerName}</span>
+                        <span class="player-stats">${entry.won ? '✅' : '❌'} ${result}</span>
+                    </div>
+                </div>
+            `;
+            })
+            .join('');
+    }
+
+    /**
+     * Displays the best endless runs: most boards cleared, then fastest
+     */
+    private displayEndlessLeaderboard(endlessData: {
+        [key: string]: EndlessLeaderboardEntry;
+    }): void {
+        const container = document.getElementById('endless-leaderboard');
+        if (!container) return;
+
+        const sortedPlayers = Object.values(endlessData)
+            .sort(
+                (a, b) =>
+                    b.bestBoardsCleared - a.bestBoardsCleared || a.bestTotalTime - b.bestTotalTime,
+            )
+            .slice(0, 5);
+
+        if (sortedPlayers.length === 0) {
+            this.displayNoData('endless-leaderboard');
+            return;
+        }
+
+        const i18n = I18n.getInstance();
+        container.innerHTML = sortedPlayers
+            .map((player, index) => {
+                const result = i18n.t('landing.endlessResult', {
+                    boards: i18n.t('count.boards', { count: player.bestBoardsCleared }),
+                    time: i18n.formatDuration(player.bestTotalTime),
+                    runs: i18n.t('count.runs', { count: player.runsPlayed }),
+                });
+                return `
+                <div class="leaderboard-item">
+                    <span class="rank">${index + 1}</span>
+                    <div class="player-info">
+                        <span class="player-name">${player.playerName}</span>
+                        <span class="player-stats">
+                            ${result}
+                        </span>
+                    </div>
+                </div>
+            `;
+            })
+            .join('');
+    }
+
     /**
      * Displays game statistics
      */
@@ -222,35 +446,36 @@ export class StatsLandingPage {
             return;
         }
 
-        container.innerHTML = games.map(game => {
-            const winRate = game.totalPlays > 0 ? Math.round((game.numberWins / game.totalPlays) * 100) : 0;
-            const avgDuration = game.averageDuration;
-            const min = Math.floor(avgDuration / 60000);
-            const sec = Math.floor((avgDuration % 60000) / 1000);
-            const ms = avgDuration % 1000;
-            const avgDurationStr = `${min}:${sec.toString().padStart(2, '0')}:${ms.toString().padStart(3, '0')}`;
+        const i18n = I18n.getInstance();
+        container.innerHTML = games
+            .map((game) => {
+                const winRate =
+                    game.totalPlays > 0 ? Math.round((game.numberWins / game.totalPlays) * 100) : 0;
+                const avgDurationStr = i18n.formatDuration(game.averageDuration, {
+                    milliseconds: true,
+                });
 
             // Generate top 5 best players HTML
             const bestScoresHTML = this.generateBestScoresHTML(game.bestScores || []);
 
             return `
                 <div class="game-stat-card">
-                    <h3 class="game-stat-name">${game.gameName}</h3>
+                    <h3 class="game-stat-name">${i18n.levelName(game.gameName)}</h3>
                     <div class="game-stat-details">
                         <div class="stat-item">
-                            <span class="stat-label">Plays</span>
-                            <span class="stat-value">${game.totalPlays}</span>
+                            <span class="stat-label">${i18n.t('landing.plays')}</span>
+                            <span class="stat-value">${i18n.formatNumber(game.totalPlays)}</span>
                         </div>
                         <div class="stat-item">
-                            <span class="stat-label">Wins</span>
-                            <span class="stat-value">${game.numberWins}</span>
+                            <span class="stat-label">${i18n.t('landing.wins')}</span>
+                            <span class="stat-value">${i18n.formatNumber(game.numberWins)}</span>
                         </div>
                         <div class="stat-item">
-                            <span class="stat-label">Win Rate</span>
+                            <span class="stat-label">${i18n.t('landing.winRate')}</span>
                             <span class="stat-value">${winRate}%</span>
                         </div>
                         <div class="stat-item">
-                            <span class="stat-label">Avg Time</span>
+                            <span class="stat-label">${i18n.t('landing.averageTime')}</span>
                             <span class="stat-value">${avgDurationStr}</span>
                         </div>
                     </div>
@@ -264,23 +489,23 @@ export class StatsLandingPage {
      * Generates HTML for the top 5 best scores
      */
     private generateBestScoresHTML(bestScores: BestScore[]): string {
+        const i18n = I18n.getInstance();
         if (!bestScores || bestScores.length === 0) {
-            return '<div class="best-scores-section"><h4 class="best-scores-title">🏅 Top Players</h4><p class="no-scores">No scores yet</p></div>';
+            return `<div class="best-scores-section"><h4 class="best-scores-title">${i18n.t('landing.bestScores')}</h4><p class="no-scores">${i18n.t('landing.noScores')}</p></div>`;
         }
 
         // Sort by duration (fastest first)
-        const sortedScores = [...bestScores].sort((a, b) => {
-            const durationA = a.endTime - a.startTime;
-            const durationB = b.endTime - b.startTime;
-            return durationA - durationB;
-        }).slice(0, 3);
-
-        const scoresHTML = sortedScores.map((score, index) => {
-            const duration = score.endTime - score.startTime;
-            const min = Math.floor(duration / 60000);
-            const sec = Math.floor((duration % 60000) / 1000);
-            const ms = duration % 1000;
-            const timeStr = `${min}:${sec.toString().padStart(2, '0')}:${ms.toString().padStart(3, '0')}`;
+        const sortedScores = [...bestScores]
+            .sort((a, b) => {
+                return getScoreDuration(a) - getScoreDuration(b);
+            })
+            .slice(0, 3);
+
+        const scoresHTML = sortedScores
+            .map((score, index) => {
+                const timeStr = i18n.formatDuration(getScoreDuration(score), {
+                    milliseconds: true,
+                });
 
             // Calculate hearts: 3 hearts minus hints used
             const hearts = Math.max(0, 3 - score.hintsUsed);
@@ -298,7 +523,7 @@ export class StatsLandingPage {
 
         return `
             <div class="best-scores-section">
-                <h4 class="best-scores-title">🏅 Top Players</h4>
+                <h4 class="best-scores-title">${i18n.t('landing.bestScores')}</h4>
                 <div class="best-scores-list">
                     ${scoresHTML}
                 </div>
@@ -312,7 +537,7 @@ export class StatsLandingPage {
     private displayNoData(containerId: string): void {
         const container = document.getElementById(containerId);
         if (container) {
-            container.innerHTML = '<div class="no-data">No data available yet</div>';
+            container.innerHTML = `<div class="no-data">${I18n.getInstance().t('landing.noData')}</div>`;
         }
     }
 
@@ -320,10 +545,16 @@ export class StatsLandingPage {
      * Displays error message
      */
     private displayError(): void {
-        ['most-played-games', 'leaderboard', 'game-stats'].forEach(id => {
+        [
+            'most-played-games',
+            'daily-leaderboard',
+            'endless-leaderboard',
+            'leaderboard',
+            'game-stats',
+        ].forEach((id) => {
             const container = document.getElementById(id);
             if (container) {
-                container.innerHTML = '<div class="error-text">Failed to load statistics</div>';
+                container.innerHTML = `<div class="error-text">${I18n.getInstance().t('landing.loadFailed')}</div>`;
             }
         });
     }
@@ -338,3 +569,10 @@ export class StatsLandingPage {
         }
     }
 }
+
+/**
+ * How long a best score took, without the time it spent paused
+ */
+function getScoreDuration(score: BestScore): number {
+    return score.endTime - score.startTime - (score.pausedTime ?? 0);
+}
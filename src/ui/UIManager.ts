@@ -1,4 +1,5 @@
 import { IGameStats } from '../game/StatsCollector.js';
+import { I18n } from '../i18n/I18n.js';
 
 /**
  * UIManager - Handles all UI elements like buttons, panels, and progress display
@@ -19,9 +20,14 @@ export class UIManager {
     /**
      * Updates the result panel with title, stats, and styling
      */
-    private static updateResultPanel({ title, stats = '', style = {}, result }: {
+    private static updateResultPanel({
+        title,
+        stats = [],
+        style = {},
+        result,
+    }: {
         title: string;
-        stats?: string;
+        stats?: string[];
         style?: any;
         result?: 'victory' | 'loss';
     }): void {
@@ -32,7 +38,14 @@ export class UIManager {
         const statsElem = document.getElementById('result-stats');
 
         if (titleElem) titleElem.textContent = title;
-        if (statsElem) statsElem.innerHTML = stats ?? '';
+        if (statsElem) {
+            // Set as text: the lines can hold level names from imported level files
+            statsElem.textContent = '';
+            stats.forEach((line, index) => {
+                if (index > 0) statsElem.appendChild(document.createElement('br'));
+                statsElem.appendChild(document.createTextNode(line));
+            });
+        }
 
         // Set data-result attribute for CSS styling
         if (result) {
@@ -47,55 +60,47 @@ export class UIManager {
     }
 
     /**
-     * Formats IGameStats into an HTML string for display
+     * Formats IGameStats into lines of text for display
      * @param stats - The game statistics
-     * @returns Formatted HTML string
+     * @returns The lines, one per statistic
      */
-    private static formatStats(stats: IGameStats): string {
+    private static formatStats(stats: IGameStats): string[] {
+        const i18n = I18n.getInstance();
         const lines = [];
 
         // Duration
         if (stats.duration) {
-            const seconds = Math.floor(stats.duration / 1000);
-            const minutes = Math.floor(seconds / 60);
-            const remainingSeconds = seconds % 60;
-            const minutesStr = minutes < 10 ? '0' + minutes : minutes.toString();
-            const secondsStr = remainingSeconds < 10 ? '0' + remainingSeconds : remainingSeconds.toString();
-            lines.push(`Time: ${minutesStr}:${secondsStr}`);
+            lines.push(i18n.t('result.time', { time: i18n.formatDuration(stats.duration) }));
         }
 
         // Successful intersections
         if (stats.successfulIntersections > 0) {
-            lines.push(`Intersections: ${stats.successfulIntersections}`);
+            lines.push(i18n.t('result.intersections', { count: stats.successfulIntersections }));
         }
 
         // Hints used
         if (stats.hintsUsed > 0) {
-            lines.push(`Hints Used: ${stats.hintsUsed}`);
+            lines.push(i18n.t('result.hintsUsed', { count: stats.hintsUsed }));
         }
 
         // Board name
         if (stats.boardName) {
-            lines.push(`Level: ${stats.boardName}`);
+            lines.push(i18n.t('result.level', { name: i18n.levelName(stats.boardName) }));
         }
 
-        return lines.join('<br>');
+        return lines;
     }
 
     /**
      * Shows the victory panel
-     * @param stats - Optional stats to display (can be IGameStats or string)
+     * @param stats - Optional stats to display (can be IGameStats or lines of text)
      */
-    static showVictoryPanel(stats?: IGameStats | string): void {
-        const statsHtml = typeof stats === 'string'
-            ? stats
-            : stats
-                ? UIManager.formatStats(stats)
-                : '';
+    static showVictoryPanel(stats?: IGameStats | string[]): void {
+        const statsLines = Array.isArray(stats) ? stats : stats ? UIManager.formatStats(stats) : [];
 
         UIManager.updateResultPanel({
-            title: 'Victory!',
-            stats: statsHtml,
+            title: I18n.getInstance().t('result.victory'),
+            stats: statsLines,
             result: 'victory',
             style: {},
         });
@@ -104,18 +109,14 @@ export class UIManager {
 
     /**
      * Shows the loss panel
-     * @param stats - Optional stats to display (can be IGameStats or string)
+     * @param stats - Optional stats to display (can be IGameStats or lines of text)
      */
-    static showLossPanel(stats?: IGameStats | string): void {
-        const statsHtml = typeof stats === 'string'
-            ? stats
-            : stats
-                ? UIManager.formatStats(stats)
-                : '';
+    static showLossPanel(stats?: IGameStats | string[]): void {
+        const statsLines = Array.isArray(stats) ? stats : stats ? UIManager.formatStats(stats) : [];
 
         UIManager.updateResultPanel({
-            title: 'Game Over',
-            stats: statsHtml,
+            title: I18n.getInstance().t('result.gameOver'),
+            stats: statsLines,
             result: 'loss',
             style: {},
         });
@@ -125,9 +126,9 @@ export class UIManager {
     /**
      * Shows the result panel (victory or loss)
      * @param isVictory - Whether this is a victory or loss
-     * @param stats - Optional stats to display (can be IGameStats or string)
+     * @param stats - Optional stats to display (can be IGameStats or lines of text)
      */
-    static showResultPanel(isVictory = true, stats?: IGameStats | string): void {
+    static showResultPanel(isVictory = true, stats?: IGameStats | string[]): void {
         if (isVictory) {
             UIManager.showVictoryPanel(stats);
         } else {
@@ -8,4 +8,9 @@ export { PlayerCard } from './PlayerCard.js';
 export { LevelsPanel } from './LevelsPanel.js';
 export { ProgressCard } from './ProgressCard.js';
 export { Countdown } from './Countdown.js';
+export { PauseMenu } from './PauseMenu.js';
+export { ResumePrompt } from './ResumePrompt.js';
+export { KeyboardHelp } from './KeyboardHelp.js';
+export { AccessibilityPanel } from './AccessibilityPanel.js';
+export { Announcer } from './Announcer.js';
 export type { Level } from './LevelsPanel.js';
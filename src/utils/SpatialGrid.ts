@@ -0,0 +1,130 @@
+import { IBounds } from '../game/types.js';
+
+/**
+ * SpatialGrid - Uniform grid broad-phase index over axis-aligned bounding boxes
+ *
+ * Items are registered in every cell their bounds overlap. Queries return the
+ * items whose cells overlap the query bounds, in insertion order, so callers can
+ * run their exact tests in the same order as a linear scan would.
+ */
+export class SpatialGrid<T> {
+    private cellSize: number;
+    private cells: Map<string, Set<T>> = new Map();
+    private itemCells: Map<T, string[]> = new Map();
+    private insertionOrder: Map<T, number> = new Map();
+    private nextOrder: number = 0;
+
+    /**
+     * @param cellSize - Width and height of a grid cell in world units
+     */
+    constructor(cellSize: number) {
+        if (!(cellSize > 0)) {
+            throw new Error(`SpatialGrid cell size must be positive, got ${cellSize}`);
+        }
+        this.cellSize = cellSize;
+    }
+
+    /**
+     * Adds an item to the grid. Re-inserting an item replaces its bounds but
+     * keeps its original position in the query order.
+     * @param item - The item to index
+     * @param bounds - The item's bounding box
+     */
+    insert(item: T, bounds: IBounds): void {
+        if (this.itemCells.has(item)) {
+            this.removeFromCells(item);
+        } else {
+            this.insertionOrder.set(item, this.nextOrder++);
+        }
+
+        const keys: string[] = [];
+        this.forEachCell(bounds, (key) => {
+            let cell = this.cells.get(key);
+            if (!cell) {
+                cell = new Set();
+                this.cells.set(key, cell);
+            }
+            cell.add(item);
+            keys.push(key);
+        });
+        this.itemCells.set(item, keys);
+    }
+
+    /**
+     * Removes an item from the grid
+     * @returns true if the item was indexed
+     */
+    remove(item: T): boolean {
+        if (!this.itemCells.has(item)) return false;
+        this.removeFromCells(item);
+        this.itemCells.delete(item);
+        this.insertionOrder.delete(item);
+        return true;
+    }
+
+    /**
+     * Returns every item whose cells overlap the given bounds, in insertion order.
+     * This is a broad-phase query: callers still need an exact test.
+     */
+    query(bounds: IBounds): T[] {
+        const found = new Set<T>();
+        this.forEachCell(bounds, (key) => {
+            const cell = this.cells.get(key);
+            if (cell) {
+                cell.forEach((item) => found.add(item));
+            }
+        });
+
+        return Array.from(found).sort(
+            (a, b) => this.insertionOrder.get(a)! - this.insertionOrder.get(b)!,
+        );
+    }
+
+    /**
+     * Checks if an item is currently indexed
+     */
+    has(item: T): boolean {
+        return this.itemCells.has(item);
+    }
+
+    /**
+     * Number of indexed items
+     */
+    get size(): number {
+        return this.itemCells.size;
+    }
+
+    /**
+     * Removes every item from the grid
+     */
+    clear(): void {
+        this.cells.clear();
+        this.itemCells.clear();
+        this.insertionOrder.clear();
+        this.nextOrder = 0;
+    }
+
+    private removeFromCells(item: T): void {
+        for (const key of this.itemCells.get(item) || []) {
+            const cell = this.cells.get(key);
+            if (!cell) continue;
+            cell.delete(item);
+            if (cell.size === 0) {
+                this.cells.delete(key);
+            }
+        }
+    }
+
+    private forEachCell(bounds: IBounds, callback: (key: string) => void): void {
+        const minCellX = Math.floor(bounds.minX / this.cellSize);
+        const maxCellX = Math.floor(bounds.maxX / this.cellSize);
+        const minCellY = Math.floor(bounds.minY / this.cellSize);
+        const maxCellY = Math.floor(bounds.maxY / this.cellSize);
+
+        for (let cx = minCellX; cx <= maxCellX; cx++) {
+            for (let cy = minCellY; cy <= maxCellY; cy++) {
+                callback(`${cx},${cy}`);
+            }
+        }
+    }
+}
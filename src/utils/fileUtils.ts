@@ -0,0 +1,14 @@
+/**
+ * Downloads data as a pretty-printed .json file
+ * @param fileName - Name offered for the downloaded file
+ * @param data - Anything JSON.stringify accepts
+ */
+export function downloadJSON(fileName: string, data: unknown): void {
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+}
@@ -1,82 +1,337 @@
-import { Circle } from '../game/shapes/Circle.js';
-import { IPoint, ILine, IArc, ICircle } from '../game/types.js';
+import {
+    IPoint,
+    ILine,
+    IArc,
+    ICircle,
+    IBounds,
+    IShape,
+    IStrokeHit,
+    IStrokeCollisionOptions,
+} from '../game/types.js';
 
 /**
- * Checks if a line segment intersects with a circular arc.
+ * Default blade thickness: world-space distance within which a stroke counts as
+ * touching an arc.
+ */
+export const SEGMENT_TOLERANCE = 0.1;
+
+/**
+ * Checks if a boundary parameter falls within an arc.
+ */
+export function isParamOnArc(param: number, arc: IArc): boolean {
+    const { startAngle, endAngle } = arc;
+    const twoPi = 2 * Math.PI;
+    const normAngle = (param + twoPi) % twoPi;
+    const normStart = (startAngle + twoPi) % twoPi;
+    const normStop = (endAngle + twoPi) % twoPi;
+    if (normStart < normStop) {
+        return normAngle >= normStart && normAngle <= normStop;
+    } else {
+        return normAngle >= normStart || normAngle <= normStop;
+    }
+}
+
+/**
+ * Calculates the axis-aligned bounding box of a line segment.
  * @param line - The line segment { start, end }.
- * @param arc - The arc data { circle, startAngle, endAngle }.
- * @returns True if they intersect, false otherwise.
+ * @param padding - Extra margin added on every side (default: 0).
+ * @returns The bounding box of the segment.
+ */
+export function getLineBounds(line: ILine, padding: number = 0): IBounds {
+    return {
+        minX: Math.min(line.start.x, line.end.x) - padding,
+        minY: Math.min(line.start.y, line.end.y) - padding,
+        maxX: Math.max(line.start.x, line.end.x) + padding,
+        maxY: Math.max(line.start.y, line.end.y) + padding,
+    };
+}
+
+/**
+ * Calculates the axis-aligned bounding box of an arc of any shape.
+ * @param arc - The arc data { shape, startAngle, endAngle }.
+ * @param padding - Extra margin added on every side (default: 0).
+ * @returns The bounding box of the arc.
+ */
+export function getArcBounds(arc: IArc, padding: number = 0): IBounds {
+    return arc.shape.getArcBounds(arc, padding);
+}
+
+/**
+ * Calculates the axis-aligned bounding box of a circular arc.
+ * The box contains both endpoints plus every axis extreme (0, π/2, π, 3π/2) the arc passes.
+ * @param circle - The circle the arc lies on.
+ * @param arc - The arc's angles.
+ * @param padding - Extra margin added on every side (default: 0).
+ * @returns The bounding box of the arc.
  */
-export function lineIntersectsArc(line: ILine, arc: IArc): boolean {
-    const intersectionPoints = getLineCircleIntersections(line, arc.circle);
-    for (const p of intersectionPoints) {
-        const onSegment = isPointOnLineSegment(p, line);
-        const onArc = isPointOnArc(p, arc);
-        if (onSegment && onArc) {
-            return true;
+export function getCircleArcBounds(circle: ICircle, arc: IArc, padding: number = 0): IBounds {
+    const { center: c, radius: r } = circle;
+    const angles = [arc.startAngle, arc.endAngle];
+    for (const extreme of [0, Math.PI / 2, Math.PI, (3 * Math.PI) / 2]) {
+        if (isParamOnArc(extreme, arc)) {
+            angles.push(extreme);
         }
     }
-    return false;
+
+    const bounds: IBounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+    for (const angle of angles) {
+        const x = c.x + r * Math.cos(angle);
+        const y = c.y + r * Math.sin(angle);
+        bounds.minX = Math.min(bounds.minX, x);
+        bounds.minY = Math.min(bounds.minY, y);
+        bounds.maxX = Math.max(bounds.maxX, x);
+        bounds.maxY = Math.max(bounds.maxY, y);
+    }
+
+    bounds.minX -= padding;
+    bounds.minY -= padding;
+    bounds.maxX += padding;
+    bounds.maxY += padding;
+    return bounds;
 }
 
-// --- Helper Functions ---
+// --- Swept stroke collision ---
+
+/**
+ * Finds every point where a stroke segment touches the given arcs, ordered along the stroke.
+ *
+ * The blade has a world-space thickness: crossings just past either end of the segment
+ * or just past either end of an arc still count, and a stroke passing within the
+ * tolerance of a shape without crossing it is reported as a tangent hit at its closest
+ * approach. Each arc's shape does the exact test.
+ *
+ * @param line - The stroke segment { start, end }.
+ * @param arcs - The arcs to test.
+ * @param options - Tolerance and tangent handling.
+ * @returns Hits sorted by t. Hits with equal t keep the order of the arcs array.
+ */
+export function collideStrokeWithArcs(
+    line: ILine,
+    arcs: IArc[],
+    options: IStrokeCollisionOptions = {},
+): IStrokeHit[] {
+    const hits: IStrokeHit[] = [];
+    for (const arc of arcs) {
+        hits.push(...arc.shape.collideStroke(line, arc, options));
+    }
+    // Array.prototype.sort is stable, so ties keep the arcs order
+    return hits.sort((a, b) => a.t - b.t);
+}
 
-function getLineCircleIntersections(line: ILine, circle: ICircle): IPoint[] {
-    const { start: p1, end: p2 } = line;
+/**
+ * Finds the points where a stroke segment touches a single circular arc, ordered along the stroke.
+ * @param line - The stroke segment { start, end }.
+ * @param circle - The circle the arc lies on.
+ * @param arc - The arc to test.
+ * @param options - Tolerance and tangent handling.
+ * @returns Zero, one or two hits sorted by t.
+ */
+export function collideStrokeWithCircleArc(
+    line: ILine,
+    circle: ICircle,
+    arc: IArc,
+    options: IStrokeCollisionOptions = {},
+): IStrokeHit[] {
+    const tolerance = options.tolerance ?? SEGMENT_TOLERANCE;
+    const includeTangents = options.includeTangents ?? true;
     const { center: c, radius: r } = circle;
-    const points: IPoint[] = [];
+    const angularSlack = r > 0 ? tolerance / r : 0;
+
+    const dx = line.end.x - line.start.x;
+    const dy = line.end.y - line.start.y;
+    const fx = line.start.x - c.x;
+    const fy = line.start.y - c.y;
+    const lengthSq = dx * dx + dy * dy;
+
+    const makeHit = (t: number, x: number, y: number, tangent: boolean): IStrokeHit[] => {
+        const angle = Math.atan2(y - c.y, x - c.x);
+        if (!isParamOnArcWithin(angle, arc, angularSlack)) return [];
+        return [{ t, point: { x, y }, param: angle, arc, tangent }];
+    };
 
-    // Shift coordinate system to place circle center at the origin
-    const p1_prime = { x: p1.x - c.x, y: p1.y - c.y };
-    const p2_prime = { x: p2.x - c.x, y: p2.y - c.y };
+    // A stroke that hasn't moved is a single blade position
+    if (lengthSq < 1e-12) {
+        const dist = Math.hypot(fx, fy);
+        if (Math.abs(dist - r) > tolerance || dist === 0) return [];
+        return makeHit(0, c.x + (fx / dist) * r, c.y + (fy / dist) * r, false);
+    }
+
+    const length = Math.sqrt(lengthSq);
+    const tSlack = tolerance / length;
+
+    // Closest approach of the infinite line to the circle center
+    const tClosest = -(fx * dx + fy * dy) / lengthSq;
+    const closestX = fx + tClosest * dx;
+    const closestY = fy + tClosest * dy;
+    const closestDist = Math.hypot(closestX, closestY);
+
+    if (closestDist < r) {
+        // The line crosses the circle: solve |f + t d|^2 = r^2.
+        // Crossings this close to the tangent point are flagged as grazes.
+        const halfChord = Math.sqrt(r * r - closestDist * closestDist) / length;
+        const shallow = closestDist > r - tolerance;
+        if (shallow && !includeTangents) return [];
+        const hits: IStrokeHit[] = [];
+        for (const t of [tClosest - halfChord, tClosest + halfChord]) {
+            if (t < -tSlack || t > 1 + tSlack) continue;
+            hits.push(...makeHit(clamp01(t), c.x + fx + t * dx, c.y + fy + t * dy, shallow));
+        }
+        return hits;
+    }
 
-    const dx = p2_prime.x - p1_prime.x;
-    const dy = p2_prime.y - p1_prime.y;
-    const dr = Math.sqrt(dx * dx + dy * dy);
-    const D = p1_prime.x * p2_prime.y - p2_prime.x * p1_prime.y;
+    if (!includeTangents || closestDist > r + tolerance) {
+        return [];
+    }
 
-    const discriminant = r * r * dr * dr - D * D;
+    // Graze: the line passes outside the circle but within the tolerance band.
+    // The segment point nearest the center is also the one nearest the circle here.
+    const t = clamp01(tClosest);
+    const nearX = fx + t * dx;
+    const nearY = fy + t * dy;
+    const nearDist = Math.hypot(nearX, nearY);
+    if (nearDist - r > tolerance) return [];
+    const scale = r / nearDist;
+    return makeHit(t, c.x + nearX * scale, c.y + nearY * scale, true);
+}
 
-    if (discriminant >= 0) {
-        const sqrt_discriminant = Math.sqrt(discriminant);
-        const sgn_dy = dy < 0 ? -1 : 1;
+export function clamp01(t: number): number {
+    return Math.max(0, Math.min(1, t));
+}
 
-        const x1 = (D * dy + sgn_dy * dx * sqrt_discriminant) / (dr * dr);
-        const y1 = (-D * dx + Math.abs(dy) * sqrt_discriminant) / (dr * dr);
-        points.push({ x: x1 + c.x, y: y1 + c.y });
+/**
+ * Checks if a boundary parameter falls within an arc, extended by the given slack on both ends.
+ */
+export function isParamOnArcWithin(param: number, arc: IArc, slack: number): boolean {
+    const twoPi = 2 * Math.PI;
+    const span = getArcSpan(arc);
+    if (span + 2 * slack >= twoPi) return true;
+    const offset = (((param - arc.startAngle) % twoPi) + twoPi) % twoPi;
+    return offset <= span + slack || offset >= twoPi - slack;
+}
 
-        if (discriminant > 0) {
-            const x2 = (D * dy - sgn_dy * dx * sqrt_discriminant) / (dr * dr);
-            const y2 = (-D * dx - Math.abs(dy) * sqrt_discriminant) / (dr * dr);
-            points.push({ x: x2 + c.x, y: y2 + c.y });
-        }
+/**
+ * Calculates the parametric length of an arc, going counter-clockwise from start to end.
+ * For circles this is the angle the arc spans.
+ * @param arc - The arc data { shape, startAngle, endAngle }.
+ * @returns The span in the range [0, 2π].
+ */
+export function getArcSpan(arc: IArc): number {
+    const twoPi = 2 * Math.PI;
+    const raw = arc.endAngle - arc.startAngle;
+    if (Math.abs(raw) >= twoPi) return twoPi;
+    return ((raw % twoPi) + twoPi) % twoPi;
+}
+
+/**
+ * The boundary parameter halfway along an arc
+ */
+export function getArcMidParam(arc: IArc): number {
+    return arc.startAngle + getArcSpan(arc) / 2;
+}
+
+/**
+ * Calculates the shortest distance from a point to an arc of any shape.
+ * @param p - The point.
+ * @param arc - The arc data { shape, startAngle, endAngle }.
+ * @returns The distance to the nearest point of the arc.
+ */
+export function distanceToArc(p: IPoint, arc: IArc): number {
+    return arc.shape.distanceToArc(p, arc);
+}
+
+/**
+ * Calculates the shortest distance from a point to a circular arc.
+ * @param p - The point.
+ * @param circle - The circle the arc lies on.
+ * @param arc - The arc's angles.
+ * @returns The distance to the nearest point of the arc.
+ */
+export function distanceToCircleArc(p: IPoint, circle: ICircle, arc: IArc): number {
+    const { center: c, radius: r } = circle;
+    if (isParamOnArc(Math.atan2(p.y - c.y, p.x - c.x), arc)) {
+        return Math.abs(Math.hypot(p.x - c.x, p.y - c.y) - r);
     }
-    return points;
+    let nearest = Infinity;
+    for (const angle of [arc.startAngle, arc.endAngle]) {
+        const x = c.x + r * Math.cos(angle);
+        const y = c.y + r * Math.sin(angle);
+        nearest = Math.min(nearest, Math.hypot(p.x - x, p.y - y));
+    }
+    return nearest;
+}
+
+// --- Segment helpers used by polyline shapes ---
+
+/**
+ * Finds where two segments cross.
+ * @returns Positions along each segment, 0..1, or null if they are parallel or miss
+ */
+export function intersectSegments(
+    a: IPoint,
+    b: IPoint,
+    c: IPoint,
+    d: IPoint,
+): { s: number; u: number } | null {
+    const rx = b.x - a.x;
+    const ry = b.y - a.y;
+    const qx = d.x - c.x;
+    const qy = d.y - c.y;
+    const denom = rx * qy - ry * qx;
+    if (Math.abs(denom) < 1e-12) return null;
+    const s = ((c.x - a.x) * qy - (c.y - a.y) * qx) / denom;
+    const u = ((c.x - a.x) * ry - (c.y - a.y) * rx) / denom;
+    if (s < 0 || s > 1 || u < 0 || u > 1) return null;
+    return { s, u };
+}
+
+/**
+ * Position (0..1) along segment ab of the point nearest p
+ */
+export function projectOntoSegment(p: IPoint, a: IPoint, b: IPoint): number {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    if (lengthSq === 0) return 0;
+    return clamp01(((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq);
+}
+
+export function lerpPoint(a: IPoint, b: IPoint, t: number): IPoint {
+    return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
 }
 
-function isPointOnLineSegment(p: IPoint, line: ILine): boolean {
-    const { start: p1, end: p2 } = line;
-    const tolerance = 0.1;
-    const isBetweenX =
-        p.x >= Math.min(p1.x, p2.x) - tolerance && p.x <= Math.max(p1.x, p2.x) + tolerance;
-    const isBetweenY =
-        p.y >= Math.min(p1.y, p2.y) - tolerance && p.y <= Math.max(p1.y, p2.y) + tolerance;
-    return isBetweenX && isBetweenY;
+/**
+ * Finds where a segment crosses a circle.
+ * @returns Positions along the segment, 0..1; tangent touches are left out
+ */
+export function intersectSegmentWithCircle(a: IPoint, b: IPoint, circle: ICircle): number[] {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const fx = a.x - circle.center.x;
+    const fy = a.y - circle.center.y;
+    const qa = dx * dx + dy * dy;
+    const qb = 2 * (fx * dx + fy * dy);
+    const qc = fx * fx + fy * fy - circle.radius * circle.radius;
+    const discriminant = qb * qb - 4 * qa * qc;
+    if (qa === 0 || discriminant <= 0) return [];
+    const root = Math.sqrt(discriminant);
+    return [(-qb - root) / (2 * qa), (-qb + root) / (2 * qa)].filter((u) => u >= 0 && u <= 1);
 }
 
-function isPointOnArc(p: IPoint, arc: IArc): boolean {
-    const { circle, startAngle, endAngle } = arc;
-    const c = circle.center;
-    const angle = Math.atan2(p.y - c.y, p.x - c.x);
+/**
+ * Splits an arc that crosses the 0 / 2π seam into arcs within [0, 2π], the range
+ * subtractArc expects of the arc it subtracts from.
+ */
+export function splitArcAtSeam(arc: IArc): IArc[] {
     const twoPi = 2 * Math.PI;
-    const normAngle = (angle + twoPi) % twoPi;
-    const normStart = (startAngle + twoPi) % twoPi;
-    const normStop = (endAngle + twoPi) % twoPi;
-    if (normStart < normStop) {
-        return normAngle >= normStart && normAngle <= normStop;
-    } else {
-        return normAngle >= normStart || normAngle <= normStop;
+    const span = getArcSpan(arc);
+    const start = ((arc.startAngle % twoPi) + twoPi) % twoPi;
+    if (start + span <= twoPi) {
+        return [{ shape: arc.shape, startAngle: start, endAngle: start + span }];
     }
+    return [
+        { shape: arc.shape, startAngle: start, endAngle: twoPi },
+        { shape: arc.shape, startAngle: 0, endAngle: start + span - twoPi },
+    ];
 }
 
 /**
@@ -137,46 +392,20 @@ export function subtractArc(arcA: IArc, arcB: IArc): IArc[] {
     return result
         .filter((seg) => seg.stop > seg.start && seg.start >= 0 && seg.stop <= twoPi)
         .map((seg) => ({
-            circle: arcA.circle,
+            shape: arcA.shape,
             startAngle: seg.start,
             endAngle: seg.stop,
         }));
 }
 
 
-function getDirectedArcMidpoint(startAngle: number, stopAngle: number): number {
-    const twoPi = 2 * Math.PI;
-
-    // 1. Normalize both angles to a consistent range of [0, 2*PI]
-    // This makes calculating the span straightforward.
-    const normStart = ((startAngle % twoPi) + twoPi) % twoPi;
-    const normStop = ((stopAngle % twoPi) + twoPi) % twoPi;
-
-    // 2. Calculate the angular distance (span) in the counter-clockwise direction
-    let span = normStop - normStart;
-    if (span < 0) {
-        span += twoPi; // If stop is "behind" start, go the long way around.
-    }
-
-    // 3. The midpoint is the start angle plus half the span
-    let midAngle = normStart + span / 2;
-
-    // 4. Normalize the final angle to the standard [-PI, PI] range
-    // to match the output of functions like atan2.
-    if (midAngle > Math.PI) {
-        midAngle -= twoPi;
-    }
-
-    return midAngle;
-}
-
 /**
  * Calculates the intersection points of two circles.
  * @param {ICircle} c1 - The first circle { x, y, r }.
  * @param {ICircle} c2 - The second circle { x, y, r }.
  * @returns {Array} An array of intersection point objects [{x, y}, ...].
  */
-function getCircleIntersections(c1: ICircle, c2: ICircle): IPoint[] {
+export function getCircleIntersections(c1: ICircle, c2: ICircle): IPoint[] {
     const dx = c2.center.x - c1.center.x;
     const dy = c2.center.y - c1.center.y;
     const d = Math.sqrt(dx * dx + dy * dy);
@@ -209,171 +438,124 @@ function getCircleIntersections(c1: ICircle, c2: ICircle): IPoint[] {
     return [p1, p2];
 }
 
-
-export function intersectTwoCircles(circle1: Circle, circle2: Circle): IArc[] {
-    const intersectionPoints = getCircleIntersections(circle1, circle2);
-
-    if (intersectionPoints.length < 2) {
-        return []; // No intersection to calculate
-    }
-
-    const p1 = intersectionPoints[0];
-    const p2 = intersectionPoints[1];
-
-    // Helper to create arc data
-    const makeArc = (circle: Circle, from: IPoint, to: IPoint) => {
-        let start = Math.atan2(from.y - circle.center.y, from.x - circle.center.x);
-        let stop = Math.atan2(to.y - circle.center.y, to.x - circle.center.x);
-        const arc: IArc = { circle: circle, startAngle: start, endAngle: stop };
-        return arc;
-    };
-
-    // Generate 4 possible arcs
-    const arcs = [
-        makeArc(circle1, p1, p2),
-        makeArc(circle1, p2, p1),
-        makeArc(circle2, p1, p2),
-        makeArc(circle2, p2, p1),
-    ];
-
-    // Helper to check if arc midpoint is inside the other circle
-    const isMidpointInside = (arc: IArc, otherCircle: Circle) => {
-        const midAngle = getDirectedArcMidpoint(arc.startAngle, arc.endAngle);
-        const midX = arc.circle.center.x + arc.circle.radius * Math.cos(midAngle);
-        const midY = arc.circle.center.y + arc.circle.radius * Math.sin(midAngle);
-
-        const dist = Math.hypot(midX - otherCircle.center.x, midY - otherCircle.center.y);
-        return dist < otherCircle.radius;
-    };
-
-    // Select the two arcs whose midpoints are inside the other circle
-    const resultArcs = [];
-    for (const arc of arcs.slice(0, 2)) {
-        if (isMidpointInside(arc, circle2)) {
-            resultArcs.push(arc);
-        }
-    }
-    for (const arc of arcs.slice(2, 4)) {
-        if (isMidpointInside(arc, circle1)) {
-            resultArcs.push(arc);
+export function joinIntersections(arcs: IArc[]): IArc[] {
+    if (arcs.length === 0) return [];
+    const arcsByShape = new Map<IShape, IArc[]>();
+    for (const arc of arcs) {
+        const shape = arc.shape;
+        if (!arcsByShape.has(shape)) {
+            arcsByShape.set(shape, []);
         }
+        arcsByShape.get(shape)!.push(arc);
     }
 
-    return resultArcs;
-}
-
-
+    for (const [shape, shapeArcs] of arcsByShape.entries()) {
+        const joinedArcs = joinOverlappingArcs(shapeArcs);
+        arcsByShape.set(shape, joinedArcs);
+    }
 
-export function joinIntersections (arcs: IArc[]): IArc[] {
-	if (arcs.length === 0) return [];
-	const arcsByCircle = new Map<Circle, IArc[]>();
-	for (const arc of arcs) {
-		const circle = arc.circle as Circle;
-		if (!arcsByCircle.has(circle)) {
-			arcsByCircle.set(circle, []);
-		}
-		arcsByCircle.get(circle)!.push(arc);
-	}
-
-	for (const [circle, circleArcs] of arcsByCircle.entries()) {
-		const joinedArcs = joinOverlappingArcs(circleArcs);
-		arcsByCircle.set(circle, joinedArcs);
-	}
-
-	const result: IArc[] = [];
-	for (const circleArcs of arcsByCircle.values()) {
-		result.push(...circleArcs);
-	}
-	return result;
+    const result: IArc[] = [];
+    for (const shapeArcs of arcsByShape.values()) {
+        result.push(...shapeArcs);
+    }
+    return result;
 }
 
-
 // Define the event points for the sweep-line algorithm
 interface IEventPoint {
-  angle: number;
-  type: 'start' | 'end';
+    angle: number;
+    type: 'start' | 'end';
 }
 
 /**
- * Joins all overlapping or adjacent arcs on a circle using a sweep-line algorithm.
+ * Joins all overlapping or adjacent arcs on a shape using a sweep-line algorithm.
  * This method is robust and handles all wrap-around cases correctly.
  * @param arcs Array of arcs to join.
  * @returns A new array of joined, non-overlapping arcs.
  */
 function joinOverlappingArcs(arcs: IArc[]): IArc[] {
-  if (arcs.length <= 1) {
-    return arcs;
-  }
-  const circle = arcs[0].circle; // All arcs belong to the same circle
+    if (arcs.length <= 1) {
+        return arcs;
+    }
+    const shape = arcs[0].shape; // All arcs belong to the same shape
 
-  const TWO_PI = 2 * Math.PI;
-  const tolerance = 1e-9;
+    const TWO_PI = 2 * Math.PI;
+    const tolerance = 1e-9;
 
-  // A helper to normalize angles to the [0, 2π) range
-  const normalize = (angle: number) => (angle % TWO_PI + TWO_PI) % TWO_PI;
+    // A helper to normalize angles to the [0, 2π) range
+    const normalize = (angle: number) => ((angle % TWO_PI) + TWO_PI) % TWO_PI;
 
-  const points: IEventPoint[] = [];
-  let wrapCounter = 0; // Tracks arcs that cross the 0-radian seam
+    const points: IEventPoint[] = [];
+    let wrapCounter = 0; // Tracks arcs that cross the 0-radian seam
 
-  // 1. Create event points for all start and end angles
-  for (const arc of arcs) {
-    const start = normalize(arc.startAngle);
-    const end = normalize(arc.endAngle);
+    // 1. Create event points for all start and end angles
+    for (const arc of arcs) {
+        const start = normalize(arc.startAngle);
+        const end = normalize(arc.endAngle);
 
-    points.push({ angle: start, type: 'start' });
-    points.push({ angle: end, type: 'end' });
+        points.push({ angle: start, type: 'start' });
+        points.push({ angle: end, type: 'end' });
 
-    // If an arc wraps around (e.g., from 6.0 to 1.0), it covers the 0-radian point.
-    // We track this to know if the circle is covered at the seam.
-    if (start > end) {
-      wrapCounter++;
+        // If an arc wraps around (e.g., from 6.0 to 1.0), it covers the 0-radian point.
+        // We track this to know if the shape is covered at the seam.
+        if (start > end) {
+            wrapCounter++;
+        }
     }
-  }
-
-  // 2. Sort the event points by angle
-  points.sort((a, b) => a.angle - b.angle);
-
-  // 3. Sweep through the points to build the merged arcs
-  const merged: IArc[] = [];
-  let activeArcs = wrapCounter;
-  let currentArcStart = 0;
-
-  for (let i = 0; i < points.length; i++) {
-    const point = points[i];
-    const prevAngle = (i === 0) ? 0 : points[i - 1].angle;
-
-    // If we were in a covered segment and it just ended, create the arc
-    if (activeArcs > 0 && point.angle > prevAngle + tolerance) {
-      if (merged.length > 0 && Math.abs(merged[merged.length - 1].endAngle - prevAngle) < tolerance) {
-        // Extend the previous arc
-        merged[merged.length - 1].endAngle = point.angle;
-      } else {
-        // Start a new arc
-        merged.push({ startAngle: prevAngle, endAngle: point.angle, circle });
-      }
+
+    // 2. Sort the event points by angle
+    points.sort((a, b) => a.angle - b.angle);
+
+    // 3. Sweep through the points to build the merged arcs
+    const merged: IArc[] = [];
+    let activeArcs = wrapCounter;
+
+    for (let i = 0; i < points.length; i++) {
+        const point = points[i];
+        const prevAngle = i === 0 ? 0 : points[i - 1].angle;
+
+        // If we were in a covered segment and it just ended, create the arc
+        if (activeArcs > 0 && point.angle > prevAngle + tolerance) {
+            if (
+                merged.length > 0 &&
+                Math.abs(merged[merged.length - 1].endAngle - prevAngle) < tolerance
+            ) {
+                // Extend the previous arc
+                merged[merged.length - 1].endAngle = point.angle;
+            } else {
+                // Start a new arc
+                merged.push({ startAngle: prevAngle, endAngle: point.angle, shape });
+            }
+        }
+
+        // Update the active arc count
+        activeArcs += point.type === 'start' ? 1 : -1;
     }
 
-    // Update the active arc count
-    activeArcs += (point.type === 'start' ? 1 : -1);
-  }
-
-  // Handle the final segment from the last point to 2π
-  if (activeArcs > 0 && TWO_PI > points[points.length - 1].angle + tolerance) {
-     const lastPointAngle = points[points.length - 1].angle;
-     if (merged.length > 0 && Math.abs(merged[merged.length - 1].endAngle - lastPointAngle) < tolerance) {
-        merged[merged.length-1].endAngle = TWO_PI;
-     } else {
-        merged.push({ startAngle: lastPointAngle, endAngle: TWO_PI, circle });
-     }
-  }
-
-  // Final check: if the first and last arcs in our result touch, merge them
-  if (merged.length > 1 && Math.abs(merged[merged.length - 1].endAngle - TWO_PI) < tolerance && merged[0].startAngle < tolerance) {
-    const last = merged.pop()!;
-    merged[0].startAngle = last.startAngle;
-  }
-
-  return merged;
-}
+    // Handle the final segment from the last point to 2π
+    if (activeArcs > 0 && TWO_PI > points[points.length - 1].angle + tolerance) {
+        const lastPointAngle = points[points.length - 1].angle;
+        if (
+            merged.length > 0 &&
+            Math.abs(merged[merged.length - 1].endAngle - lastPointAngle) < tolerance
+        ) {
+            merged[merged.length - 1].endAngle = TWO_PI;
+        } else {
+            merged.push({ startAngle: lastPointAngle, endAngle: TWO_PI, shape });
+        }
+    }
 
+    // Final check: if the first and last arcs in our result touch, merge them.
+    // Open shapes don't wrap, so their two ends stay apart.
+    if (
+        shape.closed &&
+        merged.length > 1 &&
+        Math.abs(merged[merged.length - 1].endAngle - TWO_PI) < tolerance &&
+        merged[0].startAngle < tolerance
+    ) {
+        const last = merged.pop()!;
+        merged[0].startAngle = last.startAngle;
+    }
 
+    return merged;
+}
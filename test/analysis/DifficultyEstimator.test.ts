@@ -0,0 +1,26 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { estimateDifficulty } from '../../src/game/analysis/DifficultyEstimator.js';
+import { ICircle } from '../../src/game/types.js';
+
+const still: ICircle[] = [
+    { center: { x: -50, y: 0 }, radius: 60 },
+    { center: { x: 50, y: 0 }, radius: 60 },
+];
+
+// The same circles, apart at time 0 and overlapping as much while they swell
+const pulsing: ICircle[] = still.map(({ center }) => ({
+    center,
+    radius: 40,
+    motion: [{ type: 'pulse', amplitude: 20, period: 2 }],
+}));
+
+test('a moving board is measured over its motion, not where it stands at time 0', () => {
+    const moving = estimateDifficulty(pulsing);
+    assert.equal(moving.breakdown.arcCount, 2);
+    assert.ok(moving.score > 0);
+
+    const fixed = estimateDifficulty(still);
+    assert.ok(Math.abs(moving.breakdown.shortestArcLength - fixed.breakdown.shortestArcLength) < 1);
+    assert.ok(Math.abs(moving.breakdown.minClearance - fixed.breakdown.minClearance) < 1);
+});
@@ -0,0 +1,19 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { solveLevel } from '../../src/game/analysis/LevelSolver.js';
+import { ICircle } from '../../src/game/types.js';
+
+// Two circles that only overlap while they swell, a quarter period in
+const pulsing: ICircle[] = [
+    { center: { x: -50, y: 0 }, radius: 40, motion: [{ type: 'pulse', amplitude: 20, period: 2 }] },
+    { center: { x: 50, y: 0 }, radius: 40, motion: [{ type: 'pulse', amplitude: 20, period: 2 }] },
+];
+
+test('a moving level is solved at the times its pieces show', () => {
+    const result = solveLevel(pulsing);
+    assert.equal(result.solvable, true);
+    assert.equal(result.totalCuts, 2);
+    assert.ok(result.strokes.length > 0);
+    assert.ok(result.strokes.every((stroke) => stroke.time > 0));
+    assert.equal(result.verified, true);
+});
@@ -0,0 +1,114 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BoardModel } from '../../src/game/core/BoardModel.js';
+import { ICircle } from '../../src/game/types.js';
+
+// Two overlapping circles: one lens-shaped intersection, cut as two pieces
+const venn: ICircle[] = [
+    { center: { x: 0, y: 0 }, radius: 100 },
+    { center: { x: 150, y: 0 }, radius: 100 },
+];
+
+// A far pair that keeps the board in play after the first pair is cut
+const withFarPair: ICircle[] = [
+    ...venn,
+    { center: { x: 1000, y: 0 }, radius: 100 },
+    { center: { x: 1150, y: 0 }, radius: 100 },
+];
+
+// Two circles that only overlap while they swell, a quarter period in
+const pulsing: ICircle[] = [
+    { center: { x: -50, y: 0 }, radius: 40, motion: [{ type: 'pulse', amplitude: 20, period: 2 }] },
+    { center: { x: 50, y: 0 }, radius: 40, motion: [{ type: 'pulse', amplitude: 20, period: 2 }] },
+];
+
+// Crosses the lens along its axis, through both pieces and no other outline
+const acrossLens = { start: { x: 40, y: 0 }, end: { x: 110, y: 0 } };
+
+test('a board of two overlapping circles has two pieces to cut', () => {
+    const board = new BoardModel(venn);
+    assert.equal(board.totalCuts, 2);
+    assert.equal(board.getRemainingCuts(), 2);
+    assert.equal(board.getStatus(), 'playing');
+});
+
+test('cutting every piece wins without losing a life', () => {
+    const board = new BoardModel(venn);
+    const result = board.processStroke(acrossLens);
+    assert.equal(result.cuts.length, 2);
+    assert.equal(result.penalty, false);
+    assert.equal(board.getRemainingCuts(), 0);
+    assert.equal(board.getLivesRemaining(), board.maxLives);
+    assert.equal(board.getStatus(), 'won');
+});
+
+test('touching an outline outside the pieces costs a life', () => {
+    const board = new BoardModel(venn, { maxLives: 2 });
+    const result = board.processStroke({ start: { x: -200, y: 0 }, end: { x: -50, y: 0 } });
+    assert.deepEqual(result.cuts, []);
+    assert.equal(result.penalty, true);
+    assert.equal(result.gameOver, false);
+    assert.equal(board.getLivesRemaining(), 1);
+
+    const last = board.processStroke({ start: { x: 350, y: 0 }, end: { x: 200, y: 0 } });
+    assert.equal(last.gameOver, true);
+    assert.equal(board.getStatus(), 'lost');
+});
+
+test('a stroke that cuts a piece and leaves through its split arcs hits those arcs too', () => {
+    const board = new BoardModel(withFarPair);
+    // Leftwards from inside the right circle: the stroke cuts both lens pieces, then
+    // leaves through what is left of the left circle's outline
+    const result = board.processStroke({ start: { x: 130, y: 0 }, end: { x: -150, y: 0 } });
+    assert.equal(result.cuts.length, 2);
+    assert.equal(result.penalty, true);
+});
+
+test('the same stroke gives the same result whole or split into segments', () => {
+    const line = { start: { x: 130, y: 0 }, end: { x: -150, y: 0 } };
+    const whole = new BoardModel(withFarPair).processStroke(line);
+
+    const split = new BoardModel(withFarPair);
+    const steps = 7;
+    let cuts = 0;
+    let penalty = false;
+    for (let k = 0; k < steps; k++) {
+        const at = (f: number) => ({
+            x: line.start.x + (line.end.x - line.start.x) * f,
+            y: line.start.y + (line.end.y - line.start.y) * f,
+        });
+        const result = split.processStroke({ start: at(k / steps), end: at((k + 1) / steps) });
+        cuts += result.cuts.length;
+        penalty ||= result.penalty;
+    }
+    assert.equal(cuts, whole.cuts.length);
+    assert.equal(penalty, whole.penalty);
+});
+
+test('a snapshot restores the board on a new board of the same shapes', () => {
+    const board = new BoardModel(venn, { maxLives: 3 });
+    board.processStroke({ start: { x: -200, y: 0 }, end: { x: -50, y: 0 } });
+    board.processStroke({ start: { x: 40, y: 0 }, end: { x: 75, y: 0 } });
+
+    const restored = new BoardModel(venn, { maxLives: 3 });
+    restored.restoreSnapshot(JSON.parse(JSON.stringify(board.toSnapshot())));
+    assert.equal(restored.getRemainingCuts(), board.getRemainingCuts());
+    assert.equal(restored.getLivesRemaining(), board.getLivesRemaining());
+    assert.deepEqual(restored.toSnapshot(), board.toSnapshot());
+});
+
+test('a snapshot of another board is rejected', () => {
+    const snapshot = new BoardModel(venn).toSnapshot();
+    const other = new BoardModel([...venn, { center: { x: 75, y: 120 }, radius: 60 }]);
+    assert.throws(() => other.restoreSnapshot(snapshot));
+});
+
+test('a hint on a moving board points at a pair still to cut while no piece is showing', () => {
+    const board = new BoardModel(pulsing, { rng: () => 0.99 });
+    assert.equal(board.totalCuts, 2);
+    assert.deepEqual(board.intersections, []);
+
+    board.recordHintUsed();
+    assert.deepEqual(board.hintedShapes, [board.shapes[1]]);
+    assert.equal(board.getLivesRemaining(), board.maxLives - 1);
+});
@@ -0,0 +1,121 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    decodeMatchEvents,
+    encodeMatchEvents,
+    IMatchDocument,
+    MatchEvent,
+    parseMatchDocument,
+    quantizePoint,
+} from '../../src/data/matchDocument.js';
+import { MatchRecorder } from '../../src/game/replay/MatchRecorder.js';
+import { createMatchBoard, replayMatch } from '../../src/game/replay/MatchReplay.js';
+import { BoardModel } from '../../src/game/core/BoardModel.js';
+import { ICircle, ILine } from '../../src/game/types.js';
+
+const shapes: ICircle[] = [
+    { center: { x: 0, y: 0 }, radius: 100 },
+    { center: { x: 150, y: 0 }, radius: 100 },
+    { center: { x: 75, y: 130 }, radius: 100 },
+];
+
+const events: MatchEvent[] = [
+    { type: 'camera', time: 0, zoom: 1.25, panX: -30.5, panY: 12 },
+    { type: 'blade', time: 120, start: { x: -12.34, y: 56.78 }, end: { x: 0.01, y: -0.01 } },
+    { type: 'move', time: 137, end: { x: 9.99, y: 10 } },
+    { type: 'hint', time: 2000 },
+    { type: 'move', time: 2000, end: { x: -1000.5, y: 1000.25 } },
+];
+
+/**
+ * Plays strokes on a board while recording them, as GameState does, with a hint
+ * before the stroke at hintAt
+ */
+function recordMatch(lines: ILine[], hintAt: number): { match: IMatchDocument; board: BoardModel } {
+    const recorder = new MatchRecorder(
+        {
+            playerName: 'tester',
+            boardName: 'Three Circles',
+            shapes,
+            lives: 3,
+            hintSeed: 42,
+            viewport: { width: 800, height: 600 },
+        },
+        1700000000000,
+    );
+    const board = createMatchBoard(recorder.finish('abandoned', 0));
+    lines.forEach((line, index) => {
+        const time = 100 * (index + 1);
+        if (index === hintAt) {
+            board.recordHintUsed();
+            recorder.recordHint(time);
+        }
+        board.setTime(time / 1000);
+        const quantized = { start: quantizePoint(line.start), end: quantizePoint(line.end) };
+        board.processStroke(quantized);
+        recorder.recordStroke(time, quantized);
+    });
+    const result = board.getStatus() === 'won' ? 'won' : 'lost';
+    return { match: recorder.finish(result, 100 * (lines.length + 1)), board };
+}
+
+test('events survive encoding and decoding', () => {
+    const data = encodeMatchEvents(events);
+    assert.ok(data.every(Number.isSafeInteger));
+    assert.deepEqual(decodeMatchEvents(data), events);
+});
+
+test('a recorded game replays to the same board', () => {
+    const lines: ILine[] = [
+        { start: { x: 40.123, y: 0.456 }, end: { x: 75, y: 0 } },
+        { start: { x: 75, y: 0 }, end: { x: 110.001, y: 0 } },
+        { start: { x: -300, y: 200 }, end: { x: -150, y: 200 } },
+        { start: { x: 75, y: 20 }, end: { x: 75, y: 110 } },
+    ];
+    const { match, board } = recordMatch(lines, 2);
+    const stored = parseMatchDocument(JSON.parse(JSON.stringify(match)));
+
+    const replayed = replayMatch(stored);
+    assert.deepEqual(replayed.toSnapshot(), board.toSnapshot());
+    assert.equal(replayed.getLivesRemaining(), board.getLivesRemaining());
+    assert.equal(replayed.hintsUsed, 1);
+    assert.ok(replayed.getRemainingCuts() < replayed.totalCuts);
+});
+
+test('a recording continued after a resume keeps what was recorded before it', () => {
+    const lines: ILine[] = [
+        { start: { x: 40, y: 0 }, end: { x: 75, y: 0 } },
+        { start: { x: 75, y: 0 }, end: { x: 110, y: 0 } },
+    ];
+    const { match } = recordMatch(lines, -1);
+    const continued = MatchRecorder.continueFrom(match);
+    assert.deepEqual(continued.finish(match.result, match.duration), match);
+});
+
+test('malformed events are rejected', () => {
+    const data = encodeMatchEvents(events);
+    assert.throws(() => decodeMatchEvents([...data, 9, 0]), /Unknown match event op/);
+    assert.throws(() => decodeMatchEvents(data.slice(0, -1)), /cut short/);
+    assert.throws(() => decodeMatchEvents([2, -5]), /back in time/);
+    assert.throws(() => decodeMatchEvents([1, 0, 1.5, 2]), /not an integer/);
+    assert.throws(() => decodeMatchEvents([1, 0, Infinity, 2]), /not an integer/);
+});
+
+test('malformed match documents are rejected', () => {
+    const { match } = recordMatch([{ start: { x: 40, y: 0 }, end: { x: 110, y: 0 } }], -1);
+    const broken: [string, (doc: Record<string, unknown>) => void][] = [
+        ['no events', (doc) => delete doc.events],
+        ['another version', (doc) => (doc.version = 99)],
+        ['no player', (doc) => delete doc.playerName],
+        ['lives not a number', (doc) => (doc.lives = '3')],
+        ['no viewport', (doc) => (doc.viewport = null)],
+        ['bad events', (doc) => (doc.events = [7])],
+    ];
+    assert.doesNotThrow(() => parseMatchDocument(JSON.parse(JSON.stringify(match))));
+    assert.throws(() => parseMatchDocument(null));
+    for (const [name, breakDocument] of broken) {
+        const doc = JSON.parse(JSON.stringify(match));
+        breakDocument(doc);
+        assert.throws(() => parseMatchDocument(doc), Error, name);
+    }
+});
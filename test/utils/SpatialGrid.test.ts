@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SpatialGrid } from '../../src/utils/SpatialGrid.js';
+
+const box = (minX: number, minY: number, maxX: number, maxY: number) => ({
+    minX,
+    minY,
+    maxX,
+    maxY,
+});
+
+test('queries find the items whose cells overlap, in insertion order', () => {
+    const grid = new SpatialGrid<string>(10);
+    grid.insert('far', box(100, 100, 105, 105));
+    grid.insert('wide', box(-25, 0, 25, 5));
+    grid.insert('near', box(1, 1, 2, 2));
+
+    assert.deepEqual(grid.query(box(0, 0, 5, 5)), ['wide', 'near']);
+    assert.deepEqual(grid.query(box(-20, 0, -15, 1)), ['wide']);
+    assert.deepEqual(grid.query(box(50, 50, 60, 60)), []);
+});
+
+test('re-inserting moves an item but keeps its place in the order', () => {
+    const grid = new SpatialGrid<string>(10);
+    grid.insert('a', box(0, 0, 1, 1));
+    grid.insert('b', box(0, 0, 1, 1));
+    grid.insert('a', box(200, 200, 201, 201));
+    grid.insert('a', box(0, 0, 1, 1));
+
+    assert.deepEqual(grid.query(box(0, 0, 1, 1)), ['a', 'b']);
+    assert.equal(grid.size, 2);
+});
+
+test('removed items are no longer found', () => {
+    const grid = new SpatialGrid<string>(10);
+    grid.insert('a', box(0, 0, 30, 30));
+    assert.equal(grid.remove('a'), true);
+    assert.equal(grid.remove('a'), false);
+    assert.equal(grid.has('a'), false);
+    assert.deepEqual(grid.query(box(0, 0, 30, 30)), []);
+});
+
+test('the cell size must be positive', () => {
+    assert.throws(() => new SpatialGrid(0));
+    assert.throws(() => new SpatialGrid(NaN));
+});
@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { collideStrokeWithArcs } from '../../src/utils/mathUtils.js';
+import { createShapeModel } from '../../src/game/core/shapeFactory.js';
+
+const circle = createShapeModel({ center: { x: 0, y: 0 }, radius: 100 });
+const square = createShapeModel({
+    kind: 'polygon',
+    vertices: [
+        { x: 200, y: -50 },
+        { x: 300, y: -50 },
+        { x: 300, y: 50 },
+        { x: 200, y: 50 },
+    ],
+});
+const arcs = [...circle.arc, ...square.arc];
+
+test('a stroke through a circle hits it where it enters and leaves', () => {
+    const hits = collideStrokeWithArcs({ start: { x: -200, y: 0 }, end: { x: 200, y: 0 } }, arcs);
+    assert.equal(hits.length, 3);
+    assert.ok(Math.abs(hits[0].point.x + 100) < 1e-6);
+    assert.ok(Math.abs(hits[1].point.x - 100) < 1e-6);
+    assert.ok(Math.abs(hits[2].point.x - 200) < 1e-6);
+    assert.ok(hits.every((hit, i) => i === 0 || hits[i - 1].t <= hit.t));
+});
+
+test('hits are ordered along the stroke, whichever way it goes', () => {
+    const hits = collideStrokeWithArcs({ start: { x: 250, y: 0 }, end: { x: -250, y: 0 } }, arcs);
+    assert.deepEqual(
+        hits.map((hit) => Math.round(hit.point.x)),
+        [200, 100, -100],
+    );
+});
+
+test('a stroke grazing an outline is a tangent hit unless tangents are left out', () => {
+    const graze = { start: { x: -50, y: 100.05 }, end: { x: 50, y: 100.05 } };
+    const hits = collideStrokeWithArcs(graze, circle.arc);
+    assert.equal(hits.length, 1);
+    assert.equal(hits[0].tangent, true);
+    assert.deepEqual(collideStrokeWithArcs(graze, circle.arc, { includeTangents: false }), []);
+});
+
+test('a stroke ending just short of an outline still touches it within the tolerance', () => {
+    const short = { start: { x: -150, y: 0 }, end: { x: -100.05, y: 0 } };
+    assert.equal(collideStrokeWithArcs(short, circle.arc, { tolerance: 0.1 }).length, 1);
+    assert.equal(collideStrokeWithArcs(short, circle.arc, { tolerance: 0.01 }).length, 0);
+});
+
+test('a whole stroke hits what its segments hit together', () => {
+    const line = { start: { x: -180, y: -40 }, end: { x: 320, y: 30 } };
+    const whole = collideStrokeWithArcs(line, arcs).length;
+
+    let pieces = 0;
+    const steps = 9;
+    for (let k = 0; k < steps; k++) {
+        const at = (f: number) => ({
+            x: line.start.x + (line.end.x - line.start.x) * f,
+            y: line.start.y + (line.end.y - line.start.y) * f,
+        });
+        pieces += collideStrokeWithArcs({ start: at(k / steps), end: at((k + 1) / steps) }, arcs, {
+            tolerance: 0,
+        }).length;
+    }
+    assert.equal(whole, pieces);
+});